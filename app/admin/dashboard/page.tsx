@@ -1,7 +1,10 @@
 "use client";
 
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAccount } from "wagmi";
+import { useSession } from "@/lib/useSession";
+import type { AdminAuditLogResponse, OrdersResponse, TrackedOrder } from "@/lib/types";
 
 async function fetchMetrics() {
   const res = await fetch("/api/admin/metrics");
@@ -11,6 +14,34 @@ async function fetchMetrics() {
   return res.json();
 }
 
+async function fetchAuditLog(): Promise<AdminAuditLogResponse> {
+  const res = await fetch("/api/admin/audit-log?limit=20");
+  if (!res.ok) {
+    throw new Error("Failed to fetch audit log");
+  }
+  return res.json();
+}
+
+async function fetchOpenOrders(): Promise<OrdersResponse> {
+  const res = await fetch("/api/orders?status=open&limit=200");
+  if (!res.ok) {
+    throw new Error("Failed to fetch orders");
+  }
+  return res.json();
+}
+
+async function deleteOrders(path: string): Promise<void> {
+  const res = await fetch(path, { method: "DELETE" });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ message: "Cancel failed" }));
+    throw new Error(error.message || "Cancel failed");
+  }
+}
+
+function formatShares(wei: string): string {
+  return (Number(BigInt(wei) / BigInt(1e12)) / 1e6).toFixed(2);
+}
+
 function formatCurrency(value: string | number): string {
   const num = typeof value === "string" ? parseFloat(value) : value;
   if (isNaN(num)) return "$0.00";
@@ -32,11 +63,47 @@ function formatNumber(value: number): string {
 
 export default function AdminDashboard() {
   const { address } = useAccount();
+  const { session, isSigning, signIn } = useSession();
+  const isAdmin = session?.role === "admin";
   const { data, isLoading, error } = useQuery({
     queryKey: ["admin-metrics"],
     queryFn: fetchMetrics,
     refetchInterval: 30000, // Refresh every 30 seconds
+    enabled: isAdmin,
+  });
+  const { data: auditLog } = useQuery({
+    queryKey: ["admin-audit-log"],
+    queryFn: fetchAuditLog,
+    refetchInterval: 30000,
+    enabled: isAdmin,
+  });
+  const { data: openOrders } = useQuery({
+    queryKey: ["admin-open-orders"],
+    queryFn: fetchOpenOrders,
+    refetchInterval: 30000,
+    enabled: isAdmin,
   });
+  const queryClient = useQueryClient();
+  const [cancelling, setCancelling] = useState<string | null>(null);
+  const [cancelError, setCancelError] = useState<string | null>(null);
+
+  const cancelOrders = async (key: string, path: string) => {
+    setCancelling(key);
+    setCancelError(null);
+    try {
+      await deleteOrders(path);
+    } catch (err) {
+      setCancelError(err instanceof Error ? err.message : "Cancel failed");
+    } finally {
+      setCancelling(null);
+      await queryClient.invalidateQueries({ queryKey: ["admin-open-orders"] });
+    }
+  };
+
+  const ordersByMarket = new Map<number, TrackedOrder[]>();
+  for (const order of openOrders?.orders ?? []) {
+    ordersByMarket.set(order.marketId, [...(ordersByMarket.get(order.marketId) ?? []), order]);
+  }
 
   return (
     <div className="max-w-7xl mx-auto p-6">
@@ -51,7 +118,29 @@ export default function AdminDashboard() {
         </p>
       </div>
 
-      {isLoading && (
+      {!isAdmin && (
+        <div className="bg-terminal-surface border border-terminal-border rounded-lg p-12 text-center">
+          <div className="text-sm text-terminal-dim mb-6">
+            {session
+              ? "This wallet does not have the admin role."
+              : address
+                ? "Sign in with an admin wallet to view metrics."
+                : "Connect an admin wallet to view metrics."}
+          </div>
+          {address && !session && (
+            <button
+              type="button"
+              onClick={() => signIn().catch(() => undefined)}
+              disabled={isSigning}
+              className="px-4 py-2 text-xs rounded-full border border-terminal-accent text-terminal-accent hover:bg-terminal-accent/20 disabled:opacity-50"
+            >
+              {isSigning ? "Waiting for signature..." : "Sign in with Ethereum"}
+            </button>
+          )}
+        </div>
+      )}
+
+      {isAdmin && isLoading && (
         <div className="flex items-center justify-center py-12">
           <svg className="w-8 h-8 animate-spin text-terminal-accent" fill="none" viewBox="0 0 24 24">
             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
@@ -122,6 +211,93 @@ export default function AdminDashboard() {
             </div>
           )}
 
+          {/* Open orders across wallets */}
+          {openOrders && (
+            <div className="bg-terminal-surface border border-terminal-border rounded-lg p-6 mt-6">
+              <h2 className="text-sm font-medium text-terminal-text mb-4 flex items-center gap-2">
+                <span className="text-terminal-accent">&gt;</span>
+                OPEN ORDERS
+              </h2>
+              {cancelError && <div className="text-xs text-terminal-danger mb-3">{cancelError}</div>}
+              {ordersByMarket.size === 0 ? (
+                <div className="text-xs text-terminal-dim">No resting orders.</div>
+              ) : (
+                <div className="space-y-4 text-xs">
+                  {Array.from(ordersByMarket.entries()).map(([marketId, orders]) => (
+                    <div key={marketId}>
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-terminal-text font-mono">Market {marketId}</span>
+                        <button
+                          type="button"
+                          onClick={() => cancelOrders(`market:${marketId}`, `/api/orders?marketId=${marketId}`)}
+                          disabled={cancelling !== null}
+                          className="px-3 py-1 rounded-full border border-terminal-danger/50 text-terminal-danger hover:bg-terminal-danger/10 disabled:opacity-50"
+                        >
+                          {cancelling === `market:${marketId}` ? "Cancelling..." : `Cancel all (${orders.length})`}
+                        </button>
+                      </div>
+                      {orders.map((order) => (
+                        <div key={order.id} className="flex items-center gap-3 font-mono py-1">
+                          <span className="text-terminal-dim w-40 shrink-0">
+                            {new Date(order.createdAt).toLocaleString()}
+                          </span>
+                          <span className="text-terminal-text w-24 shrink-0 uppercase">
+                            {order.side} {order.orderType}
+                          </span>
+                          <span className="text-terminal-text w-20 shrink-0">
+                            {order.price === null ? "mkt" : order.price.toFixed(3)}
+                          </span>
+                          <span className="text-terminal-dim w-32 shrink-0">
+                            filled {formatShares(order.filledAmount)}
+                          </span>
+                          <span className="text-terminal-dim flex-1 truncate">{order.maker}</span>
+                          <span className="text-terminal-dim w-28 shrink-0">{order.status.replace("_", " ")}</span>
+                          <button
+                            type="button"
+                            onClick={() => cancelOrders(order.id, `/api/orders/${encodeURIComponent(order.id)}`)}
+                            disabled={cancelling !== null}
+                            className="text-terminal-danger hover:underline disabled:opacity-50"
+                          >
+                            {cancelling === order.id ? "Cancelling..." : "Cancel"}
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Admin audit log */}
+          {auditLog && (
+            <div className="bg-terminal-surface border border-terminal-border rounded-lg p-6 mt-6">
+              <h2 className="text-sm font-medium text-terminal-text mb-4 flex items-center gap-2">
+                <span className="text-terminal-accent">&gt;</span>
+                RECENT ADMIN ACTIONS
+              </h2>
+              {auditLog.entries.length === 0 ? (
+                <div className="text-xs text-terminal-dim">No admin actions recorded yet.</div>
+              ) : (
+                <div className="space-y-2 text-xs">
+                  {auditLog.entries.map((entry) => (
+                    <div key={entry.id} className="flex items-center gap-3 font-mono">
+                      <span className="text-terminal-dim w-40 shrink-0">
+                        {new Date(entry.createdAt).toLocaleString()}
+                      </span>
+                      <span className="text-terminal-text w-48 shrink-0 truncate">{entry.action}</span>
+                      <span className="text-terminal-dim flex-1 truncate">{entry.target ?? entry.path}</span>
+                      <span className="text-terminal-dim w-32 shrink-0 truncate">{entry.actor}</span>
+                      <span className={entry.status < 400 ? "text-terminal-accent" : "text-terminal-danger"}>
+                        {entry.status}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Info */}
           <div className="mt-6 text-center text-xs text-terminal-dim">
             Data refreshes every 30 seconds. Last updated: {new Date().toLocaleTimeString()}
@@ -2,7 +2,13 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import type { MarketsResponse, MarketMatch, PlatformSource } from "@/lib/types";
+import type {
+  ClusterOverrideAction,
+  MarketsResponse,
+  MarketMatch,
+  PlatformSource,
+  ResolutionField,
+} from "@/lib/types";
 import { getPlatformInfo } from "@/lib/platforms";
 import {
   normalizeMarketTitle,
@@ -10,8 +16,19 @@ import {
 import {
   marketThemes,
 } from "@/lib/marketThemes";
+import { useMarketStream } from "@/lib/useMarketStream";
+import { getSnapshotKey } from "@/lib/marketDelta";
+import { useWatchlists } from "@/lib/useWatchlists";
+import { MarketRow, getPlatformChipClass } from "@/components/MarketRow";
+import { OrderTicket } from "@/components/OrderTicket";
 
 const DEFAULT_LIMIT = 200;
+const ADMIN_TOKEN_STORAGE_KEY = "pmag-admin-token";
+const RESOLUTION_FIELD_LABELS: Record<ResolutionField, string> = {
+  source: "Resolution source",
+  deadline: "Deadline",
+  timezone: "Timezone",
+};
 
 async function fetchMarkets(limit: number = DEFAULT_LIMIT): Promise<MarketsResponse> {
   const res = await fetch(`/api/markets?limit=${limit}`);
@@ -22,8 +39,22 @@ async function fetchMarkets(limit: number = DEFAULT_LIMIT): Promise<MarketsRespo
   return res.json();
 }
 
-function formatPrice(price: number): string {
-  return `${(price * 100).toFixed(2)}¢`;
+async function submitClusterOverride(
+  adminToken: string,
+  override: { action: ClusterOverrideAction; marketKey: string; targetKey: string }
+): Promise<void> {
+  const res = await fetch("/api/admin/cluster-overrides", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${adminToken}`,
+    },
+    body: JSON.stringify(override),
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ message: "Request failed" }));
+    throw new Error(error.message || "Failed to save cluster override");
+  }
 }
 
 type SearchableMarket = {
@@ -71,130 +102,21 @@ function matchesSearch(text: string, tokens: string[]): boolean {
   });
 }
 
-function formatRelativeTime(timestamp: number): string {
-  const diffMs = timestamp - Date.now();
-  const absMs = Math.abs(diffMs);
-  const minutes = Math.round(absMs / 60000);
-
-  if (minutes < 1) {
-    return "just now";
-  }
-  if (minutes < 60) {
-    return diffMs >= 0 ? `in ${minutes}m` : `${minutes}m ago`;
-  }
-
-  const hours = Math.round(minutes / 60);
-  if (hours < 24) {
-    return diffMs >= 0 ? `in ${hours}h` : `${hours}h ago`;
-  }
-
-  const days = Math.round(hours / 24);
-  return diffMs >= 0 ? `in ${days}d` : `${days}d ago`;
-}
-
-function formatMarketLink(url?: string): string | null {
-  if (!url) {
-    return null;
-  }
-
-  try {
-    const parsed = new URL(url);
-    return `${parsed.hostname}${parsed.pathname}`;
-  } catch {
-    return url;
-  }
-}
-
-type MarketRowProps = {
-  market: MarketMatch["markets"][number];
-};
-
-function MarketRow({ market }: MarketRowProps) {
-  const info = getPlatformInfo(market.platform as PlatformSource);
-  const hasPreviewLink = Boolean(market.marketUrl) && market.marketUrl !== "#";
-  const linkLabel = formatMarketLink(market.marketUrl || undefined);
-  const Tag = hasPreviewLink ? "a" : "div";
-  const tagProps = hasPreviewLink
-    ? {
-        href: market.marketUrl,
-        target: "_blank",
-        rel: "noopener noreferrer",
-      }
-    : {};
-
-  return (
-    <Tag
-      key={`${market.platform}-${market.marketId}`}
-      {...tagProps}
-      className="group relative flex flex-wrap items-center justify-between gap-3 rounded-lg border border-terminal-border bg-terminal-surface px-4 py-3 transition hover:border-terminal-accent"
-    >
-      <div className="flex flex-col gap-1">
-        <div className="flex items-center gap-3">
-          <span
-            className={`rounded-full border px-2.5 py-1 text-[11px] font-semibold ${getPlatformChipClass(
-              info.color
-            )}`}
-          >
-            {info.displayName}
-          </span>
-          <span className="text-xs text-terminal-dim">{market.marketTitle}</span>
-        </div>
-        <div className="flex flex-wrap items-center gap-3 text-[11px] text-terminal-dim">
-          {market.category && (
-            <span className="rounded-full border border-terminal-border/60 px-2 py-0.5 uppercase tracking-wide">
-              {market.category}
-            </span>
-          )}
-          {market.tags?.slice(0, 2).map((tag) => (
-            <span
-              key={tag}
-              className="rounded-full border border-terminal-border/60 px-2 py-0.5 uppercase tracking-wide"
-            >
-              {tag}
-            </span>
-          ))}
-          {market.expiresAt && (
-            <span>{market.expiresAt > Date.now() ? "Ends" : "Ended"} {formatRelativeTime(market.expiresAt)}</span>
-          )}
-          {market.updatedAt && <span>Updated {formatRelativeTime(market.updatedAt)}</span>}
-          {linkLabel ? (
-            <span className="max-w-[220px] truncate" title={market.marketUrl}>
-              Link {linkLabel}
-            </span>
-          ) : (
-            <span>Link unavailable</span>
-          )}
-        </div>
-      </div>
-      <div className="flex items-center gap-4 text-xs">
-        <span className="text-terminal-dim">YES</span>
-        <span className="font-mono text-terminal-text">{formatPrice(market.yesPrice)}</span>
-        <span className="text-terminal-dim">NO</span>
-        <span className="font-mono text-terminal-text">{formatPrice(market.noPrice)}</span>
-        {hasPreviewLink && <span className="text-terminal-dim">Open →</span>}
-      </div>
-    </Tag>
-  );
-}
-
-function getPlatformChipClass(color: string): string {
-  const colorMap: Record<string, string> = {
-    "terminal-blue": "bg-terminal-blue/15 text-terminal-blue border-terminal-blue/30",
-    "terminal-green": "bg-terminal-green/15 text-terminal-green border-terminal-green/30",
-    "terminal-purple": "bg-terminal-purple/15 text-terminal-purple border-terminal-purple/30",
-    "terminal-orange": "bg-terminal-orange/15 text-terminal-orange border-terminal-orange/30",
-    "terminal-accent": "bg-terminal-accent/15 text-terminal-accent border-terminal-accent/30",
-    "terminal-warn": "bg-terminal-warn/15 text-terminal-warn border-terminal-warn/30",
-    "terminal-cyan": "bg-terminal-cyan/15 text-terminal-cyan border-terminal-cyan/30",
-  };
-  return colorMap[color] || "bg-terminal-border/30 text-terminal-text border-terminal-border";
-}
-
 export default function AggregationPage() {
   const [autoRefresh, setAutoRefresh] = useState<boolean>(true);
   const [limit] = useState<number>(DEFAULT_LIMIT);
   const [searchTerm, setSearchTerm] = useState<string>("");
   const [openClusters, setOpenClusters] = useState<Set<string>>(new Set());
+  const [isCurating, setIsCurating] = useState<boolean>(false);
+  const [adminToken, setAdminToken] = useState<string>("");
+  const [selectedMarketKey, setSelectedMarketKey] = useState<string | null>(null);
+  const [curationError, setCurationError] = useState<string | null>(null);
+  const [isSavingOverride, setIsSavingOverride] = useState<boolean>(false);
+  const [watchlistError, setWatchlistError] = useState<string | null>(null);
+  const [tradingMarketKey, setTradingMarketKey] = useState<string | null>(null);
+  const watchlists = useWatchlists();
+  const streamStatus = useMarketStream(limit, autoRefresh);
+  const isStreaming = streamStatus === "open";
 
   const {
     data,
@@ -206,9 +128,42 @@ export default function AggregationPage() {
   } = useQuery({
     queryKey: ["markets", limit],
     queryFn: () => fetchMarkets(limit),
-    refetchInterval: autoRefresh ? 15000 : false,
+    // Poll only while the live stream is unavailable
+    refetchInterval: autoRefresh && !isStreaming ? 15000 : false,
   });
 
+  useEffect(() => {
+    setAdminToken(sessionStorage.getItem(ADMIN_TOKEN_STORAGE_KEY) ?? "");
+  }, []);
+
+  const updateAdminToken = (value: string) => {
+    setAdminToken(value);
+    sessionStorage.setItem(ADMIN_TOKEN_STORAGE_KEY, value);
+  };
+
+  const curateCluster = async (action: ClusterOverrideAction, marketKey: string, targetKey: string) => {
+    setCurationError(null);
+    setIsSavingOverride(true);
+    try {
+      await submitClusterOverride(adminToken, { action, marketKey, targetKey });
+      setSelectedMarketKey(null);
+      await refetch();
+    } catch (err) {
+      setCurationError(err instanceof Error ? err.message : "Failed to save cluster override");
+    } finally {
+      setIsSavingOverride(false);
+    }
+  };
+
+  const toggleWatch = async (kind: "market" | "cluster", marketKey: string) => {
+    setWatchlistError(null);
+    try {
+      await watchlists.toggleItem({ kind, marketKey });
+    } catch (err) {
+      setWatchlistError(err instanceof Error ? err.message : "Failed to update watchlist");
+    }
+  };
+
   const themeGroups = useMemo(() => {
     const apiThemes = data?.themes ?? [];
     if (apiThemes.length === 0) {
@@ -373,7 +328,7 @@ export default function AggregationPage() {
                     : "bg-terminal-bg border-terminal-border text-terminal-dim"
                 }`}
               >
-                {autoRefresh ? "Auto refresh: ON" : "Auto refresh: OFF"}
+                {autoRefresh ? (isStreaming ? "Live: ON" : "Auto refresh: ON") : "Auto refresh: OFF"}
               </button>
               <button
                 onClick={() => refetch()}
@@ -382,8 +337,49 @@ export default function AggregationPage() {
               >
                 {isFetching ? "Refreshing..." : "Refresh"}
               </button>
+              <button
+                onClick={() => {
+                  setIsCurating(!isCurating);
+                  setSelectedMarketKey(null);
+                  setCurationError(null);
+                }}
+                className={`px-3 py-1.5 text-xs rounded-full border transition-colors ${
+                  isCurating
+                    ? "bg-terminal-accent/20 border-terminal-accent text-terminal-accent"
+                    : "bg-terminal-bg border-terminal-border text-terminal-dim"
+                }`}
+              >
+                {isCurating ? "Curate: ON" : "Curate"}
+              </button>
+              {watchlists.isConnected && !watchlists.isSignedIn && (
+                <button
+                  onClick={() => watchlists.signIn().catch(() => setWatchlistError("Wallet signature rejected"))}
+                  disabled={watchlists.isSigning}
+                  className="px-3 py-1.5 text-xs rounded-full border border-terminal-border text-terminal-dim hover:border-terminal-accent disabled:opacity-50"
+                >
+                  {watchlists.isSigning ? "Signing..." : "Enable watchlists"}
+                </button>
+              )}
             </div>
           </div>
+          {isCurating && (
+            <div className="mt-5 flex flex-wrap items-center gap-3 text-xs text-terminal-dim">
+              <input
+                type="password"
+                value={adminToken}
+                onChange={(event) => updateAdminToken(event.target.value)}
+                placeholder="Admin token"
+                className="w-full max-w-xs rounded-full border border-terminal-border bg-terminal-bg px-4 py-2 text-sm text-terminal-text placeholder:text-terminal-dim focus:border-terminal-accent focus:outline-none"
+              />
+              <span>
+                {selectedMarketKey
+                  ? `Selected ${selectedMarketKey}. Pin or merge it into another cluster.`
+                  : "Select a market to move it, or split it out of its cluster."}
+              </span>
+              {curationError && <span className="text-terminal-warn">{curationError}</span>}
+            </div>
+          )}
+          {watchlistError && <p className="mt-3 text-xs text-terminal-warn">{watchlistError}</p>}
           <div className="mt-5 flex flex-wrap items-center gap-3">
             <div className="relative w-full max-w-sm">
               <input
@@ -537,6 +533,12 @@ export default function AggregationPage() {
               <div className="mt-5 grid gap-3">
                 {group.clusters.map((cluster) => {
                   const isOpen = openClusters.has(cluster.id);
+                  const clusterKeys = cluster.markets.map((market) => getSnapshotKey(market));
+                  const canReceiveSelection =
+                    isCurating && selectedMarketKey !== null && !clusterKeys.includes(selectedMarketKey);
+                  const watchedClusterKey = watchlists.isSignedIn
+                    ? clusterKeys.find((key) => watchlists.isWatched({ kind: "cluster", marketKey: key }))
+                    : undefined;
                   return (
                     <div
                       key={cluster.id}
@@ -561,23 +563,158 @@ export default function AggregationPage() {
                         <div>
                           <p className="text-sm font-semibold text-terminal-text">
                             {cluster.title}
+                            {cluster.curated && (
+                              <span className="ml-2 rounded-full border border-terminal-accent/40 px-2 py-0.5 text-[10px] font-normal uppercase tracking-wide text-terminal-accent">
+                                Curated
+                              </span>
+                            )}
                           </p>
                           <p className="mt-1 text-xs text-terminal-dim">
                             {cluster.platformCount} platforms • {cluster.markets.length} markets
+                            {cluster.confidence !== undefined &&
+                              ` • ${Math.round(cluster.confidence * 100)}% match confidence`}
                           </p>
+                          {cluster.resolutionMismatches && cluster.resolutionMismatches.length > 0 && (
+                            <div className="mt-2 flex flex-wrap gap-2">
+                              {cluster.resolutionMismatches.map((mismatch) => (
+                                <span
+                                  key={mismatch.field}
+                                  title={mismatch.values
+                                    .map((entry) => `${getPlatformInfo(entry.platform).displayName}: ${entry.value}`)
+                                    .join("\n")}
+                                  className={`rounded-full border px-2 py-0.5 text-[10px] uppercase tracking-wide ${
+                                    mismatch.severity === "major"
+                                      ? "border-terminal-warn/40 text-terminal-warn"
+                                      : "border-terminal-border text-terminal-dim"
+                                  }`}
+                                >
+                                  {RESOLUTION_FIELD_LABELS[mismatch.field]} differs
+                                </span>
+                              ))}
+                            </div>
+                          )}
                         </div>
                         <span className="text-xs text-terminal-dim">
                           {isOpen ? "Hide" : "Show"}
                         </span>
                       </button>
+                      {watchlists.isSignedIn && (
+                        <button
+                          type="button"
+                          onClick={() => toggleWatch("cluster", watchedClusterKey ?? clusterKeys[0])}
+                          className={`mt-2 text-[11px] ${
+                            watchedClusterKey ? "text-terminal-accent" : "text-terminal-dim hover:text-terminal-text"
+                          }`}
+                        >
+                          {watchedClusterKey ? "Watching cluster" : "Watch cluster"}
+                        </button>
+                      )}
+                      {canReceiveSelection && (
+                        <div className="mt-3 flex flex-wrap gap-2 text-xs">
+                          <button
+                            type="button"
+                            disabled={isSavingOverride}
+                            onClick={() => curateCluster("pin", selectedMarketKey!, clusterKeys[0])}
+                            className="rounded-full border border-terminal-border px-3 py-1 text-terminal-text hover:border-terminal-accent disabled:opacity-50"
+                          >
+                            Pin selected here
+                          </button>
+                          <button
+                            type="button"
+                            disabled={isSavingOverride}
+                            onClick={() => curateCluster("merge", selectedMarketKey!, clusterKeys[0])}
+                            className="rounded-full border border-terminal-border px-3 py-1 text-terminal-text hover:border-terminal-accent disabled:opacity-50"
+                          >
+                            Merge selected here
+                          </button>
+                        </div>
+                      )}
                       {isOpen && (
                         <div className="mt-4 grid gap-3">
-                          {cluster.markets.map((market) => (
-                            <MarketRow
-                              key={`${market.platform}-${market.marketId}`}
-                              market={market}
-                            />
-                          ))}
+                          {cluster.markets.map((market, index) => {
+                            const marketKey = clusterKeys[index];
+                            const isTradable = market.platform === "opinion" && Boolean(market.yesTokenId);
+                            return (
+                              <div key={`${market.platform}-${market.marketId}`}>
+                                <MarketRow market={market} />
+                                {(isCurating || watchlists.isSignedIn || isTradable) && (
+                                  <div className="mt-1 flex gap-3 text-[11px] text-terminal-dim">
+                                    {isTradable && (
+                                      <button
+                                        type="button"
+                                        onClick={() =>
+                                          setTradingMarketKey(tradingMarketKey === marketKey ? null : marketKey)
+                                        }
+                                        className={
+                                          tradingMarketKey === marketKey
+                                            ? "text-terminal-accent"
+                                            : "hover:text-terminal-text"
+                                        }
+                                      >
+                                        Trade
+                                      </button>
+                                    )}
+                                    {watchlists.isSignedIn && (
+                                      <button
+                                        type="button"
+                                        onClick={() => toggleWatch("market", marketKey)}
+                                        className={
+                                          watchlists.isWatched({ kind: "market", marketKey })
+                                            ? "text-terminal-accent"
+                                            : "hover:text-terminal-text"
+                                        }
+                                      >
+                                        {watchlists.isWatched({ kind: "market", marketKey }) ? "Watching" : "Watch"}
+                                      </button>
+                                    )}
+                                    {isCurating && (
+                                      <>
+                                        <button
+                                          type="button"
+                                          onClick={() =>
+                                            setSelectedMarketKey(selectedMarketKey === marketKey ? null : marketKey)
+                                          }
+                                          className={
+                                            selectedMarketKey === marketKey
+                                              ? "text-terminal-accent"
+                                              : "hover:text-terminal-text"
+                                          }
+                                        >
+                                          {selectedMarketKey === marketKey ? "Selected" : "Select"}
+                                        </button>
+                                        {clusterKeys.length > 1 && (
+                                          <button
+                                            type="button"
+                                            disabled={isSavingOverride}
+                                            onClick={() =>
+                                              curateCluster(
+                                                "split",
+                                                marketKey,
+                                                clusterKeys.find((key) => key !== marketKey)!
+                                              )
+                                            }
+                                            className="hover:text-terminal-text disabled:opacity-50"
+                                          >
+                                            Split out
+                                          </button>
+                                        )}
+                                      </>
+                                    )}
+                                  </div>
+                                )}
+                                {isTradable && tradingMarketKey === marketKey && (
+                                  <OrderTicket
+                                    marketId={market.marketId}
+                                    marketTitle={market.marketTitle}
+                                    yesTokenId={market.yesTokenId}
+                                    noTokenId={market.noTokenId}
+                                    yesPrice={market.yesPrice}
+                                    noPrice={market.noPrice}
+                                  />
+                                )}
+                              </div>
+                            );
+                          })}
                         </div>
                       )}
                     </div>
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AdminAuditLogResponse } from "@/lib/types";
+import { getAdminAuditEntries } from "@/lib/database/queries";
+import { requireAdmin } from "@/lib/adminAuth";
+import { getCorsHeaders, addSecurityHeaders, sanitizeError } from "@/lib/security";
+import { validateLimitParam } from "@/lib/validation";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+const MAX_FILTER_LENGTH = 64;
+
+function invalidParam(message: string) {
+  return addSecurityHeaders(
+    NextResponse.json({ error: "INVALID_PARAM", message }, { status: 400, headers: getCorsHeaders() })
+  );
+}
+
+/**
+ * GET /api/admin/audit-log
+ *
+ * Admin actions (override/alert changes, indexer runs, debug access), newest first
+ *
+ * Auth: admin SIWE session or `Authorization: Bearer <ADMIN_API_TOKEN>`
+ *
+ * Query params:
+ * - actor: Wallet address or "api-token" (optional)
+ * - action: Action name, e.g. "cluster-override.create" (optional)
+ * - limit: Maximum entries to return (default: 100, max: 500)
+ *
+ * Response: AdminAuditLogResponse
+ */
+export async function GET(request: NextRequest) {
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const actor = searchParams.get("actor") ?? undefined;
+  const action = searchParams.get("action") ?? undefined;
+  const limitParam = searchParams.get("limit");
+
+  if (actor !== undefined && (actor.length === 0 || actor.length > MAX_FILTER_LENGTH)) {
+    return invalidParam("actor is invalid");
+  }
+  if (action !== undefined && (action.length === 0 || action.length > MAX_FILTER_LENGTH)) {
+    return invalidParam("action is invalid");
+  }
+
+  const parsedLimit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+
+  if (!validateLimitParam(limitParam) || !Number.isInteger(parsedLimit) || parsedLimit < 1) {
+    return invalidParam("limit must be a positive integer");
+  }
+
+  try {
+    const entries = await getAdminAuditEntries({ actor, action, limit: Math.min(MAX_LIMIT, parsedLimit) });
+    const payload: AdminAuditLogResponse = { entries };
+    return addSecurityHeaders(NextResponse.json(payload, { headers: getCorsHeaders() }));
+  } catch (error) {
+    return addSecurityHeaders(
+      NextResponse.json(
+        { error: "SERVER_ERROR", message: sanitizeError(error) },
+        { status: 500, headers: getCorsHeaders() }
+      )
+    );
+  }
+}
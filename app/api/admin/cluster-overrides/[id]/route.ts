@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteClusterOverride } from "@/lib/database/queries";
+import { invalidateClusterOverrides } from "@/lib/marketFeed";
+import { auditAdminAction, requireAdmin } from "@/lib/adminAuth";
+import { getCorsHeaders, addSecurityHeaders, sanitizeError } from "@/lib/security";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+/**
+ * DELETE /api/admin/cluster-overrides/[id]
+ *
+ * Remove a manual cluster override (admin only)
+ *
+ * Auth: admin SIWE session or `Authorization: Bearer <ADMIN_API_TOKEN>`
+ *
+ * Response: { deleted: true }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await params;
+    const deleted = await deleteClusterOverride(id);
+
+    if (!deleted) {
+      return addSecurityHeaders(
+        NextResponse.json(
+          { error: "NOT_FOUND", message: "Cluster override not found" },
+          { status: 404, headers: getCorsHeaders() }
+        )
+      );
+    }
+
+    invalidateClusterOverrides();
+    return auditAdminAction(
+      request,
+      auth.actor,
+      "cluster-override.delete",
+      addSecurityHeaders(NextResponse.json({ deleted: true }, { headers: getCorsHeaders() })),
+      { target: id }
+    );
+  } catch (error) {
+    return addSecurityHeaders(
+      NextResponse.json(
+        { error: "SERVER_ERROR", message: sanitizeError(error) },
+        { status: 500, headers: getCorsHeaders() }
+      )
+    );
+  }
+}
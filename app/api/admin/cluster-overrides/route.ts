@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ClusterOverridesResponse } from "@/lib/types";
+import { createClusterOverride, getClusterOverrides } from "@/lib/database/queries";
+import { isClusterOverrideAction, isValidMarketKey } from "@/lib/clusterOverrides";
+import { invalidateClusterOverrides } from "@/lib/marketFeed";
+import { auditAdminAction, requireAdmin } from "@/lib/adminAuth";
+import { getCorsHeaders, addSecurityHeaders, sanitizeError } from "@/lib/security";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+const MAX_NOTE_LENGTH = 500;
+
+function invalidInput(message: string) {
+  return addSecurityHeaders(
+    NextResponse.json(
+      { error: "INVALID_INPUT", message },
+      { status: 400, headers: getCorsHeaders() }
+    )
+  );
+}
+
+/**
+ * GET /api/admin/cluster-overrides
+ *
+ * List manual cluster overrides (admin only)
+ *
+ * Auth: admin SIWE session or `Authorization: Bearer <ADMIN_API_TOKEN>`
+ *
+ * Response: ClusterOverridesResponse
+ */
+export async function GET(request: NextRequest) {
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
+  }
+
+  try {
+    const overrides = await getClusterOverrides();
+    const payload: ClusterOverridesResponse = { overrides };
+    return addSecurityHeaders(NextResponse.json(payload, { headers: getCorsHeaders() }));
+  } catch (error) {
+    return addSecurityHeaders(
+      NextResponse.json(
+        { error: "SERVER_ERROR", message: sanitizeError(error) },
+        { status: 500, headers: getCorsHeaders() }
+      )
+    );
+  }
+}
+
+/**
+ * POST /api/admin/cluster-overrides
+ *
+ * Create a manual cluster override (admin only). Creating the same
+ * action/market/target again updates its note.
+ *
+ * Body:
+ * {
+ *   action: "merge" | "split" | "pin",
+ *   marketKey: string, // "platform:marketId" of the market being moved
+ *   targetKey: string, // "platform:marketId" of the reference market
+ *   note?: string
+ * }
+ *
+ * Response: ClusterOverride
+ */
+export async function POST(request: NextRequest) {
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return invalidInput("Request body must be a JSON object");
+    }
+
+    const { action, marketKey, targetKey, note } = body;
+
+    if (!isClusterOverrideAction(action)) {
+      return invalidInput("action must be 'merge', 'split' or 'pin'");
+    }
+
+    if (!isValidMarketKey(marketKey) || !isValidMarketKey(targetKey)) {
+      return invalidInput("marketKey and targetKey must look like 'platform:marketId'");
+    }
+
+    if (marketKey === targetKey) {
+      return invalidInput("marketKey and targetKey must differ");
+    }
+
+    if (note !== undefined && (typeof note !== "string" || note.length > MAX_NOTE_LENGTH)) {
+      return invalidInput(`note must be a string of at most ${MAX_NOTE_LENGTH} characters`);
+    }
+
+    const override = await createClusterOverride({ action, marketKey, targetKey, note });
+    invalidateClusterOverrides();
+
+    return auditAdminAction(
+      request,
+      auth.actor,
+      "cluster-override.create",
+      addSecurityHeaders(NextResponse.json(override, { status: 201, headers: getCorsHeaders() })),
+      { target: override.id, details: { action, marketKey, targetKey } }
+    );
+  } catch (error) {
+    return addSecurityHeaders(
+      NextResponse.json(
+        { error: "SERVER_ERROR", message: sanitizeError(error) },
+        { status: 500, headers: getCorsHeaders() }
+      )
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { FeeRevenueResponse } from "@/lib/types";
+import { getFeeConfigChanges, getIndexedFees } from "@/lib/database/queries";
+import { attributeFeesToBasisPoints } from "@/lib/feeRevenue";
+import { requireAdmin } from "@/lib/adminAuth";
+import { getCorsHeaders, addSecurityHeaders, sanitizeError } from "@/lib/security";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+function parseTimeParam(value: string | null): number | undefined | null {
+  if (value === null) {
+    return undefined;
+  }
+  if (value.length > 20) {
+    return null;
+  }
+
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) {
+    return numeric < 1_000_000_000_000 ? numeric * 1000 : numeric;
+  }
+
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function invalidParam(message: string) {
+  return addSecurityHeaders(
+    NextResponse.json({ error: "INVALID_PARAM", message }, { status: 400, headers: getCorsHeaders() })
+  );
+}
+
+/**
+ * GET /api/admin/fee-revenue
+ *
+ * Indexed FeeCollected revenue for a TradeRouter, split by the fee basis
+ * points in force when each fee was charged
+ *
+ * Auth: admin SIWE session or `Authorization: Bearer <ADMIN_API_TOKEN>`
+ *
+ * Query params:
+ * - contractAddress: TradeRouter address (required)
+ * - from: Only fees at or after, unix seconds/ms or ISO date (optional)
+ * - to: Only fees at or before, unix seconds/ms or ISO date (optional)
+ *
+ * Response: FeeRevenueResponse
+ */
+export async function GET(request: NextRequest) {
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
+  }
+
+  const { searchParams } = request.nextUrl;
+  const contractAddress = searchParams.get("contractAddress");
+  const from = parseTimeParam(searchParams.get("from"));
+  const to = parseTimeParam(searchParams.get("to"));
+
+  if (!contractAddress || !/^0x[a-fA-F0-9]{40}$/.test(contractAddress)) {
+    return invalidParam("contractAddress must be a contract address");
+  }
+  if (from === null || to === null || (from !== undefined && to !== undefined && from > to)) {
+    return invalidParam("Invalid from/to range");
+  }
+
+  try {
+    const [fees, changes] = await Promise.all([
+      getIndexedFees(contractAddress, {
+        from: from === undefined ? undefined : new Date(from),
+        to: to === undefined ? undefined : new Date(to),
+      }),
+      getFeeConfigChanges({ contractAddress }),
+    ]);
+    const periods = attributeFeesToBasisPoints(fees, changes);
+
+    const payload: FeeRevenueResponse = {
+      contractAddress: contractAddress.toLowerCase(),
+      totalFees: periods.reduce((total, period) => total + BigInt(period.totalFees), BigInt(0)).toString(),
+      periods,
+      changes,
+    };
+    return addSecurityHeaders(NextResponse.json(payload, { headers: getCorsHeaders() }));
+  } catch (error) {
+    return addSecurityHeaders(
+      NextResponse.json(
+        { error: "SERVER_ERROR", message: sanitizeError(error) },
+        { status: 500, headers: getCorsHeaders() }
+      )
+    );
+  }
+}
@@ -7,11 +7,15 @@ import {
   getUserTrades,
 } from "@/lib/database/queries";
 import { getCorsHeaders, addSecurityHeaders } from "@/lib/security";
+import { requireAdmin } from "@/lib/adminAuth";
+import { listMarketSources } from "@/lib/adapters";
 
 /**
  * GET /api/admin/metrics
  * 
- * Get operational metrics for the dashboard
+ * Get operational metrics for the dashboard (admin only)
+ * 
+ * Requires an admin SIWE session or `Authorization: Bearer <ADMIN_API_TOKEN>`
  * 
  * Query params:
  * - userAddress: Optional, get metrics for specific user
@@ -22,14 +26,17 @@ import { getCorsHeaders, addSecurityHeaders } from "@/lib/security";
  *   totalVolume: string,
  *   totalTrades: number,
  *   activeUsers: number,
+ *   sources: MarketSourceHealth[], // Per-venue health, HTTP metrics and dropped markets
  *   userMetrics?: {...}
  * }
  */
 export async function GET(request: NextRequest) {
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
+  }
+
   try {
-    // TODO: Add authentication/authorization check
-    // For now, allow anyone (should be admin-only in production)
-    
     const { searchParams } = request.nextUrl;
     const userAddress = searchParams.get("userAddress");
 
@@ -46,6 +53,7 @@ export async function GET(request: NextRequest) {
       totalVolume,
       totalTrades,
       activeUsers,
+      sources: listMarketSources().map((adapter) => adapter.health()),
     };
 
     // If user address provided, get user-specific metrics
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteAlertRule, setAlertRuleEnabled } from "@/lib/database/queries";
+import { invalidateAlertRules } from "@/lib/alertDispatcher";
+import { auditAdminAction, requireAdmin } from "@/lib/adminAuth";
+import { getCorsHeaders, addSecurityHeaders, sanitizeError } from "@/lib/security";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+function notFound() {
+  return addSecurityHeaders(
+    NextResponse.json(
+      { error: "NOT_FOUND", message: "Alert rule not found" },
+      { status: 404, headers: getCorsHeaders() }
+    )
+  );
+}
+
+function serverError(error: unknown) {
+  return addSecurityHeaders(
+    NextResponse.json(
+      { error: "SERVER_ERROR", message: sanitizeError(error) },
+      { status: 500, headers: getCorsHeaders() }
+    )
+  );
+}
+
+/**
+ * PATCH /api/alerts/[id]
+ *
+ * Enable or disable an alert rule (admin only)
+ *
+ * Body: { enabled: boolean }
+ *
+ * Response: AlertRule
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+
+    if (!body || typeof body.enabled !== "boolean") {
+      return addSecurityHeaders(
+        NextResponse.json(
+          { error: "INVALID_INPUT", message: "enabled must be a boolean" },
+          { status: 400, headers: getCorsHeaders() }
+        )
+      );
+    }
+
+    const rule = await setAlertRuleEnabled(id, body.enabled);
+    if (!rule) {
+      return notFound();
+    }
+
+    invalidateAlertRules();
+    return auditAdminAction(
+      request,
+      auth.actor,
+      body.enabled ? "alert-rule.enable" : "alert-rule.disable",
+      addSecurityHeaders(NextResponse.json(rule, { headers: getCorsHeaders() })),
+      { target: id }
+    );
+  } catch (error) {
+    return serverError(error);
+  }
+}
+
+/**
+ * DELETE /api/alerts/[id]
+ *
+ * Remove an alert rule (admin only). Its alert history is kept.
+ *
+ * Response: { deleted: true }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = await params;
+    const deleted = await deleteAlertRule(id);
+
+    if (!deleted) {
+      return notFound();
+    }
+
+    invalidateAlertRules();
+    return auditAdminAction(
+      request,
+      auth.actor,
+      "alert-rule.delete",
+      addSecurityHeaders(NextResponse.json({ deleted: true }, { headers: getCorsHeaders() })),
+      { target: id }
+    );
+  } catch (error) {
+    return serverError(error);
+  }
+}
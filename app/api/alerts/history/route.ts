@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AlertHistoryResponse } from "@/lib/types";
+import { getAlertEvents } from "@/lib/database/queries";
+import { requireAdmin } from "@/lib/adminAuth";
+import { getCorsHeaders, addSecurityHeaders, sanitizeError } from "@/lib/security";
+import { validateLimitParam } from "@/lib/validation";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+const MAX_RULE_ID_LENGTH = 64;
+
+/**
+ * GET /api/alerts/history
+ *
+ * Delivered and failed alerts, newest first (admin only)
+ *
+ * Query params:
+ * - ruleId: Only alerts from this rule (optional)
+ * - limit: Maximum events to return (default: 100, max: 500)
+ *
+ * Response: AlertHistoryResponse
+ */
+export async function GET(request: NextRequest) {
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const ruleId = searchParams.get("ruleId") ?? undefined;
+  const limitParam = searchParams.get("limit");
+
+  if (ruleId !== undefined && (ruleId.length === 0 || ruleId.length > MAX_RULE_ID_LENGTH)) {
+    return addSecurityHeaders(
+      NextResponse.json(
+        { error: "INVALID_PARAM", message: "ruleId is invalid" },
+        { status: 400, headers: getCorsHeaders() }
+      )
+    );
+  }
+
+  const parsedLimit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+
+  if (!validateLimitParam(limitParam) || !Number.isInteger(parsedLimit) || parsedLimit < 1) {
+    return addSecurityHeaders(
+      NextResponse.json(
+        { error: "INVALID_PARAM", message: "limit must be a positive integer" },
+        { status: 400, headers: getCorsHeaders() }
+      )
+    );
+  }
+
+  try {
+    const events = await getAlertEvents({ ruleId, limit: Math.min(MAX_LIMIT, parsedLimit) });
+    const payload: AlertHistoryResponse = { events };
+    return addSecurityHeaders(NextResponse.json(payload, { headers: getCorsHeaders() }));
+  } catch (error) {
+    return addSecurityHeaders(
+      NextResponse.json(
+        { error: "SERVER_ERROR", message: sanitizeError(error) },
+        { status: 500, headers: getCorsHeaders() }
+      )
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AlertRulesResponse } from "@/lib/types";
+import { createAlertRule, getAlertRules } from "@/lib/database/queries";
+import { parseAlertRuleInput } from "@/lib/alerts";
+import { invalidateAlertRules } from "@/lib/alertDispatcher";
+import { auditAdminAction, requireAdmin } from "@/lib/adminAuth";
+import { getCorsHeaders, addSecurityHeaders, sanitizeError } from "@/lib/security";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+function serverError(error: unknown) {
+  return addSecurityHeaders(
+    NextResponse.json(
+      { error: "SERVER_ERROR", message: sanitizeError(error) },
+      { status: 500, headers: getCorsHeaders() }
+    )
+  );
+}
+
+/**
+ * GET /api/alerts
+ *
+ * List alert rules (admin only)
+ *
+ * Auth: admin SIWE session or `Authorization: Bearer <ADMIN_API_TOKEN>`
+ *
+ * Response: AlertRulesResponse
+ */
+export async function GET(request: NextRequest) {
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
+  }
+
+  try {
+    const rules = await getAlertRules();
+    const payload: AlertRulesResponse = { rules };
+    return addSecurityHeaders(NextResponse.json(payload, { headers: getCorsHeaders() }));
+  } catch (error) {
+    return serverError(error);
+  }
+}
+
+/**
+ * POST /api/alerts
+ *
+ * Create an alert rule (admin only). Rules are evaluated on every
+ * /api/markets refresh and delivered to `webhookUrl`.
+ *
+ * Body:
+ * {
+ *   name: string,
+ *   type: "price_cross" | "spread" | "source_error" | "expiry",
+ *   webhookUrl: string, // https; Slack and Discord webhooks work as-is
+ *   marketKey?: string, // "platform:marketId"; required except for source_error
+ *   platform?: string, // source_error only; any source when omitted
+ *   direction?: "above" | "below", // price_cross
+ *   threshold?: number, // price_cross (YES price) and spread (price gap), 0-1
+ *   windowMinutes?: number, // expiry
+ *   cooldownMinutes?: number // Default 60
+ * }
+ *
+ * Response: AlertRule
+ */
+export async function POST(request: NextRequest) {
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = parseAlertRuleInput(body);
+
+    if ("error" in parsed) {
+      return addSecurityHeaders(
+        NextResponse.json(
+          { error: "INVALID_INPUT", message: parsed.error },
+          { status: 400, headers: getCorsHeaders() }
+        )
+      );
+    }
+
+    const rule = await createAlertRule(parsed.input);
+    invalidateAlertRules();
+
+    return auditAdminAction(
+      request,
+      auth.actor,
+      "alert-rule.create",
+      addSecurityHeaders(NextResponse.json(rule, { status: 201, headers: getCorsHeaders() })),
+      { target: rule.id, details: { type: rule.type, marketKey: rule.marketKey, platform: rule.platform } }
+    );
+  } catch (error) {
+    return serverError(error);
+  }
+}
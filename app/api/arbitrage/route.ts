@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ArbitrageResponse } from "@/lib/types";
+import { apiRateLimiter, getClientIdentifier } from "@/lib/rateLimit";
+import { getCorsHeaders, sanitizeError, addSecurityHeaders } from "@/lib/security";
+import { validateLimitParam } from "@/lib/validation";
+import { getCachedMarkets } from "@/lib/marketFeed";
+import { findArbitrageOpportunities } from "@/lib/arbitrage";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+const DEFAULT_LIMIT = 200;
+const MIN_LIMIT = 5;
+const MAX_LIMIT = 200;
+const MIN_EDGE_BOUND = 1;
+
+function parseLimit(searchParams: URLSearchParams): number {
+  const limitParam = searchParams.get("limit");
+
+  if (limitParam === null || !validateLimitParam(limitParam)) {
+    return DEFAULT_LIMIT;
+  }
+
+  const parsed = Number.parseInt(limitParam, 10);
+
+  if (Number.isNaN(parsed)) {
+    return DEFAULT_LIMIT;
+  }
+
+  return Math.max(MIN_LIMIT, Math.min(MAX_LIMIT, parsed));
+}
+
+function parseMinEdge(searchParams: URLSearchParams): number | null {
+  const minEdgeParam = searchParams.get("minEdge");
+
+  if (minEdgeParam === null) {
+    return 0;
+  }
+
+  if (minEdgeParam.length > 10) {
+    return null;
+  }
+
+  const parsed = Number.parseFloat(minEdgeParam);
+
+  if (!Number.isFinite(parsed) || Math.abs(parsed) > MIN_EDGE_BOUND) {
+    return null;
+  }
+
+  return parsed;
+}
+
+function parseMinConfidence(searchParams: URLSearchParams): number | null {
+  const minConfidenceParam = searchParams.get("minConfidence");
+
+  if (minConfidenceParam === null) {
+    return 0;
+  }
+
+  if (minConfidenceParam.length > 10) {
+    return null;
+  }
+
+  const parsed = Number.parseFloat(minConfidenceParam);
+
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+    return null;
+  }
+
+  return parsed;
+}
+
+/**
+ * GET /api/arbitrage
+ *
+ * Scan clustered markets for cross-platform YES/NO pairings that cost
+ * less than the $1 payout after fees.
+ *
+ * Query params:
+ * - limit: Markets to fetch per platform (optional, default 200)
+ * - minEdge: Minimum net edge per $1 payout (optional, default 0)
+ * - minConfidence: Minimum resolution-criteria confidence of the two legs,
+ *   0-1 (optional, default 0). Each opportunity lists the resolution terms
+ *   (source, deadline, timezone) on which its legs disagree.
+ *
+ * Response:
+ * {
+ *   updatedAt: number,
+ *   opportunities: ArbitrageOpportunity[], // Ranked by net edge
+ *   sources: Record<PlatformSource, PlatformSourceState>
+ * }
+ */
+export async function GET(request: NextRequest) {
+  const identifier = getClientIdentifier(request);
+
+  if (!apiRateLimiter.isAllowed(identifier)) {
+    const response = NextResponse.json(
+      {
+        error: "RATE_LIMITED",
+        message: "Too many requests. Please try again later.",
+      },
+      { status: 429, headers: getCorsHeaders() }
+    );
+
+    return addSecurityHeaders(response);
+  }
+
+  const { searchParams } = request.nextUrl;
+  const limit = parseLimit(searchParams);
+  const minNetEdge = parseMinEdge(searchParams);
+  const minConfidence = parseMinConfidence(searchParams);
+
+  if (minNetEdge === null) {
+    const response = NextResponse.json(
+      {
+        error: "INVALID_PARAM",
+        message: "minEdge must be a number between -1 and 1",
+      },
+      { status: 400, headers: getCorsHeaders() }
+    );
+
+    return addSecurityHeaders(response);
+  }
+
+  if (minConfidence === null) {
+    const response = NextResponse.json(
+      {
+        error: "INVALID_PARAM",
+        message: "minConfidence must be a number between 0 and 1",
+      },
+      { status: 400, headers: getCorsHeaders() }
+    );
+
+    return addSecurityHeaders(response);
+  }
+
+  try {
+    const { data: markets } = await getCachedMarkets(limit);
+    const now = Date.now();
+
+    const data: ArbitrageResponse = {
+      updatedAt: now,
+      opportunities: findArbitrageOpportunities(markets.clusters ?? [], {
+        minNetEdge,
+        minConfidence,
+        now,
+      }),
+      sources: markets.sources,
+    };
+
+    const response = NextResponse.json(data, { headers: getCorsHeaders() });
+    return addSecurityHeaders(response);
+  } catch (error) {
+    const response = NextResponse.json(
+      {
+        error: "ARBITRAGE_SCAN_FAILED",
+        message: sanitizeError(error),
+      },
+      { status: 500, headers: getCorsHeaders() }
+    );
+
+    return addSecurityHeaders(response);
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: getCorsHeaders(),
+  });
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { endSession } from "@/lib/session";
+import { getCorsHeaders, addSecurityHeaders } from "@/lib/security";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+/**
+ * POST /api/auth/logout
+ *
+ * Clear the session cookie
+ *
+ * Response: { signedOut: true }
+ */
+export async function POST() {
+  const response = NextResponse.json({ signedOut: true }, { headers: getCorsHeaders() });
+  endSession(response);
+  return addSecurityHeaders(response);
+}
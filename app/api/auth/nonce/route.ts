@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiRateLimiter, getClientIdentifier } from "@/lib/rateLimit";
+import { NONCE_COOKIE, NONCE_TTL_MS, generateNonce, isSessionAuthEnabled } from "@/lib/session";
+import { getCorsHeaders, addSecurityHeaders } from "@/lib/security";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+/**
+ * GET /api/auth/nonce
+ *
+ * Issue a one-time nonce for a Sign-In-With-Ethereum message. The nonce is
+ * also set in an HTTP-only cookie that /api/auth/verify checks against.
+ *
+ * Response: { nonce: string }
+ */
+export async function GET(request: NextRequest) {
+  if (!apiRateLimiter.isAllowed(getClientIdentifier(request))) {
+    return addSecurityHeaders(
+      NextResponse.json(
+        { error: "RATE_LIMITED", message: "Too many requests. Please try again later." },
+        { status: 429, headers: getCorsHeaders() }
+      )
+    );
+  }
+
+  if (!isSessionAuthEnabled()) {
+    return addSecurityHeaders(
+      NextResponse.json(
+        { error: "AUTH_DISABLED", message: "Wallet sign-in is not configured" },
+        { status: 503, headers: getCorsHeaders() }
+      )
+    );
+  }
+
+  const nonce = generateNonce();
+  const response = NextResponse.json({ nonce }, { headers: { ...getCorsHeaders(), "Cache-Control": "no-store" } });
+  response.cookies.set(NONCE_COOKIE, nonce, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/api/auth",
+    maxAge: NONCE_TTL_MS / 1000,
+  });
+
+  return addSecurityHeaders(response);
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/session";
+import { getCorsHeaders, addSecurityHeaders } from "@/lib/security";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+/**
+ * GET /api/auth/session
+ *
+ * Current wallet session
+ *
+ * Response: Session, or 401 when signed out
+ */
+export async function GET(request: NextRequest) {
+  const auth = requireSession(request);
+  if ("response" in auth) {
+    return addSecurityHeaders(auth.response);
+  }
+
+  return addSecurityHeaders(
+    NextResponse.json(auth.session, { headers: { ...getCorsHeaders(), "Cache-Control": "no-store" } })
+  );
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiRateLimiter, getClientIdentifier } from "@/lib/rateLimit";
+import {
+  NONCE_COOKIE,
+  createSession,
+  isSessionAuthEnabled,
+  setSessionCookie,
+  verifySiweLogin,
+} from "@/lib/session";
+import { getCorsHeaders, addSecurityHeaders, sanitizeError } from "@/lib/security";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+/**
+ * POST /api/auth/verify
+ *
+ * Verify a signed SIWE (EIP-4361) message and start a session. The
+ * message must use the nonce from /api/auth/nonce and this site's domain.
+ *
+ * Body: { message: string, signature: string }
+ *
+ * Response: Session (also set as an HTTP-only cookie)
+ */
+export async function POST(request: NextRequest) {
+  if (!apiRateLimiter.isAllowed(getClientIdentifier(request))) {
+    return addSecurityHeaders(
+      NextResponse.json(
+        { error: "RATE_LIMITED", message: "Too many requests. Please try again later." },
+        { status: 429, headers: getCorsHeaders() }
+      )
+    );
+  }
+
+  if (!isSessionAuthEnabled()) {
+    return addSecurityHeaders(
+      NextResponse.json(
+        { error: "AUTH_DISABLED", message: "Wallet sign-in is not configured" },
+        { status: 503, headers: getCorsHeaders() }
+      )
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.message !== "string" || typeof body.signature !== "string") {
+      return addSecurityHeaders(
+        NextResponse.json(
+          { error: "INVALID_INPUT", message: "message and signature are required" },
+          { status: 400, headers: getCorsHeaders() }
+        )
+      );
+    }
+
+    const login = await verifySiweLogin({
+      message: body.message,
+      signature: body.signature,
+      nonce: request.cookies.get(NONCE_COOKIE)?.value,
+      domain: request.headers.get("host") ?? request.nextUrl.host,
+    });
+
+    if ("error" in login) {
+      return addSecurityHeaders(
+        NextResponse.json(
+          { error: "UNAUTHORIZED", message: login.error },
+          { status: 401, headers: getCorsHeaders() }
+        )
+      );
+    }
+
+    const session = createSession(login);
+    const response = NextResponse.json(session, { headers: getCorsHeaders() });
+    setSessionCookie(response, session);
+
+    return addSecurityHeaders(response);
+  } catch (error) {
+    return addSecurityHeaders(
+      NextResponse.json(
+        { error: "SERVER_ERROR", message: sanitizeError(error) },
+        { status: 500, headers: getCorsHeaders() }
+      )
+    );
+  }
+}
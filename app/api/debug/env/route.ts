@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCorsHeaders, addSecurityHeaders } from "@/lib/security";
+import { auditAdminAction, requireAdmin } from "@/lib/adminAuth";
 
 /**
  * GET /api/debug/env
@@ -7,19 +8,12 @@ import { getCorsHeaders, addSecurityHeaders } from "@/lib/security";
  * Debug endpoint to check environment variable configuration.
  * Only shows whether variables are set, not their values (for security).
  * 
- * This endpoint should be removed or protected in production.
+ * Auth: admin SIWE session or `Authorization: Bearer <ADMIN_API_TOKEN>`
  */
 export async function GET(request: NextRequest): Promise<NextResponse> {
-  // Only allow in development or with a secret key
-  const debugKey = request.nextUrl.searchParams.get("key");
-  const isDevelopment = process.env.NODE_ENV === "development";
-  
-  // In production, require a debug key
-  if (!isDevelopment && debugKey !== process.env.DEBUG_SECRET_KEY) {
-    return NextResponse.json(
-      { error: "Unauthorized" },
-      { status: 401, headers: getCorsHeaders() }
-    );
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
   }
 
   const envInfo = {
@@ -51,7 +45,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     headers: getCorsHeaders(),
   });
   
-  return addSecurityHeaders(response);
+  return auditAdminAction(request, auth.actor, "debug.env", addSecurityHeaders(response));
 }
 
 
@@ -1,12 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCorsHeaders, addSecurityHeaders } from "@/lib/security";
+import { auditAdminAction, requireAdmin } from "@/lib/adminAuth";
 import { fetchMarketDetails } from "@/lib/opinionClient";
 
 /**
  * Test endpoint to check market details endpoint and see if it returns topicId
  * GET /api/debug/market-details?marketId=1463
+ *
+ * Auth: admin SIWE session or `Authorization: Bearer <ADMIN_API_TOKEN>`
  */
 export async function GET(request: NextRequest) {
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
+  }
+
+  return auditAdminAction(
+    request,
+    auth.actor,
+    "debug.market-details",
+    addSecurityHeaders(await fetchDebugMarketDetails(request)),
+    { target: request.nextUrl.searchParams.get("marketId") ?? undefined }
+  );
+}
+
+async function fetchDebugMarketDetails(request: NextRequest): Promise<NextResponse> {
   try {
     const { searchParams } = request.nextUrl;
     const marketId = parseInt(searchParams.get("marketId") || "1463", 10);
@@ -26,19 +44,6 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Extract all possible topicId fields
-    const topicIdFields = {
-      topic_id: (details as any).topic_id,
-      topicId: (details as any).topicId,
-      topic_id_number: (details as any).topic_id_number,
-      topicIdNumber: (details as any).topicIdNumber,
-      topic_id_string: (details as any).topic_id_string,
-      topicIdString: (details as any).topicIdString,
-      topic: (details as any).topic,
-      questionId: details.questionId,
-      marketId: details.marketId,
-    };
-
     return NextResponse.json(
       {
         success: true,
@@ -46,9 +51,8 @@ export async function GET(request: NextRequest) {
         details: {
           marketId: details.marketId,
           marketTitle: details.marketTitle,
-          allKeys: Object.keys(details),
-          topicIdFields,
-          fullResponse: details,
+          topicId: details.topicId, // First of the topic id aliases the payload carries
+          parsed: details,
         },
         timestamp: Date.now(),
       },
@@ -1,11 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCorsHeaders, addSecurityHeaders } from "@/lib/security";
+import { auditAdminAction, requireAdmin } from "@/lib/adminAuth";
 
 /**
  * Test endpoint to directly call Opinion API and see raw response
  * GET /api/debug/opinion-api?limit=20
+ *
+ * Auth: admin SIWE session or `Authorization: Bearer <ADMIN_API_TOKEN>`
  */
 export async function GET(request: NextRequest) {
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
+  }
+
+  return auditAdminAction(
+    request,
+    auth.actor,
+    "debug.opinion-api",
+    addSecurityHeaders(await fetchRawMarkets(request))
+  );
+}
+
+async function fetchRawMarkets(request: NextRequest): Promise<NextResponse> {
   try {
     const apiKey = process.env.OPINION_API_KEY;
     const baseUrl = process.env.OPINION_OPENAPI_BASE_URL;
@@ -1,11 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCorsHeaders, addSecurityHeaders } from "@/lib/security";
+import { auditAdminAction, requireAdmin } from "@/lib/adminAuth";
 
 /**
  * Test endpoint to directly call Opinion Price API and see raw response
  * GET /api/debug/price-api?tokenId=91263182015381827009811905354009393225622653324877176380977546025702641459008
+ *
+ * Auth: admin SIWE session or `Authorization: Bearer <ADMIN_API_TOKEN>`
  */
 export async function GET(request: NextRequest) {
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
+  }
+
+  return auditAdminAction(
+    request,
+    auth.actor,
+    "debug.price-api",
+    addSecurityHeaders(await fetchRawPrice(request)),
+    { target: request.nextUrl.searchParams.get("tokenId") ?? undefined }
+  );
+}
+
+async function fetchRawPrice(request: NextRequest): Promise<NextResponse> {
   try {
     const apiKey = process.env.OPINION_API_KEY;
     const baseUrl = process.env.OPINION_OPENAPI_BASE_URL;
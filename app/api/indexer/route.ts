@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { handleIndexerRequest } from "@/lib/indexer";
 import { getCorsHeaders, addSecurityHeaders } from "@/lib/security";
+import { auditAdminAction, requireAdmin } from "@/lib/adminAuth";
 
 /**
  * POST /api/indexer
@@ -12,18 +13,39 @@ import { getCorsHeaders, addSecurityHeaders } from "@/lib/security";
  * - By Vercel Cron Job (scheduled)
  * - By external monitoring service
  * 
+ * Auth: admin SIWE session or `Authorization: Bearer <ADMIN_API_TOKEN>`
+ *
  * Query params:
- * - contractAddress: TradeRouter contract address (required)
+ * - contractAddress: TradeRouter or FeeTracker contract address (required)
  * 
  * Response:
  * {
  *   success: boolean,
- *   indexedBlocks?: number,
+ *   indexedBlocks?: number,  // blocks scanned, including the re-checked unconfirmed window
  *   lastBlock?: string,
+ *   newTrades?: number,
+ *   newEvents?: number,  // trades, fees and fee config changes stored
+ *   removedRows?: number,  // rows dropped from reorganized blocks
  *   error?: string
  * }
  */
 export async function POST(request: NextRequest) {
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
+  }
+
+  const contractAddress = request.nextUrl.searchParams.get("contractAddress") ?? undefined;
+  return auditAdminAction(
+    request,
+    auth.actor,
+    "indexer.run",
+    addSecurityHeaders(await runIndexer(request)),
+    { target: contractAddress }
+  );
+}
+
+async function runIndexer(request: NextRequest): Promise<NextResponse> {
   try {
     // Get contract address from query params or body
     const { searchParams } = request.nextUrl;
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { PlatformSource, PriceHistoryResponse } from "@/lib/types";
+import { apiRateLimiter, getClientIdentifier } from "@/lib/rateLimit";
+import { getCorsHeaders, sanitizeError, addSecurityHeaders } from "@/lib/security";
+import { validateTokenId } from "@/lib/validation";
+import { platformInfo } from "@/lib/platforms";
+import { getPriceCandles } from "@/lib/database/queries";
+import {
+  CANDLE_INTERVAL_MS,
+  DEFAULT_LOOKBACK_MS,
+  isCandleInterval,
+} from "@/lib/priceHistory";
+
+export const runtime = "nodejs";
+
+const MAX_RANGE_MS = 366 * 24 * 60 * 60 * 1000;
+
+function parseTimeParam(value: string | null, fallback: number): number | null {
+  if (value === null) {
+    return fallback;
+  }
+
+  if (value.length > 20) {
+    return null;
+  }
+
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) {
+    return numeric < 1_000_000_000_000 ? numeric * 1000 : numeric;
+  }
+
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function errorResponse(error: string, message: string, status: number) {
+  const response = NextResponse.json(
+    { error, message },
+    { status, headers: getCorsHeaders() }
+  );
+  return addSecurityHeaders(response);
+}
+
+/**
+ * GET /api/markets/[platform]/[marketId]/history?interval=1m|1h|1d
+ *
+ * Returns OHLC candles built from recorded price snapshots
+ *
+ * Query params:
+ * - interval: Candle interval (optional, default 1h)
+ * - from: Range start, unix seconds/ms or ISO date (optional)
+ * - to: Range end, unix seconds/ms or ISO date (optional, default now)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ platform: string; marketId: string }> }
+) {
+  const clientId = getClientIdentifier(request);
+  if (!apiRateLimiter.isAllowed(clientId)) {
+    return errorResponse("RATE_LIMITED", "Too many requests. Please try again later.", 429);
+  }
+
+  const { platform, marketId } = await params;
+
+  if (!Object.prototype.hasOwnProperty.call(platformInfo, platform)) {
+    return errorResponse("INVALID_PARAM", "Unknown platform", 400);
+  }
+
+  if (!validateTokenId(marketId)) {
+    return errorResponse("INVALID_PARAM", "Invalid marketId format", 400);
+  }
+
+  const { searchParams } = request.nextUrl;
+  const interval = searchParams.get("interval") ?? "1h";
+
+  if (!isCandleInterval(interval)) {
+    return errorResponse("INVALID_PARAM", "interval must be one of 1m, 1h, 1d", 400);
+  }
+
+  const now = Date.now();
+  const to = parseTimeParam(searchParams.get("to"), now);
+  const from = to === null ? null : parseTimeParam(searchParams.get("from"), to - DEFAULT_LOOKBACK_MS[interval]);
+
+  if (to === null || from === null || from > to) {
+    return errorResponse("INVALID_PARAM", "Invalid from/to range", 400);
+  }
+
+  if (to - from > MAX_RANGE_MS) {
+    return errorResponse("INVALID_PARAM", "Requested range is too large", 400);
+  }
+
+  try {
+    const candles = await getPriceCandles(
+      platform,
+      marketId,
+      new Date(from),
+      new Date(to),
+      CANDLE_INTERVAL_MS[interval]
+    );
+
+    const data: PriceHistoryResponse = {
+      platform: platform as PlatformSource,
+      marketId,
+      interval,
+      from,
+      to,
+      candles,
+    };
+
+    const response = NextResponse.json(data, { headers: getCorsHeaders() });
+    return addSecurityHeaders(response);
+  } catch (error) {
+    return errorResponse("HISTORY_FETCH_FAILED", sanitizeError(error), 500);
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: getCorsHeaders(),
+  });
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { PlatformSource } from "@/lib/types";
+import { apiRateLimiter, getClientIdentifier } from "@/lib/rateLimit";
+import { getCorsHeaders, sanitizeError, addSecurityHeaders } from "@/lib/security";
+import { validateLimitParam } from "@/lib/validation";
+import { platformInfo } from "@/lib/platforms";
+import { auditAdminAction, requireAdmin } from "@/lib/adminAuth";
+import { getResolvedMarkets, syncResolutions } from "@/lib/resolutions";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+function parseTimeParam(value: string | null): number | undefined | null {
+  if (value === null) {
+    return undefined;
+  }
+  if (value.length > 20) {
+    return null;
+  }
+
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) {
+    return numeric < 1_000_000_000_000 ? numeric * 1000 : numeric;
+  }
+
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function errorResponse(error: string, message: string, status: number) {
+  return addSecurityHeaders(NextResponse.json({ error, message }, { status, headers: getCorsHeaders() }));
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: getCorsHeaders(),
+  });
+}
+
+/**
+ * GET /api/markets/resolved
+ *
+ * Markets every venue reports as resolved, with post-mortems for clusters
+ * whose venues resolved to different outcomes. Venues are polled at most
+ * every 5 minutes.
+ *
+ * Query params:
+ * - platform: Only this venue (optional)
+ * - since: Only markets resolved at or after, unix seconds/ms or ISO date (optional)
+ * - limit: Maximum resolutions to return (default: 100, max: 500)
+ *
+ * Response: ResolvedMarketsResponse
+ */
+export async function GET(request: NextRequest) {
+  if (!apiRateLimiter.isAllowed(getClientIdentifier(request))) {
+    return errorResponse("RATE_LIMITED", "Too many requests. Please try again later.", 429);
+  }
+
+  const { searchParams } = request.nextUrl;
+  const platform = searchParams.get("platform") ?? undefined;
+  const since = parseTimeParam(searchParams.get("since"));
+  const limitParam = searchParams.get("limit");
+  const parsedLimit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+
+  if (platform !== undefined && !Object.prototype.hasOwnProperty.call(platformInfo, platform)) {
+    return errorResponse("INVALID_PARAM", "Unknown platform", 400);
+  }
+  if (since === null) {
+    return errorResponse("INVALID_PARAM", "since must be a unix timestamp or ISO date", 400);
+  }
+  if (!validateLimitParam(limitParam) || !Number.isInteger(parsedLimit) || parsedLimit < 1) {
+    return errorResponse("INVALID_PARAM", "limit must be a positive integer", 400);
+  }
+
+  try {
+    const payload = await getResolvedMarkets({
+      platform: platform as PlatformSource | undefined,
+      since,
+      limit: Math.min(MAX_LIMIT, parsedLimit),
+    });
+    return addSecurityHeaders(NextResponse.json(payload, { headers: getCorsHeaders() }));
+  } catch (error) {
+    return errorResponse("SERVER_ERROR", sanitizeError(error), 500);
+  }
+}
+
+/**
+ * POST /api/markets/resolved
+ *
+ * Poll every venue now, store new resolutions and settle trades on them
+ *
+ * Auth: admin SIWE session or `Authorization: Bearer <ADMIN_API_TOKEN>`
+ *
+ * Response: { polledAt, newResolutions, settledTrades, sources }
+ */
+export async function POST(request: NextRequest) {
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
+  }
+
+  let response: NextResponse;
+  let details: Record<string, unknown> | undefined;
+  try {
+    const poll = await syncResolutions(true);
+    details = { newResolutions: poll.newResolutions, settledTrades: poll.settledTrades };
+    response = addSecurityHeaders(
+      NextResponse.json(
+        {
+          polledAt: poll.polledAt,
+          newResolutions: poll.newResolutions,
+          settledTrades: poll.settledTrades,
+          sources: poll.sources,
+        },
+        { headers: getCorsHeaders() }
+      )
+    );
+  } catch (error) {
+    response = errorResponse("SERVER_ERROR", sanitizeError(error), 500);
+  }
+
+  return auditAdminAction(request, auth.actor, "resolutions.sync", response, { details });
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiRateLimiter, getClientIdentifier } from "@/lib/rateLimit";
+import { getCorsHeaders, addSecurityHeaders } from "@/lib/security";
+import { validateLimitParam } from "@/lib/validation";
+import { subscribeMarketStream } from "@/lib/marketStream";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 50;
+const MIN_LIMIT = 5;
+const MAX_LIMIT = 200;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const MAX_STREAM_AGE_MS = 5 * 60_000; // Clients reconnect automatically
+const RECONNECT_DELAY_MS = 2_000;
+
+function parseLimit(searchParams: URLSearchParams): number {
+  const limitParam = searchParams.get("limit");
+
+  if (limitParam === null || !validateLimitParam(limitParam)) {
+    return DEFAULT_LIMIT;
+  }
+
+  const parsed = Number.parseInt(limitParam, 10);
+
+  if (Number.isNaN(parsed)) {
+    return DEFAULT_LIMIT;
+  }
+
+  return Math.max(MIN_LIMIT, Math.min(MAX_LIMIT, parsed));
+}
+
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * GET /api/markets/stream?limit=<limit>
+ *
+ * Server-Sent Events stream of market updates, backed by the per-platform
+ * caches used by /api/markets. Connections asking for the same limit share
+ * one process-wide refresh loop (see lib/marketStream).
+ *
+ * Events:
+ * - snapshot: Full MarketsResponse (on connect and when markets are added/removed)
+ * - delta: MarketsDelta with changed snapshots and source status transitions
+ * - warning: { message } when a refresh fails; the stream stays open
+ */
+export async function GET(request: NextRequest) {
+  const identifier = getClientIdentifier(request);
+
+  if (!apiRateLimiter.isAllowed(identifier)) {
+    const response = NextResponse.json(
+      {
+        error: "RATE_LIMITED",
+        message: "Too many requests. Please try again later.",
+      },
+      { status: 429, headers: getCorsHeaders() }
+    );
+
+    return addSecurityHeaders(response);
+  }
+
+  const limit = parseLimit(request.nextUrl.searchParams);
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const send = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+      const unsubscribe = subscribeMarketStream(limit, (event) => send(formatEvent(event.type, event.data)));
+
+      const close = () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeatTimer);
+        clearTimeout(maxAgeTimer);
+        request.signal.removeEventListener("abort", close);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime
+        }
+      };
+
+      const heartbeatTimer = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+      const maxAgeTimer = setTimeout(close, MAX_STREAM_AGE_MS);
+
+      request.signal.addEventListener("abort", close);
+      cleanup = close;
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  const response = new NextResponse(stream, {
+    headers: {
+      ...getCorsHeaders(),
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+
+  return addSecurityHeaders(response);
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: getCorsHeaders(),
+  });
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiError, QuoteResponse } from "@/lib/types";
+import { validateTokenId } from "@/lib/validation";
+import { apiRateLimiter, getClientIdentifier } from "@/lib/rateLimit";
+import { getCorsHeaders, sanitizeError, addSecurityHeaders } from "@/lib/security";
+import { MAX_ORDERBOOK_DEPTH, quoteOrder } from "@/lib/orderbook";
+import {
+  fetchOrderbook,
+  isMockOrderbookEnabled,
+  isOrderbookVenue,
+} from "@/lib/orderbookSources";
+
+const MAX_ORDER_SIZE = 10_000_000;
+
+function parseAmount(value: string | null): number | null {
+  if (value === null || value.length > 20) {
+    return null;
+  }
+
+  const parsed = Number.parseFloat(value);
+  if (!Number.isFinite(parsed) || parsed <= 0 || parsed > MAX_ORDER_SIZE) {
+    return null;
+  }
+
+  return parsed;
+}
+
+function invalidParam(message: string): NextResponse<ApiError> {
+  const response = NextResponse.json(
+    { error: "INVALID_PARAM", message },
+    { status: 400, headers: getCorsHeaders() }
+  );
+  return addSecurityHeaders(response);
+}
+
+/**
+ * GET /api/orderbook/quote?tokenId=<tokenId>&side=buy|sell&size=<shares>
+ *
+ * Walks the full orderbook to estimate the effective fill for an order
+ * (volume-weighted average price, slippage vs mid, worst level touched
+ * and unfillable remainder).
+ *
+ * Query params:
+ * - tokenId: Venue token ID (required)
+ * - side: "buy" | "sell" (required)
+ * - size: Order size in shares (required unless notional is set)
+ * - notional: Order size in dollars (alternative to size)
+ * - platform: "opinion" | "polymarket" (optional, default opinion)
+ * - mock: "1" to quote against mock data (see /api/orderbook)
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<QuoteResponse | ApiError>> {
+  try {
+    const clientId = getClientIdentifier(request);
+    if (!apiRateLimiter.isAllowed(clientId)) {
+      const response = NextResponse.json(
+        {
+          error: "RATE_LIMIT_EXCEEDED",
+          message: "Too many requests. Please try again later.",
+        },
+        { status: 429, headers: getCorsHeaders() }
+      );
+      return addSecurityHeaders(response);
+    }
+
+    const { searchParams } = request.nextUrl;
+    const tokenId = searchParams.get("tokenId");
+    const side = searchParams.get("side");
+    const platform = searchParams.get("platform") ?? "opinion";
+
+    if (!tokenId || !validateTokenId(tokenId)) {
+      return invalidParam("A valid tokenId is required");
+    }
+
+    if (side !== "buy" && side !== "sell") {
+      return invalidParam("side must be 'buy' or 'sell'");
+    }
+
+    if (!isOrderbookVenue(platform)) {
+      return invalidParam("platform must be 'opinion' or 'polymarket'");
+    }
+
+    const hasNotional = searchParams.has("notional");
+    const amount = parseAmount(searchParams.get(hasNotional ? "notional" : "size"));
+    if (amount === null) {
+      return invalidParam(`${hasNotional ? "notional" : "size"} must be a positive number`);
+    }
+
+    const useMock = isMockOrderbookEnabled(searchParams.get("mock") === "1");
+    const book = await fetchOrderbook(platform, tokenId, MAX_ORDERBOOK_DEPTH, useMock);
+
+    if (!book) {
+      const response = NextResponse.json(
+        { error: "NOT_FOUND", message: "No orderbook available for this token" },
+        { status: 404, headers: getCorsHeaders() }
+      );
+      return addSecurityHeaders(response);
+    }
+
+    const data: QuoteResponse = {
+      source: book.source,
+      quote: quoteOrder(book.orderbook, side, amount, hasNotional ? "notional" : "shares"),
+      timestamp: book.timestamp,
+    };
+
+    const response = NextResponse.json(data, { headers: getCorsHeaders() });
+    return addSecurityHeaders(response);
+  } catch (error) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("[/api/orderbook/quote] Error:", sanitizeError(error));
+    }
+
+    const response = NextResponse.json(
+      { error: "API_ERROR", message: "Failed to quote order" },
+      { status: 500, headers: getCorsHeaders() }
+    );
+    return addSecurityHeaders(response);
+  }
+}
+
+/**
+ * OPTIONS handler for CORS preflight
+ */
+export async function OPTIONS(): Promise<NextResponse> {
+  const response = new NextResponse(null, {
+    status: 204,
+    headers: getCorsHeaders(),
+  });
+  return addSecurityHeaders(response);
+}
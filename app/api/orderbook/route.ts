@@ -3,51 +3,41 @@ import type { OrderbookResponse, ApiError } from "@/lib/types";
 import { validateTokenId } from "@/lib/validation";
 import { apiRateLimiter, getClientIdentifier } from "@/lib/rateLimit";
 import { getCorsHeaders, sanitizeError, addSecurityHeaders } from "@/lib/security";
+import { DEFAULT_ORDERBOOK_DEPTH, MAX_ORDERBOOK_DEPTH } from "@/lib/orderbook";
+import {
+  fetchOrderbook,
+  isMockOrderbookEnabled,
+  isOrderbookVenue,
+} from "@/lib/orderbookSources";
 
-/**
- * Generate mock orderbook data for a token
- * In production, this would fetch from Opinion API
- */
-function generateMockOrderbook(tokenId: string): OrderbookResponse {
-  // Use tokenId hash for deterministic mock data
-  const hash = tokenId.split("").reduce((a, b) => {
-    a = (a << 5) - a + b.charCodeAt(0);
-    return a & a;
-  }, 0);
-
-  const seed = Math.abs(hash) / 2147483647;
-  const basePrice = 0.3 + seed * 0.4; // 0.30 - 0.70 range
-
-  const bestBid = {
-    price: parseFloat((basePrice - 0.01 - seed * 0.02).toFixed(3)),
-    size: Math.floor(100 + seed * 500),
-  };
+function parseDepth(depthParam: string | null): number | null {
+  if (depthParam === null) {
+    return DEFAULT_ORDERBOOK_DEPTH;
+  }
 
-  const bestAsk = {
-    price: parseFloat((basePrice + 0.01 + seed * 0.02).toFixed(3)),
-    size: Math.floor(100 + seed * 400),
-  };
+  if (depthParam.length > 3) {
+    return null;
+  }
 
-  const spread = parseFloat((bestAsk.price - bestBid.price).toFixed(4));
-  const midPrice = parseFloat(((bestBid.price + bestAsk.price) / 2).toFixed(4));
+  const parsed = Number.parseInt(depthParam, 10);
+  if (Number.isNaN(parsed) || parsed < 1 || parsed > MAX_ORDERBOOK_DEPTH) {
+    return null;
+  }
 
-  return {
-    tokenId,
-    orderbook: {
-      tokenId,
-      bestBid,
-      bestAsk,
-      spread,
-      midPrice,
-    },
-    timestamp: Date.now(),
-  };
+  return parsed;
 }
 
 /**
  * GET /api/orderbook?tokenId=<tokenId>
  *
- * Returns orderbook data for a token (best bid/ask, spread)
+ * Returns full-depth orderbook data for a token (levels, best bid/ask, spread)
+ *
+ * Query params:
+ * - tokenId: Venue token ID (required)
+ * - platform: "opinion" | "polymarket" (optional, default opinion)
+ * - depth: Levels per side, 1-50 (optional, default 10)
+ * - mock: "1" to serve deterministic mock data (ignored in production
+ *   unless ORDERBOOK_MOCK=1)
  */
 export async function GET(
   request: NextRequest
@@ -96,9 +86,44 @@ export async function GET(
       return addSecurityHeaders(response);
     }
 
-    // For MVP, return mock data
-    // In production, fetch from Opinion API
-    const response = generateMockOrderbook(tokenId);
+    const platform = searchParams.get("platform") ?? "opinion";
+    if (!isOrderbookVenue(platform)) {
+      const response = NextResponse.json(
+        {
+          error: "INVALID_PARAM",
+          message: "platform must be 'opinion' or 'polymarket'",
+        },
+        { status: 400, headers: getCorsHeaders() }
+      );
+      return addSecurityHeaders(response);
+    }
+
+    const depth = parseDepth(searchParams.get("depth"));
+    if (depth === null) {
+      const response = NextResponse.json(
+        {
+          error: "INVALID_PARAM",
+          message: `depth must be between 1 and ${MAX_ORDERBOOK_DEPTH}`,
+        },
+        { status: 400, headers: getCorsHeaders() }
+      );
+      return addSecurityHeaders(response);
+    }
+
+    const useMock = isMockOrderbookEnabled(searchParams.get("mock") === "1");
+    const response = await fetchOrderbook(platform, tokenId, depth, useMock);
+
+    if (!response) {
+      const notFound = NextResponse.json(
+        {
+          error: "NOT_FOUND",
+          message: "No orderbook available for this token",
+        },
+        { status: 404, headers: getCorsHeaders() }
+      );
+      return addSecurityHeaders(notFound);
+    }
+
     const jsonResponse = NextResponse.json(response, {
       headers: getCorsHeaders(),
     });
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiRateLimiter, getClientIdentifier } from "@/lib/rateLimit";
+import { getCorsHeaders, addSecurityHeaders, sanitizeError } from "@/lib/security";
+import { validateTokenId } from "@/lib/validation";
+import { auditAdminAction } from "@/lib/adminAuth";
+import { isOrderOpen } from "@/lib/orderLifecycle";
+import { canManageOrder, cancelTrackedOrder, getOrderCaller, getTrackedOrder } from "@/lib/orders";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+function errorResponse(status: number, error: string, message: string) {
+  return addSecurityHeaders(
+    NextResponse.json({ error, message }, { status, headers: getCorsHeaders() })
+  );
+}
+
+/**
+ * GET /api/orders/[id]
+ *
+ * A tracked order with its status history, re-checked against the CLOB
+ * when open
+ *
+ * Auth: its maker (SIWE session) or an admin;
+ * other callers get 404
+ *
+ * Response: TrackedOrder
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!apiRateLimiter.isAllowed(getClientIdentifier(request))) {
+    return errorResponse(429, "RATE_LIMITED", "Too many requests. Please try again later.");
+  }
+
+  const caller = getOrderCaller(request);
+  if (!caller.admin && !caller.wallet) {
+    return errorResponse(401, "UNAUTHORIZED", "Sign in with your wallet to view orders");
+  }
+
+  try {
+    const { id } = await params;
+    if (!validateTokenId(id)) {
+      return errorResponse(400, "INVALID_PARAM", "Invalid order id");
+    }
+
+    // Someone else's order looks the same as a missing one
+    const order = await getTrackedOrder(id);
+    if (!order || !canManageOrder(caller, order)) {
+      return errorResponse(404, "NOT_FOUND", "Order not found");
+    }
+
+    return addSecurityHeaders(NextResponse.json(order, { headers: getCorsHeaders() }));
+  } catch (error) {
+    return errorResponse(500, "SERVER_ERROR", sanitizeError(error));
+  }
+}
+
+/**
+ * DELETE /api/orders/[id]
+ *
+ * Cancel an open order (its maker, or an admin; audited as "orders.cancel")
+ *
+ * Auth: admin, or the maker's SIWE session
+ *
+ * Response: TrackedOrder after the cancellation
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!apiRateLimiter.isAllowed(getClientIdentifier(request))) {
+    return errorResponse(429, "RATE_LIMITED", "Too many requests. Please try again later.");
+  }
+
+  const caller = getOrderCaller(request);
+  if (!caller.admin && !caller.wallet) {
+    return errorResponse(401, "UNAUTHORIZED", "Sign in with your wallet to cancel orders");
+  }
+
+  const { id } = await params;
+  let response: NextResponse;
+  try {
+    const order = validateTokenId(id) ? await getTrackedOrder(id) : null;
+
+    // Someone else's order looks the same as a missing one
+    if (!order || !canManageOrder(caller, order)) {
+      response = errorResponse(404, "NOT_FOUND", "Order not found");
+    } else if (!isOrderOpen(order.status)) {
+      response = errorResponse(409, "ORDER_CLOSED", `Order is already ${order.status}`);
+    } else {
+      const cancelled = await cancelTrackedOrder(order);
+      response = cancelled
+        ? addSecurityHeaders(NextResponse.json(cancelled, { headers: getCorsHeaders() }))
+        : errorResponse(502, "CANCEL_FAILED", "Opinion did not accept the cancellation");
+    }
+  } catch (error) {
+    response = errorResponse(500, "SERVER_ERROR", sanitizeError(error));
+  }
+
+  return caller.admin ? auditAdminAction(request, caller.admin, "orders.cancel", response, { target: id }) : response;
+}
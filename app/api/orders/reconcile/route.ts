@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCorsHeaders, addSecurityHeaders, sanitizeError } from "@/lib/security";
+import { auditAdminAction, requireAdmin } from "@/lib/adminAuth";
+import { syncOrders } from "@/lib/orders";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+/**
+ * POST /api/orders/reconcile
+ *
+ * Re-check open orders against the Opinion CLOB and pick up resting
+ * orders placed elsewhere, now, e.g. from a cron job
+ *
+ * Auth: admin SIWE session or `Authorization: Bearer <ADMIN_API_TOKEN>`
+ *
+ * Response: { reconciledAt, checked, updated, failed, imported }
+ */
+export async function POST(request: NextRequest) {
+  const auth = requireAdmin(request);
+  if ("response" in auth) {
+    return auth.response;
+  }
+
+  let response: NextResponse;
+  let details: Record<string, unknown> | undefined;
+  try {
+    const result = await syncOrders(true);
+    details = { checked: result.checked, updated: result.updated, failed: result.failed, imported: result.imported };
+    response = addSecurityHeaders(NextResponse.json(result, { headers: getCorsHeaders() }));
+  } catch (error) {
+    response = addSecurityHeaders(
+      NextResponse.json(
+        { error: "SERVER_ERROR", message: sanitizeError(error) },
+        { status: 500, headers: getCorsHeaders() }
+      )
+    );
+  }
+
+  return auditAdminAction(request, auth.actor, "orders.reconcile", response, { details });
+}
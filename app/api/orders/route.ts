@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAddress } from "viem";
+import type { OpinionOrderState, OrdersResponse } from "@/lib/types";
+import { apiRateLimiter, getClientIdentifier } from "@/lib/rateLimit";
+import { getCorsHeaders, addSecurityHeaders, sanitizeError } from "@/lib/security";
+import { validateLimitParam, validateMarketId } from "@/lib/validation";
+import { auditAdminAction } from "@/lib/adminAuth";
+import { OPEN_ORDER_STATES } from "@/lib/orderLifecycle";
+import { cancelMarketOrders, getOrderCaller, listOrders } from "@/lib/orders";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+const ORDER_STATES: OpinionOrderState[] = ["pending", "partially_filled", "filled", "cancelled", "rejected"];
+
+function errorResponse(status: number, error: string, message: string) {
+  return addSecurityHeaders(
+    NextResponse.json({ error, message }, { status, headers: getCorsHeaders() })
+  );
+}
+
+function parseMarketId(value: string | null): number | undefined | null {
+  if (value === null) {
+    return undefined;
+  }
+  return /^\d{1,15}$/.test(value) && validateMarketId(value) ? Number(value) : null;
+}
+
+function parseStatuses(value: string | null): OpinionOrderState[] | undefined | null {
+  if (value === null || value === "open") {
+    return OPEN_ORDER_STATES;
+  }
+  if (value === "all") {
+    return undefined;
+  }
+  const statuses = value.split(",") as OpinionOrderState[];
+  return statuses.every((status) => ORDER_STATES.includes(status)) ? statuses : null;
+}
+
+/**
+ * GET /api/orders
+ *
+ * Orders placed through /api/trades, plus resting orders the same wallets
+ * placed on the CLOB elsewhere, newest first. Returns stored state at
+ * once; open orders are reconciled with the Opinion CLOB in the
+ * background at most every 30 seconds.
+ *
+ * Auth: admins see every wallet's orders; other callers need a SIWE
+ * session and see only their own
+ *
+ * Query params:
+ * - status: "open" (default), "all", or comma-separated states
+ * - marketId: Only this Opinion market (optional)
+ * - maker: Only this wallet (admin only, optional)
+ * - limit: Maximum orders to return (default: 100, max: 500)
+ *
+ * Response: OrdersResponse
+ */
+export async function GET(request: NextRequest) {
+  if (!apiRateLimiter.isAllowed(getClientIdentifier(request))) {
+    return errorResponse(429, "RATE_LIMITED", "Too many requests. Please try again later.");
+  }
+
+  const caller = getOrderCaller(request);
+  if (!caller.admin && !caller.wallet) {
+    return errorResponse(401, "UNAUTHORIZED", "Sign in with your wallet to view orders");
+  }
+
+  const { searchParams } = request.nextUrl;
+  const statuses = parseStatuses(searchParams.get("status"));
+  const marketId = parseMarketId(searchParams.get("marketId"));
+  const makerParam = searchParams.get("maker");
+  const limitParam = searchParams.get("limit");
+  const parsedLimit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+
+  if (statuses === null) {
+    return errorResponse(400, "INVALID_PARAM", `status must be "open", "all" or one of ${ORDER_STATES.join(", ")}`);
+  }
+  if (marketId === null) {
+    return errorResponse(400, "INVALID_PARAM", "marketId must be a positive integer");
+  }
+  if (makerParam !== null && !isAddress(makerParam)) {
+    return errorResponse(400, "INVALID_PARAM", "maker must be an address");
+  }
+  if (!validateLimitParam(limitParam) || !Number.isInteger(parsedLimit) || parsedLimit < 1) {
+    return errorResponse(400, "INVALID_PARAM", "limit must be a positive integer");
+  }
+
+  try {
+    const maker = caller.admin ? makerParam ?? undefined : caller.wallet!;
+    const payload: OrdersResponse = await listOrders(
+      { maker, marketId, statuses },
+      Math.min(MAX_LIMIT, parsedLimit)
+    );
+    return addSecurityHeaders(NextResponse.json(payload, { headers: getCorsHeaders() }));
+  } catch (error) {
+    return errorResponse(500, "SERVER_ERROR", sanitizeError(error));
+  }
+}
+
+/**
+ * DELETE /api/orders?marketId=
+ *
+ * Cancel every open order on a market: all wallets' for admins (audited
+ * as "orders.cancel-market"), otherwise only the caller's
+ *
+ * Auth: admin, or a SIWE session
+ *
+ * Response: { cancelled: string[], failed: string[] } (order ids)
+ */
+export async function DELETE(request: NextRequest) {
+  if (!apiRateLimiter.isAllowed(getClientIdentifier(request))) {
+    return errorResponse(429, "RATE_LIMITED", "Too many requests. Please try again later.");
+  }
+
+  const caller = getOrderCaller(request);
+  if (!caller.admin && !caller.wallet) {
+    return errorResponse(401, "UNAUTHORIZED", "Sign in with your wallet to cancel orders");
+  }
+
+  const marketId = parseMarketId(request.nextUrl.searchParams.get("marketId"));
+  if (marketId === undefined || marketId === null) {
+    return errorResponse(400, "INVALID_PARAM", "marketId is required and must be a positive integer");
+  }
+
+  let response: NextResponse;
+  let details: Record<string, unknown> | undefined;
+  try {
+    const result = await cancelMarketOrders(marketId, caller.admin ? undefined : caller.wallet!);
+    details = { cancelled: result.cancelled.length, failed: result.failed.length };
+    response = addSecurityHeaders(NextResponse.json(result, { headers: getCorsHeaders() }));
+  } catch (error) {
+    response = errorResponse(500, "SERVER_ERROR", sanitizeError(error));
+  }
+
+  return caller.admin
+    ? auditAdminAction(request, caller.admin, "orders.cancel-market", response, { target: String(marketId), details })
+    : response;
+}
+
+/**
+ * OPTIONS handler for CORS preflight
+ */
+export async function OPTIONS(): Promise<NextResponse> {
+  const response = new NextResponse(null, {
+    status: 204,
+    headers: getCorsHeaders(),
+  });
+  return addSecurityHeaders(response);
+}
@@ -1,37 +1,38 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getUserTrades, getUserMetrics } from "@/lib/database/queries";
+import { getPortfolio } from "@/lib/portfolioValuation";
 import { getCorsHeaders, addSecurityHeaders } from "@/lib/security";
+import { requireSession } from "@/lib/session";
 
 /**
  * GET /api/portfolio
  * 
- * Get user's portfolio data (trades, metrics)
+ * Get a wallet's positions, mark-to-market valuation and recent trades
+ * 
+ * Requires a SIWE session. Users can only read their own portfolio;
+ * admins can read any address.
  * 
  * Query params:
- * - userAddress: User's wallet address (required)
+ * - userAddress: User's wallet address (defaults to the session address)
  * 
- * Response:
+ * Response: PortfolioResponse (dollar amounts)
  * {
- *   trades: Trade[],
- *   portfolioValue: string,
- *   totalFees: string,
- *   totalTrades: number
+ *   address: string,
+ *   positions: PortfolioPosition[],  // per (marketId, side), open first
+ *   summary: PortfolioSummary,       // value, cost basis, fees, realized/unrealized PnL
+ *   trades: PortfolioTrade[],        // newest 100
+ *   updatedAt: number
  * }
  */
 export async function GET(request: NextRequest) {
+  const auth = requireSession(request);
+  if ("response" in auth) {
+    return addSecurityHeaders(auth.response);
+  }
+  const { session } = auth;
+
   try {
     const { searchParams } = request.nextUrl;
-    const userAddress = searchParams.get("userAddress");
-
-    if (!userAddress) {
-      return NextResponse.json(
-        {
-          error: "MISSING_PARAM",
-          message: "userAddress is required",
-        },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
+    const userAddress = searchParams.get("userAddress") ?? session.address;
 
     // Validate address format
     if (!userAddress.match(/^0x[a-fA-F0-9]{40}$/)) {
@@ -44,38 +45,18 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get user trades and metrics
-    const [trades, metrics] = await Promise.all([
-      getUserTrades(userAddress, 100),
-      getUserMetrics(userAddress),
-    ]);
+    if (userAddress.toLowerCase() !== session.address && session.role !== "admin") {
+      return addSecurityHeaders(
+        NextResponse.json(
+          { error: "FORBIDDEN", message: "You can only view your own portfolio" },
+          { status: 403, headers: getCorsHeaders() }
+        )
+      );
+    }
 
-    // Calculate portfolio value (for now, just sum of trade amounts)
-    // TODO: Calculate actual portfolio value based on current market prices
-    const portfolioValue = metrics?.totalVolume || "0";
-    const totalFees = metrics?.totalFees || "0";
-    const totalTrades = metrics?.totalTrades || 0;
+    const portfolio = await getPortfolio(userAddress);
 
-    const response = NextResponse.json(
-      {
-        trades: trades.map((trade: any) => ({
-          id: trade.id,
-          tradeId: trade.tradeId.toString(),
-          marketId: trade.marketId,
-          topicId: trade.topicId,
-          side: trade.side,
-          amount: trade.amount.toString(),
-          fee: trade.fee.toString(),
-          price: trade.price?.toString(),
-          txHash: trade.txHash,
-          timestamp: trade.timestamp.toISOString(),
-        })),
-        portfolioValue,
-        totalFees,
-        totalTrades,
-      },
-      { headers: getCorsHeaders() }
-    );
+    const response = NextResponse.json(portfolio, { headers: getCorsHeaders() });
     return addSecurityHeaders(response);
   } catch (error) {
     return NextResponse.json(
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { RoutePlanResponse } from "@/lib/types";
+import { apiRateLimiter, getClientIdentifier } from "@/lib/rateLimit";
+import { getCorsHeaders, sanitizeError, addSecurityHeaders } from "@/lib/security";
+import { validateLimitParam } from "@/lib/validation";
+import { getCachedMarkets } from "@/lib/marketFeed";
+import { fetchClusterOrderbooks, isMockOrderbookEnabled } from "@/lib/orderbookSources";
+import { planRoute } from "@/lib/orderRouter";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+const DEFAULT_LIMIT = 200;
+const MIN_LIMIT = 5;
+const MAX_LIMIT = 200;
+const MAX_NOTIONAL = 1_000_000;
+const MAX_CLUSTER_ID_LENGTH = 512;
+
+function parseLimit(searchParams: URLSearchParams): number {
+  const limitParam = searchParams.get("limit");
+
+  if (limitParam === null || !validateLimitParam(limitParam)) {
+    return DEFAULT_LIMIT;
+  }
+
+  const parsed = Number.parseInt(limitParam, 10);
+
+  if (Number.isNaN(parsed)) {
+    return DEFAULT_LIMIT;
+  }
+
+  return Math.max(MIN_LIMIT, Math.min(MAX_LIMIT, parsed));
+}
+
+function parseNotional(searchParams: URLSearchParams): number | null {
+  const notionalParam = searchParams.get("notional");
+
+  if (notionalParam === null || notionalParam.length > 20) {
+    return null;
+  }
+
+  const parsed = Number.parseFloat(notionalParam);
+
+  if (!Number.isFinite(parsed) || parsed <= 0 || parsed > MAX_NOTIONAL) {
+    return null;
+  }
+
+  return parsed;
+}
+
+function invalidParam(message: string) {
+  const response = NextResponse.json(
+    { error: "INVALID_PARAM", message },
+    { status: 400, headers: getCorsHeaders() }
+  );
+
+  return addSecurityHeaders(response);
+}
+
+/**
+ * GET /api/router
+ *
+ * Plan the cheapest split of an order across every venue in a market
+ * cluster, given each venue's orderbook depth and fees.
+ *
+ * Query params:
+ * - clusterId: Cluster to trade (required, from /api/markets clusters)
+ * - side: "yes" | "no" (required)
+ * - notional: Dollars to spend, fees included (required)
+ * - limit: Markets to fetch per platform (optional, default 200)
+ * - mock: "1" to route against mock orderbooks (see /api/orderbook)
+ *
+ * Response:
+ * {
+ *   plan: RoutePlan, // Per-venue allocations with deep links
+ *   timestamp: number
+ * }
+ */
+export async function GET(request: NextRequest) {
+  const identifier = getClientIdentifier(request);
+
+  if (!apiRateLimiter.isAllowed(identifier)) {
+    const response = NextResponse.json(
+      {
+        error: "RATE_LIMITED",
+        message: "Too many requests. Please try again later.",
+      },
+      { status: 429, headers: getCorsHeaders() }
+    );
+
+    return addSecurityHeaders(response);
+  }
+
+  const { searchParams } = request.nextUrl;
+  const clusterId = searchParams.get("clusterId");
+  const side = searchParams.get("side");
+  const notional = parseNotional(searchParams);
+
+  if (!clusterId || clusterId.length > MAX_CLUSTER_ID_LENGTH) {
+    return invalidParam("clusterId is required");
+  }
+
+  if (side !== "yes" && side !== "no") {
+    return invalidParam("side must be 'yes' or 'no'");
+  }
+
+  if (notional === null) {
+    return invalidParam(`notional must be a number between 0 and ${MAX_NOTIONAL}`);
+  }
+
+  try {
+    const { data: markets } = await getCachedMarkets(parseLimit(searchParams));
+    const cluster = markets.clusters?.find((candidate) => candidate.id === clusterId);
+
+    if (!cluster) {
+      const response = NextResponse.json(
+        { error: "NOT_FOUND", message: "Cluster not found" },
+        { status: 404, headers: getCorsHeaders() }
+      );
+
+      return addSecurityHeaders(response);
+    }
+
+    const useMock = isMockOrderbookEnabled(searchParams.get("mock") === "1");
+    const venues = await fetchClusterOrderbooks(cluster, side, useMock);
+
+    const data: RoutePlanResponse = {
+      plan: planRoute(cluster, venues, side, notional),
+      timestamp: Date.now(),
+    };
+
+    const response = NextResponse.json(data, { headers: getCorsHeaders() });
+    return addSecurityHeaders(response);
+  } catch (error) {
+    const response = NextResponse.json(
+      {
+        error: "ROUTE_PLAN_FAILED",
+        message: sanitizeError(error),
+      },
+      { status: 500, headers: getCorsHeaders() }
+    );
+
+    return addSecurityHeaders(response);
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: getCorsHeaders(),
+  });
+}
@@ -1,29 +1,49 @@
 import { NextRequest, NextResponse } from "next/server";
+import { formatUnits } from "viem";
 import { executeOpinionOrder } from "@/lib/opinionCLOB";
+import { fetchMarketDetails } from "@/lib/opinionClient";
+import { trackOrder } from "@/lib/orders";
+import { MAX_ORDERBOOK_DEPTH, quoteOrder } from "@/lib/orderbook";
+import { fetchOrderbook } from "@/lib/orderbookSources";
 import { getClientIdentifier, apiRateLimiter } from "@/lib/rateLimit";
 import { getCorsHeaders, addSecurityHeaders, sanitizeError } from "@/lib/security";
-import { validateAlphanumeric } from "@/lib/validation";
+import { validateAlphanumeric, validateMarketId } from "@/lib/validation";
+import {
+  ORDER_SIDE,
+  getOpinionExchangeAddress,
+  getOrderNotional,
+  parseOpinionOrder,
+  verifyOpinionOrder,
+} from "@/lib/opinionOrders";
+import type { ExecutionQuote } from "@/lib/types";
 
 /**
  * POST /api/trades
  * 
- * Execute a trade on Opinion.trade through our platform
+ * Submit an order the user signed with their wallet to the Opinion CLOB
  * 
  * Body:
  * {
  *   marketId: number,
- *   side: "yes" | "no",
- *   amount: string, // In wei (18 decimals)
- *   signature: string, // EIP712 signature
- *   nonce?: number
+ *   orderType: "limit" | "market",
+ *   order: OpinionOrderMessage, // EIP-712 Order from buildOpinionOrder
+ *   signature: string // EIP-712 signature by order.signer
  * }
+ *
+ * The signature is checked against NEXT_PUBLIC_OPINION_EXCHANGE_ADDRESS
+ * and the token against the market's outcome tokens before anything is
+ * sent. Market orders are quoted against the full Opinion book first (see
+ * GET /api/orderbook/quote) and rejected if the book cannot fill them
+ * within the signed `takerAmount`, the least the trader accepts; limit
+ * orders may rest on the book.
  * 
  * Response:
  * {
  *   success: boolean,
- *   orderId?: string,
+ *   orderId?: string, // Track with GET /api/orders/{orderId}
+ *   status?: OpinionOrderState,
  *   txHash?: string,
- *   tradeId?: number, // Our contract trade ID
+ *   quote?: ExecutionQuote, // Effective fill estimate for market orders
  *   error?: string
  * }
  */
@@ -46,34 +66,36 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json();
-    const { marketId, side, amount, signature, nonce } = body;
+    const { marketId, orderType, signature } = body;
 
     // Validate input
-    if (!marketId || typeof marketId !== "number") {
+    if (!marketId || typeof marketId !== "number" || !validateMarketId(marketId)) {
       return NextResponse.json(
         { error: "INVALID_INPUT", message: "marketId is required and must be a number" },
         { status: 400, headers: getCorsHeaders() }
       );
     }
 
-    if (!side || (side !== "yes" && side !== "no")) {
+    if (orderType !== "limit" && orderType !== "market") {
       return NextResponse.json(
-        { error: "INVALID_INPUT", message: "side must be 'yes' or 'no'" },
+        { error: "INVALID_INPUT", message: "orderType must be limit or market" },
         { status: 400, headers: getCorsHeaders() }
       );
     }
 
-    if (!amount || typeof amount !== "string") {
+    const parsed = parseOpinionOrder(body.order);
+    if ("error" in parsed) {
       return NextResponse.json(
-        { error: "INVALID_INPUT", message: "amount is required and must be a string" },
+        { error: "INVALID_INPUT", message: parsed.error },
         { status: 400, headers: getCorsHeaders() }
       );
     }
+    const { order } = parsed;
 
-    // Validate amount format (should be numeric string)
-    const amountNum = BigInt(amount);
+    // Limit sells and all buys must be worth at least $5
+    const notional = getOrderNotional(order, orderType);
     const minOrder = BigInt("5000000000000000000"); // $5 in wei (18 decimals)
-    if (amountNum < minOrder) {
+    if (notional !== null && notional < minOrder) {
       return NextResponse.json(
         { error: "INVALID_INPUT", message: "Minimum order amount is $5" },
         { status: 400, headers: getCorsHeaders() }
@@ -97,27 +119,83 @@ export async function POST(request: NextRequest) {
 
     // Check API configuration
     const apiKey = process.env.OPINION_API_KEY;
-    if (!apiKey) {
+    const exchangeAddress = getOpinionExchangeAddress();
+    if (!apiKey || !exchangeAddress || !process.env.OPINION_CLOB_BASE_URL || !process.env.OPINION_OPENAPI_BASE_URL) {
       return NextResponse.json(
         {
           error: "API_NOT_CONFIGURED",
-          message: "Opinion API not configured",
+          message: "Opinion trading not configured",
         },
         { status: 503, headers: getCorsHeaders() }
       );
     }
 
+    if (!(await verifyOpinionOrder(order, signature, exchangeAddress))) {
+      return NextResponse.json(
+        { error: "INVALID_SIGNATURE", message: "Signature does not match the order signer" },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    // The order must trade one of the market's outcome tokens
+    const market = await fetchMarketDetails(marketId);
+    if (!market) {
+      return NextResponse.json(
+        { error: "INVALID_INPUT", message: "Market not found on Opinion" },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+    if (order.tokenId !== market.yesTokenId && order.tokenId !== market.noTokenId) {
+      return NextResponse.json(
+        { error: "INVALID_INPUT", message: "order.tokenId is not an outcome token of this market" },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    // Quote market orders against the full book before executing
+    let quote: ExecutionQuote | undefined;
+    if (orderType === "market") {
+      const book = await fetchOrderbook("opinion", order.tokenId, MAX_ORDERBOOK_DEPTH);
+      if (!book) {
+        return NextResponse.json(
+          { error: "NO_ORDERBOOK", message: "No orderbook available for this token" },
+          { status: 400, headers: getCorsHeaders() }
+        );
+      }
+
+      const amount = Number(formatUnits(BigInt(order.makerAmount), 18));
+      quote =
+        order.side === ORDER_SIDE.buy
+          ? quoteOrder(book.orderbook, "buy", amount, "notional")
+          : quoteOrder(book.orderbook, "sell", amount, "shares");
+      if (quote.unfilledSize > 0) {
+        return NextResponse.json(
+          {
+            error: "INSUFFICIENT_LIQUIDITY",
+            message: "Orderbook depth cannot fill this order size",
+            quote,
+          },
+          { status: 400, headers: getCorsHeaders() }
+        );
+      }
+
+      // Shares bought or dollars received must cover the signed minimum
+      const minimum = Number(formatUnits(BigInt(order.takerAmount), 18));
+      const received = order.side === ORDER_SIDE.buy ? quote.filledSize : quote.totalCost;
+      if (received < minimum) {
+        return NextResponse.json(
+          {
+            error: "SLIPPAGE_EXCEEDED",
+            message: "Orderbook cannot fill this order within its slippage tolerance",
+            quote,
+          },
+          { status: 400, headers: getCorsHeaders() }
+        );
+      }
+    }
+
     // Execute order on Opinion.trade
-    const orderResult = await executeOpinionOrder(
-      {
-        marketId,
-        side,
-        amount,
-        signature,
-        nonce,
-      },
-      apiKey
-    );
+    const orderResult = await executeOpinionOrder({ marketId, orderType, order, signature }, apiKey);
 
     if (!orderResult.success) {
       return NextResponse.json(
@@ -129,17 +207,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Track status and fills until the order closes (see /api/orders)
+    await trackOrder(marketId, orderType, order, orderResult);
+
     // TODO: Record trade in our smart contract
-    // TODO: Index trade event to database
-    // TODO: Update user metrics
 
     // For now, return success with order details
     const response = NextResponse.json(
       {
         success: true,
         orderId: orderResult.orderId,
+        status: orderResult.status,
         txHash: orderResult.txHash,
-        message: "Order executed successfully",
+        quote,
+        message: "Order submitted",
       },
       { headers: getCorsHeaders() }
     );
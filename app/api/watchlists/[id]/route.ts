@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiRateLimiter, getClientIdentifier } from "@/lib/rateLimit";
+import { deleteWatchlist, updateWatchlist } from "@/lib/database/queries";
+import { parseWatchlistInput } from "@/lib/watchlists";
+import { requireSession } from "@/lib/session";
+import { getCorsHeaders, addSecurityHeaders, sanitizeError } from "@/lib/security";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+function errorResponse(status: number, error: string, message: string) {
+  return addSecurityHeaders(
+    NextResponse.json({ error, message }, { status, headers: getCorsHeaders() })
+  );
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: string }).code === "P2002";
+}
+
+/**
+ * PUT /api/watchlists/[id]
+ *
+ * Rename a watchlist and/or replace its items (owner only)
+ *
+ * Body: { name?: string, items?: { kind, marketKey }[] }
+ *
+ * Response: Watchlist
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!apiRateLimiter.isAllowed(getClientIdentifier(request))) {
+    return errorResponse(429, "RATE_LIMITED", "Too many requests. Please try again later.");
+  }
+
+  const auth = requireSession(request);
+  if ("response" in auth) {
+    return addSecurityHeaders(auth.response);
+  }
+  const wallet = auth.session.address;
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const parsed = parseWatchlistInput(body, false);
+    if ("error" in parsed) {
+      return errorResponse(400, "INVALID_INPUT", parsed.error);
+    }
+
+    // Someone else's watchlist looks the same as a missing one
+    const watchlist = await updateWatchlist(wallet, id, parsed.input);
+    if (!watchlist) {
+      return errorResponse(404, "NOT_FOUND", "Watchlist not found");
+    }
+
+    return addSecurityHeaders(NextResponse.json(watchlist, { headers: getCorsHeaders() }));
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return errorResponse(409, "CONFLICT", "A watchlist with this name already exists");
+    }
+    return errorResponse(500, "SERVER_ERROR", sanitizeError(error));
+  }
+}
+
+/**
+ * DELETE /api/watchlists/[id]
+ *
+ * Delete a watchlist (owner only)
+ *
+ * Response: { deleted: true }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!apiRateLimiter.isAllowed(getClientIdentifier(request))) {
+    return errorResponse(429, "RATE_LIMITED", "Too many requests. Please try again later.");
+  }
+
+  const auth = requireSession(request);
+  if ("response" in auth) {
+    return addSecurityHeaders(auth.response);
+  }
+  const wallet = auth.session.address;
+
+  try {
+    const { id } = await params;
+    const deleted = await deleteWatchlist(wallet, id);
+    if (!deleted) {
+      return errorResponse(404, "NOT_FOUND", "Watchlist not found");
+    }
+
+    return addSecurityHeaders(NextResponse.json({ deleted: true }, { headers: getCorsHeaders() }));
+  } catch (error) {
+    return errorResponse(500, "SERVER_ERROR", sanitizeError(error));
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { WatchlistsResponse } from "@/lib/types";
+import { apiRateLimiter, getClientIdentifier } from "@/lib/rateLimit";
+import { createWatchlist, getWatchlists } from "@/lib/database/queries";
+import { MAX_WATCHLISTS_PER_WALLET, parseWatchlistInput } from "@/lib/watchlists";
+import { requireSession } from "@/lib/session";
+import { getCorsHeaders, addSecurityHeaders, sanitizeError } from "@/lib/security";
+
+export const runtime = "nodejs";
+export const preferredRegion = "gru1";
+
+function errorResponse(status: number, error: string, message: string) {
+  return addSecurityHeaders(
+    NextResponse.json({ error, message }, { status, headers: getCorsHeaders() })
+  );
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: string }).code === "P2002";
+}
+
+/**
+ * GET /api/watchlists
+ *
+ * List the signed-in wallet's watchlists
+ *
+ * Auth: SIWE session cookie
+ *
+ * Response: WatchlistsResponse
+ */
+export async function GET(request: NextRequest) {
+  if (!apiRateLimiter.isAllowed(getClientIdentifier(request))) {
+    return errorResponse(429, "RATE_LIMITED", "Too many requests. Please try again later.");
+  }
+
+  const auth = requireSession(request);
+  if ("response" in auth) {
+    return addSecurityHeaders(auth.response);
+  }
+  const wallet = auth.session.address;
+
+  try {
+    const watchlists = await getWatchlists(wallet);
+    const payload: WatchlistsResponse = { watchlists };
+    return addSecurityHeaders(NextResponse.json(payload, { headers: getCorsHeaders() }));
+  } catch (error) {
+    return errorResponse(500, "SERVER_ERROR", sanitizeError(error));
+  }
+}
+
+/**
+ * POST /api/watchlists
+ *
+ * Create a watchlist for the signed-in wallet
+ *
+ * Body:
+ * {
+ *   name: string,
+ *   items?: { kind: "market" | "cluster", marketKey: string }[]
+ * }
+ *
+ * Response: Watchlist
+ */
+export async function POST(request: NextRequest) {
+  if (!apiRateLimiter.isAllowed(getClientIdentifier(request))) {
+    return errorResponse(429, "RATE_LIMITED", "Too many requests. Please try again later.");
+  }
+
+  const auth = requireSession(request);
+  if ("response" in auth) {
+    return addSecurityHeaders(auth.response);
+  }
+  const wallet = auth.session.address;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = parseWatchlistInput(body, true);
+    if ("error" in parsed) {
+      return errorResponse(400, "INVALID_INPUT", parsed.error);
+    }
+
+    const watchlist = await createWatchlist(
+      wallet,
+      { name: parsed.input.name!, items: parsed.input.items },
+      MAX_WATCHLISTS_PER_WALLET
+    );
+    if (!watchlist) {
+      return errorResponse(400, "INVALID_INPUT", `A wallet can have at most ${MAX_WATCHLISTS_PER_WALLET} watchlists`);
+    }
+
+    return addSecurityHeaders(NextResponse.json(watchlist, { status: 201, headers: getCorsHeaders() }));
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return errorResponse(409, "CONFLICT", "A watchlist with this name already exists");
+    }
+    return errorResponse(500, "SERVER_ERROR", sanitizeError(error));
+  }
+}
@@ -3,8 +3,33 @@
 import { useAccount } from "wagmi";
 import { useQuery } from "@tanstack/react-query";
 import { ConnectWallet } from "@/components/ConnectWallet";
+import { useSession } from "@/lib/useSession";
+import type { PortfolioPosition, PortfolioResponse } from "@/lib/types";
 
-async function fetchUserTrades(userAddress: string) {
+function formatUsd(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+function formatPnl(value: number): string {
+  return `${value > 0 ? "+" : ""}${formatUsd(value)}`;
+}
+
+function pnlClass(value: number): string {
+  if (value > 0) return "text-terminal-accent";
+  if (value < 0) return "text-terminal-danger";
+  return "text-terminal-dim";
+}
+
+function formatPrice(value: number | null): string {
+  return value === null ? "—" : `${(value * 100).toFixed(1)}¢`;
+}
+
+async function fetchPortfolio(userAddress: string): Promise<PortfolioResponse> {
   const res = await fetch(`/api/portfolio?userAddress=${userAddress}`);
   if (!res.ok) {
     throw new Error("Failed to fetch portfolio");
@@ -14,11 +39,13 @@ async function fetchUserTrades(userAddress: string) {
 
 export default function PortfolioPage() {
   const { address, isConnected } = useAccount();
+  const { session, isSigning, signIn } = useSession();
   
   const { data, isLoading, error } = useQuery({
     queryKey: ["portfolio", address],
-    queryFn: () => (address ? fetchUserTrades(address) : null),
-    enabled: !!address && isConnected,
+    queryFn: () => (address ? fetchPortfolio(address) : null),
+    refetchInterval: 30000, // Re-mark positions every 30 seconds
+    enabled: !!address && isConnected && session !== null,
   });
 
   if (!isConnected || !address) {
@@ -64,6 +91,29 @@ export default function PortfolioPage() {
     );
   }
 
+  if (!session) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="bg-terminal-surface border border-terminal-border rounded-lg p-12 text-center">
+          <div className="text-lg font-medium text-terminal-text mb-2">
+            Sign In
+          </div>
+          <div className="text-sm text-terminal-dim max-w-md mx-auto mb-6">
+            Sign a message to prove you own this wallet. No transaction is sent.
+          </div>
+          <button
+            type="button"
+            onClick={() => signIn().catch(() => undefined)}
+            disabled={isSigning}
+            className="px-4 py-2 text-xs rounded-full border border-terminal-accent text-terminal-accent hover:bg-terminal-accent/20 disabled:opacity-50"
+          >
+            {isSigning ? "Waiting for signature..." : "Sign in with Ethereum"}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="max-w-4xl mx-auto p-6">
@@ -91,12 +141,11 @@ export default function PortfolioPage() {
   }
 
   const trades = data?.trades || [];
-  const portfolioValue = data?.portfolioValue || "0";
-  const totalFees = data?.totalFees || "0";
-  const totalTrades = data?.totalTrades || 0;
+  const positions = data?.positions || [];
+  const summary = data?.summary;
 
   return (
-    <div className="max-w-4xl mx-auto p-6">
+    <div className="max-w-5xl mx-auto p-6">
       {/* Header */}
       <div className="mb-6">
         <h1 className="text-xl font-semibold text-terminal-text flex items-center gap-2">
@@ -104,34 +153,65 @@ export default function PortfolioPage() {
           PORTFOLIO
         </h1>
         <p className="text-sm text-terminal-dim mt-1">
-          Your trading history and portfolio performance
+          Your positions, trading history and portfolio performance
         </p>
       </div>
 
       {/* Portfolio Summary */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-        <div className="bg-terminal-surface border border-terminal-border rounded-lg p-4">
-          <div className="text-[10px] text-terminal-dim tracking-wider uppercase mb-2">
-            Portfolio Value
-          </div>
-          <div className="text-2xl font-bold text-terminal-text">
-            ${(parseFloat(portfolioValue) / 1e18).toFixed(2)}
-          </div>
-        </div>
-        <div className="bg-terminal-surface border border-terminal-border rounded-lg p-4">
-          <div className="text-[10px] text-terminal-dim tracking-wider uppercase mb-2">
-            Total Trades
-          </div>
-          <div className="text-2xl font-bold text-terminal-text">{totalTrades}</div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <SummaryCard label="Portfolio Value" value={formatUsd(summary?.portfolioValue ?? 0)} />
+        <SummaryCard
+          label="Unrealized PnL"
+          value={formatPnl(summary?.unrealizedPnl ?? 0)}
+          valueClass={pnlClass(summary?.unrealizedPnl ?? 0)}
+        />
+        <SummaryCard
+          label="Realized PnL"
+          value={formatPnl(summary?.realizedPnl ?? 0)}
+          valueClass={pnlClass(summary?.realizedPnl ?? 0)}
+          detail={`${summary?.winningPositions ?? 0} won / ${summary?.losingPositions ?? 0} lost`}
+        />
+        <SummaryCard
+          label="Total Fees Paid"
+          value={formatUsd(summary?.totalFees ?? 0)}
+          detail={`Cost basis ${formatUsd(summary?.costBasis ?? 0)}`}
+        />
+      </div>
+
+      {/* Positions */}
+      <div className="bg-terminal-surface border border-terminal-border rounded-lg overflow-hidden mb-6">
+        <div className="px-4 py-3 border-b border-terminal-border">
+          <h2 className="text-sm font-medium text-terminal-text flex items-center gap-2">
+            <span className="text-terminal-accent">&gt;</span>
+            POSITIONS
+          </h2>
         </div>
-        <div className="bg-terminal-surface border border-terminal-border rounded-lg p-4">
-          <div className="text-[10px] text-terminal-dim tracking-wider uppercase mb-2">
-            Total Fees Paid
-          </div>
-          <div className="text-2xl font-bold text-terminal-text">
-            ${(parseFloat(totalFees) / 1e18).toFixed(2)}
+
+        {positions.length === 0 ? (
+          <div className="p-8 text-center text-xs text-terminal-dim">No positions yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-terminal-bg border-b border-terminal-border">
+                <tr>
+                  <th className="px-4 py-3 text-left text-terminal-dim font-medium">Market</th>
+                  <th className="px-4 py-3 text-left text-terminal-dim font-medium">Side</th>
+                  <th className="px-4 py-3 text-right text-terminal-dim font-medium">Shares</th>
+                  <th className="px-4 py-3 text-right text-terminal-dim font-medium">Avg / Mark</th>
+                  <th className="px-4 py-3 text-right text-terminal-dim font-medium">Cost</th>
+                  <th className="px-4 py-3 text-right text-terminal-dim font-medium">Value</th>
+                  <th className="px-4 py-3 text-right text-terminal-dim font-medium">PnL</th>
+                  <th className="px-4 py-3 text-left text-terminal-dim font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {positions.map((position) => (
+                  <PositionRow key={`${position.marketId}:${position.side}`} position={position} />
+                ))}
+              </tbody>
+            </table>
           </div>
-        </div>
+        )}
       </div>
 
       {/* Trade History */}
@@ -164,10 +244,10 @@ export default function PortfolioPage() {
                 </tr>
               </thead>
               <tbody>
-                {trades.map((trade: any) => (
+                {trades.map((trade) => (
                   <tr key={trade.id} className="border-b border-terminal-border hover:bg-terminal-bg/50">
                     <td className="px-4 py-3 text-terminal-text">
-                      <div className="max-w-xs truncate">{trade.marketTitle || `Market #${trade.marketId}`}</div>
+                      <div className="max-w-xs truncate">{`Market #${trade.marketId}`}</div>
                     </td>
                     <td className="px-4 py-3">
                       <span
@@ -181,10 +261,10 @@ export default function PortfolioPage() {
                       </span>
                     </td>
                     <td className="px-4 py-3 text-right text-terminal-text font-mono">
-                      ${(parseFloat(trade.amount) / 1e18).toFixed(2)}
+                      {formatUsd(trade.amount)}
                     </td>
                     <td className="px-4 py-3 text-right text-terminal-dim font-mono">
-                      ${(parseFloat(trade.fee) / 1e18).toFixed(2)}
+                      {formatUsd(trade.fee)}
                     </td>
                     <td className="px-4 py-3 text-terminal-dim">
                       {new Date(trade.timestamp).toLocaleDateString()}
@@ -205,12 +285,87 @@ export default function PortfolioPage() {
       {/* Info */}
       <div className="mt-6 text-center text-xs text-terminal-dim">
         <div className="mb-2">
-          Portfolio data is synced from on-chain smart contracts.
-        </div>
-        <div>
-          Note: Smart contracts are not yet deployed. This page will show real data once v2 is live.
+          Trades are indexed from the TradeRouter contract. Open positions are marked to live Opinion prices.
         </div>
+        <div>PnL is net of fees. Trades without a recorded entry price are valued at cost.</div>
       </div>
     </div>
   );
 }
+
+function SummaryCard({
+  label,
+  value,
+  valueClass = "text-terminal-text",
+  detail,
+}: {
+  label: string;
+  value: string;
+  valueClass?: string;
+  detail?: string;
+}) {
+  return (
+    <div className="bg-terminal-surface border border-terminal-border rounded-lg p-4">
+      <div className="text-[10px] text-terminal-dim tracking-wider uppercase mb-2">{label}</div>
+      <div className={`text-2xl font-bold ${valueClass}`}>{value}</div>
+      {detail && <div className="text-[10px] text-terminal-dim mt-1">{detail}</div>}
+    </div>
+  );
+}
+
+function PositionRow({ position }: { position: PortfolioPosition }) {
+  const pnl = position.status === "open" ? position.unrealizedPnl : position.realizedPnl;
+  const title = position.marketTitle || `Market #${position.marketId}`;
+
+  return (
+    <tr className="border-b border-terminal-border hover:bg-terminal-bg/50">
+      <td className="px-4 py-3 text-terminal-text">
+        <div className="max-w-xs truncate">
+          {position.url ? (
+            <a href={position.url} target="_blank" rel="noopener noreferrer" className="hover:text-terminal-accent">
+              {title}
+            </a>
+          ) : (
+            title
+          )}
+        </div>
+        {position.unpricedTrades > 0 && (
+          <div className="text-[10px] text-terminal-warn">
+            {position.unpricedTrades} trade{position.unpricedTrades === 1 ? "" : "s"} without entry price (valued at cost)
+          </div>
+        )}
+      </td>
+      <td className="px-4 py-3">
+        <span
+          className={`px-2 py-1 rounded ${
+            position.side === "yes"
+              ? "bg-terminal-accent/20 text-terminal-accent"
+              : "bg-terminal-danger/20 text-terminal-danger"
+          }`}
+        >
+          {position.side.toUpperCase()}
+        </span>
+      </td>
+      <td className="px-4 py-3 text-right text-terminal-text font-mono">{position.shares.toFixed(2)}</td>
+      <td className="px-4 py-3 text-right text-terminal-dim font-mono">
+        {formatPrice(position.avgEntryPrice)} / {formatPrice(position.markPrice)}
+      </td>
+      <td className="px-4 py-3 text-right text-terminal-dim font-mono">{formatUsd(position.costBasis)}</td>
+      <td className="px-4 py-3 text-right text-terminal-text font-mono">{formatUsd(position.marketValue)}</td>
+      <td className={`px-4 py-3 text-right font-mono ${pnlClass(pnl)}`}>{formatPnl(pnl)}</td>
+      <td className="px-4 py-3">
+        <span
+          className={`px-2 py-1 rounded text-[10px] ${
+            position.status === "won"
+              ? "bg-terminal-accent/20 text-terminal-accent"
+              : position.status === "lost"
+                ? "bg-terminal-danger/20 text-terminal-danger"
+                : "bg-terminal-bg text-terminal-dim"
+          }`}
+        >
+          {position.status.toUpperCase()}
+        </span>
+      </td>
+    </tr>
+  );
+}
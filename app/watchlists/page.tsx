@@ -0,0 +1,206 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { MarketsResponse, Watchlist, WatchlistItem } from "@/lib/types";
+import { resolveWatchlistEntries } from "@/lib/watchlists";
+import { useWatchlists } from "@/lib/useWatchlists";
+import { ConnectWallet } from "@/components/ConnectWallet";
+import { MarketRow } from "@/components/MarketRow";
+
+const MARKETS_LIMIT = 200; // Shares the ["markets", limit] cache with /aggregation
+
+async function fetchMarkets(limit: number): Promise<MarketsResponse> {
+  const res = await fetch(`/api/markets?limit=${limit}`);
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ message: "Request failed" }));
+    throw new Error(error.message || "Failed to fetch markets");
+  }
+  return res.json();
+}
+
+export default function WatchlistsPage() {
+  const {
+    isConnected,
+    isSignedIn,
+    isSigning,
+    signIn,
+    watchlists,
+    isLoading,
+    error,
+    createWatchlist,
+    updateWatchlist,
+    deleteWatchlist,
+  } = useWatchlists();
+  const [newName, setNewName] = useState<string>("");
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const { data: markets } = useQuery({
+    queryKey: ["markets", MARKETS_LIMIT],
+    queryFn: () => fetchMarkets(MARKETS_LIMIT),
+    enabled: isSignedIn,
+    refetchInterval: 15000,
+  });
+
+  const clusters = useMemo(() => markets?.clusters ?? [], [markets?.clusters]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Watchlist update failed");
+    }
+  };
+
+  const removeItem = (watchlist: Watchlist, item: WatchlistItem) =>
+    runAction(() =>
+      updateWatchlist(watchlist.id, {
+        items: watchlist.items.filter(
+          (entry) => !(entry.kind === item.kind && entry.marketKey === item.marketKey)
+        ),
+      })
+    );
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-xl font-semibold text-terminal-text flex items-center gap-2">
+          <span className="text-terminal-accent">&gt;</span>
+          WATCHLISTS
+        </h1>
+        <p className="text-sm text-terminal-dim mt-1">
+          Markets and clusters saved to your wallet. Add them with Watch on the aggregation page.
+        </p>
+      </div>
+
+      {!isConnected && (
+        <div className="bg-terminal-surface border border-terminal-border rounded-lg p-12 text-center">
+          <div className="text-lg font-medium text-terminal-text mb-2">Connect Your Wallet</div>
+          <div className="text-sm text-terminal-dim max-w-md mx-auto mb-6">
+            Watchlists are stored per wallet address.
+          </div>
+          <div className="flex justify-center">
+            <ConnectWallet />
+          </div>
+        </div>
+      )}
+
+      {isConnected && !isSignedIn && (
+        <div className="bg-terminal-surface border border-terminal-border rounded-lg p-12 text-center">
+          <div className="text-sm text-terminal-dim max-w-md mx-auto mb-6">
+            Sign a message to prove you own this wallet. No transaction is sent.
+          </div>
+          <button
+            type="button"
+            onClick={() => runAction(signIn)}
+            disabled={isSigning}
+            className="px-4 py-2 text-xs rounded-full border border-terminal-accent text-terminal-accent hover:bg-terminal-accent/20 disabled:opacity-50"
+          >
+            {isSigning ? "Waiting for signature..." : "Sign in with wallet"}
+          </button>
+        </div>
+      )}
+
+      {actionError && (
+        <div className="mb-4 p-4 bg-terminal-warn/10 border border-terminal-warn/30 rounded text-sm text-terminal-warn">
+          {actionError}
+        </div>
+      )}
+
+      {isSignedIn && (
+        <div className="space-y-6">
+          <form
+            onSubmit={(event) => {
+              event.preventDefault();
+              const name = newName.trim();
+              if (name) {
+                runAction(async () => {
+                  await createWatchlist(name);
+                  setNewName("");
+                });
+              }
+            }}
+            className="flex flex-wrap items-center gap-3"
+          >
+            <input
+              type="text"
+              value={newName}
+              onChange={(event) => setNewName(event.target.value)}
+              maxLength={80}
+              placeholder="New watchlist name"
+              className="w-full max-w-xs rounded-full border border-terminal-border bg-terminal-bg px-4 py-2 text-sm text-terminal-text placeholder:text-terminal-dim focus:border-terminal-accent focus:outline-none"
+            />
+            <button
+              type="submit"
+              className="px-3 py-1.5 text-xs rounded-full border border-terminal-border text-terminal-text hover:border-terminal-accent"
+            >
+              Create
+            </button>
+          </form>
+
+          {error && (
+            <div className="p-4 bg-terminal-warn/10 border border-terminal-warn/30 rounded text-sm text-terminal-warn">
+              Error: {error instanceof Error ? error.message : "Failed to load watchlists"}
+            </div>
+          )}
+
+          {isLoading && <div className="text-sm text-terminal-dim">Loading watchlists...</div>}
+
+          {!isLoading && watchlists.length === 0 && (
+            <div className="py-12 text-center text-sm text-terminal-dim">NO WATCHLISTS YET</div>
+          )}
+
+          {watchlists.map((watchlist) => (
+            <section
+              key={watchlist.id}
+              className="rounded-2xl border border-terminal-border bg-terminal-surface px-6 py-6 sm:px-8"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <h2 className="text-sm font-semibold text-terminal-text">{watchlist.name}</h2>
+                  <p className="mt-1 text-xs text-terminal-dim">{watchlist.items.length} items</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => runAction(() => deleteWatchlist(watchlist.id))}
+                  className="text-xs text-terminal-dim hover:text-terminal-warn"
+                >
+                  Delete
+                </button>
+              </div>
+              <div className="mt-4 grid gap-4">
+                {resolveWatchlistEntries(watchlist.items, clusters).map(({ item, title, markets: rows }) => (
+                  <div key={`${item.kind}:${item.marketKey}`} className="grid gap-2">
+                    <div className="flex items-center justify-between gap-3 text-xs">
+                      <span className="text-terminal-text">
+                        {title}
+                        <span className="ml-2 text-[10px] uppercase tracking-wide text-terminal-dim">
+                          {item.kind}
+                        </span>
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => removeItem(watchlist, item)}
+                        className="text-terminal-dim hover:text-terminal-text"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    {rows.length === 0 ? (
+                      <p className="text-[11px] text-terminal-dim">Not in the current market feed</p>
+                    ) : (
+                      rows.map((market) => (
+                        <MarketRow key={`${market.platform}-${market.marketId}`} market={market} />
+                      ))
+                    )}
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import type { MarketMatch, PlatformSource } from "@/lib/types";
+import { getPlatformInfo } from "@/lib/platforms";
+
+function formatPrice(price: number | undefined): string {
+  return price === undefined ? "—" : `${(price * 100).toFixed(2)}¢`;
+}
+
+function formatRelativeTime(timestamp: number): string {
+  const diffMs = timestamp - Date.now();
+  const absMs = Math.abs(diffMs);
+  const minutes = Math.round(absMs / 60000);
+
+  if (minutes < 1) {
+    return "just now";
+  }
+  if (minutes < 60) {
+    return diffMs >= 0 ? `in ${minutes}m` : `${minutes}m ago`;
+  }
+
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) {
+    return diffMs >= 0 ? `in ${hours}h` : `${hours}h ago`;
+  }
+
+  const days = Math.round(hours / 24);
+  return diffMs >= 0 ? `in ${days}d` : `${days}d ago`;
+}
+
+function formatMarketLink(url?: string): string | null {
+  if (!url) {
+    return null;
+  }
+
+  try {
+    const parsed = new URL(url);
+    return `${parsed.hostname}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+export type MarketRowProps = {
+  market: MarketMatch["markets"][number];
+};
+
+/**
+ * Single venue market with prices, metadata and an outbound link
+ */
+export function MarketRow({ market }: MarketRowProps) {
+  const info = getPlatformInfo(market.platform as PlatformSource);
+  const hasPreviewLink = Boolean(market.marketUrl) && market.marketUrl !== "#";
+  const linkLabel = formatMarketLink(market.marketUrl || undefined);
+  const Tag = hasPreviewLink ? "a" : "div";
+  const tagProps = hasPreviewLink
+    ? {
+        href: market.marketUrl,
+        target: "_blank",
+        rel: "noopener noreferrer",
+      }
+    : {};
+
+  return (
+    <Tag
+      key={`${market.platform}-${market.marketId}`}
+      {...tagProps}
+      className="group relative flex flex-wrap items-center justify-between gap-3 rounded-lg border border-terminal-border bg-terminal-surface px-4 py-3 transition hover:border-terminal-accent"
+    >
+      <div className="flex flex-col gap-1">
+        <div className="flex items-center gap-3">
+          <span
+            className={`rounded-full border px-2.5 py-1 text-[11px] font-semibold ${getPlatformChipClass(
+              info.color
+            )}`}
+          >
+            {info.displayName}
+          </span>
+          <span className="text-xs text-terminal-dim">{market.marketTitle}</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-[11px] text-terminal-dim">
+          {market.category && (
+            <span className="rounded-full border border-terminal-border/60 px-2 py-0.5 uppercase tracking-wide">
+              {market.category}
+            </span>
+          )}
+          {market.tags?.slice(0, 2).map((tag) => (
+            <span
+              key={tag}
+              className="rounded-full border border-terminal-border/60 px-2 py-0.5 uppercase tracking-wide"
+            >
+              {tag}
+            </span>
+          ))}
+          {market.expiresAt && (
+            <span>{market.expiresAt > Date.now() ? "Ends" : "Ended"} {formatRelativeTime(market.expiresAt)}</span>
+          )}
+          {market.updatedAt && <span>Updated {formatRelativeTime(market.updatedAt)}</span>}
+          {linkLabel ? (
+            <span className="max-w-[220px] truncate" title={market.marketUrl}>
+              Link {linkLabel}
+            </span>
+          ) : (
+            <span>Link unavailable</span>
+          )}
+        </div>
+      </div>
+      <div className="flex items-center gap-4 text-xs">
+        <span className="text-terminal-dim">YES</span>
+        <span className="font-mono text-terminal-text">{formatPrice(market.yesPrice)}</span>
+        <span className="text-terminal-dim">NO</span>
+        <span className="font-mono text-terminal-text">{formatPrice(market.noPrice)}</span>
+        {hasPreviewLink && <span className="text-terminal-dim">Open →</span>}
+      </div>
+    </Tag>
+  );
+}
+
+export function getPlatformChipClass(color: string): string {
+  const colorMap: Record<string, string> = {
+    "terminal-blue": "bg-terminal-blue/15 text-terminal-blue border-terminal-blue/30",
+    "terminal-green": "bg-terminal-green/15 text-terminal-green border-terminal-green/30",
+    "terminal-purple": "bg-terminal-purple/15 text-terminal-purple border-terminal-purple/30",
+    "terminal-orange": "bg-terminal-orange/15 text-terminal-orange border-terminal-orange/30",
+    "terminal-accent": "bg-terminal-accent/15 text-terminal-accent border-terminal-accent/30",
+    "terminal-warn": "bg-terminal-warn/15 text-terminal-warn border-terminal-warn/30",
+    "terminal-cyan": "bg-terminal-cyan/15 text-terminal-cyan border-terminal-cyan/30",
+  };
+  return colorMap[color] || "bg-terminal-border/30 text-terminal-text border-terminal-border";
+}
@@ -3,12 +3,15 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { ConnectWallet } from "./ConnectWallet";
-import { showConnectWallet, showPortfolio } from "@/lib/uiFlags";
+import { showConnectWallet, showPortfolio, showWatchlists } from "@/lib/uiFlags";
 
 const navItems = [
   ...(showPortfolio
     ? [{ href: "/portfolio", label: "PORTFOLIO", shortcut: "P" }]
     : []),
+  ...(showWatchlists
+    ? [{ href: "/watchlists", label: "WATCHLISTS", shortcut: "W" }]
+    : []),
 ];
 
 export function NavBar() {
@@ -0,0 +1,320 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAccount, useSignTypedData, useSwitchChain } from "wagmi";
+import { useSession } from "@/lib/useSession";
+import {
+  DEFAULT_SLIPPAGE_BPS,
+  OPINION_CHAIN_ID,
+  buildOpinionOrder,
+  getOpinionExchangeAddress,
+  getOpinionTypedData,
+  validateOrderTicket,
+  type OpinionOrderTicket,
+  type OpinionOrderType,
+} from "@/lib/opinionOrders";
+import type { OrderSide, QuoteResponse, TrackedOrder } from "@/lib/types";
+
+const STATUS_POLL_MS = 5000;
+const FINAL_STATES = new Set(["filled", "cancelled", "rejected"]);
+
+export type OrderTicketProps = {
+  marketId: string | number;
+  marketTitle: string;
+  yesTokenId?: string;
+  noTokenId?: string;
+  yesPrice: number;
+  noPrice?: number; // Left for the trader to enter when the venue quotes none
+};
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const error = await res.json().catch(() => null);
+  return error?.message || fallback;
+}
+
+async function fetchOrder(orderId: string): Promise<TrackedOrder> {
+  const res = await fetch(`/api/orders/${encodeURIComponent(orderId)}`, { cache: "no-store" });
+  if (!res.ok) {
+    throw new Error(await readError(res, "Failed to load order status"));
+  }
+  return res.json();
+}
+
+/** Deepest level a market order of this size reaches on the current book */
+async function fetchWorstPrice(ticket: OpinionOrderTicket): Promise<number> {
+  const params = new URLSearchParams({
+    tokenId: ticket.tokenId,
+    side: ticket.side,
+    [ticket.side === "buy" ? "notional" : "size"]: String(ticket.size),
+  });
+  const res = await fetch(`/api/orderbook/quote?${params}`, { cache: "no-store" });
+  if (!res.ok) {
+    throw new Error(await readError(res, "Failed to quote the order"));
+  }
+  const { quote }: QuoteResponse = await res.json();
+  if (quote.unfilledSize > 0 || quote.worstPrice === null) {
+    throw new Error("Orderbook depth cannot fill this order size");
+  }
+  return quote.worstPrice;
+}
+
+function formatShares(wei?: string): string {
+  return wei === undefined ? "—" : (Number(BigInt(wei) / BigInt(1e12)) / 1e6).toFixed(2);
+}
+
+/** Shares the order trades, unknown for market buys sized in dollars */
+function orderShares(order: TrackedOrder): string | undefined {
+  if (order.side === "sell") {
+    return order.makerAmount;
+  }
+  return order.orderType === "limit" ? order.takerAmount : undefined;
+}
+
+function ToggleButton({ active, onClick, children }: { active: boolean; onClick: () => void; children: string }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`rounded-full border px-3 py-1 ${
+        active
+          ? "border-terminal-accent bg-terminal-accent/10 text-terminal-accent"
+          : "border-terminal-border text-terminal-dim hover:text-terminal-text"
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Opinion order ticket: builds an EIP-712 order, signs it with the
+ * connected wallet on BNB Chain, submits it through /api/trades and
+ * follows it through /api/orders, signed in with SIWE
+ */
+export function OrderTicket({ marketId, marketTitle, yesTokenId, noTokenId, yesPrice, noPrice }: OrderTicketProps) {
+  const { address, isConnected, chainId } = useAccount();
+  const { switchChainAsync } = useSwitchChain();
+  const { signTypedDataAsync } = useSignTypedData();
+  const { session, signIn } = useSession();
+  const queryClient = useQueryClient();
+
+  const [outcome, setOutcome] = useState<"yes" | "no">("yes");
+  const [side, setSide] = useState<OrderSide>("buy");
+  const [type, setType] = useState<OpinionOrderType>("limit");
+  const [size, setSize] = useState<string>("");
+  const [price, setPrice] = useState<string>(yesPrice.toFixed(3));
+  const [slippage, setSlippage] = useState<string>(String(DEFAULT_SLIPPAGE_BPS / 100));
+  const [orderId, setOrderId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [isCancelling, setIsCancelling] = useState<boolean>(false);
+
+  const statusQuery = useQuery({
+    queryKey: ["opinion-order", orderId],
+    queryFn: () => fetchOrder(orderId!),
+    enabled: orderId !== null,
+    refetchInterval: (query) =>
+      query.state.data && FINAL_STATES.has(query.state.data.status) ? false : STATUS_POLL_MS,
+  });
+  const status = statusQuery.data;
+
+  const tokenId = outcome === "yes" ? yesTokenId : noTokenId;
+  const ticket: OpinionOrderTicket = {
+    tokenId: tokenId ?? "",
+    side,
+    type,
+    size: Number(size),
+    price: type === "limit" ? Number(price) : undefined,
+    slippageBps: type === "market" ? Math.round(Number(slippage) * 100) : undefined,
+  };
+  const sizeLabel = type === "market" && side === "buy" ? "Amount ($)" : "Shares";
+
+  const selectOutcome = (next: "yes" | "no") => {
+    setOutcome(next);
+    setPrice((next === "yes" ? yesPrice : noPrice)?.toFixed(3) ?? "");
+  };
+
+  const submit = async () => {
+    setError(null);
+
+    const exchangeAddress = getOpinionExchangeAddress();
+    if (!address || !exchangeAddress) {
+      setError(address ? "Opinion trading is not configured" : "Connect a wallet first");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      // The order's status and cancel routes only serve its maker's session
+      if (!session) {
+        await signIn();
+      }
+
+      // Market orders accept no worse than the quoted worst price plus slippage
+      const quoted =
+        type === "market" && ticket.tokenId && ticket.size > 0
+          ? { ...ticket, worstPrice: await fetchWorstPrice(ticket) }
+          : ticket;
+      const ticketError = validateOrderTicket(quoted);
+      if (ticketError) {
+        throw new Error(ticketError);
+      }
+
+      if (chainId !== OPINION_CHAIN_ID) {
+        await switchChainAsync({ chainId: OPINION_CHAIN_ID });
+      }
+
+      const order = buildOpinionOrder(quoted, { maker: address });
+      const signature = await signTypedDataAsync(getOpinionTypedData(order, exchangeAddress));
+
+      const res = await fetch("/api/trades", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ marketId: Number(marketId), orderType: type, order, signature }),
+      });
+      if (!res.ok) {
+        throw new Error(await readError(res, "Order rejected"));
+      }
+
+      const result = await res.json();
+      setOrderId(result.orderId);
+      setSize("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Order failed");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const cancel = async () => {
+    if (!orderId) {
+      return;
+    }
+
+    setError(null);
+    setIsCancelling(true);
+    try {
+      if (!session) {
+        await signIn();
+      }
+
+      const res = await fetch(`/api/orders/${encodeURIComponent(orderId)}`, { method: "DELETE" });
+      if (!res.ok) {
+        throw new Error(await readError(res, "Cancel failed"));
+      }
+      await queryClient.invalidateQueries({ queryKey: ["opinion-order", orderId] });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Cancel failed");
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 rounded-lg border border-terminal-border bg-terminal-bg/60 px-4 py-3 text-xs">
+      <p className="text-[11px] uppercase tracking-wide text-terminal-dim">Trade on Opinion · {marketTitle}</p>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <ToggleButton active={outcome === "yes"} onClick={() => selectOutcome("yes")}>
+          YES
+        </ToggleButton>
+        <ToggleButton active={outcome === "no"} onClick={() => selectOutcome("no")}>
+          NO
+        </ToggleButton>
+        <span className="mx-1 text-terminal-border">|</span>
+        <ToggleButton active={side === "buy"} onClick={() => setSide("buy")}>
+          Buy
+        </ToggleButton>
+        <ToggleButton active={side === "sell"} onClick={() => setSide("sell")}>
+          Sell
+        </ToggleButton>
+        <span className="mx-1 text-terminal-border">|</span>
+        <ToggleButton active={type === "limit"} onClick={() => setType("limit")}>
+          Limit
+        </ToggleButton>
+        <ToggleButton active={type === "market"} onClick={() => setType("market")}>
+          Market
+        </ToggleButton>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-terminal-dim">
+          {sizeLabel}
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={size}
+            onChange={(event) => setSize(event.target.value)}
+            className="w-28 rounded border border-terminal-border bg-terminal-surface px-2 py-1 font-mono text-terminal-text"
+          />
+        </label>
+        {type === "limit" && (
+          <label className="flex flex-col gap-1 text-terminal-dim">
+            Price
+            <input
+              type="number"
+              min="0"
+              max="1"
+              step="0.001"
+              value={price}
+              onChange={(event) => setPrice(event.target.value)}
+              className="w-24 rounded border border-terminal-border bg-terminal-surface px-2 py-1 font-mono text-terminal-text"
+            />
+          </label>
+        )}
+        {type === "market" && (
+          <label className="flex flex-col gap-1 text-terminal-dim">
+            Max slippage (%)
+            <input
+              type="number"
+              min="0"
+              max="50"
+              step="0.1"
+              value={slippage}
+              onChange={(event) => setSlippage(event.target.value)}
+              className="w-24 rounded border border-terminal-border bg-terminal-surface px-2 py-1 font-mono text-terminal-text"
+            />
+          </label>
+        )}
+        <button
+          type="button"
+          disabled={!isConnected || !tokenId || isSubmitting}
+          onClick={submit}
+          className="rounded border border-terminal-accent/50 bg-terminal-accent/10 px-4 py-1.5 font-medium text-terminal-accent hover:bg-terminal-accent/20 disabled:opacity-50"
+        >
+          {isSubmitting ? "Signing…" : `${side === "buy" ? "Buy" : "Sell"} ${outcome.toUpperCase()}`}
+        </button>
+      </div>
+
+      {!isConnected && <p className="mt-2 text-terminal-dim">Connect a BNB Chain wallet to trade.</p>}
+      {error && <p className="mt-2 text-terminal-warn">{error}</p>}
+
+      {orderId && (
+        <div className="mt-3 flex flex-wrap items-center gap-3 border-t border-terminal-border/60 pt-3 text-terminal-dim">
+          <span className="font-mono">#{orderId}</span>
+          <span className="uppercase tracking-wide text-terminal-text">
+            {status ? status.status.replace("_", " ") : statusQuery.isError ? "status unavailable" : "submitted"}
+          </span>
+          {status && (
+            <span>
+              Filled {formatShares(status.filledAmount)}
+              {orderShares(status) !== undefined && ` of ${formatShares(orderShares(status))}`} shares
+            </span>
+          )}
+          {status && !FINAL_STATES.has(status.status) && (
+            <button
+              type="button"
+              disabled={isCancelling}
+              onClick={cancel}
+              className="hover:text-terminal-text disabled:opacity-50"
+            >
+              {isCancelling ? "Cancelling…" : "Cancel"}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,3 +2,5 @@ export { NavBar } from "./NavBar";
 export { ConnectWallet } from "./ConnectWallet";
 export { StatusIndicator } from "./StatusIndicator";
 export { Background } from "./Background";
+export { MarketRow, getPlatformChipClass } from "./MarketRow";
+export { OrderTicket } from "./OrderTicket";
@@ -0,0 +1,38 @@
+/**
+ * Built-in market source adapters (server-side only)
+ *
+ * Importing this module registers every built-in venue. To add a venue,
+ * add its id to `Platform` in lib/types.ts and its display metadata to
+ * lib/platforms.ts, then write an adapter module that calls
+ * `registerMarketSource` and import it below.
+ */
+
+import "server-only";
+
+import type { MarketPriceSnapshot, PlatformSource } from "@/lib/types";
+import { listMarketSources } from "@/lib/adapters/registry";
+
+import "@/lib/adapters/opinion";
+import "@/lib/adapters/kalshi";
+import "@/lib/adapters/polymarket";
+import "@/lib/adapters/predictfun";
+import "@/lib/adapters/limitless";
+
+export {
+  buildSourceHealth,
+  getMarketSource,
+  listMarketSources,
+  registerMarketSource,
+} from "@/lib/adapters/registry";
+export type {
+  MarketSourceAdapter,
+  MarketSourceCapabilities,
+  MarketSourceHealth,
+} from "@/lib/adapters/registry";
+
+/**
+ * Market snapshot fetchers for every registered venue
+ */
+export const platformFetchers = Object.fromEntries(
+  listMarketSources().map((adapter) => [adapter.id, adapter.fetchMarkets])
+) as Record<PlatformSource, (limit: number) => Promise<MarketPriceSnapshot[]>>;
@@ -0,0 +1,22 @@
+/**
+ * Kalshi market source adapter (server-side only)
+ *
+ * Market data comes from the public DFlow feed; the authenticated Kalshi
+ * trade API (lib/kalshiClient.ts) is only used for portfolio data.
+ */
+
+import "server-only";
+
+import { fetchKalshiPrices, fetchKalshiResolutions } from "@/lib/marketSources";
+import { buildSourceHealth, registerMarketSource, type MarketSourceAdapter } from "@/lib/adapters/registry";
+
+export const kalshiSource: MarketSourceAdapter = {
+  id: "kalshi",
+  cacheTtlMs: 30_000,
+  capabilities: { prices: false, orderbook: false, trading: false, resolutions: true },
+  fetchMarkets: fetchKalshiPrices,
+  fetchResolutions: fetchKalshiResolutions,
+  health: () => buildSourceHealth("kalshi", true),
+};
+
+registerMarketSource(kalshiSource);
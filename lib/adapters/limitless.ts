@@ -0,0 +1,19 @@
+/**
+ * Limitless market source adapter (server-side only)
+ */
+
+import "server-only";
+
+import { fetchLimitlessPrices, fetchLimitlessResolutions } from "@/lib/marketSources";
+import { buildSourceHealth, registerMarketSource, type MarketSourceAdapter } from "@/lib/adapters/registry";
+
+export const limitlessSource: MarketSourceAdapter = {
+  id: "limitless",
+  cacheTtlMs: 30_000,
+  capabilities: { prices: false, orderbook: false, trading: false, resolutions: true },
+  fetchMarkets: fetchLimitlessPrices,
+  fetchResolutions: fetchLimitlessResolutions,
+  health: () => buildSourceHealth("limitless", true),
+};
+
+registerMarketSource(limitlessSource);
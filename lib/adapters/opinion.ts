@@ -0,0 +1,37 @@
+/**
+ * Opinion.trade market source adapter (server-side only)
+ */
+
+import "server-only";
+
+import { fetchOpinionMarketPrices, fetchOpinionResolutions } from "@/lib/marketSources";
+import { fetchTokenOrderbook, fetchTokenPrices } from "@/lib/opinionClient";
+import { normalizeOrderbook } from "@/lib/orderbook";
+import { buildSourceHealth, registerMarketSource, type MarketSourceAdapter } from "@/lib/adapters/registry";
+
+function isConfigured(): boolean {
+  return Boolean(process.env.OPINION_API_KEY && process.env.OPINION_OPENAPI_BASE_URL);
+}
+
+export const opinionSource: MarketSourceAdapter = {
+  id: "opinion",
+  cacheTtlMs: 10_000,
+  capabilities: { prices: true, orderbook: true, trading: true, resolutions: true },
+  fetchMarkets: fetchOpinionMarketPrices,
+  fetchResolutions: fetchOpinionResolutions,
+  fetchPrices: async (tokenIds) => {
+    const { prices } = await fetchTokenPrices(tokenIds);
+    const result: Record<string, number> = {};
+    for (const [tokenId, info] of Object.entries(prices)) {
+      result[tokenId] = info.price;
+    }
+    return result;
+  },
+  fetchOrderbook: async (tokenId, depth) => {
+    const book = await fetchTokenOrderbook(tokenId);
+    return book ? normalizeOrderbook(tokenId, book.bids, book.asks, depth) : null;
+  },
+  health: () => buildSourceHealth("opinion", isConfigured()),
+};
+
+registerMarketSource(opinionSource);
@@ -0,0 +1,40 @@
+/**
+ * Polymarket market source adapter (server-side only)
+ */
+
+import "server-only";
+
+import { fetchPolymarketPrices, fetchPolymarketResolutions } from "@/lib/marketSources";
+import { fetchPolymarketOrderBook } from "@/lib/polymarketClient";
+import { normalizeOrderbook } from "@/lib/orderbook";
+import { buildSourceHealth, registerMarketSource, type MarketSourceAdapter } from "@/lib/adapters/registry";
+
+async function fetchOrderbook(tokenId: string, depth: number) {
+  const book = await fetchPolymarketOrderBook(tokenId);
+  return book ? normalizeOrderbook(tokenId, book.bids, book.asks, depth) : null;
+}
+
+export const polymarketSource: MarketSourceAdapter = {
+  id: "polymarket",
+  cacheTtlMs: 20_000,
+  capabilities: { prices: true, orderbook: true, trading: false, resolutions: true },
+  fetchMarkets: fetchPolymarketPrices,
+  fetchResolutions: fetchPolymarketResolutions,
+  fetchPrices: async (tokenIds) => {
+    const books = await Promise.all(
+      [...new Set(tokenIds)].map(async (tokenId) => [tokenId, await fetchOrderbook(tokenId, 1)] as const)
+    );
+    const result: Record<string, number> = {};
+    for (const [tokenId, book] of books) {
+      if (book?.midPrice !== null && book?.midPrice !== undefined) {
+        result[tokenId] = book.midPrice;
+      }
+    }
+    return result;
+  },
+  fetchOrderbook,
+  // Public CLOB endpoints need no credentials
+  health: () => buildSourceHealth("polymarket", true),
+};
+
+registerMarketSource(polymarketSource);
@@ -0,0 +1,19 @@
+/**
+ * Predict.fun market source adapter (server-side only)
+ */
+
+import "server-only";
+
+import { fetchPredictFunPrices, fetchPredictFunResolutions } from "@/lib/marketSources";
+import { buildSourceHealth, registerMarketSource, type MarketSourceAdapter } from "@/lib/adapters/registry";
+
+export const predictFunSource: MarketSourceAdapter = {
+  id: "predictfun",
+  cacheTtlMs: 30_000,
+  capabilities: { prices: false, orderbook: false, trading: false, resolutions: true },
+  fetchMarkets: fetchPredictFunPrices,
+  fetchResolutions: fetchPredictFunResolutions,
+  health: () => buildSourceHealth("predictfun", Boolean(process.env.PREDICTFUN_API_KEY)),
+};
+
+registerMarketSource(predictFunSource);
@@ -0,0 +1,100 @@
+/**
+ * Market source adapter registry
+ *
+ * Each venue is one adapter module that registers itself here. The market
+ * feed, orderbook routes and health reporting read from the registry
+ * instead of per-venue records.
+ */
+
+import type { MarketPriceSnapshot, MarketResolution, ParseReport, PlatformSource, TokenOrderbook } from "../types";
+import { getHttpMetrics, type HttpSourceMetrics } from "../http";
+import { getParseReport } from "../schema";
+
+// --- Types ---
+
+export interface MarketSourceCapabilities {
+  prices: boolean; // Batch token price lookups
+  orderbook: boolean; // Full-depth orderbooks
+  trading: boolean; // Orders can be placed through pm.ag
+  resolutions: boolean; // Lists resolved markets with their outcome
+}
+
+export type MarketSourceHealthStatus = "healthy" | "degraded" | "down" | "unconfigured" | "unknown";
+
+export interface MarketSourceHealth {
+  source: PlatformSource;
+  configured: boolean;
+  status: MarketSourceHealthStatus;
+  http: HttpSourceMetrics | null;
+  parse: ParseReport | null; // Schema validation of the latest market payload
+}
+
+export interface MarketSourceAdapter {
+  id: PlatformSource;
+  cacheTtlMs: number; // How long market snapshots stay fresh in the feed cache
+  capabilities: MarketSourceCapabilities;
+  fetchMarkets: (limit: number) => Promise<MarketPriceSnapshot[]>;
+  fetchPrices?: (tokenIds: string[]) => Promise<Record<string, number>>;
+  fetchOrderbook?: (tokenId: string, depth: number) => Promise<TokenOrderbook | null>;
+  fetchResolutions?: (limit: number) => Promise<MarketResolution[]>;
+  health: () => MarketSourceHealth;
+}
+
+// --- Registry ---
+
+const adapters = new Map<PlatformSource, MarketSourceAdapter>();
+
+/**
+ * Register a venue adapter, replacing any adapter with the same id
+ */
+export function registerMarketSource(adapter: MarketSourceAdapter): void {
+  if (adapter.capabilities.orderbook !== Boolean(adapter.fetchOrderbook)) {
+    throw new Error(`Market source "${adapter.id}" orderbook capability does not match its adapter`);
+  }
+  if (adapter.capabilities.prices !== Boolean(adapter.fetchPrices)) {
+    throw new Error(`Market source "${adapter.id}" prices capability does not match its adapter`);
+  }
+  if (adapter.capabilities.resolutions !== Boolean(adapter.fetchResolutions)) {
+    throw new Error(`Market source "${adapter.id}" resolutions capability does not match its adapter`);
+  }
+
+  adapters.set(adapter.id, adapter);
+}
+
+/**
+ * Look up a registered adapter
+ */
+export function getMarketSource(id: string): MarketSourceAdapter | undefined {
+  return adapters.get(id as PlatformSource);
+}
+
+/**
+ * All registered adapters, in registration order
+ */
+export function listMarketSources(): MarketSourceAdapter[] {
+  return Array.from(adapters.values());
+}
+
+/**
+ * Derive a venue's health from its configuration and HTTP metrics
+ *
+ * A venue is "down" when its latest request failed and nothing has ever
+ * succeeded, "degraded" when the latest request failed after earlier
+ * successes, and "unknown" until it has made a request.
+ */
+export function buildSourceHealth(source: PlatformSource, configured: boolean): MarketSourceHealth {
+  const http = getHttpMetrics(source);
+
+  let status: MarketSourceHealthStatus;
+  if (!configured) {
+    status = "unconfigured";
+  } else if (!http || http.requests === 0) {
+    status = "unknown";
+  } else if ((http.lastFailureAt ?? 0) > (http.lastSuccessAt ?? 0)) {
+    status = http.successes > 0 ? "degraded" : "down";
+  } else {
+    status = "healthy";
+  }
+
+  return { source, configured, status, http, parse: getParseReport(source) };
+}
@@ -0,0 +1,82 @@
+/**
+ * Admin authorization and audit log (server-side only)
+ *
+ * Every admin route calls `requireAdmin`, which accepts an allowlisted
+ * wallet's SIWE session (checked against ADMIN_ADDRESSES on each request)
+ * or the ADMIN_API_TOKEN bearer token. Routes that change state or reach
+ * debug tooling pass their response through `auditAdminAction`.
+ */
+
+import "server-only";
+
+import { NextResponse, type NextRequest } from "next/server";
+import { addSecurityHeaders, getAdminActor, getCorsHeaders } from "@/lib/security";
+import { getSession } from "@/lib/session";
+import { getClientIdentifier } from "@/lib/rateLimit";
+import { createAdminAuditEntry } from "@/lib/database/queries";
+
+// --- Public API ---
+
+/**
+ * Require an admin caller
+ *
+ *   const auth = requireAdmin(request);
+ *   if ("response" in auth) return auth.response;
+ *
+ * @returns The admin actor, or a 401 (not signed in) / 403 (signed in, not allowlisted) response
+ */
+export function requireAdmin(request: NextRequest): { actor: string } | { response: NextResponse } {
+  const actor = getAdminActor(request);
+  if (actor) {
+    return { actor };
+  }
+
+  const isSignedIn = getSession(request) !== null;
+  return {
+    response: addSecurityHeaders(
+      NextResponse.json(
+        isSignedIn
+          ? { error: "FORBIDDEN", message: "This wallet is not an admin" }
+          : { error: "UNAUTHORIZED", message: "Admin session or token required" },
+        { status: isSignedIn ? 403 : 401, headers: getCorsHeaders() }
+      )
+    ),
+  };
+}
+
+/**
+ * Record an admin action with the status it returned, without blocking the response
+ *
+ * @param request - Admin request
+ * @param actor - Actor from `requireAdmin`
+ * @param action - Dotted action name, e.g. "alert-rule.delete"
+ * @param response - Response being returned; its status is recorded
+ * @param options.target - Id or key the action applied to
+ * @param options.details - Extra JSON context (never secrets)
+ * @returns The response, unchanged
+ */
+export function auditAdminAction<T>(
+  request: NextRequest,
+  actor: string,
+  action: string,
+  response: NextResponse<T>,
+  options: { target?: string; details?: Record<string, unknown> } = {}
+): NextResponse<T> {
+  const identifier = getClientIdentifier(request);
+
+  createAdminAuditEntry({
+    actor,
+    action,
+    method: request.method,
+    path: request.nextUrl.pathname,
+    target: options.target,
+    details: options.details,
+    status: response.status,
+    ipAddress: identifier === "unknown" ? undefined : identifier,
+  }).catch((error) => {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`[Admin] Failed to record ${action} by ${actor}:`, errorMessage);
+  });
+
+  return response;
+}
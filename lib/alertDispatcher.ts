@@ -0,0 +1,115 @@
+/**
+ * Alert delivery (server-side only)
+ *
+ * Evaluates persisted alert rules on each markets refresh, posts fired
+ * alerts to their webhooks and records every attempt in alert history.
+ * Webhooks are posted once, without retries, and carry an event id so a
+ * receiver can drop any duplicate it gets anyway.
+ */
+
+import "server-only";
+
+import type { AlertRule, AlertTrigger, MarketsResponse } from "@/lib/types";
+import { buildAlertWebhookPayload, evaluateAlertRules, updateAlertBaseline, type AlertBaseline } from "@/lib/alerts";
+import { createHttpClient } from "@/lib/http";
+import { sanitizeError } from "@/lib/security";
+import { getAlertRules, recordAlertEvent } from "@/lib/database/queries";
+
+// --- Configuration ---
+
+const ALERT_RULES_TTL_MS = 30_000;
+
+const webhookHttp = createHttpClient("alerts", {
+  label: "Alert webhook",
+  timeoutMs: 5000,
+  maxRetries: 0, // A timed-out receiver may still have taken the alert
+  maxConcurrent: 4,
+});
+
+let rulesCache: { data: AlertRule[]; expiresAt: number } | null = null;
+let baseline: AlertBaseline | null = null;
+
+// --- Helper Functions ---
+
+/**
+ * Load enabled rules, falling back to the last good copy on error
+ */
+async function loadAlertRules(): Promise<AlertRule[]> {
+  if (rulesCache && Date.now() < rulesCache.expiresAt) {
+    return rulesCache.data;
+  }
+
+  try {
+    const data = await getAlertRules(true);
+    rulesCache = { data, expiresAt: Date.now() + ALERT_RULES_TTL_MS };
+    return data;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn("[Alerts] Failed to load alert rules:", errorMessage);
+    return rulesCache?.data ?? [];
+  }
+}
+
+async function deliver(rule: AlertRule, trigger: AlertTrigger): Promise<void> {
+  let statusCode: number | undefined;
+  let error: string | undefined;
+
+  try {
+    const response = await webhookHttp.fetch(rule.webhookUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Idempotency-Key": `${trigger.ruleId}:${trigger.triggeredAt}:${trigger.marketKey ?? trigger.platform ?? ""}`,
+      },
+      body: JSON.stringify(buildAlertWebhookPayload(trigger)),
+    });
+    statusCode = response.status;
+  } catch (deliveryError) {
+    error = sanitizeError(deliveryError);
+  }
+
+  await recordAlertEvent({ ...trigger, delivered: error === undefined, statusCode, error });
+}
+
+// --- Public API ---
+
+/**
+ * Drop cached rules so the next refresh picks up edits
+ */
+export function invalidateAlertRules(): void {
+  rulesCache = null;
+}
+
+/**
+ * Evaluate alert rules for a refresh and deliver whatever fired
+ *
+ * Each refresh is compared with the markets and sources seen on earlier
+ * ones, then folded into that baseline. Cached rules are stamped with the
+ * trigger time straight away so the cooldown holds before the next reload
+ * from the database.
+ *
+ * @param next - Freshly aggregated response
+ */
+export async function dispatchAlerts(next: MarketsResponse): Promise<void> {
+  const previous = baseline;
+  baseline = updateAlertBaseline(previous, next);
+
+  const rules = await loadAlertRules();
+  if (rules.length === 0) {
+    return;
+  }
+
+  const triggers = evaluateAlertRules(rules, previous, next);
+  const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+
+  await Promise.all(
+    triggers.map((trigger) => {
+      const rule = rulesById.get(trigger.ruleId)!;
+      rule.lastTriggeredAt = trigger.triggeredAt;
+      return deliver(rule, trigger).catch((error) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`[Alerts] Failed to record alert for rule ${rule.id}:`, errorMessage);
+      });
+    })
+  );
+}
@@ -0,0 +1,351 @@
+/**
+ * Alert rules engine
+ *
+ * Rules compare each refresh with a baseline of what was last seen per
+ * market and source, so each one fires on the refresh where its condition
+ * becomes true, not on every refresh while it stays true. Keeping the
+ * baseline per market means responses covering different market sets
+ * never compare a market with its absence:
+ *
+ * - price_cross: a market's YES price crosses a threshold
+ * - spread: the YES price gap inside a market's cluster reaches a threshold
+ * - source_error: a source switches to "error"
+ * - expiry: a market enters the window before its `expiresAt`
+ *
+ * Cooldowns keep a flapping condition from flooding the webhook.
+ */
+
+import type {
+  AlertRule,
+  AlertRuleType,
+  AlertTrigger,
+  MarketCluster,
+  MarketsResponse,
+  PlatformSource,
+  PlatformSourceState,
+} from "./types";
+import { platformInfo } from "./platforms";
+import { getSnapshotKey } from "./marketDelta";
+import { isValidMarketKey } from "./clusterOverrides";
+
+// --- Types ---
+
+export type AlertRuleInput = Omit<AlertRule, "id" | "enabled" | "lastTriggeredAt" | "createdAt">;
+
+/**
+ * Last seen state per market ("platform:marketId") and per source
+ */
+export interface AlertBaseline {
+  markets: Map<string, { price: number; spread?: number; seenAt: number }>; // seenAt: refresh time (ms)
+  sources: Partial<Record<PlatformSource, PlatformSourceState["status"]>>;
+}
+
+export interface AlertWebhookPayload {
+  text: string; // Slack
+  content: string; // Discord
+  alert: AlertTrigger;
+}
+
+// --- Configuration ---
+
+export const ALERT_RULE_TYPES: readonly AlertRuleType[] = ["price_cross", "spread", "source_error", "expiry"];
+
+const DEFAULT_COOLDOWN_MINUTES = 60;
+const MAX_COOLDOWN_MINUTES = 7 * 24 * 60;
+const MAX_WINDOW_MINUTES = 30 * 24 * 60;
+const MAX_NAME_LENGTH = 120;
+const MAX_WEBHOOK_URL_LENGTH = 500;
+const MINUTE_MS = 60_000;
+const BASELINE_RETENTION_MS = 24 * 60 * MINUTE_MS; // Markets unseen for longer are forgotten
+
+// --- Helper Functions ---
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function isUnitInterval(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 1;
+}
+
+function isMinuteCount(value: unknown, max: number): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= max;
+}
+
+function isWebhookUrl(value: unknown): value is string {
+  if (typeof value !== "string" || value.length > MAX_WEBHOOK_URL_LENGTH) {
+    return false;
+  }
+  try {
+    return new URL(value).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function getClusterSpread(cluster: MarketCluster): number | undefined {
+  if (cluster.platformCount < 2) {
+    return undefined;
+  }
+  const prices = cluster.markets.map((market) => market.yesPrice);
+  return Math.max(...prices) - Math.min(...prices);
+}
+
+function findClusterSpread(clusters: MarketCluster[] | undefined, marketKey: string): number | undefined {
+  const cluster = clusters?.find((candidate) =>
+    candidate.markets.some((market) => getSnapshotKey(market) === marketKey)
+  );
+  return cluster ? getClusterSpread(cluster) : undefined;
+}
+
+function findSnapshot(response: MarketsResponse | null, marketKey: string) {
+  return response?.list.find((snapshot) => getSnapshotKey(snapshot) === marketKey);
+}
+
+function isCoolingDown(rule: AlertRule, now: number): boolean {
+  return rule.lastTriggeredAt !== undefined && now - rule.lastTriggeredAt < rule.cooldownMinutes * MINUTE_MS;
+}
+
+function evaluateRule(
+  rule: AlertRule,
+  previous: AlertBaseline | null,
+  next: MarketsResponse,
+  now: number
+): Array<Omit<AlertTrigger, "ruleId" | "ruleName" | "type" | "triggeredAt">> {
+  const { marketKey, threshold } = rule;
+  const before = marketKey ? previous?.markets.get(marketKey) : undefined;
+
+  switch (rule.type) {
+    case "price_cross": {
+      const after = marketKey ? findSnapshot(next, marketKey) : undefined;
+      if (!before || !after || threshold === undefined) {
+        return [];
+      }
+      const crossed =
+        rule.direction === "below"
+          ? before.price > threshold && after.price <= threshold
+          : before.price < threshold && after.price >= threshold;
+      if (!crossed) {
+        return [];
+      }
+      return [
+        {
+          marketKey,
+          platform: after.platform,
+          value: after.price,
+          message: `${after.marketTitle} (${after.platform}) crossed ${rule.direction ?? "above"} ${formatPercent(threshold)}, now ${formatPercent(after.price)}`,
+        },
+      ];
+    }
+
+    case "spread": {
+      const after = marketKey ? findClusterSpread(next.clusters, marketKey) : undefined;
+      if (!marketKey || after === undefined || threshold === undefined || after < threshold) {
+        return [];
+      }
+      if (before?.spread !== undefined && before.spread >= threshold) {
+        return [];
+      }
+      const title = findSnapshot(next, marketKey)?.marketTitle ?? marketKey;
+      return [
+        {
+          marketKey,
+          value: Number(after.toFixed(4)),
+          message: `Cross-venue spread on ${title} reached ${formatPercent(after)} (threshold ${formatPercent(threshold)})`,
+        },
+      ];
+    }
+
+    case "source_error": {
+      const platforms = rule.platform
+        ? [rule.platform]
+        : (Object.keys(next.sources) as PlatformSource[]);
+      return platforms
+        .filter(
+          (platform) =>
+            next.sources[platform]?.status === "error" && previous?.sources[platform] !== "error"
+        )
+        .map((platform) => ({
+          platform,
+          message: `${platform} source is failing: ${next.sources[platform].error ?? "unknown error"}`,
+        }));
+    }
+
+    case "expiry": {
+      const after = marketKey ? findSnapshot(next, marketKey) : undefined;
+      if (!after?.expiresAt || rule.windowMinutes === undefined) {
+        return [];
+      }
+      const windowMs = rule.windowMinutes * MINUTE_MS;
+      const remaining = after.expiresAt - now;
+      if (remaining <= 0 || remaining > windowMs) {
+        return [];
+      }
+      if (before && after.expiresAt - before.seenAt <= windowMs) {
+        return []; // Already inside the window on the previous refresh
+      }
+      const minutes = Math.ceil(remaining / MINUTE_MS);
+      return [
+        {
+          marketKey,
+          platform: after.platform,
+          value: minutes,
+          message: `${after.marketTitle} (${after.platform}) closes in ${minutes} min`,
+        },
+      ];
+    }
+  }
+}
+
+// --- Public API ---
+
+/**
+ * Check whether a value is a supported alert rule type
+ */
+export function isAlertRuleType(value: unknown): value is AlertRuleType {
+  return typeof value === "string" && (ALERT_RULE_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Validate an alert rule from a request body
+ *
+ * @returns The normalized rule, or a message describing the first invalid field
+ */
+export function parseAlertRuleInput(body: unknown): { input: AlertRuleInput } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be a JSON object" };
+  }
+
+  const { name, type, webhookUrl, marketKey, platform, direction, threshold, windowMinutes, cooldownMinutes } =
+    body as Record<string, unknown>;
+
+  if (typeof name !== "string" || name.trim().length === 0 || name.length > MAX_NAME_LENGTH) {
+    return { error: `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters` };
+  }
+  if (!isAlertRuleType(type)) {
+    return { error: `type must be one of ${ALERT_RULE_TYPES.join(", ")}` };
+  }
+  if (!isWebhookUrl(webhookUrl)) {
+    return { error: "webhookUrl must be an https URL" };
+  }
+  if (cooldownMinutes !== undefined && !isMinuteCount(cooldownMinutes, MAX_COOLDOWN_MINUTES)) {
+    return { error: `cooldownMinutes must be an integer between 1 and ${MAX_COOLDOWN_MINUTES}` };
+  }
+
+  const input: AlertRuleInput = {
+    name: name.trim(),
+    type,
+    webhookUrl,
+    cooldownMinutes: (cooldownMinutes as number | undefined) ?? DEFAULT_COOLDOWN_MINUTES,
+  };
+
+  if (type === "source_error") {
+    if (platform !== undefined && (typeof platform !== "string" || !(platform in platformInfo))) {
+      return { error: "platform must be a supported market source" };
+    }
+    if (platform !== undefined) {
+      input.platform = platform as PlatformSource;
+    }
+    return { input };
+  }
+
+  if (!isValidMarketKey(marketKey)) {
+    return { error: "marketKey must look like 'platform:marketId'" };
+  }
+  input.marketKey = marketKey;
+
+  if (type === "expiry") {
+    if (!isMinuteCount(windowMinutes, MAX_WINDOW_MINUTES)) {
+      return { error: `windowMinutes must be an integer between 1 and ${MAX_WINDOW_MINUTES}` };
+    }
+    input.windowMinutes = windowMinutes;
+    return { input };
+  }
+
+  if (!isUnitInterval(threshold)) {
+    return { error: "threshold must be a number between 0 and 1" };
+  }
+  input.threshold = threshold;
+
+  if (type === "price_cross") {
+    if (direction !== "above" && direction !== "below") {
+      return { error: "direction must be 'above' or 'below'" };
+    }
+    input.direction = direction;
+  }
+
+  return { input };
+}
+
+/**
+ * Fold a refresh into the baseline the next one is compared with
+ *
+ * Markets missing from the refresh keep their last seen state until they
+ * have gone unseen for a day.
+ *
+ * @returns A new baseline; `previous` is left unchanged
+ */
+export function updateAlertBaseline(previous: AlertBaseline | null, next: MarketsResponse): AlertBaseline {
+  const markets = new Map(
+    Array.from(previous?.markets ?? []).filter(([, market]) => next.updatedAt - market.seenAt < BASELINE_RETENTION_MS)
+  );
+
+  const spreads = new Map<string, number>();
+  for (const cluster of next.clusters ?? []) {
+    const spread = getClusterSpread(cluster);
+    if (spread !== undefined) {
+      cluster.markets.forEach((market) => spreads.set(getSnapshotKey(market), spread));
+    }
+  }
+
+  for (const snapshot of next.list) {
+    const key = getSnapshotKey(snapshot);
+    markets.set(key, { price: snapshot.price, spread: spreads.get(key), seenAt: next.updatedAt });
+  }
+
+  const sources = { ...previous?.sources };
+  for (const [platform, state] of Object.entries(next.sources) as [PlatformSource, PlatformSourceState][]) {
+    sources[platform] = state.status;
+  }
+
+  return { markets, sources };
+}
+
+/**
+ * Evaluate alert rules against a markets refresh
+ *
+ * Price crossings need the market in the baseline. Other rules treat a
+ * market or source missing from it as "condition not met", so they fire
+ * on the first refresh after startup; cooldowns cover restarts.
+ *
+ * @param rules - Persisted rules; disabled and cooling-down rules are skipped
+ * @param previous - Baseline from the previous refreshes, if any
+ * @param next - Freshly aggregated response
+ * @param now - Evaluation time (ms)
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  previous: AlertBaseline | null,
+  next: MarketsResponse,
+  now: number = Date.now()
+): AlertTrigger[] {
+  return rules
+    .filter((rule) => rule.enabled && !isCoolingDown(rule, now))
+    .flatMap((rule) =>
+      evaluateRule(rule, previous, next, now).map((trigger) => ({
+        ...trigger,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        type: rule.type,
+        triggeredAt: now,
+      }))
+    );
+}
+
+/**
+ * Build a webhook body that Slack (`text`) and Discord (`content`) both accept
+ */
+export function buildAlertWebhookPayload(trigger: AlertTrigger): AlertWebhookPayload {
+  const text = `[pm.ag] ${trigger.ruleName}: ${trigger.message}`;
+  return { text, content: text, alert: trigger };
+}
@@ -0,0 +1,173 @@
+/**
+ * Cross-platform arbitrage detection
+ *
+ * Walks clustered markets and finds YES/NO pairings across platforms whose
+ * combined cost (including platform fees) is below the $1 payout.
+ */
+
+import type {
+  ArbitrageLeg,
+  ArbitrageOpportunity,
+  ClusterMarket,
+  MarketCluster,
+} from "./types";
+import { getPlatformFees } from "./platforms";
+import { findResolutionMismatches, scoreResolutionConfidence } from "./resolutionCriteria";
+
+// --- Types ---
+
+export interface ArbitrageScanOptions {
+  minNetEdge?: number; // Only return opportunities with a net edge above this value
+  minConfidence?: number; // Skip opportunities whose legs' resolution confidence is lower
+  now?: number;
+}
+
+// --- Configuration ---
+
+const BPS_DENOMINATOR = 10_000;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+// --- Helper Functions ---
+
+function isTradablePrice(price: number | undefined): price is number {
+  return price !== undefined && Number.isFinite(price) && price > 0 && price < 1;
+}
+
+function buildLeg(market: ClusterMarket, side: "yes" | "no", price: number): ArbitrageLeg {
+  const fees = getPlatformFees(market.platform);
+
+  return {
+    platform: market.platform,
+    marketId: market.marketId,
+    marketTitle: market.marketTitle,
+    marketUrl: market.marketUrl,
+    side,
+    price,
+    takerFee: (price * fees.takerBps) / BPS_DENOMINATOR,
+    settlementFee: ((1 - price) * fees.settlementBps) / BPS_DENOMINATOR,
+  };
+}
+
+function getLatestExpiry(yesMarket: ClusterMarket, noMarket: ClusterMarket): number | undefined {
+  const expiries = [yesMarket.expiresAt, noMarket.expiresAt].filter(
+    (value): value is number => typeof value === "number" && Number.isFinite(value)
+  );
+  return expiries.length > 0 ? Math.max(...expiries) : undefined;
+}
+
+/**
+ * Price a YES leg on one market against a NO leg on another
+ *
+ * Only one leg pays out, so the settlement fee is the worse of the two.
+ * When the cluster has been through resolution analysis, the two legs'
+ * resolution terms are compared so callers can tell a real edge from
+ * markets that may settle differently.
+ */
+export function priceArbitragePair(
+  cluster: MarketCluster,
+  yesMarket: ClusterMarket,
+  noMarket: ClusterMarket,
+  now: number = Date.now()
+): ArbitrageOpportunity | null {
+  if (yesMarket.platform === noMarket.platform) {
+    return null;
+  }
+
+  // Venues that quote no NO price have no NO leg to price
+  if (!isTradablePrice(yesMarket.yesPrice) || !isTradablePrice(noMarket.noPrice)) {
+    return null;
+  }
+
+  const yesLeg = buildLeg(yesMarket, "yes", yesMarket.yesPrice);
+  const noLeg = buildLeg(noMarket, "no", noMarket.noPrice);
+
+  const totalCost = yesLeg.price + noLeg.price;
+  const capital = totalCost + yesLeg.takerFee + noLeg.takerFee;
+  const worstSettlementFee = Math.max(yesLeg.settlementFee, noLeg.settlementFee);
+  const grossEdge = 1 - totalCost;
+  const netEdge = 1 - capital - worstSettlementFee;
+  const impliedReturn = capital > 0 ? netEdge / capital : 0;
+
+  const expiresAt = getLatestExpiry(yesMarket, noMarket);
+  const timeToExpiryMs = expiresAt !== undefined ? expiresAt - now : undefined;
+  const annualizedReturn =
+    timeToExpiryMs !== undefined && timeToExpiryMs > 0
+      ? impliedReturn * (YEAR_MS / timeToExpiryMs)
+      : undefined;
+
+  const resolutionMismatches =
+    cluster.confidence !== undefined ? findResolutionMismatches([yesMarket, noMarket]) : undefined;
+
+  return {
+    clusterId: cluster.id,
+    title: cluster.title,
+    themeKey: cluster.themeKey,
+    yesLeg,
+    noLeg,
+    totalCost,
+    grossEdge,
+    netEdge,
+    impliedReturn,
+    expiresAt,
+    timeToExpiryMs,
+    annualizedReturn,
+    confidence: resolutionMismatches ? scoreResolutionConfidence(resolutionMismatches) : undefined,
+    resolutionMismatches,
+  };
+}
+
+/**
+ * Find the cheapest YES/NO pairing across platforms within a cluster
+ */
+export function findBestArbitrage(
+  cluster: MarketCluster,
+  now: number = Date.now()
+): ArbitrageOpportunity | null {
+  if (cluster.platformCount < 2) {
+    return null;
+  }
+
+  let best: ArbitrageOpportunity | null = null;
+
+  for (const yesMarket of cluster.markets) {
+    for (const noMarket of cluster.markets) {
+      const candidate = priceArbitragePair(cluster, yesMarket, noMarket, now);
+      if (candidate && (!best || candidate.netEdge > best.netEdge)) {
+        best = candidate;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Scan clusters for arbitrage opportunities
+ *
+ * @param clusters - Clusters produced by buildClusters
+ * @param options - Minimum net edge and reference time
+ * @returns Opportunities ranked by net edge (highest first)
+ */
+export function findArbitrageOpportunities(
+  clusters: MarketCluster[],
+  options: ArbitrageScanOptions = {}
+): ArbitrageOpportunity[] {
+  const minNetEdge = options.minNetEdge ?? 0;
+  const minConfidence = options.minConfidence ?? 0;
+  const now = options.now ?? Date.now();
+
+  const opportunities: ArbitrageOpportunity[] = [];
+
+  for (const cluster of clusters) {
+    const best = findBestArbitrage(cluster, now);
+    if (best && best.netEdge > minNetEdge && (best.confidence ?? 1) >= minConfidence) {
+      opportunities.push(best);
+    }
+  }
+
+  opportunities.sort(
+    (a, b) => b.netEdge - a.netEdge || b.impliedReturn - a.impliedReturn
+  );
+
+  return opportunities;
+}
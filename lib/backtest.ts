@@ -0,0 +1,451 @@
+/**
+ * Historical strategy backtesting
+ *
+ * Replays recorded price snapshots in fixed time steps. Clusters are built
+ * once from every market in the history; at each step they carry the
+ * latest prices of each market and are handed to a pluggable strategy,
+ * whose orders fill at that price plus slippage and size-dependent impact
+ * and pay taker fees from lib/platforms.ts. Positions still open at the
+ * end settle on known resolutions (paying settlement fees) or stay marked
+ * to their last price.
+ */
+
+import type { MarketCluster, MarketPriceSnapshot, MarketResolution, Platform } from "./types";
+import { buildClusters } from "./marketClustering";
+import { getPlatformFees } from "./platforms";
+
+// --- Types ---
+
+/** Open holding in one side of one market */
+export interface BacktestPosition {
+  platform: Platform;
+  marketId: string;
+  side: "yes" | "no";
+  group: string;
+  shares: number;
+  cost: number; // Dollars paid, fees and slippage included
+  openedAt: number;
+}
+
+/** Market state handed to a strategy at each step */
+export interface BacktestFrame {
+  timestamp: number;
+  clusters: MarketCluster[]; // Markets with a fresh price only, priced as of `timestamp`
+  positions: BacktestPosition[];
+}
+
+/** Strategy instruction; sells close the whole position */
+export interface BacktestOrder {
+  platform: Platform;
+  marketId: string;
+  side: "yes" | "no";
+  action: "buy" | "sell";
+  notional?: number; // Dollars to spend (buy), fees included
+  group: string; // Round trip the order belongs to, for hit rate and capacity
+}
+
+export interface BacktestStrategy {
+  name: string;
+  onFrame: (frame: BacktestFrame) => BacktestOrder[];
+}
+
+export interface BacktestOptions {
+  stepMs?: number; // Replay step (default 1 hour)
+  maxStalenessMs?: number; // Markets without a snapshot this recent are left out of the frame (default 6 hours)
+  slippageBps?: number; // Fixed slippage against the recorded price (default 50)
+  impactBpsPer1k?: number; // Extra slippage per $1,000 of order notional (default 25)
+  resolutions?: MarketResolution[]; // Settle positions still open at the end
+}
+
+export interface BacktestFill {
+  timestamp: number;
+  platform: Platform;
+  marketId: string;
+  side: "yes" | "no";
+  action: "buy" | "sell" | "settle";
+  group: string;
+  price: number; // Per share, slippage included; payout per share for settlements
+  shares: number;
+  fees: number;
+  cashFlow: number; // Negative when paying
+}
+
+export interface BacktestEquityPoint {
+  timestamp: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  pnl: number;
+}
+
+export interface BacktestReport {
+  strategy: string;
+  from: number;
+  to: number;
+  steps: number;
+  fills: BacktestFill[];
+  equityCurve: BacktestEquityPoint[];
+  realizedPnl: number;
+  unrealizedPnl: number; // Positions with no price or resolution left at the end
+  totalPnl: number;
+  fees: number;
+  maxDrawdown: number; // Largest peak-to-trough fall of the PnL curve, in dollars
+  trades: number; // Closed round trips
+  winningTrades: number;
+  hitRate: number | null;
+  peakCapital: number; // Most capital tied up in open positions at once
+  capacity: number | null; // Median break-even notional per round trip; null without an impact model
+}
+
+/** Latest recorded prices of a market */
+interface Quote {
+  price: number;
+  noPrice?: number;
+  at: number;
+}
+
+// --- Configuration ---
+
+const BPS_DENOMINATOR = 10_000;
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_FILL_PRICE = 0.999;
+
+// --- Helper Functions ---
+
+function marketKey(platform: string, marketId: string): string {
+  return `${platform}:${marketId}`;
+}
+
+function positionKey(position: Pick<BacktestPosition, "platform" | "marketId" | "side">): string {
+  return `${position.platform}:${position.marketId}:${position.side}`;
+}
+
+/**
+ * Recorded price of one side; undefined for NO when the venue quoted none
+ */
+function sidePrice(quote: Quote, side: "yes" | "no"): number | undefined {
+  return side === "yes" ? quote.price : quote.noPrice;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+// --- Public API ---
+
+/**
+ * Buy the cheapest YES in a cross-venue cluster when the YES prices spread
+ * wider than `entrySpread`, and sell once the spread narrows to `exitSpread`
+ */
+export function createSpreadConvergenceStrategy(
+  options: { entrySpread?: number; exitSpread?: number; notional?: number; maxOpen?: number } = {}
+): BacktestStrategy {
+  const entrySpread = options.entrySpread ?? 0.04;
+  const exitSpread = options.exitSpread ?? 0.01;
+  const notional = options.notional ?? 100;
+  const maxOpen = options.maxOpen ?? 10;
+
+  return {
+    name: `spread-convergence(entry=${entrySpread}, exit=${exitSpread}, notional=${notional})`,
+    onFrame: ({ clusters, positions }) => {
+      const orders: BacktestOrder[] = [];
+      const openGroups = new Set(positions.map((position) => position.group));
+
+      for (const cluster of clusters) {
+        if (cluster.platformCount < 2) {
+          continue;
+        }
+
+        const byPrice = [...cluster.markets].sort((a, b) => a.yesPrice - b.yesPrice);
+        const cheap = byPrice[0];
+        const spread = byPrice[byPrice.length - 1].yesPrice - cheap.yesPrice;
+
+        if (openGroups.has(cluster.id)) {
+          if (spread <= exitSpread) {
+            for (const position of positions.filter((held) => held.group === cluster.id)) {
+              const { platform, marketId, side, group } = position;
+              orders.push({ platform, marketId, side, group, action: "sell" });
+            }
+          }
+        } else if (spread >= entrySpread && openGroups.size < maxOpen) {
+          openGroups.add(cluster.id);
+          orders.push({
+            platform: cheap.platform,
+            marketId: String(cheap.marketId),
+            side: "yes",
+            action: "buy",
+            notional,
+            group: cluster.id,
+          });
+        }
+      }
+
+      return orders;
+    },
+  };
+}
+
+/**
+ * Replay snapshots through a strategy
+ *
+ * @param snapshots - Recorded snapshots with market titles, any order
+ * @param strategy - Decides orders from each step's clusters and open positions
+ * @param options - Step size, slippage model and resolutions
+ * @returns Fills, PnL curve and summary statistics
+ * @throws If the step is not positive
+ */
+export function runBacktest(
+  snapshots: MarketPriceSnapshot[],
+  strategy: BacktestStrategy,
+  options: BacktestOptions = {}
+): BacktestReport {
+  const stepMs = options.stepMs ?? HOUR_MS;
+  if (!(stepMs > 0)) {
+    throw new Error(`Backtest step must be positive, got ${stepMs}ms`);
+  }
+  const maxStalenessMs = options.maxStalenessMs ?? 6 * HOUR_MS;
+  const slippageBps = options.slippageBps ?? 50;
+  const impactBpsPer1k = options.impactBpsPer1k ?? 25;
+
+  const history = [...snapshots].sort((a, b) => a.updatedAt - b.updatedAt);
+  const from = history[0]?.updatedAt ?? 0;
+  const to = history[history.length - 1]?.updatedAt ?? 0;
+
+  // Cluster every market once, using its latest metadata
+  const listings = new Map<string, MarketPriceSnapshot>();
+  for (const snapshot of history) {
+    listings.set(marketKey(snapshot.platform, snapshot.marketId), snapshot);
+  }
+  const templates = buildClusters(Array.from(listings.values())).clusters;
+
+  const latest = new Map<string, Quote>();
+  const positions = new Map<string, BacktestPosition>();
+  const groups = new Map<string, { deployed: number; pnl: number }>();
+  const fills: BacktestFill[] = [];
+  const equityCurve: BacktestEquityPoint[] = [];
+  let realizedPnl = 0;
+  let fees = 0;
+  let peakCapital = 0;
+
+  const slip = (notional: number) => (slippageBps + (impactBpsPer1k * notional) / 1000) / BPS_DENOMINATOR;
+  const group = (id: string) => {
+    const entry = groups.get(id) ?? { deployed: 0, pnl: 0 };
+    groups.set(id, entry);
+    return entry;
+  };
+  const unrealized = () =>
+    Array.from(positions.values()).reduce((total, position) => {
+      const quote = latest.get(marketKey(position.platform, position.marketId));
+      const price = quote && sidePrice(quote, position.side);
+      return total + (price !== undefined ? position.shares * price : position.cost) - position.cost;
+    }, 0);
+
+  const execute = (order: BacktestOrder, timestamp: number) => {
+    const quote = latest.get(marketKey(order.platform, order.marketId));
+    if (!quote || timestamp - quote.at > maxStalenessMs) {
+      return; // No tradable price
+    }
+    const price = sidePrice(quote, order.side);
+    if (price === undefined) {
+      return; // Venue quoted no price for this side
+    }
+    const { takerBps } = getPlatformFees(order.platform);
+    const key = positionKey(order);
+
+    if (order.action === "buy") {
+      const notional = order.notional ?? 0;
+      if (!(notional > 0) || price <= 0 || price >= 1) {
+        return;
+      }
+      const fillPrice = Math.min(MAX_FILL_PRICE, price * (1 + slip(notional)));
+      const shares = notional / (fillPrice * (1 + takerBps / BPS_DENOMINATOR));
+      const fee = notional - shares * fillPrice;
+      const existing = positions.get(key);
+      positions.set(key, {
+        platform: order.platform,
+        marketId: order.marketId,
+        side: order.side,
+        group: existing?.group ?? order.group,
+        shares: (existing?.shares ?? 0) + shares,
+        cost: (existing?.cost ?? 0) + notional,
+        openedAt: existing?.openedAt ?? timestamp,
+      });
+      group(existing?.group ?? order.group).deployed += notional;
+      fees += fee;
+      fills.push({
+        timestamp,
+        platform: order.platform,
+        marketId: order.marketId,
+        side: order.side,
+        action: "buy",
+        group: order.group,
+        price: fillPrice,
+        shares,
+        fees: fee,
+        cashFlow: -notional,
+      });
+      return;
+    }
+
+    const position = positions.get(key);
+    if (!position) {
+      return;
+    }
+    const fillPrice = Math.max(0, price * (1 - slip(position.shares * price)));
+    const gross = position.shares * fillPrice;
+    const fee = (gross * takerBps) / BPS_DENOMINATOR;
+    const pnl = gross - fee - position.cost;
+    positions.delete(key);
+    realizedPnl += pnl;
+    group(position.group).pnl += pnl;
+    fees += fee;
+    fills.push({
+      timestamp,
+      platform: position.platform,
+      marketId: position.marketId,
+      side: position.side,
+      action: "sell",
+      group: position.group,
+      price: fillPrice,
+      shares: position.shares,
+      fees: fee,
+      cashFlow: gross - fee,
+    });
+  };
+
+  let cursor = 0;
+  let steps = 0;
+  for (let timestamp = from; history.length > 0; timestamp = Math.min(timestamp + stepMs, to)) {
+    while (cursor < history.length && history[cursor].updatedAt <= timestamp) {
+      const snapshot = history[cursor++];
+      latest.set(marketKey(snapshot.platform, snapshot.marketId), {
+        price: snapshot.price,
+        noPrice: snapshot.noPrice,
+        at: snapshot.updatedAt,
+      });
+    }
+
+    const clusters: MarketCluster[] = [];
+    for (const template of templates) {
+      const markets = template.markets.flatMap((market) => {
+        const quote = latest.get(marketKey(market.platform, String(market.marketId)));
+        if (!quote || timestamp - quote.at > maxStalenessMs) {
+          return [];
+        }
+        return [{ ...market, yesPrice: quote.price, noPrice: quote.noPrice, updatedAt: quote.at }];
+      });
+      if (markets.length > 0) {
+        clusters.push({ ...template, markets, platformCount: new Set(markets.map((market) => market.platform)).size });
+      }
+    }
+
+    const orders = strategy.onFrame({
+      timestamp,
+      clusters,
+      positions: Array.from(positions.values()).map((position) => ({ ...position })),
+    });
+    for (const order of orders) {
+      execute(order, timestamp);
+    }
+
+    peakCapital = Math.max(
+      peakCapital,
+      Array.from(positions.values()).reduce((total, position) => total + position.cost, 0)
+    );
+    const unrealizedPnl = unrealized();
+    equityCurve.push({ timestamp, realizedPnl, unrealizedPnl, pnl: realizedPnl + unrealizedPnl });
+    steps++;
+
+    if (timestamp >= to) {
+      break;
+    }
+  }
+
+  // Settle what is still open on known outcomes
+  const outcomes = new Map(
+    (options.resolutions ?? []).map((resolution) => [marketKey(resolution.platform, resolution.marketId), resolution])
+  );
+  for (const [key, position] of positions) {
+    const resolution = outcomes.get(marketKey(position.platform, position.marketId));
+    if (!resolution) {
+      continue;
+    }
+    const won = resolution.outcome === position.side;
+    const payout = won ? position.shares : 0;
+    const { settlementBps } = getPlatformFees(position.platform);
+    const settlementFee = won ? Math.max(0, ((position.shares - position.cost) * settlementBps) / BPS_DENOMINATOR) : 0;
+    const pnl = payout - settlementFee - position.cost;
+    positions.delete(key);
+    realizedPnl += pnl;
+    group(position.group).pnl += pnl;
+    fees += settlementFee;
+    fills.push({
+      timestamp: Math.max(to, resolution.resolvedAt),
+      platform: position.platform,
+      marketId: position.marketId,
+      side: position.side,
+      action: "settle",
+      group: position.group,
+      price: won ? 1 : 0,
+      shares: position.shares,
+      fees: settlementFee,
+      cashFlow: payout - settlementFee,
+    });
+  }
+
+  const unrealizedPnl = unrealized();
+  if (history.length > 0) {
+    equityCurve.push({ timestamp: to, realizedPnl, unrealizedPnl, pnl: realizedPnl + unrealizedPnl });
+  }
+
+  let peak = 0;
+  let maxDrawdown = 0;
+  for (const point of equityCurve) {
+    peak = Math.max(peak, point.pnl);
+    maxDrawdown = Math.max(maxDrawdown, peak - point.pnl);
+  }
+
+  // A round trip is closed once none of its positions remain open
+  const openGroups = new Set(Array.from(positions.values()).map((position) => position.group));
+  const closed = Array.from(groups.entries())
+    .filter(([id, entry]) => !openGroups.has(id) && entry.deployed > 0)
+    .map(([, entry]) => entry);
+  const winningTrades = closed.filter((entry) => entry.pnl > 0).length;
+
+  // Linear impact: each extra dollar costs `impact` on entry and again on exit,
+  // so a round trip breaks even at deployed + return / (2 * impact)
+  const impact = impactBpsPer1k / BPS_DENOMINATOR / 1000;
+  const capacity =
+    impact > 0 && closed.length > 0
+      ? median(closed.map((entry) => Math.max(0, entry.deployed + entry.pnl / entry.deployed / (2 * impact))))
+      : null;
+
+  return {
+    strategy: strategy.name,
+    from,
+    to,
+    steps,
+    fills,
+    equityCurve: equityCurve.map((point) => ({
+      timestamp: point.timestamp,
+      realizedPnl: round(point.realizedPnl),
+      unrealizedPnl: round(point.unrealizedPnl),
+      pnl: round(point.pnl),
+    })),
+    realizedPnl: round(realizedPnl),
+    unrealizedPnl: round(unrealizedPnl),
+    totalPnl: round(realizedPnl + unrealizedPnl),
+    fees: round(fees),
+    maxDrawdown: round(maxDrawdown),
+    trades: closed.length,
+    winningTrades,
+    hitRate: closed.length > 0 ? winningTrades / closed.length : null,
+    peakCapital: round(peakCapital),
+    capacity: capacity === null ? null : round(capacity),
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Manual cluster overrides
+ *
+ * Heuristic clustering occasionally merges near-identical titles with
+ * different dates or misses obvious pairs. Curated rules keyed by
+ * `platform:marketId` are applied on top of `buildClusters`:
+ *
+ * - split: move the market out of the target's cluster into its own
+ * - pin: move the market (alone) into the target's cluster
+ * - merge: join the market's and the target's clusters
+ *
+ * Splits run first, then pins, then merges, so an explicit merge wins over
+ * a conflicting split.
+ */
+
+import type {
+  ClusterMarket,
+  ClusterOverride,
+  ClusterOverrideAction,
+  MarketCluster,
+} from "./types";
+import { getSnapshotKey } from "./marketDelta";
+import { summarizeCluster } from "./marketClustering";
+
+// --- Types ---
+
+interface ClusterGroup {
+  original: MarketCluster | null;
+  markets: ClusterMarket[];
+  changed: boolean;
+}
+
+// --- Configuration ---
+
+export const CLUSTER_OVERRIDE_ACTIONS: readonly ClusterOverrideAction[] = ["split", "pin", "merge"];
+
+const MARKET_KEY_PATTERN = /^[a-z]+:[A-Za-z0-9_.:-]{1,160}$/;
+
+// --- Public API ---
+
+/**
+ * Check whether a value is a valid `platform:marketId` key
+ */
+export function isValidMarketKey(value: unknown): value is string {
+  return typeof value === "string" && MARKET_KEY_PATTERN.test(value);
+}
+
+/**
+ * Check whether a value is a supported override action
+ */
+export function isClusterOverrideAction(value: unknown): value is ClusterOverrideAction {
+  return typeof value === "string" && (CLUSTER_OVERRIDE_ACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Apply manual overrides to heuristic clusters
+ *
+ * Rules that reference markets missing from the current snapshot are
+ * skipped. Untouched clusters keep their identity; rebuilt clusters are
+ * re-summarized and flagged as curated.
+ *
+ * @param clusters - Clusters from `buildClusters`
+ * @param overrides - Persisted override rules
+ */
+export function applyClusterOverrides(
+  clusters: MarketCluster[],
+  overrides: ClusterOverride[]
+): MarketCluster[] {
+  if (overrides.length === 0) {
+    return clusters;
+  }
+
+  const groups: ClusterGroup[] = clusters.map((cluster) => ({
+    original: cluster,
+    markets: [...cluster.markets],
+    changed: false,
+  }));
+  const groupByKey = new Map<string, ClusterGroup>();
+  for (const group of groups) {
+    for (const market of group.markets) {
+      groupByKey.set(getSnapshotKey(market), group);
+    }
+  }
+
+  const detach = (key: string): ClusterMarket => {
+    const group = groupByKey.get(key)!;
+    const index = group.markets.findIndex((market) => getSnapshotKey(market) === key);
+    const [market] = group.markets.splice(index, 1);
+    group.changed = true;
+    return market;
+  };
+
+  const moveInto = (key: string, target: ClusterGroup) => {
+    target.markets.push(detach(key));
+    target.changed = true;
+    groupByKey.set(key, target);
+  };
+
+  for (const action of CLUSTER_OVERRIDE_ACTIONS) {
+    for (const override of overrides) {
+      const { marketKey, targetKey } = override;
+      if (override.action !== action || marketKey === targetKey) {
+        continue;
+      }
+
+      const source = groupByKey.get(marketKey);
+      const target = groupByKey.get(targetKey);
+      if (!source || !target) {
+        continue;
+      }
+
+      if (action === "split") {
+        if (source === target) {
+          const isolated: ClusterGroup = { original: null, markets: [], changed: true };
+          groups.push(isolated);
+          moveInto(marketKey, isolated);
+        }
+      } else if (action === "pin") {
+        if (source !== target) {
+          moveInto(marketKey, target);
+        }
+      } else if (source !== target) {
+        for (const market of [...target.markets]) {
+          moveInto(getSnapshotKey(market), source);
+        }
+      }
+    }
+  }
+
+  return groups
+    .filter((group) => group.markets.length > 0)
+    .map((group, index) => {
+      if (group.original && !group.changed) {
+        return group.original;
+      }
+      const cluster = summarizeCluster(group.markets, index);
+      return { ...cluster, id: `${cluster.id}-curated`, curated: true };
+    })
+    .sort((a, b) => b.platformCount - a.platformCount || b.markets.length - a.markets.length);
+}
@@ -10,6 +10,50 @@
  *   npx prisma migrate dev
  */
 
+import type {
+  AdminAuditEntry,
+  AlertEvent,
+  AlertRule,
+  ClusterOverride,
+  ClusterOverrideAction,
+  FeeConfigChange,
+  FeeConfigKind,
+  MarketResolution,
+  OpinionOrderState,
+  PlatformSource,
+  PriceCandle,
+  TrackedOrder,
+  Watchlist,
+  WatchlistItem,
+} from "@/lib/types";
+import type { AlertRuleInput } from "@/lib/alerts";
+import type { FeeEntry } from "@/lib/feeRevenue";
+
+/** Prisma `Decimal`; read it with `Number()` or `toString()` */
+type DecimalValue = { toString(): string };
+
+/** Row of the `Trade` model in schema.prisma */
+export interface TradeRecord {
+  id: string;
+  tradeId: bigint;
+  userAddress: string;
+  marketId: number;
+  topicId: number | null;
+  side: "yes" | "no";
+  amount: DecimalValue; // wei
+  fee: DecimalValue; // wei
+  price: DecimalValue | null;
+  txHash: string | null;
+  logIndex: number | null;
+  blockNumber: bigint | null;
+  blockHash: string | null;
+  result: string | null;
+  settledAt: Date | null;
+  timestamp: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Prisma client will be initialized lazily to avoid errors if not set up
 let prisma: any = null;
 
@@ -71,7 +115,7 @@ export async function getUserTrades(
   userAddress: string,
   limit: number = 50,
   offset: number = 0
-) {
+): Promise<TradeRecord[]> {
   const db = getPrisma();
   if (!db) {
     return []; // Return empty array if DB not configured
@@ -105,6 +149,8 @@ export async function getUserMetrics(userAddress: string) {
 
 /**
  * Update user metrics after a trade
+ *
+ * @param db - Transaction client when called inside `$transaction`
  */
 export async function updateUserMetrics(
   userAddress: string,
@@ -112,9 +158,9 @@ export async function updateUserMetrics(
     amount: string;
     fee: string;
     isWinning?: boolean;
-  }
+  },
+  db: any = getPrisma()
 ) {
-  const db = getPrisma();
   if (!db) {
     throw new Error("Database not configured");
   }
@@ -140,8 +186,8 @@ export async function updateUserMetrics(
       totalTrades: 1,
       totalVolume: data.amount,
       totalFees: data.fee,
-      winningTrades: data.isWinning ? 1 : 0,
-      losingTrades: data.isWinning ? 0 : 1,
+      winningTrades: data.isWinning === true ? 1 : 0,
+      losingTrades: data.isWinning === false ? 1 : 0,
       lastTradeAt: new Date(),
     },
     update: updateData,
@@ -173,6 +219,8 @@ export async function getSystemMetrics(date: Date) {
 
 /**
  * Update system metrics
+ *
+ * @param db - Transaction client when called inside `$transaction`
  */
 export async function updateSystemMetrics(
   date: Date,
@@ -180,9 +228,9 @@ export async function updateSystemMetrics(
     amount: string;
     fee: string;
     newUser?: boolean;
-  }
+  },
+  db: any = getPrisma()
 ) {
-  const db = getPrisma();
   if (!db) {
     throw new Error("Database not configured");
   }
@@ -292,3 +340,1327 @@ export async function getTradeByTradeId(tradeId: bigint) {
     where: { tradeId },
   });
 }
+
+/** Tables written by the event indexer, all keyed on (txHash, logIndex) */
+const INDEXED_LOG_MODELS = ["trade", "fee", "feeRecord", "feeConfigChange"] as const;
+
+/**
+ * Insert or refresh a row for one event log
+ *
+ * Re-indexing the same log only refreshes its block position, so
+ * overlapping or repeated indexer runs never duplicate rows.
+ *
+ * @param db - Transaction client when called inside `$transaction`
+ * @returns true if the row was new
+ */
+async function upsertEventLogRow<
+  T extends { txHash: string; logIndex: number; blockNumber: bigint; blockHash: string; timestamp: Date },
+>(model: (typeof INDEXED_LOG_MODELS)[number], data: T, db: any = getPrisma()): Promise<boolean> {
+  if (!db) {
+    throw new Error("Database not configured. Please run: npx prisma generate && npx prisma migrate dev");
+  }
+  const where = { txHash_logIndex: { txHash: data.txHash, logIndex: data.logIndex } };
+  const existing = await db[model].findUnique({ where, select: { id: true } });
+
+  await db[model].upsert({
+    where,
+    create: data,
+    update: {
+      blockNumber: data.blockNumber,
+      blockHash: data.blockHash,
+      timestamp: data.timestamp,
+    },
+  });
+
+  return !existing;
+}
+
+/**
+ * Store a TradeExecuted log, keyed on (txHash, logIndex), and add a new
+ * trade to user and system metrics in the same transaction
+ *
+ * @returns true if the trade was new (metrics are only updated then)
+ */
+export async function upsertIndexedTrade(data: {
+  tradeId: bigint;
+  userAddress: string;
+  marketId: number;
+  side: "yes" | "no";
+  amount: string;
+  fee: string;
+  txHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  blockHash: string;
+  timestamp: Date;
+}): Promise<boolean> {
+  const db = getPrisma();
+  if (!db) {
+    throw new Error("Database not configured. Please run: npx prisma generate && npx prisma migrate dev");
+  }
+  const userAddress = data.userAddress.toLowerCase();
+
+  return db.$transaction(async (tx: any) => {
+    const isNewUser = !(await tx.userMetrics.findUnique({ where: { userAddress } }));
+    const created = await upsertEventLogRow("trade", { ...data, userAddress }, tx);
+    if (created) {
+      await updateUserMetrics(userAddress, { amount: data.amount, fee: data.fee }, tx);
+      await updateSystemMetrics(data.timestamp, { amount: data.amount, fee: data.fee, newUser: isNewUser }, tx);
+    }
+    return created;
+  });
+}
+
+/**
+ * Store a TradeRouter FeeCollected log
+ *
+ * @returns true if the fee was new
+ */
+export async function upsertIndexedFee(data: {
+  contractAddress: string;
+  userAddress: string;
+  amount: string;
+  tradeId?: bigint;
+  txHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  blockHash: string;
+  timestamp: Date;
+}): Promise<boolean> {
+  return upsertEventLogRow("fee", {
+    ...data,
+    contractAddress: data.contractAddress.toLowerCase(),
+    userAddress: data.userAddress.toLowerCase(),
+  });
+}
+
+/**
+ * Store a FeeTracker FeeRecorded log
+ *
+ * @returns true if the record was new
+ */
+export async function upsertIndexedFeeRecord(data: {
+  contractAddress: string;
+  userAddress: string;
+  amount: string;
+  txHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  blockHash: string;
+  timestamp: Date;
+}): Promise<boolean> {
+  return upsertEventLogRow("feeRecord", {
+    ...data,
+    contractAddress: data.contractAddress.toLowerCase(),
+    userAddress: data.userAddress.toLowerCase(),
+  });
+}
+
+/**
+ * Store a fee wallet, basis points or trade router change
+ *
+ * @returns true if the change was new
+ */
+export async function upsertFeeConfigChange(data: {
+  contractAddress: string;
+  kind: FeeConfigKind;
+  oldValue: string;
+  newValue: string;
+  txHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  blockHash: string;
+  timestamp: Date;
+}): Promise<boolean> {
+  return upsertEventLogRow("feeConfigChange", {
+    ...data,
+    contractAddress: data.contractAddress.toLowerCase(),
+    oldValue: data.oldValue.toLowerCase(),
+    newValue: data.newValue.toLowerCase(),
+  });
+}
+
+/**
+ * Get fee configuration history, oldest first
+ */
+export async function getFeeConfigChanges(
+  options: { contractAddress?: string; kind?: FeeConfigKind } = {}
+): Promise<FeeConfigChange[]> {
+  const db = getPrisma();
+  if (!db) {
+    return [];
+  }
+  const rows = await db.feeConfigChange.findMany({
+    where: {
+      ...(options.contractAddress && { contractAddress: options.contractAddress.toLowerCase() }),
+      ...(options.kind && { kind: options.kind }),
+    },
+    orderBy: [{ blockNumber: "asc" }, { logIndex: "asc" }],
+  });
+  return rows.map((row: any) => ({
+    id: row.id,
+    contractAddress: row.contractAddress,
+    kind: row.kind as FeeConfigKind,
+    oldValue: row.oldValue,
+    newValue: row.newValue,
+    txHash: row.txHash,
+    logIndex: row.logIndex,
+    blockNumber: row.blockNumber.toString(),
+    timestamp: row.timestamp.getTime(),
+  }));
+}
+
+/**
+ * Get indexed FeeCollected amounts for a TradeRouter within a time range
+ */
+export async function getIndexedFees(
+  contractAddress: string,
+  range: { from?: Date; to?: Date } = {}
+): Promise<FeeEntry[]> {
+  const db = getPrisma();
+  if (!db) {
+    return [];
+  }
+  const rows = await db.fee.findMany({
+    where: {
+      contractAddress: contractAddress.toLowerCase(),
+      blockNumber: { not: null },
+      ...((range.from || range.to) && { timestamp: { gte: range.from, lte: range.to } }),
+    },
+    select: { amount: true, blockNumber: true, logIndex: true },
+    orderBy: [{ blockNumber: "asc" }, { logIndex: "asc" }],
+  });
+  return rows.map((row: any) => ({
+    amount: row.amount.toFixed(0),
+    blockNumber: row.blockNumber.toString(),
+    logIndex: row.logIndex ?? 0,
+  }));
+}
+
+/**
+ * Distinct (blockNumber, blockHash) pairs of indexed event logs from a block on
+ */
+export async function getIndexedBlocks(fromBlock: bigint): Promise<{ blockNumber: bigint; blockHash: string }[]> {
+  const db = getPrisma();
+  if (!db) {
+    return [];
+  }
+  const blocks = new Map<string, { blockNumber: bigint; blockHash: string }>();
+
+  for (const model of INDEXED_LOG_MODELS) {
+    const rows = await db[model].findMany({
+      where: { blockNumber: { gte: fromBlock }, blockHash: { not: null } },
+      select: { blockNumber: true, blockHash: true },
+      distinct: ["blockNumber", "blockHash"],
+    });
+    for (const row of rows) {
+      blocks.set(`${row.blockNumber}:${row.blockHash}`, {
+        blockNumber: BigInt(row.blockNumber),
+        blockHash: row.blockHash,
+      });
+    }
+  }
+
+  return Array.from(blocks.values()).sort((a, b) => (a.blockNumber < b.blockNumber ? -1 : 1));
+}
+
+/**
+ * Delete event rows from orphaned blocks and reverse trade metric increments
+ *
+ * Win/loss counts of settled trades are reversed too. Active-user counts
+ * are not decremented; they are recomputed from trades by `getActiveUsers`.
+ *
+ * @param blocks - Orphaned (blockNumber, blockHash) pairs
+ * @returns Number of rows removed across all indexed tables
+ */
+export async function deleteIndexedRowsInBlocks(blocks: { blockNumber: bigint; blockHash: string }[]): Promise<number> {
+  const db = getPrisma();
+  if (!db) {
+    throw new Error("Database not configured. Please run: npx prisma generate && npx prisma migrate dev");
+  }
+  if (blocks.length === 0) {
+    return 0;
+  }
+  const inOrphanedBlock = {
+    OR: blocks.map((block) => ({ blockNumber: block.blockNumber, blockHash: block.blockHash })),
+  };
+
+  return db.$transaction(async (tx: any) => {
+    const trades = await tx.trade.findMany({ where: inOrphanedBlock });
+
+    for (const trade of trades) {
+      await tx.userMetrics.updateMany({
+        where: { userAddress: trade.userAddress },
+        data: {
+          totalTrades: { decrement: 1 },
+          totalVolume: { decrement: trade.amount },
+          totalFees: { decrement: trade.fee },
+          ...(trade.result === "won" && { winningTrades: { decrement: 1 } }),
+          ...(trade.result === "lost" && { losingTrades: { decrement: 1 } }),
+        },
+      });
+      await tx.systemMetrics.updateMany({
+        where: { date: new Date(trade.timestamp.toISOString().split("T")[0]) },
+        data: {
+          totalTrades: { decrement: 1 },
+          totalVolume: { decrement: trade.amount },
+          totalFees: { decrement: trade.fee },
+        },
+      });
+    }
+
+    let removed = 0;
+    for (const model of INDEXED_LOG_MODELS) {
+      const result = await tx[model].deleteMany({ where: inOrphanedBlock });
+      removed += result.count;
+    }
+    return removed;
+  });
+}
+
+/**
+ * Get the last block indexed for a contract
+ */
+export async function getIndexerCheckpoint(contractAddress: string): Promise<bigint | null> {
+  const db = getPrisma();
+  if (!db) {
+    return null;
+  }
+  const row = await db.indexerCheckpoint.findUnique({
+    where: { contractAddress: contractAddress.toLowerCase() },
+  });
+  return row ? BigInt(row.lastBlock) : null;
+}
+
+/**
+ * Save the last block indexed for a contract
+ */
+export async function saveIndexerCheckpoint(contractAddress: string, lastBlock: bigint): Promise<void> {
+  const db = getPrisma();
+  if (!db) {
+    throw new Error("Database not configured. Please run: npx prisma generate && npx prisma migrate dev");
+  }
+  await db.indexerCheckpoint.upsert({
+    where: { contractAddress: contractAddress.toLowerCase() },
+    create: { contractAddress: contractAddress.toLowerCase(), lastBlock },
+    update: { lastBlock },
+  });
+}
+
+/**
+ * Get a stored venue pagination cursor, e.g. where a sweep of a venue's market list stopped
+ */
+export async function getSyncCursor(key: string): Promise<string | null> {
+  const db = getPrisma();
+  if (!db) {
+    return null;
+  }
+  const row = await db.syncCursor.findUnique({ where: { key } });
+  return row?.cursor ?? null;
+}
+
+/**
+ * Save a venue pagination cursor
+ */
+export async function saveSyncCursor(key: string, cursor: string): Promise<void> {
+  const db = getPrisma();
+  if (!db) {
+    return; // Callers keep the cursor in memory when DB is not configured
+  }
+  await db.syncCursor.upsert({
+    where: { key },
+    create: { key, cursor },
+    update: { cursor },
+  });
+}
+
+/**
+ * Record market price snapshots
+ *
+ * Snapshots already stored for the same (platform, marketId, timestamp)
+ * are skipped, so unchanged prices from cached fetches are not duplicated.
+ * Each market's title and terms are stored once in `MarketListing` so the
+ * history can be clustered again later.
+ */
+export async function recordPriceSnapshots(
+  snapshots: Array<{
+    platform: string;
+    marketId: string;
+    price: number;
+    noPrice?: number;
+    updatedAt: number;
+    marketTitle?: string;
+    url?: string;
+    expiresAt?: number;
+    description?: string;
+  }>
+): Promise<number> {
+  const db = getPrisma();
+  if (!db || snapshots.length === 0) {
+    return 0; // History is optional when DB is not configured
+  }
+  const listings = snapshots.filter((snapshot) => snapshot.marketTitle);
+  if (listings.length > 0) {
+    await db.marketListing.createMany({
+      data: listings.map((snapshot) => ({
+        platform: snapshot.platform,
+        marketId: snapshot.marketId,
+        marketTitle: snapshot.marketTitle!.slice(0, 500),
+        url: snapshot.url?.slice(0, 500),
+        expiresAt: snapshot.expiresAt ? new Date(snapshot.expiresAt) : undefined,
+        description: snapshot.description,
+      })),
+      skipDuplicates: true,
+    });
+  }
+  const result = await db.priceSnapshot.createMany({
+    data: snapshots.map((snapshot) => ({
+      platform: snapshot.platform,
+      marketId: snapshot.marketId,
+      price: snapshot.price.toString(),
+      noPrice: snapshot.noPrice?.toString(),
+      timestamp: new Date(snapshot.updatedAt),
+    })),
+    skipDuplicates: true,
+  });
+  return result.count;
+}
+
+/**
+ * Get OHLC candles for a market within a time range
+ *
+ * Snapshots are bucketed in SQL, so long lookbacks at fine intervals never
+ * load every raw row. Candles are ordered by open time.
+ */
+export async function getPriceCandles(
+  platform: string,
+  marketId: string,
+  from: Date,
+  to: Date,
+  intervalMs: number
+): Promise<PriceCandle[]> {
+  const db = getPrisma();
+  if (!db) {
+    return [];
+  }
+  const rows = await db.$queryRaw`
+    SELECT
+      floor(extract(epoch from "timestamp") * 1000 / ${intervalMs}::numeric) * ${intervalMs}::numeric AS "openTime",
+      (array_agg("price" ORDER BY "timestamp" ASC))[1] AS "open",
+      max("price") AS "high",
+      min("price") AS "low",
+      (array_agg("price" ORDER BY "timestamp" DESC))[1] AS "close",
+      count(*) AS "samples"
+    FROM "PriceSnapshot"
+    WHERE "platform" = ${platform}
+      AND "marketId" = ${marketId}
+      AND "timestamp" >= ${from}
+      AND "timestamp" <= ${to}
+    GROUP BY 1
+    ORDER BY 1
+  `;
+  return rows.map((row: any) => ({
+    openTime: Number(row.openTime),
+    open: Number(row.open),
+    high: Number(row.high),
+    low: Number(row.low),
+    close: Number(row.close),
+    samples: Number(row.samples),
+  }));
+}
+
+/**
+ * Thin out snapshots recorded before `before` to the open, high, low and
+ * close of each market hour
+ *
+ * Hourly and daily candles over the thinned range stay exact; minute
+ * candles and sample counts there become coarse.
+ *
+ * @returns Number of snapshots deleted
+ */
+export async function downsamplePriceSnapshots(before: Date): Promise<number> {
+  const db = getPrisma();
+  if (!db) {
+    return 0;
+  }
+  return db.$executeRaw`
+    DELETE FROM "PriceSnapshot"
+    WHERE "timestamp" < ${before}
+      AND "id" NOT IN (
+        SELECT "id" FROM (
+          SELECT
+            "id",
+            row_number() OVER (market_hour ORDER BY "timestamp" ASC) AS "openRank",
+            row_number() OVER (market_hour ORDER BY "timestamp" DESC) AS "closeRank",
+            row_number() OVER (market_hour ORDER BY "price" DESC, "timestamp" ASC) AS "highRank",
+            row_number() OVER (market_hour ORDER BY "price" ASC, "timestamp" ASC) AS "lowRank"
+          FROM "PriceSnapshot"
+          WHERE "timestamp" < ${before}
+          WINDOW market_hour AS (PARTITION BY "platform", "marketId", date_trunc('hour', "timestamp"))
+        ) ranked
+        WHERE "openRank" = 1 OR "closeRank" = 1 OR "highRank" = 1 OR "lowRank" = 1
+      )
+  `;
+}
+
+/**
+ * Page through recorded snapshots of every market in a time range,
+ * downsampled to one per market per replay step
+ *
+ * Steps start at the first snapshot in range, like `runBacktest`, and keep
+ * each market's last snapshot of the step, so replaying them at `stepMs`
+ * sees the same prices as replaying every raw row.
+ *
+ * @param options.stepMs - Replay step; must be positive
+ * @param options.after - Cursor returned with the previous page
+ * @returns Snapshots ordered by time (then id) and the cursor for the next page, null when done
+ */
+export async function getPriceSnapshotsPage(options: {
+  from: Date;
+  to: Date;
+  stepMs: number;
+  platforms?: string[];
+  after?: string;
+  limit?: number;
+}): Promise<{
+  snapshots: Array<{ platform: string; marketId: string; price: number; noPrice?: number; timestamp: number }>;
+  next: string | null;
+}> {
+  const db = getPrisma();
+  if (!db) {
+    return { snapshots: [], next: null };
+  }
+  const limit = options.limit ?? 10_000;
+  const [afterTime, afterId] = options.after ? options.after.split(":") : ["0", ""];
+  const platforms = options.platforms ?? null;
+  const rows = await db.$queryRaw`
+    SELECT "id", "platform", "marketId", "price", "noPrice", "timestamp"
+    FROM (
+      SELECT DISTINCT ON ("platform", "marketId", "step") *
+      FROM (
+        SELECT
+          "id", "platform", "marketId", "price", "noPrice", "timestamp",
+          ceil(extract(epoch from "timestamp" - min("timestamp") OVER ()) * 1000 / ${options.stepMs}::numeric) AS "step"
+        FROM "PriceSnapshot"
+        WHERE "timestamp" >= ${options.from}
+          AND "timestamp" <= ${options.to}
+          AND (${platforms}::text[] IS NULL OR "platform" = ANY(${platforms}::text[]))
+      ) stepped
+      ORDER BY "platform", "marketId", "step", "timestamp" DESC, "id" DESC
+    ) latest
+    WHERE ("timestamp", "id") > (${new Date(Number(afterTime))}, ${afterId})
+    ORDER BY "timestamp" ASC, "id" ASC
+    LIMIT ${limit}
+  `;
+  const last = rows[rows.length - 1];
+  return {
+    snapshots: rows.map((row: any) => ({
+      platform: row.platform,
+      marketId: row.marketId,
+      price: Number(row.price),
+      noPrice: row.noPrice === null ? undefined : Number(row.noPrice),
+      timestamp: row.timestamp.getTime(),
+    })),
+    next: rows.length === limit ? `${last.timestamp.getTime()}:${last.id}` : null,
+  };
+}
+
+/**
+ * Get stored titles and terms for markets with recorded snapshots
+ */
+export async function getMarketListings(platforms?: string[]): Promise<
+  Array<{ platform: string; marketId: string; marketTitle: string; url?: string; expiresAt?: number; description?: string }>
+> {
+  const db = getPrisma();
+  if (!db) {
+    return [];
+  }
+  const rows = await db.marketListing.findMany({
+    where: { platform: platforms ? { in: platforms } : undefined },
+  });
+  return rows.map((row: any) => ({
+    platform: row.platform,
+    marketId: row.marketId,
+    marketTitle: row.marketTitle,
+    url: row.url ?? undefined,
+    expiresAt: row.expiresAt ? row.expiresAt.getTime() : undefined,
+    description: row.description ?? undefined,
+  }));
+}
+
+/**
+ * Get the most recent recorded prices at or before several times, in one query
+ *
+ * @param lookups - Market and time pairs to price
+ * @param maxAgeMs - Ignore snapshots older than this before each time
+ * @returns YES (and venue NO) price per lookup, in order; null when no snapshot is close enough
+ */
+export async function getPricesAt(
+  platform: string,
+  lookups: Array<{ marketId: string; at: Date }>,
+  maxAgeMs: number
+): Promise<Array<{ price: number; noPrice?: number } | null>> {
+  const db = getPrisma();
+  if (!db || lookups.length === 0) {
+    return lookups.map(() => null);
+  }
+  const marketIds = lookups.map((lookup) => lookup.marketId);
+  // Timestamps are stored as UTC without a zone; the cast drops the "Z"
+  const times = lookups.map((lookup) => lookup.at.toISOString());
+  const rows = await db.$queryRaw`
+    SELECT lookup."index", snapshot."price", snapshot."noPrice"
+    FROM unnest(${marketIds}::text[], ${times}::timestamp(3)[]) WITH ORDINALITY AS lookup("marketId", "at", "index")
+    CROSS JOIN LATERAL (
+      SELECT "price", "noPrice"
+      FROM "PriceSnapshot"
+      WHERE "platform" = ${platform}
+        AND "marketId" = lookup."marketId"
+        AND "timestamp" <= lookup."at"
+        AND "timestamp" >= lookup."at" - ${maxAgeMs} * interval '1 millisecond'
+      ORDER BY "timestamp" DESC
+      LIMIT 1
+    ) snapshot
+  `;
+  const prices: Array<{ price: number; noPrice?: number } | null> = lookups.map(() => null);
+  for (const row of rows) {
+    prices[Number(row.index) - 1] = {
+      price: Number(row.price),
+      noPrice: row.noPrice === null ? undefined : Number(row.noPrice),
+    };
+  }
+  return prices;
+}
+
+/**
+ * Store resolved markets
+ *
+ * Markets already stored keep their first outcome and resolution time.
+ *
+ * @returns Number of newly stored resolutions
+ */
+export async function recordMarketResolutions(resolutions: MarketResolution[]): Promise<number> {
+  const db = getPrisma();
+  if (!db || resolutions.length === 0) {
+    return 0; // Resolutions are still served from memory when DB is not configured
+  }
+  const result = await db.marketResolution.createMany({
+    data: resolutions.map((resolution) => ({
+      platform: resolution.platform,
+      marketId: resolution.marketId,
+      marketTitle: resolution.marketTitle.slice(0, 500),
+      outcome: resolution.outcome,
+      resolvedAt: new Date(resolution.resolvedAt),
+      url: resolution.url?.slice(0, 500),
+      expiresAt: resolution.expiresAt ? new Date(resolution.expiresAt) : undefined,
+      description: resolution.description,
+    })),
+    skipDuplicates: true,
+  });
+  return result.count;
+}
+
+/**
+ * List stored resolutions, newest first
+ */
+export async function getMarketResolutions(
+  options: { platform?: PlatformSource; marketIds?: string[]; since?: Date; limit?: number } = {}
+): Promise<MarketResolution[]> {
+  const db = getPrisma();
+  if (!db) {
+    return [];
+  }
+  const rows = await db.marketResolution.findMany({
+    where: {
+      platform: options.platform,
+      marketId: options.marketIds ? { in: options.marketIds } : undefined,
+      resolvedAt: options.since ? { gte: options.since } : undefined,
+    },
+    orderBy: {
+      resolvedAt: "desc",
+    },
+    take: options.limit,
+  });
+  return rows.map(toMarketResolution);
+}
+
+/**
+ * Settle indexed trades on resolved Opinion markets
+ *
+ * Each unsettled trade is marked won or lost and counted once in its
+ * user's `winningTrades`/`losingTrades`, so repeated or concurrent calls
+ * do not double count.
+ *
+ * @returns Number of trades settled
+ */
+export async function settleResolvedTrades(): Promise<number> {
+  const db = getPrisma();
+  if (!db) {
+    return 0; // No indexed trades without a DB
+  }
+  const open = await db.trade.findMany({
+    where: { settledAt: null },
+    select: { marketId: true },
+    distinct: ["marketId"],
+  });
+  if (open.length === 0) {
+    return 0;
+  }
+
+  // TradeRouter trades are placed on Opinion markets
+  const resolutions = await db.marketResolution.findMany({
+    where: { platform: "opinion", marketId: { in: open.map((row: any) => String(row.marketId)) } },
+  });
+
+  let settled = 0;
+  for (const resolution of resolutions) {
+    settled += await db.$transaction(async (tx: any) => {
+      const trades = await tx.trade.findMany({
+        where: { marketId: Number(resolution.marketId), settledAt: null },
+        select: { id: true, userAddress: true, side: true },
+      });
+
+      let count = 0;
+      for (const trade of trades) {
+        const won = trade.side === resolution.outcome;
+        const updated = await tx.trade.updateMany({
+          where: { id: trade.id, settledAt: null },
+          data: { result: won ? "won" : "lost", settledAt: new Date() },
+        });
+        if (updated.count === 0) {
+          continue; // Settled by a concurrent run
+        }
+        await tx.userMetrics.updateMany({
+          where: { userAddress: trade.userAddress },
+          data: won ? { winningTrades: { increment: 1 } } : { losingTrades: { increment: 1 } },
+        });
+        count++;
+      }
+      return count;
+    });
+  }
+  return settled;
+}
+
+function toMarketResolution(row: any): MarketResolution {
+  return {
+    platform: row.platform,
+    marketId: row.marketId,
+    marketTitle: row.marketTitle,
+    outcome: row.outcome,
+    resolvedAt: row.resolvedAt.getTime(),
+    url: row.url ?? undefined,
+    expiresAt: row.expiresAt ? row.expiresAt.getTime() : undefined,
+    description: row.description ?? undefined,
+  };
+}
+
+/**
+ * Store an order placed through /api/trades with its initial status
+ */
+export async function createOrder(order: TrackedOrder): Promise<void> {
+  const db = getPrisma();
+  if (!db) {
+    return; // Orders are still tracked in memory when DB is not configured
+  }
+  await db.order.create({
+    data: {
+      id: order.id,
+      marketId: order.marketId,
+      tokenId: order.tokenId,
+      maker: order.maker,
+      side: order.side,
+      orderType: order.orderType,
+      price: order.price ?? undefined,
+      makerAmount: order.makerAmount,
+      takerAmount: order.takerAmount,
+      filledAmount: order.filledAmount,
+      status: order.status,
+      txHash: order.txHash,
+      partiallyFilledAt: order.partiallyFilledAt ? new Date(order.partiallyFilledAt) : undefined,
+      filledAt: order.filledAt ? new Date(order.filledAt) : undefined,
+      cancelledAt: order.cancelledAt ? new Date(order.cancelledAt) : undefined,
+      rejectedAt: order.rejectedAt ? new Date(order.rejectedAt) : undefined,
+      createdAt: new Date(order.createdAt),
+      events: {
+        create: order.history.map((change) => ({
+          fromStatus: change.from,
+          toStatus: change.to,
+          filledAmount: change.filledAmount,
+          createdAt: new Date(change.at),
+        })),
+      },
+    },
+  });
+}
+
+/**
+ * Get a tracked order with its status history
+ */
+export async function getOrder(id: string): Promise<TrackedOrder | null> {
+  const db = getPrisma();
+  if (!db) {
+    return null;
+  }
+  const row = await db.order.findUnique({
+    where: { id },
+    include: { events: { orderBy: { createdAt: "asc" } } },
+  });
+  return row ? toTrackedOrder(row) : null;
+}
+
+/**
+ * List tracked orders, newest first
+ */
+export async function getOrders(
+  options: { maker?: string; marketId?: number; statuses?: OpinionOrderState[]; limit?: number } = {}
+): Promise<TrackedOrder[]> {
+  const db = getPrisma();
+  if (!db) {
+    return [];
+  }
+  const rows = await db.order.findMany({
+    where: {
+      maker: options.maker?.toLowerCase(),
+      marketId: options.marketId,
+      status: options.statuses ? { in: options.statuses } : undefined,
+    },
+    include: { events: { orderBy: { createdAt: "asc" } } },
+    orderBy: {
+      createdAt: "desc",
+    },
+    take: options.limit ?? 100,
+  });
+  return rows.map(toTrackedOrder);
+}
+
+/**
+ * Open orders that have gone longest without a CLOB check
+ */
+export async function getOrdersToReconcile(limit: number): Promise<TrackedOrder[]> {
+  const db = getPrisma();
+  if (!db) {
+    return [];
+  }
+  const rows = await db.order.findMany({
+    where: { status: { in: ["pending", "partially_filled"] } },
+    include: { events: { orderBy: { createdAt: "asc" } } },
+    orderBy: {
+      lastCheckedAt: { sort: "asc", nulls: "first" },
+    },
+    take: limit,
+  });
+  return rows.map(toTrackedOrder);
+}
+
+/**
+ * Wallets with tracked orders, most recently active first
+ */
+export async function getOrderMakers(limit: number): Promise<string[]> {
+  const db = getPrisma();
+  if (!db) {
+    return [];
+  }
+  const rows = await db.order.groupBy({
+    by: ["maker"],
+    _max: { createdAt: true },
+    orderBy: { _max: { createdAt: "desc" } },
+    take: limit,
+  });
+  return rows.map((row: any) => row.maker);
+}
+
+/**
+ * Save a reconciled order, recording its status change
+ *
+ * The update only applies while the stored status is still `fromStatus`,
+ * so concurrent reconciliations record each transition once.
+ *
+ * @returns true if the order was updated
+ */
+export async function updateOrder(fromStatus: OpinionOrderState, order: TrackedOrder): Promise<boolean> {
+  const db = getPrisma();
+  if (!db) {
+    return false;
+  }
+  const change = order.history[order.history.length - 1];
+
+  return db.$transaction(async (tx: any) => {
+    const updated = await tx.order.updateMany({
+      where: { id: order.id, status: fromStatus },
+      data: {
+        status: order.status,
+        filledAmount: order.filledAmount,
+        txHash: order.txHash,
+        partiallyFilledAt: order.partiallyFilledAt ? new Date(order.partiallyFilledAt) : undefined,
+        filledAt: order.filledAt ? new Date(order.filledAt) : undefined,
+        cancelledAt: order.cancelledAt ? new Date(order.cancelledAt) : undefined,
+        rejectedAt: order.rejectedAt ? new Date(order.rejectedAt) : undefined,
+        lastCheckedAt: order.lastCheckedAt ? new Date(order.lastCheckedAt) : undefined,
+      },
+    });
+    if (updated.count === 0) {
+      return false;
+    }
+    if (order.status !== fromStatus && change) {
+      await tx.orderEvent.create({
+        data: {
+          orderId: order.id,
+          fromStatus: change.from,
+          toStatus: change.to,
+          filledAmount: change.filledAmount,
+          createdAt: new Date(change.at),
+        },
+      });
+    }
+    return true;
+  });
+}
+
+/**
+ * Mark orders as checked against the CLOB without changes
+ */
+export async function markOrdersChecked(ids: string[], checkedAt: Date): Promise<void> {
+  const db = getPrisma();
+  if (!db || ids.length === 0) {
+    return;
+  }
+  await db.order.updateMany({
+    where: { id: { in: ids } },
+    data: { lastCheckedAt: checkedAt },
+  });
+}
+
+function toTrackedOrder(row: any): TrackedOrder {
+  return {
+    id: row.id,
+    marketId: row.marketId,
+    tokenId: row.tokenId,
+    maker: row.maker,
+    side: row.side,
+    orderType: row.orderType,
+    price: row.price === null ? null : Number(row.price),
+    makerAmount: row.makerAmount.toFixed(),
+    takerAmount: row.takerAmount.toFixed(),
+    filledAmount: row.filledAmount.toFixed(),
+    status: row.status,
+    txHash: row.txHash ?? undefined,
+    createdAt: row.createdAt.getTime(),
+    updatedAt: row.updatedAt.getTime(),
+    lastCheckedAt: row.lastCheckedAt?.getTime(),
+    partiallyFilledAt: row.partiallyFilledAt?.getTime(),
+    filledAt: row.filledAt?.getTime(),
+    cancelledAt: row.cancelledAt?.getTime(),
+    rejectedAt: row.rejectedAt?.getTime(),
+    history: row.events.map((event: any) => ({
+      from: event.fromStatus,
+      to: event.toStatus,
+      filledAmount: event.filledAmount.toFixed(),
+      at: event.createdAt.getTime(),
+    })),
+  };
+}
+
+/**
+ * List manual cluster overrides, oldest first
+ */
+export async function getClusterOverrides(): Promise<ClusterOverride[]> {
+  const db = getPrisma();
+  if (!db) {
+    return []; // Overrides are optional when DB is not configured
+  }
+  const rows = await db.clusterOverride.findMany({
+    orderBy: {
+      createdAt: "asc",
+    },
+  });
+  return rows.map(toClusterOverride);
+}
+
+/**
+ * Create a manual cluster override
+ *
+ * Re-submitting an identical rule updates its note and returns it.
+ */
+export async function createClusterOverride(data: {
+  action: ClusterOverrideAction;
+  marketKey: string;
+  targetKey: string;
+  note?: string;
+}): Promise<ClusterOverride> {
+  const db = getPrisma();
+  if (!db) {
+    throw new Error("Database not configured. Please run: npx prisma generate && npx prisma migrate dev");
+  }
+  const row = await db.clusterOverride.upsert({
+    where: {
+      action_marketKey_targetKey: {
+        action: data.action,
+        marketKey: data.marketKey,
+        targetKey: data.targetKey,
+      },
+    },
+    update: { note: data.note },
+    create: data,
+  });
+  return toClusterOverride(row);
+}
+
+/**
+ * Delete a manual cluster override
+ *
+ * @returns true if a rule was deleted
+ */
+export async function deleteClusterOverride(id: string): Promise<boolean> {
+  const db = getPrisma();
+  if (!db) {
+    throw new Error("Database not configured. Please run: npx prisma generate && npx prisma migrate dev");
+  }
+  const result = await db.clusterOverride.deleteMany({
+    where: { id },
+  });
+  return result.count > 0;
+}
+
+function toClusterOverride(row: any): ClusterOverride {
+  return {
+    id: row.id,
+    action: row.action,
+    marketKey: row.marketKey,
+    targetKey: row.targetKey,
+    note: row.note ?? undefined,
+    createdAt: row.createdAt.getTime(),
+  };
+}
+
+/**
+ * List alert rules, oldest first
+ *
+ * @param enabledOnly - Skip disabled rules (used by the evaluator)
+ */
+export async function getAlertRules(enabledOnly: boolean = false): Promise<AlertRule[]> {
+  const db = getPrisma();
+  if (!db) {
+    return []; // Alerts are optional when DB is not configured
+  }
+  const rows = await db.alertRule.findMany({
+    where: enabledOnly ? { enabled: true } : undefined,
+    orderBy: {
+      createdAt: "asc",
+    },
+  });
+  return rows.map(toAlertRule);
+}
+
+/**
+ * Create an alert rule
+ */
+export async function createAlertRule(data: AlertRuleInput): Promise<AlertRule> {
+  const db = getPrisma();
+  if (!db) {
+    throw new Error("Database not configured. Please run: npx prisma generate && npx prisma migrate dev");
+  }
+  const row = await db.alertRule.create({
+    data: {
+      ...data,
+      threshold: data.threshold?.toString(),
+    },
+  });
+  return toAlertRule(row);
+}
+
+/**
+ * Enable or disable an alert rule
+ *
+ * @returns The updated rule, or null if it does not exist
+ */
+export async function setAlertRuleEnabled(id: string, enabled: boolean): Promise<AlertRule | null> {
+  const db = getPrisma();
+  if (!db) {
+    throw new Error("Database not configured. Please run: npx prisma generate && npx prisma migrate dev");
+  }
+  const result = await db.alertRule.updateMany({
+    where: { id },
+    data: { enabled },
+  });
+  if (result.count === 0) {
+    return null;
+  }
+  return toAlertRule(await db.alertRule.findUnique({ where: { id } }));
+}
+
+/**
+ * Delete an alert rule; its history is kept
+ *
+ * @returns true if a rule was deleted
+ */
+export async function deleteAlertRule(id: string): Promise<boolean> {
+  const db = getPrisma();
+  if (!db) {
+    throw new Error("Database not configured. Please run: npx prisma generate && npx prisma migrate dev");
+  }
+  const result = await db.alertRule.deleteMany({
+    where: { id },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Record an alert delivery and start the rule's cooldown
+ */
+export async function recordAlertEvent(event: Omit<AlertEvent, "id">): Promise<void> {
+  const db = getPrisma();
+  if (!db) {
+    return;
+  }
+  await db.$transaction([
+    db.alertEvent.create({
+      data: {
+        ruleId: event.ruleId,
+        ruleName: event.ruleName,
+        type: event.type,
+        message: event.message.slice(0, 1000),
+        marketKey: event.marketKey,
+        platform: event.platform,
+        value: event.value?.toString(),
+        delivered: event.delivered,
+        statusCode: event.statusCode,
+        error: event.error?.slice(0, 500),
+        triggeredAt: new Date(event.triggeredAt),
+      },
+    }),
+    db.alertRule.updateMany({
+      where: { id: event.ruleId },
+      data: { lastTriggeredAt: new Date(event.triggeredAt) },
+    }),
+  ]);
+}
+
+/**
+ * Get alert history, newest first
+ */
+export async function getAlertEvents(options: { ruleId?: string; limit?: number } = {}): Promise<AlertEvent[]> {
+  const db = getPrisma();
+  if (!db) {
+    return [];
+  }
+  const rows = await db.alertEvent.findMany({
+    where: options.ruleId ? { ruleId: options.ruleId } : undefined,
+    orderBy: {
+      triggeredAt: "desc",
+    },
+    take: options.limit ?? 100,
+  });
+  return rows.map((row: any) => ({
+    id: row.id,
+    ruleId: row.ruleId,
+    ruleName: row.ruleName,
+    type: row.type,
+    message: row.message,
+    marketKey: row.marketKey ?? undefined,
+    platform: row.platform ?? undefined,
+    value: row.value === null ? undefined : Number(row.value),
+    delivered: row.delivered,
+    statusCode: row.statusCode ?? undefined,
+    error: row.error ?? undefined,
+    triggeredAt: row.triggeredAt.getTime(),
+  }));
+}
+
+function toAlertRule(row: any): AlertRule {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    webhookUrl: row.webhookUrl,
+    marketKey: row.marketKey ?? undefined,
+    platform: row.platform ?? undefined,
+    direction: row.direction ?? undefined,
+    threshold: row.threshold === null ? undefined : Number(row.threshold),
+    windowMinutes: row.windowMinutes ?? undefined,
+    cooldownMinutes: row.cooldownMinutes,
+    enabled: row.enabled,
+    lastTriggeredAt: row.lastTriggeredAt?.getTime(),
+    createdAt: row.createdAt.getTime(),
+  };
+}
+
+/**
+ * List a wallet's watchlists, oldest first
+ */
+export async function getWatchlists(ownerAddress: string): Promise<Watchlist[]> {
+  const db = getPrisma();
+  if (!db) {
+    return [];
+  }
+  const rows = await db.watchlist.findMany({
+    where: { ownerAddress: ownerAddress.toLowerCase() },
+    include: { items: { orderBy: { position: "asc" } } },
+    orderBy: {
+      createdAt: "asc",
+    },
+  });
+  return rows.map(toWatchlist);
+}
+
+/**
+ * Create a watchlist owned by a wallet, unless it already has `maxPerWallet`
+ *
+ * The count and insert run in one transaction holding a per-wallet
+ * advisory lock, so concurrent requests cannot both pass the limit.
+ *
+ * @returns The new watchlist, or null if the wallet is at the limit
+ */
+export async function createWatchlist(
+  ownerAddress: string,
+  data: { name: string; items?: WatchlistItem[] },
+  maxPerWallet: number
+): Promise<Watchlist | null> {
+  const db = getPrisma();
+  if (!db) {
+    throw new Error("Database not configured. Please run: npx prisma generate && npx prisma migrate dev");
+  }
+  const owner = ownerAddress.toLowerCase();
+
+  return db.$transaction(async (tx: any) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`watchlists:${owner}`}))`;
+    if ((await tx.watchlist.count({ where: { ownerAddress: owner } })) >= maxPerWallet) {
+      return null;
+    }
+
+    const row = await tx.watchlist.create({
+      data: {
+        ownerAddress: owner,
+        name: data.name,
+        items: {
+          create: (data.items ?? []).map((item, position) => ({ ...item, position })),
+        },
+      },
+      include: { items: { orderBy: { position: "asc" } } },
+    });
+    return toWatchlist(row);
+  });
+}
+
+/**
+ * Rename a watchlist and/or replace its items
+ *
+ * Only the owning wallet can update a watchlist.
+ *
+ * @returns The updated watchlist, or null if the wallet owns no watchlist with this id
+ */
+export async function updateWatchlist(
+  ownerAddress: string,
+  id: string,
+  data: { name?: string; items?: WatchlistItem[] }
+): Promise<Watchlist | null> {
+  const db = getPrisma();
+  if (!db) {
+    throw new Error("Database not configured. Please run: npx prisma generate && npx prisma migrate dev");
+  }
+  const owner = ownerAddress.toLowerCase();
+  const existing = await db.watchlist.findFirst({
+    where: { id, ownerAddress: owner },
+    select: { id: true },
+  });
+  if (!existing) {
+    return null;
+  }
+
+  const row = await db.watchlist.update({
+    where: { id },
+    data: {
+      name: data.name,
+      ...(data.items && {
+        items: {
+          deleteMany: {},
+          create: data.items.map((item, position) => ({ ...item, position })),
+        },
+      }),
+    },
+    include: { items: { orderBy: { position: "asc" } } },
+  });
+  return toWatchlist(row);
+}
+
+/**
+ * Delete a watchlist owned by a wallet
+ *
+ * @returns true if a watchlist was deleted
+ */
+export async function deleteWatchlist(ownerAddress: string, id: string): Promise<boolean> {
+  const db = getPrisma();
+  if (!db) {
+    throw new Error("Database not configured. Please run: npx prisma generate && npx prisma migrate dev");
+  }
+  const result = await db.watchlist.deleteMany({
+    where: { id, ownerAddress: ownerAddress.toLowerCase() },
+  });
+  return result.count > 0;
+}
+
+function toWatchlist(row: any): Watchlist {
+  return {
+    id: row.id,
+    ownerAddress: row.ownerAddress,
+    name: row.name,
+    items: row.items.map((item: any) => ({ kind: item.kind, marketKey: item.marketKey })),
+    createdAt: row.createdAt.getTime(),
+    updatedAt: row.updatedAt.getTime(),
+  };
+}
+
+/**
+ * Record an admin action in the audit log
+ */
+export async function createAdminAuditEntry(entry: Omit<AdminAuditEntry, "id" | "createdAt">): Promise<void> {
+  const db = getPrisma();
+  if (!db) {
+    return; // Audit log is optional when DB is not configured; callers log to the console
+  }
+  await db.adminAuditLog.create({
+    data: {
+      actor: entry.actor,
+      action: entry.action,
+      method: entry.method,
+      path: entry.path.slice(0, 256),
+      target: entry.target?.slice(0, 192),
+      details: entry.details,
+      status: entry.status,
+      ipAddress: entry.ipAddress?.slice(0, 64),
+    },
+  });
+}
+
+/**
+ * Get admin audit log entries, newest first
+ */
+export async function getAdminAuditEntries(
+  options: { actor?: string; action?: string; limit?: number } = {}
+): Promise<AdminAuditEntry[]> {
+  const db = getPrisma();
+  if (!db) {
+    return [];
+  }
+  const rows = await db.adminAuditLog.findMany({
+    where: {
+      ...(options.actor && { actor: options.actor.toLowerCase() }),
+      ...(options.action && { action: options.action }),
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    take: options.limit ?? 100,
+  });
+  return rows.map((row: any) => ({
+    id: row.id,
+    actor: row.actor,
+    action: row.action,
+    method: row.method,
+    path: row.path,
+    target: row.target ?? undefined,
+    details: row.details ?? undefined,
+    status: row.status,
+    ipAddress: row.ipAddress ?? undefined,
+    createdAt: row.createdAt.getTime(),
+  }));
+}
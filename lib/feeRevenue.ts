@@ -0,0 +1,84 @@
+/**
+ * Fee revenue attribution
+ *
+ * Splits indexed FeeCollected amounts into periods by the TradeRouter fee
+ * rate (basis points) in force when each fee was charged, using the
+ * indexed FeeBasisPointsUpdated history. The rate before the first change
+ * is that change's old value, since the constructor does not emit one.
+ */
+
+import type { FeeConfigChange, FeeRevenuePeriod } from "./types";
+
+// --- Types ---
+
+export interface FeeEntry {
+  amount: string; // wei, integer string
+  blockNumber: string; // BigInt as string
+  logIndex: number;
+}
+
+// --- Helper Functions ---
+
+/** Compare two chain positions (block, then log index) */
+function compareLogPosition(
+  a: { blockNumber: string; logIndex: number },
+  b: { blockNumber: string; logIndex: number }
+): number {
+  const blockA = BigInt(a.blockNumber);
+  const blockB = BigInt(b.blockNumber);
+  if (blockA !== blockB) {
+    return blockA < blockB ? -1 : 1;
+  }
+  return a.logIndex - b.logIndex;
+}
+
+function parseBasisPoints(value: string): number | null {
+  const basisPoints = Number(value);
+  return Number.isInteger(basisPoints) && basisPoints >= 0 ? basisPoints : null;
+}
+
+// --- Public API ---
+
+/**
+ * Group fees into periods of constant basis points
+ *
+ * @param fees - Indexed fees from one TradeRouter
+ * @param changes - Fee config changes for the same contract (any kinds, any order)
+ * @returns One period per basis-points setting, oldest first, including periods with no fees
+ */
+export function attributeFeesToBasisPoints(fees: FeeEntry[], changes: FeeConfigChange[]): FeeRevenuePeriod[] {
+  const rateChanges = changes
+    .filter((change) => change.kind === "fee_basis_points")
+    .sort(compareLogPosition);
+
+  const periods: (FeeRevenuePeriod & { total: bigint })[] = [
+    {
+      basisPoints: rateChanges.length > 0 ? parseBasisPoints(rateChanges[0].oldValue) : null,
+      from: null,
+      to: rateChanges.length > 0 ? rateChanges[0].timestamp : null,
+      totalFees: "0",
+      feeCount: 0,
+      total: BigInt(0),
+    },
+    ...rateChanges.map((change, index) => ({
+      basisPoints: parseBasisPoints(change.newValue),
+      from: change.timestamp,
+      to: rateChanges[index + 1]?.timestamp ?? null,
+      totalFees: "0",
+      feeCount: 0,
+      total: BigInt(0),
+    })),
+  ];
+
+  for (const fee of fees) {
+    // Period index = number of rate changes at or before the fee's position
+    let index = 0;
+    while (index < rateChanges.length && compareLogPosition(rateChanges[index], fee) < 0) {
+      index++;
+    }
+    periods[index].total += BigInt(fee.amount);
+    periods[index].feeCount++;
+  }
+
+  return periods.map(({ total, ...period }) => ({ ...period, totalFees: total.toString() }));
+}
@@ -0,0 +1,267 @@
+/**
+ * Shared HTTP layer for venue clients
+ *
+ * Every venue client goes through one of these so timeouts, retries with
+ * exponential backoff, per-source concurrency limits and request metrics
+ * behave the same everywhere.
+ */
+
+// --- Types ---
+
+export interface HttpClientOptions {
+  label?: string; // Used in error messages, e.g. "Opinion API"
+  timeoutMs?: number;
+  maxRetries?: number;
+  initialBackoffMs?: number;
+  maxConcurrent?: number;
+}
+
+export interface HttpSourceMetrics {
+  requests: number; // Individual attempts, retries included
+  successes: number;
+  failures: number; // Calls that failed after exhausting retries
+  retries: number;
+  timeouts: number;
+  inflight: number;
+  averageLatencyMs: number | null; // Over successful attempts
+  lastStatus?: number;
+  lastError?: string;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+}
+
+export interface HttpClient {
+  source: string;
+  fetch: (url: string, init?: RequestInit) => Promise<Response>;
+  fetchJson: <T = any>(url: string, init?: RequestInit) => Promise<T>;
+}
+
+export interface HttpRequest {
+  source: string;
+  url: string;
+  init: RequestInit;
+}
+
+/**
+ * Wraps every attempt a client makes, e.g. to record or replay responses;
+ * `send` performs the real request
+ */
+export type HttpInterceptor = (request: HttpRequest, send: () => Promise<Response>) => Promise<Response>;
+
+// --- Configuration ---
+
+const DEFAULT_TIMEOUT_MS = 7000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_INITIAL_BACKOFF_MS = 500;
+const DEFAULT_MAX_CONCURRENT = 10;
+
+// --- Concurrency Limiter ---
+
+class ConcurrencyLimiter {
+  private inflight = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(private maxConcurrent: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.inflight < this.maxConcurrent) {
+      this.inflight++;
+      return;
+    }
+
+    return new Promise<void>((resolve) => {
+      this.queue.push(() => {
+        this.inflight++;
+        resolve();
+      });
+    });
+  }
+
+  release(): void {
+    this.inflight--;
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    }
+  }
+
+  get active(): number {
+    return this.inflight;
+  }
+}
+
+// --- Per-source State ---
+
+interface SourceState {
+  limiter: ConcurrencyLimiter;
+  metrics: Omit<HttpSourceMetrics, "inflight" | "averageLatencyMs">;
+  totalLatencyMs: number;
+}
+
+const sourceStates = new Map<string, SourceState>();
+let interceptor: HttpInterceptor | null = null;
+
+function getSourceState(source: string, maxConcurrent: number): SourceState {
+  let state = sourceStates.get(source);
+  if (!state) {
+    state = {
+      limiter: new ConcurrencyLimiter(maxConcurrent),
+      metrics: { requests: 0, successes: 0, failures: 0, retries: 0, timeouts: 0 },
+      totalLatencyMs: 0,
+    };
+    sourceStates.set(source, state);
+  }
+  return state;
+}
+
+// --- Helper Functions ---
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || (status >= 500 && status < 600);
+}
+
+function isAbortError(error: Error): boolean {
+  return error.name === "AbortError" || error.message.includes("aborted");
+}
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function fetchWithTimeout(
+  url: string,
+  options: RequestInit,
+  timeoutMs: number
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      ...options,
+      signal: controller.signal,
+    });
+    return response;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// --- Public API ---
+
+/**
+ * Create an HTTP client bound to a venue
+ *
+ * Clients for the same source share one concurrency limiter and one set of
+ * metrics; the first client created for a source sets its concurrency limit.
+ *
+ * Responses with 429 or 5xx statuses, network errors and timeouts are
+ * retried with exponential backoff. Other non-OK statuses throw right away.
+ */
+export function createHttpClient(source: string, options: HttpClientOptions = {}): HttpClient {
+  const label = options.label ?? source;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const initialBackoffMs = options.initialBackoffMs ?? DEFAULT_INITIAL_BACKOFF_MS;
+  const state = getSourceState(source, options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT);
+  const { metrics } = state;
+
+  const recordFailure = (error: Error): Error => {
+    metrics.failures++;
+    metrics.lastError = error.message;
+    metrics.lastFailureAt = Date.now();
+    return error;
+  };
+
+  const request = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    let lastError: Error | null = null;
+    let backoffMs = initialBackoffMs;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (attempt > 0) {
+        metrics.retries++;
+        await sleep(backoffMs);
+        backoffMs *= 2;
+      }
+
+      await state.limiter.acquire();
+      const startedAt = Date.now();
+      metrics.requests++;
+
+      try {
+        const send = () => fetchWithTimeout(url, init, timeoutMs);
+        const response = interceptor ? await interceptor({ source, url, init }, send) : await send();
+        metrics.lastStatus = response.status;
+
+        if (response.ok) {
+          metrics.successes++;
+          metrics.lastSuccessAt = Date.now();
+          state.totalLatencyMs += Date.now() - startedAt;
+          return response;
+        }
+
+        lastError = new Error(`${label} error: ${response.status} ${response.statusText}`);
+        if (!isRetryableStatus(response.status)) {
+          throw recordFailure(lastError);
+        }
+      } catch (error) {
+        if (error === lastError) {
+          throw error;
+        }
+
+        lastError = error instanceof Error ? error : new Error(String(error));
+        if (isAbortError(lastError)) {
+          metrics.timeouts++;
+          lastError = new Error(`${label} request timed out after ${timeoutMs}ms`);
+        }
+      } finally {
+        state.limiter.release();
+      }
+    }
+
+    throw recordFailure(lastError || new Error(`${label} request failed`));
+  };
+
+  return {
+    source,
+    fetch: request,
+    fetchJson: async (url, init) => {
+      const response = await request(url, init);
+      return response.json();
+    },
+  };
+}
+
+/**
+ * Route every client's requests through an interceptor, or restore direct
+ * requests with null
+ */
+export function setHttpInterceptor(next: HttpInterceptor | null): void {
+  interceptor = next;
+}
+
+/**
+ * Snapshot request metrics for one source, or null if no client exists for it
+ */
+export function getHttpMetrics(source: string): HttpSourceMetrics | null {
+  const state = sourceStates.get(source);
+  if (!state) {
+    return null;
+  }
+
+  return {
+    ...state.metrics,
+    inflight: state.limiter.active,
+    averageLatencyMs:
+      state.metrics.successes > 0 ? Math.round(state.totalLatencyMs / state.metrics.successes) : null,
+  };
+}
+
+/**
+ * Snapshot request metrics for every source that has a client
+ */
+export function getAllHttpMetrics(): Record<string, HttpSourceMetrics> {
+  return Object.fromEntries(
+    Array.from(sourceStates.keys()).map((source) => [source, getHttpMetrics(source)!])
+  );
+}
@@ -6,10 +6,19 @@
  *
  * This service should run as a background worker/service that:
  * 1. Polls the blockchain for new events
- * 2. Processes TradeExecuted and FeeCollected events
- * 3. Stores them in the database
+ * 2. Processes TradeRouter events (TradeExecuted, FeeCollected,
+ *    FeeWalletUpdated, FeeBasisPointsUpdated) and FeeTracker events
+ *    (FeeRecorded, TradeRouterUpdated)
+ * 3. Stores them in the database (Trade, Fee, FeeRecord, FeeConfigChange)
  * 4. Updates aggregated metrics
  *
+ * Progress is checkpointed per contract after every `getLogs` chunk, so a
+ * run that times out resumes where it stopped. Each run re-scans the last
+ * INDEXER_CONFIRMATIONS blocks: rows stored from blocks that are no
+ * longer canonical are deleted (trade metrics are reversed) and the
+ * re-mined logs are stored again. Rows are keyed on (txHash, logIndex),
+ * so re-scanning never duplicates them.
+ *
  * Can be run as:
  * - Next.js API route (polling)
  * - Separate Node.js service
@@ -17,202 +26,471 @@
  * - The Graph subgraph (decentralized)
  */
 
-import { createPublicClient, http, type Address } from "viem";
+import { createPublicClient, http, type Address, type PublicClient } from "viem";
 import { bsc } from "viem/chains";
-import { createTrade, updateUserMetrics, updateSystemMetrics, getUserMetrics } from "./database/queries";
-
-// Contract ABI for events we're indexing
-// Using abi array directly instead of parseAbi for compatibility
-const TRADE_EXECUTED_ABI = {
-  name: "TradeExecuted",
-  type: "event",
-  inputs: [
-    { name: "tradeId", type: "uint256", indexed: true },
-    { name: "user", type: "address", indexed: true },
-    { name: "marketId", type: "uint256", indexed: false },
-    { name: "side", type: "bool", indexed: false },
-    { name: "amount", type: "uint256", indexed: false },
-    { name: "fee", type: "uint256", indexed: false },
-  ],
-} as const;
+import {
+  deleteIndexedRowsInBlocks,
+  getIndexedBlocks,
+  getIndexerCheckpoint,
+  saveIndexerCheckpoint,
+  upsertFeeConfigChange,
+  upsertIndexedFee,
+  upsertIndexedFeeRecord,
+  upsertIndexedTrade,
+} from "./database/queries";
+
+// --- Configuration ---
+
+const DEFAULT_RPC_URL = "https://bsc-dataseed.binance.org/";
+
+/** Blocks behind the head that may still be reorganized (BSC finality is ~15 blocks) */
+const DEFAULT_CONFIRMATIONS = 15;
+
+/** Widest `getLogs` range; public BSC RPCs reject ranges above 5,000 blocks */
+const DEFAULT_BLOCK_RANGE = 5000;
+
+function readBigIntEnv(name: string, fallback: number): bigint {
+  const value = Number(process.env[name]);
+  return BigInt(Number.isInteger(value) && value >= 0 ? value : fallback);
+}
+
+// Contract ABIs for events we're indexing
+// Using abi arrays directly instead of parseAbi for compatibility
+const TRADE_ROUTER_EVENTS_ABI = [
+  {
+    name: "TradeExecuted",
+    type: "event",
+    inputs: [
+      { name: "tradeId", type: "uint256", indexed: true },
+      { name: "user", type: "address", indexed: true },
+      { name: "marketId", type: "uint256", indexed: false },
+      { name: "side", type: "bool", indexed: false },
+      { name: "amount", type: "uint256", indexed: false },
+      { name: "fee", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "FeeCollected",
+    type: "event",
+    inputs: [
+      { name: "user", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+      { name: "timestamp", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "FeeWalletUpdated",
+    type: "event",
+    inputs: [
+      { name: "oldWallet", type: "address", indexed: true },
+      { name: "newWallet", type: "address", indexed: true },
+    ],
+  },
+  {
+    name: "FeeBasisPointsUpdated",
+    type: "event",
+    inputs: [
+      { name: "oldBasisPoints", type: "uint256", indexed: false },
+      { name: "newBasisPoints", type: "uint256", indexed: false },
+    ],
+  },
+] as const;
+
+const FEE_TRACKER_EVENTS_ABI = [
+  {
+    name: "FeeRecorded",
+    type: "event",
+    inputs: [
+      { name: "user", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+      { name: "timestamp", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "TradeRouterUpdated",
+    type: "event",
+    inputs: [
+      { name: "oldRouter", type: "address", indexed: true },
+      { name: "newRouter", type: "address", indexed: true },
+    ],
+  },
+] as const;
 
 /**
- * Index trade events from TradeRouter contract
- * 
- * @param contractAddress TradeRouter contract address
- * @param fromBlock Block number to start indexing from (0 = from deployment)
- * @param toBlock Block number to index to (undefined = latest)
- * @returns Last block indexed
+ * Every event the indexer stores. TradeRouter and FeeTracker event
+ * signatures are distinct, so one filter works for either contract.
  */
-export async function indexTradeEvents(
-  contractAddress: Address,
-  fromBlock: bigint = BigInt(0),
-  toBlock?: bigint
-): Promise<bigint> {
-  const client = createPublicClient({
+const INDEXED_EVENTS_ABI = [...TRADE_ROUTER_EVENTS_ABI, ...FEE_TRACKER_EVENTS_ABI];
+
+export interface BlockRange {
+  fromBlock: bigint;
+  toBlock: bigint;
+}
+
+export interface IndexerRunResult {
+  fromBlock: bigint;
+  lastBlock: bigint;
+  newTrades: number;
+  newEvents: number; // All stored rows, trades included
+  removedRows: number; // Rows deleted from reorganized blocks
+}
+
+// --- Helper Functions ---
+
+function createIndexerClient(): PublicClient {
+  return createPublicClient({
     chain: bsc,
-    transport: http(process.env.BSC_RPC_URL || "https://bsc-dataseed.binance.org/"),
+    transport: http(process.env.BSC_RPC_URL || DEFAULT_RPC_URL),
   });
+}
 
-  // Get latest block if toBlock not specified
-  const latestBlock = toBlock || (await client.getBlockNumber());
-
-  // Get TradeExecuted events
-  const tradeLogs = await client.getLogs({
-    address: contractAddress,
-    event: TRADE_EXECUTED_ABI,
-    fromBlock,
-    toBlock: latestBlock,
+/**
+ * Split an inclusive block range into chunks of at most `maxRange` blocks
+ */
+export function getBlockRanges(fromBlock: bigint, toBlock: bigint, maxRange: bigint): BlockRange[] {
+  const ranges: BlockRange[] = [];
+  for (let start = fromBlock; start <= toBlock; start += maxRange) {
+    const end = start + maxRange - 1n;
+    ranges.push({ fromBlock: start, toBlock: end < toBlock ? end : toBlock });
+  }
+  return ranges;
+}
+
+/**
+ * Stored blocks whose hash no longer matches the canonical chain
+ *
+ * @param stored - (blockNumber, blockHash) pairs recorded with indexed rows
+ * @param canonicalHashes - Current chain hash per block number
+ */
+export function findOrphanedBlocks<T extends { blockNumber: bigint; blockHash: string }>(
+  stored: T[],
+  canonicalHashes: Map<bigint, string>
+): T[] {
+  return stored.filter((block) => {
+    const canonical = canonicalHashes.get(block.blockNumber);
+    return canonical !== undefined && canonical.toLowerCase() !== block.blockHash.toLowerCase();
   });
+}
+
+/**
+ * Fetch logs for a range, halving the chunk when the RPC rejects it
+ *
+ * Providers differ in their range limits (and report them in different
+ * error messages), so any failure on a multi-block range is retried as two
+ * halves before giving up.
+ */
+export async function getLogsInRange(
+  getLogs: (range: BlockRange) => Promise<any[]>,
+  range: BlockRange
+): Promise<any[]> {
+  try {
+    return await getLogs(range);
+  } catch (error) {
+    if (range.toBlock <= range.fromBlock) {
+      throw error;
+    }
+    const middle = range.fromBlock + (range.toBlock - range.fromBlock) / 2n;
+    const first = await getLogsInRange(getLogs, { fromBlock: range.fromBlock, toBlock: middle });
+    const second = await getLogsInRange(getLogs, { fromBlock: middle + 1n, toBlock: range.toBlock });
+    return [...first, ...second];
+  }
+}
+
+/**
+ * Delete rows stored from blocks that have been reorganized away
+ *
+ * @returns Number of rows removed
+ */
+async function rollbackOrphanedBlocks(client: PublicClient, fromBlock: bigint): Promise<number> {
+  const stored = await getIndexedBlocks(fromBlock);
+  if (stored.length === 0) {
+    return 0;
+  }
 
-  // Process each trade event
-  for (const log of tradeLogs) {
-    if (!log.args || !log.args.tradeId || !log.args.user || !log.args.marketId || 
-        log.args.amount === undefined || log.args.fee === undefined) {
-      continue; // Skip invalid events
+  const canonicalHashes = new Map<bigint, string>();
+  for (const { blockNumber } of stored) {
+    if (!canonicalHashes.has(blockNumber)) {
+      const block = await client.getBlock({ blockNumber });
+      canonicalHashes.set(blockNumber, block.hash);
     }
+  }
 
-    const { tradeId, user, marketId, side, amount, fee } = log.args;
+  const orphaned = findOrphanedBlocks(stored, canonicalHashes);
+  if (orphaned.length === 0) {
+    return 0;
+  }
 
-    try {
-      // Get block timestamp
-      const block = await client.getBlock({ blockNumber: log.blockNumber });
-      const timestamp = new Date(Number(block.timestamp) * 1000);
-
-      // Check if trade already exists
-      const existingTrade = await getTradeByTradeId(tradeId);
-      if (existingTrade) {
-        if (process.env.NODE_ENV === "development") {
-          console.log(`[Indexer] Trade ${tradeId} already indexed, skipping`);
-        }
-        continue; // Already indexed
+  const removed = await deleteIndexedRowsInBlocks(orphaned);
+  console.warn(
+    `[Indexer] Reorg detected: removed ${removed} rows from orphaned blocks ${orphaned
+      .map((block) => block.blockNumber.toString())
+      .join(", ")}`
+  );
+  return removed;
+}
+
+/**
+ * Store one decoded log
+ *
+ * @param tradeIdsByTx - TradeExecuted ids seen in this chunk, so the
+ *   FeeCollected emitted right after in the same transaction can be linked
+ * @returns Whether the log was new, and whether it was a new trade
+ */
+async function storeEventLog(
+  contractAddress: Address,
+  log: any,
+  timestamp: Date,
+  tradeIdsByTx: Map<string, bigint>
+): Promise<{ created: boolean; isTrade: boolean }> {
+  const position = {
+    txHash: log.transactionHash,
+    logIndex: log.logIndex,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    timestamp,
+  };
+  const args = log.args ?? {};
+
+  switch (log.eventName) {
+    case "TradeExecuted": {
+      const { tradeId, user, marketId, side, amount, fee } = args;
+      if (tradeId === undefined || !user || marketId === undefined || amount === undefined || fee === undefined) {
+        return { created: false, isTrade: true }; // Skip invalid events
       }
+      tradeIdsByTx.set(log.transactionHash, tradeId);
 
-      // Create trade record
-      await createTrade({
-        tradeId: tradeId,
+      // User and system metrics are updated with the trade, only when it is new
+      const created = await upsertIndexedTrade({
+        tradeId,
         userAddress: user,
         marketId: Number(marketId),
         side: side ? "yes" : "no",
         amount: amount.toString(),
         fee: fee.toString(),
-        txHash: log.transactionHash,
-        blockNumber: log.blockNumber,
-        timestamp,
+        ...position,
       });
+      if (!created) {
+        return { created, isTrade: true }; // Already indexed by an earlier or overlapping run
+      }
 
-      // Check if this is a new user
-      const userMetrics = await getUserMetrics(user);
-      const isNewUser = !userMetrics;
+      if (process.env.NODE_ENV === "development") {
+        console.log(`[Indexer] Indexed trade ${tradeId} from user ${user}`);
+      }
+      return { created, isTrade: true };
+    }
 
-      // Update user metrics
-      await updateUserMetrics(user, {
-        amount: amount.toString(),
-        fee: fee.toString(),
-        // TODO: Determine if trade is winning/losing based on current market price
-      });
+    case "FeeCollected":
+      if (!args.user || args.amount === undefined) {
+        return { created: false, isTrade: false };
+      }
+      return {
+        created: await upsertIndexedFee({
+          contractAddress,
+          userAddress: args.user,
+          amount: args.amount.toString(),
+          tradeId: tradeIdsByTx.get(log.transactionHash),
+          ...position,
+        }),
+        isTrade: false,
+      };
 
-      // Update system metrics
-      await updateSystemMetrics(timestamp, {
-        amount: amount.toString(),
-        fee: fee.toString(),
-        newUser: isNewUser,
-      });
+    case "FeeRecorded":
+      if (!args.user || args.amount === undefined) {
+        return { created: false, isTrade: false };
+      }
+      return {
+        created: await upsertIndexedFeeRecord({
+          contractAddress,
+          userAddress: args.user,
+          amount: args.amount.toString(),
+          ...position,
+        }),
+        isTrade: false,
+      };
 
-      if (process.env.NODE_ENV === "development") {
-        console.log(`[Indexer] Indexed trade ${tradeId} from user ${user}`);
+    case "FeeWalletUpdated":
+    case "FeeBasisPointsUpdated":
+    case "TradeRouterUpdated": {
+      const [kind, oldValue, newValue] =
+        log.eventName === "FeeWalletUpdated"
+          ? ["fee_wallet", args.oldWallet, args.newWallet]
+          : log.eventName === "FeeBasisPointsUpdated"
+            ? ["fee_basis_points", args.oldBasisPoints, args.newBasisPoints]
+            : ["trade_router", args.oldRouter, args.newRouter];
+      if (oldValue === undefined || newValue === undefined) {
+        return { created: false, isTrade: false };
+      }
+      return {
+        created: await upsertFeeConfigChange({
+          contractAddress,
+          kind,
+          oldValue: oldValue.toString(),
+          newValue: newValue.toString(),
+          ...position,
+        }),
+        isTrade: false,
+      };
+    }
+
+    default:
+      return { created: false, isTrade: false };
+  }
+}
+
+// --- Public API ---
+
+/**
+ * Index TradeRouter and FeeTracker events from one contract
+ *
+ * Logs are fetched in chunks of at most INDEXER_BLOCK_RANGE blocks and the
+ * checkpoint is saved after each chunk. A log that fails to store stops
+ * the run with the checkpoint left before its block, so the next run
+ * retries it instead of skipping past it.
+ *
+ * @param contractAddress TradeRouter or FeeTracker contract address
+ * @param fromBlock Block number to start indexing from (0 = from deployment)
+ * @param toBlock Block number to index to (undefined = latest)
+ * @returns Last block indexed and number of new trades and event rows stored
+ */
+export async function indexContractEvents(
+  contractAddress: Address,
+  fromBlock: bigint = BigInt(0),
+  toBlock?: bigint,
+  client: PublicClient = createIndexerClient()
+): Promise<{ lastBlock: bigint; newTrades: number; newEvents: number }> {
+  // Get latest block if toBlock not specified
+  const latestBlock = toBlock ?? (await client.getBlockNumber());
+  const maxRange = readBigIntEnv("INDEXER_BLOCK_RANGE", DEFAULT_BLOCK_RANGE) || 1n;
+  let newTrades = 0;
+  let newEvents = 0;
+
+  for (const range of getBlockRanges(fromBlock, latestBlock, maxRange)) {
+    const logs = await getLogsInRange(
+      ({ fromBlock, toBlock }) =>
+        client.getLogs({ address: contractAddress, events: INDEXED_EVENTS_ABI, fromBlock, toBlock }),
+      range
+    );
+    const blockTimestamps = new Map<bigint, Date>();
+    const tradeIdsByTx = new Map<string, bigint>();
+
+    // Process each event in chain order
+    for (const log of logs) {
+      if (log.logIndex === null || log.blockNumber === null) {
+        continue; // Pending logs have no position yet
+      }
+
+      try {
+        // Get block timestamp (once per block)
+        let timestamp = blockTimestamps.get(log.blockNumber);
+        if (!timestamp) {
+          const block = await client.getBlock({ blockNumber: log.blockNumber });
+          timestamp = new Date(Number(block.timestamp) * 1000);
+          blockTimestamps.set(log.blockNumber, timestamp);
+        }
+
+        const { created, isTrade } = await storeEventLog(contractAddress, log, timestamp, tradeIdsByTx);
+        if (created) {
+          newEvents++;
+          if (isTrade) {
+            newTrades++;
+          }
+        }
+      } catch (error) {
+        console.error(`[Indexer] Error indexing ${log.eventName} in ${log.transactionHash}:`, error);
+        // Earlier logs of the failed block are stored again idempotently on the retry
+        if (log.blockNumber > range.fromBlock) {
+          await saveIndexerCheckpoint(contractAddress, log.blockNumber - 1n);
+        }
+        throw error;
       }
-    } catch (error) {
-      console.error(`[Indexer] Error indexing trade ${tradeId}:`, error);
-      // Continue with next trade
     }
+
+    await saveIndexerCheckpoint(contractAddress, range.toBlock);
   }
 
-  return latestBlock;
+  return { lastBlock: latestBlock, newTrades, newEvents };
 }
 
 /**
- * Get trade by tradeId (helper function)
- * This would typically be in queries.ts, but adding here for now
+ * Run one indexing pass from the stored checkpoint
+ *
+ * Re-checks the unconfirmed window behind the checkpoint for reorgs, then
+ * indexes up to the chain head. Without a checkpoint, indexing starts at
+ * INDEXER_START_BLOCK (default 0; set it to the deployment block).
  */
-async function getTradeByTradeId(tradeId: bigint) {
-  // This should use Prisma, but importing here would create circular dependency
-  // In production, add this to queries.ts
-  return null; // Placeholder
+export async function runIndexer(
+  contractAddress: Address,
+  client: PublicClient = createIndexerClient()
+): Promise<IndexerRunResult> {
+  const startBlock = readBigIntEnv("INDEXER_START_BLOCK", 0);
+  const confirmations = readBigIntEnv("INDEXER_CONFIRMATIONS", DEFAULT_CONFIRMATIONS);
+  const checkpoint = await getIndexerCheckpoint(contractAddress);
+  const head = await client.getBlockNumber();
+
+  let fromBlock = startBlock;
+  let removedRows = 0;
+
+  if (checkpoint !== null) {
+    const unconfirmedFrom = checkpoint + 1n > confirmations ? checkpoint + 1n - confirmations : 0n;
+    fromBlock = unconfirmedFrom > startBlock ? unconfirmedFrom : startBlock;
+    removedRows = await rollbackOrphanedBlocks(client, fromBlock);
+  }
+
+  if (fromBlock > head) {
+    return { fromBlock, lastBlock: checkpoint ?? head, newTrades: 0, newEvents: 0, removedRows };
+  }
+
+  const { lastBlock, newTrades, newEvents } = await indexContractEvents(contractAddress, fromBlock, head, client);
+  return { fromBlock, lastBlock, newTrades, newEvents, removedRows };
 }
 
 /**
  * Run indexer continuously (for background service)
- * 
+ *
  * This function polls for new events every N seconds
  */
 export async function startIndexer(
   contractAddress: Address,
   pollIntervalMs: number = 15000 // 15 seconds
 ) {
-  let lastBlock = 0n;
-
-  // Get contract deployment block (or last indexed block from DB)
-  // For now, start from 0
-  const deploymentBlock = await getLastIndexedBlock(contractAddress);
-  lastBlock = deploymentBlock || BigInt(0);
+  const client = createIndexerClient();
+  let isRunning = false;
 
-  console.log(`[Indexer] Starting from block ${lastBlock}`);
+  const checkpoint = await getIndexerCheckpoint(contractAddress);
+  console.log(`[Indexer] Starting from block ${checkpoint ?? readBigIntEnv("INDEXER_START_BLOCK", 0)}`);
 
-  // Poll for new events
+  // Poll for new events; skip a tick while the previous pass is still running
   setInterval(async () => {
+    if (isRunning) {
+      return;
+    }
+    isRunning = true;
     try {
-      const newLastBlock = await indexTradeEvents(contractAddress, lastBlock);
-      if (newLastBlock > lastBlock) {
-        lastBlock = newLastBlock;
-        await saveLastIndexedBlock(contractAddress, lastBlock);
-      }
+      await runIndexer(contractAddress, client);
     } catch (error) {
       console.error("[Indexer] Error during indexing:", error);
+    } finally {
+      isRunning = false;
     }
   }, pollIntervalMs);
 }
 
-/**
- * Get last indexed block for a contract (from database)
- */
-async function getLastIndexedBlock(contractAddress: Address): Promise<bigint | null> {
-  // TODO: Store last indexed block in database
-  // For now, return null (start from beginning)
-  return null;
-}
-
-/**
- * Save last indexed block to database
- */
-async function saveLastIndexedBlock(contractAddress: Address, blockNumber: bigint): Promise<void> {
-  // TODO: Store in database
-  // Could use a simple key-value table or config table
-}
-
 /**
  * Indexer API endpoint handler
- * 
+ *
  * This can be called as a Vercel Cron Job or API route
  */
 export async function handleIndexerRequest(contractAddress: Address) {
   try {
-    const lastBlock = await getLastIndexedBlock(contractAddress) || 0n;
-    const newLastBlock = await indexTradeEvents(contractAddress, lastBlock);
-    
-    if (newLastBlock > lastBlock) {
-      await saveLastIndexedBlock(contractAddress, newLastBlock);
-      return {
-        success: true,
-        indexedBlocks: Number(newLastBlock - lastBlock),
-        lastBlock: newLastBlock.toString(),
-      };
-    }
-    
+    const result = await runIndexer(contractAddress);
+
     return {
       success: true,
-      indexedBlocks: 0,
-      lastBlock: lastBlock.toString(),
+      indexedBlocks: result.lastBlock >= result.fromBlock ? Number(result.lastBlock - result.fromBlock + 1n) : 0,
+      lastBlock: result.lastBlock.toString(),
+      newTrades: result.newTrades,
+      newEvents: result.newEvents,
+      removedRows: result.removedRows,
     };
   } catch (error) {
     return {
@@ -221,4 +499,3 @@ export async function handleIndexerRequest(contractAddress: Address) {
     };
   }
 }
-
@@ -0,0 +1,125 @@
+/**
+ * Kalshi request signing
+ *
+ * Kalshi authenticates API keys with RSA-PSS (SHA-256, salt length equal to
+ * the digest length) over `timestamp + METHOD + path`, where the timestamp
+ * is in milliseconds and the path includes the /trade-api/v2 prefix but not
+ * the query string.
+ *
+ * Documentation: https://docs.kalshi.com/getting_started/api_keys
+ */
+
+import { constants, createPrivateKey, createPublicKey, sign, verify, type KeyObject } from "node:crypto";
+
+// --- Types ---
+
+export interface KalshiAuthHeaders {
+  "KALSHI-ACCESS-KEY": string;
+  "KALSHI-ACCESS-TIMESTAMP": string;
+  "KALSHI-ACCESS-SIGNATURE": string;
+}
+
+// --- Helper Functions ---
+
+function getSigningPath(path: string): string {
+  // Accept full URLs as well as bare paths; query strings are not signed
+  const pathname = /^https?:\/\//i.test(path) ? new URL(path).pathname : path;
+  const queryIndex = pathname.indexOf("?");
+  return queryIndex === -1 ? pathname : pathname.slice(0, queryIndex);
+}
+
+function buildSigningMessage(timestamp: string, method: string, path: string): string {
+  return `${timestamp}${method.toUpperCase()}${getSigningPath(path)}`;
+}
+
+// --- Public API ---
+
+/**
+ * Parse a PEM private key (PKCS#1 or PKCS#8)
+ *
+ * Environment variables often carry the key with literal "\n" sequences,
+ * so those are expanded before parsing.
+ */
+export function loadKalshiPrivateKey(pem: string): KeyObject {
+  const normalized = pem.includes("\\n") ? pem.replace(/\\n/g, "\n") : pem;
+
+  try {
+    return createPrivateKey({ key: normalized.trim(), format: "pem" });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid Kalshi private key (expected PEM): ${message}`);
+  }
+}
+
+/**
+ * Sign a Kalshi request
+ *
+ * @param privateKey - PEM string or parsed private key
+ * @param timestamp - Request timestamp in milliseconds, as sent in the header
+ * @param method - HTTP method
+ * @param path - Request path (or full URL) including /trade-api/v2
+ * @returns Base64-encoded RSA-PSS signature
+ */
+export function signKalshiRequest(
+  privateKey: string | KeyObject,
+  timestamp: string,
+  method: string,
+  path: string
+): string {
+  const key = typeof privateKey === "string" ? loadKalshiPrivateKey(privateKey) : privateKey;
+
+  return sign("sha256", Buffer.from(buildSigningMessage(timestamp, method, path)), {
+    key,
+    padding: constants.RSA_PKCS1_PSS_PADDING,
+    saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+  }).toString("base64");
+}
+
+/**
+ * Verify a Kalshi request signature against a public key
+ */
+export function verifyKalshiSignature(
+  publicKey: string | KeyObject,
+  signature: string,
+  timestamp: string,
+  method: string,
+  path: string
+): boolean {
+  const key = typeof publicKey === "string" ? createPublicKey(publicKey) : publicKey;
+
+  return verify(
+    "sha256",
+    Buffer.from(buildSigningMessage(timestamp, method, path)),
+    {
+      key,
+      padding: constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+    },
+    Buffer.from(signature, "base64")
+  );
+}
+
+/**
+ * Build the signed authentication headers for a Kalshi request
+ *
+ * @param apiKeyId - Kalshi API key ID
+ * @param privateKey - PEM string or parsed private key
+ * @param method - HTTP method
+ * @param path - Request path (or full URL) including /trade-api/v2
+ * @param now - Clock override for tests
+ */
+export function buildKalshiAuthHeaders(
+  apiKeyId: string,
+  privateKey: string | KeyObject,
+  method: string,
+  path: string,
+  now: number = Date.now()
+): KalshiAuthHeaders {
+  const timestamp = String(now);
+
+  return {
+    "KALSHI-ACCESS-KEY": apiKeyId,
+    "KALSHI-ACCESS-TIMESTAMP": timestamp,
+    "KALSHI-ACCESS-SIGNATURE": signKalshiRequest(privateKey, timestamp, method, path),
+  };
+}
@@ -5,6 +5,7 @@
  * - REST API integration with RSA-PSS signature authentication
  * - Market data fetching
  * - Price/order book data
+ * - Portfolio balance, positions and fills
  * - Rate limiting and retry logic
  *
  * Documentation: https://docs.kalshi.com
@@ -12,6 +13,9 @@
 
 import "server-only";
 
+import { createHttpClient } from "@/lib/http";
+import { buildKalshiAuthHeaders } from "@/lib/kalshiAuth";
+
 // --- Types for Kalshi API responses ---
 
 export interface KalshiMarket {
@@ -42,18 +46,68 @@ export interface KalshiTokenPrice {
   timestamp: number;
 }
 
+export interface KalshiBalance {
+  balance: number; // Available cash in cents
+  portfolio_value?: number; // Market value of open positions in cents
+}
+
+export interface KalshiMarketPosition {
+  ticker: string;
+  position: number; // Contracts held, positive = YES, negative = NO
+  market_exposure: number; // Cost basis in cents
+  realized_pnl: number; // Cents
+  total_traded: number; // Cents
+  fees_paid: number; // Cents
+  resting_orders_count: number;
+  last_updated_ts?: string;
+}
+
+export interface KalshiEventPosition {
+  event_ticker: string;
+  event_exposure: number; // Cents
+  realized_pnl: number; // Cents
+  total_cost: number; // Cents
+  fees_paid: number; // Cents
+}
+
+export interface KalshiPositionsResponse {
+  market_positions: KalshiMarketPosition[];
+  event_positions: KalshiEventPosition[];
+  cursor?: string;
+}
+
+export interface KalshiFill {
+  trade_id: string;
+  order_id: string;
+  ticker: string;
+  side: "yes" | "no";
+  action: "buy" | "sell";
+  count: number;
+  yes_price: number; // Cents
+  no_price: number; // Cents
+  is_taker: boolean;
+  created_time: string;
+}
+
+export interface KalshiFillsResponse {
+  fills: KalshiFill[];
+  cursor?: string;
+}
+
 // --- Configuration ---
 
-const TIMEOUT_MS = 7000;
-const MAX_RETRIES = 2;
-const INITIAL_BACKOFF_MS = 500;
+const http = createHttpClient("kalshi", { label: "Kalshi API" });
 
 // --- Helper Functions ---
 
 function getConfig() {
   const apiKey = process.env.KALSHI_API_KEY;
   const privateKey = process.env.KALSHI_PRIVATE_KEY;
-  const baseUrl = process.env.KALSHI_API_BASE_URL || "https://api.calendar.kalshi.com/trade-api/v2";
+  // KALSHI_API_BASE_URL points the public market feed at DFlow, so the
+  // authenticated trade API has its own override
+  const baseUrl = (
+    process.env.KALSHI_TRADE_API_BASE_URL || "https://api.elections.kalshi.com/trade-api/v2"
+  ).replace(/\/$/, "");
 
   if (!apiKey) {
     throw new Error("KALSHI_API_KEY environment variable is not set");
@@ -67,83 +121,33 @@ function getConfig() {
 }
 
 /**
- * Generate RSA-PSS signature for Kalshi API authentication
- * Note: This is a placeholder - actual implementation requires crypto library
+ * Send a signed GET request to the Kalshi trade API
+ *
+ * @param path - Path relative to the configured base URL (e.g. "/portfolio/balance")
+ * @param query - Optional query parameters (not part of the signature)
  */
-async function generateSignature(
-  method: string,
+async function kalshiGet<T>(
   path: string,
-  body: string,
-  timestamp: string,
-  privateKey: string
-): Promise<string> {
-  // TODO: Implement RSA-PSS signing using Node.js crypto module
-  // This requires the private key to be in PEM format
-  // For now, return placeholder
-  throw new Error("Kalshi RSA-PSS signing not yet implemented. Requires crypto implementation.");
-}
-
-async function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-async function fetchWithTimeout(
-  url: string,
-  options: RequestInit,
-  timeoutMs: number
-): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-    });
-    return response;
-  } finally {
-    clearTimeout(timeoutId);
-  }
-}
-
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit
-): Promise<Response> {
-  let lastError: Error | null = null;
-  let backoffMs = INITIAL_BACKOFF_MS;
-
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      const response = await fetchWithTimeout(url, options, TIMEOUT_MS);
-
-      if (response.ok) {
-        return response;
-      }
-
-      if ((response.status === 429 || response.status >= 500) && attempt < MAX_RETRIES) {
-        await sleep(backoffMs);
-        backoffMs *= 2;
-        continue;
-      }
-
-      throw new Error(`Kalshi API error: ${response.status} ${response.statusText}`);
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      if (lastError.name === "AbortError" || lastError.message.includes("aborted")) {
-        lastError = new Error(`Kalshi API request timed out after ${TIMEOUT_MS}ms`);
-      }
+  query: Record<string, string | number | undefined> = {}
+): Promise<T> {
+  const { apiKey, privateKey, baseUrl } = getConfig();
 
-      if (attempt < MAX_RETRIES) {
-        await sleep(backoffMs);
-        backoffMs *= 2;
-        continue;
-      }
+  const url = new URL(`${baseUrl}${path}`);
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      url.searchParams.set(key, String(value));
     }
   }
 
-  throw lastError || new Error("Kalshi API request failed");
+  const response = await http.fetch(url.toString(), {
+    method: "GET",
+    headers: {
+      ...buildKalshiAuthHeaders(apiKey, privateKey, "GET", url.pathname),
+      Accept: "application/json",
+    },
+  });
+
+  return response.json();
 }
 
 // --- Public API ---
@@ -159,43 +163,8 @@ export async function fetchKalshiMarkets(
   limit: number = 20,
   cursor?: string
 ): Promise<KalshiMarket[]> {
-  const { apiKey, privateKey, baseUrl } = getConfig();
-
-  const url = new URL(`${baseUrl}/markets`);
-  url.searchParams.set("limit", String(limit));
-  if (cursor) {
-    url.searchParams.set("cursor", cursor);
-  }
-
-  // TODO: Implement RSA-PSS authentication
-  // For now, this will fail until authentication is implemented
-  const timestamp = new Date().toISOString();
-  
   try {
-    // Placeholder - actual implementation needs signature
-    const signature = await generateSignature("GET", "/markets", "", timestamp, privateKey);
-    
-    const response = await fetchWithRetry(url.toString(), {
-      method: "GET",
-      headers: {
-        "X-Kalshi-Api-Key": apiKey,
-        "X-Kalshi-Timestamp": timestamp,
-        "X-Kalshi-Signature": signature,
-        Accept: "application/json",
-      },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[Kalshi API] Error response:`, {
-        status: response.status,
-        statusText: response.statusText,
-        body: errorText.substring(0, 500),
-      });
-      throw new Error(`Kalshi API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data: KalshiMarketsResponse = await response.json();
+    const data = await kalshiGet<KalshiMarketsResponse>("/markets", { limit, cursor });
     return data.markets || [];
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -210,30 +179,11 @@ export async function fetchKalshiMarkets(
 export async function fetchKalshiMarketPrice(
   eventTicker: string
 ): Promise<KalshiTokenPrice | null> {
-  const { apiKey, privateKey, baseUrl } = getConfig();
-
-  const url = new URL(`${baseUrl}/markets/${eventTicker}`);
-
-  const timestamp = new Date().toISOString();
-  
   try {
-    const signature = await generateSignature("GET", `/markets/${eventTicker}`, "", timestamp, privateKey);
-    
-    const response = await fetchWithRetry(url.toString(), {
-      method: "GET",
-      headers: {
-        "X-Kalshi-Api-Key": apiKey,
-        "X-Kalshi-Timestamp": timestamp,
-        "X-Kalshi-Signature": signature,
-        Accept: "application/json",
-      },
-    });
-
-    if (!response.ok) {
-      return null;
-    }
-
-    const market: KalshiMarket = await response.json();
+    const data = await kalshiGet<{ market?: KalshiMarket } & Partial<KalshiMarket>>(
+      `/markets/${encodeURIComponent(eventTicker)}`
+    );
+    const market = (data.market ?? data) as KalshiMarket;
     
     return {
       event_ticker: market.event_ticker,
@@ -247,10 +197,71 @@ export async function fetchKalshiMarketPrice(
   }
 }
 
+/**
+ * Fetch the account's cash balance and portfolio value (in cents)
+ */
+export async function fetchKalshiBalance(): Promise<KalshiBalance> {
+  try {
+    return await kalshiGet<KalshiBalance>("/portfolio/balance");
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[Kalshi API] Failed to fetch balance:`, errorMessage);
+    throw error;
+  }
+}
 
+/**
+ * Fetch open market and event positions
+ *
+ * @param options - Optional ticker filters, page size and pagination cursor
+ */
+export async function fetchKalshiPositions(
+  options: { ticker?: string; eventTicker?: string; limit?: number; cursor?: string } = {}
+): Promise<KalshiPositionsResponse> {
+  try {
+    const data = await kalshiGet<KalshiPositionsResponse>("/portfolio/positions", {
+      ticker: options.ticker,
+      event_ticker: options.eventTicker,
+      limit: options.limit,
+      cursor: options.cursor,
+    });
 
+    return {
+      market_positions: data.market_positions || [],
+      event_positions: data.event_positions || [],
+      cursor: data.cursor || undefined,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[Kalshi API] Failed to fetch positions:`, errorMessage);
+    throw error;
+  }
+}
 
+/**
+ * Fetch the account's fills, newest first
+ *
+ * @param options - Optional ticker filter, time range (unix seconds), page size and cursor
+ */
+export async function fetchKalshiFills(
+  options: { ticker?: string; minTs?: number; maxTs?: number; limit?: number; cursor?: string } = {}
+): Promise<KalshiFillsResponse> {
+  try {
+    const data = await kalshiGet<KalshiFillsResponse>("/portfolio/fills", {
+      ticker: options.ticker,
+      min_ts: options.minTs,
+      max_ts: options.maxTs,
+      limit: options.limit,
+      cursor: options.cursor,
+    });
 
-
-
-
+    return {
+      fills: data.fills || [],
+      cursor: data.cursor || undefined,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[Kalshi API] Failed to fetch fills:`, errorMessage);
+    throw error;
+  }
+}
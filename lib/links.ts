@@ -147,6 +147,28 @@ export const platformUrls = {
   limitless: (slug: string) => `https://limitless.exchange/markets/${slug}`,
 };
 
+/**
+ * Append pre-filled order parameters (side and dollar amount) to a market URL
+ *
+ * Returns the URL unchanged if it cannot be parsed.
+ */
+export function getOrderDeepLink(
+  marketUrl: string,
+  side: "yes" | "no",
+  amount?: number
+): string {
+  try {
+    const url = new URL(marketUrl);
+    url.searchParams.set("side", side);
+    if (amount !== undefined && Number.isFinite(amount) && amount > 0) {
+      url.searchParams.set("amount", amount.toFixed(2));
+    }
+    return url.toString();
+  } catch {
+    return marketUrl;
+  }
+}
+
 /**
  * Platform-specific order URL generators
  */
@@ -154,14 +176,14 @@ export const platformOrderUrls = {
   opinion: getOpinionOrderUrl,
   
   // Future: Kalshi order URLs
-  kalshi: (eventTicker: string, side: "yes" | "no") => 
-    `https://kalshi.com/markets/${eventTicker}?side=${side}`,
+  kalshi: (eventTicker: string, side: "yes" | "no", amount?: number) =>
+    getOrderDeepLink(`https://kalshi.com/markets/${eventTicker}`, side, amount),
   
   // Future: Polymarket order URLs
-  polymarket: (slug: string, side: "yes" | "no") => 
-    `https://polymarket.com/event/${slug}?side=${side}`,
+  polymarket: (slug: string, side: "yes" | "no", amount?: number) =>
+    getOrderDeepLink(`https://polymarket.com/event/${slug}`, side, amount),
 
   // Future: Limitless order URLs
-  limitless: (slug: string, side: "yes" | "no") =>
-    `https://limitless.exchange/markets/${slug}?side=${side}`,
+  limitless: (slug: string, side: "yes" | "no", amount?: number) =>
+    getOrderDeepLink(`https://limitless.exchange/markets/${slug}`, side, amount),
 };
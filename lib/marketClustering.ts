@@ -1,10 +1,11 @@
-import type { MarketPriceSnapshot, MarketCluster, ThemeClusterGroup } from "@/lib/types";
-import { classifyMarketTheme, marketThemes } from "@/lib/marketThemes";
+import type { ClusterMarket, MarketPriceSnapshot, MarketCluster, ThemeClusterGroup } from "./types";
+import { classifyMarketTheme, marketThemes } from "./marketThemes";
 import {
   calculateMarketSimilarity,
   normalizeMarketTitle,
   type MarketData,
-} from "@/lib/marketMatching";
+} from "./marketMatching";
+import { extractMarketOutcome, getOutcomeKey } from "./marketOutcomes";
 
 const BASE_THRESHOLD = 0.78;
 
@@ -22,7 +23,7 @@ function getAdaptiveThreshold(titleA: string, titleB: string): number {
   return BASE_THRESHOLD;
 }
 
-function buildBucketKeys(title: string): string[] {
+function buildBucketKeys(title: string, outcomeKey: string | null): string[] {
   const normalized = normalizeMarketTitle(title, true);
   const tokens = normalized.split(" ").filter(Boolean);
 
@@ -32,6 +33,10 @@ function buildBucketKeys(title: string): string[] {
   }
 
   const keys = new Set<string>();
+  // Venues word the same strike or candidate differently; bucket on the outcome too
+  if (outcomeKey) {
+    keys.add(`outcome:${outcomeKey}`);
+  }
   keys.add(tokens.slice(0, 4).join("-"));
   if (tokens.length > 4) {
     keys.add(tokens.slice(-4).join("-"));
@@ -43,6 +48,63 @@ function buildBucketKeys(title: string): string[] {
   return Array.from(keys).filter(Boolean);
 }
 
+/**
+ * Build cluster metadata (title, theme, platform count) from its markets
+ *
+ * The longest market title is used as the cluster's primary title.
+ */
+export function summarizeCluster(markets: ClusterMarket[], index: number): MarketCluster {
+  const primary = markets.reduce((best, current) =>
+    current.marketTitle.length > best.marketTitle.length ? current : best
+  );
+  const normalizedTitle = normalizeMarketTitle(primary.marketTitle);
+  const platformCount = new Set(markets.map((market) => market.platform)).size;
+  const themeKey = classifyMarketTheme(primary.marketTitle, [
+    primary.category,
+    primary.description,
+    ...(primary.tags ?? []),
+  ]);
+
+  return {
+    id: `${normalizedTitle}-${primary.marketId}-${index}`,
+    title: primary.marketTitle,
+    normalizedTitle,
+    themeKey,
+    platformCount,
+    markets: markets.sort((a, b) => a.platform.localeCompare(b.platform)),
+  };
+}
+
+/**
+ * Group clusters into theme buckets, unknown themes falling into "other"
+ */
+export function groupClustersByTheme(clusters: MarketCluster[]): ThemeClusterGroup[] {
+  const themeBuckets = new Map<string, MarketCluster[]>();
+  for (const theme of marketThemes) {
+    themeBuckets.set(theme.key, []);
+  }
+  for (const cluster of clusters) {
+    const bucket = themeBuckets.get(cluster.themeKey) ?? themeBuckets.get("other");
+    if (bucket) {
+      bucket.push(cluster);
+    }
+  }
+
+  return marketThemes.map((theme) => {
+    const themeClusters = themeBuckets.get(theme.key) ?? [];
+    const totalMarkets = themeClusters.reduce(
+      (sum, cluster) => sum + cluster.markets.length,
+      0
+    );
+    return {
+      themeKey: theme.key,
+      totalClusters: themeClusters.length,
+      totalMarkets,
+      clusters: themeClusters,
+    };
+  });
+}
+
 export function buildClusters(
   snapshots: MarketPriceSnapshot[]
 ): { clusters: MarketCluster[]; themes: ThemeClusterGroup[] } {
@@ -56,13 +118,17 @@ export function buildClusters(
     marketTitle: snapshot.marketTitle,
     marketUrl: snapshot.url || "",
     yesPrice: snapshot.price,
-    noPrice: 1 - snapshot.price,
+    noPrice: snapshot.noPrice,
     volume24h: 0,
     updatedAt: snapshot.updatedAt,
     expiresAt: snapshot.expiresAt,
     category: snapshot.category,
     tags: snapshot.tags,
     description: snapshot.description,
+    yesTokenId: snapshot.yesTokenId,
+    noTokenId: snapshot.noTokenId,
+    outcome:
+      snapshot.outcome ?? extractMarketOutcome(snapshot.marketTitle, { expiresAt: snapshot.expiresAt }),
   }));
 
   const marketData: MarketData[] = clusterMarkets.map((market) => ({
@@ -78,6 +144,7 @@ export function buildClusters(
     category: market.category,
     tags: market.tags,
     description: market.description,
+    outcome: market.outcome,
     metadata: {
       expiresAt: market.expiresAt,
       category: market.category,
@@ -87,7 +154,7 @@ export function buildClusters(
 
   const bucketMap = new Map<string, number[]>();
   marketData.forEach((market, index) => {
-    const keys = buildBucketKeys(market.marketTitle);
+    const keys = buildBucketKeys(market.marketTitle, getOutcomeKey(clusterMarkets[index].outcome));
     if (keys.length === 0) {
       return;
     }
@@ -155,54 +222,13 @@ export function buildClusters(
     }
   });
 
-  const clusters = Array.from(clustersByRoot.values()).map((markets, index) => {
-    const primary = markets.reduce((best, current) =>
-      current.marketTitle.length > best.marketTitle.length ? current : best
-    );
-    const normalizedTitle = normalizeMarketTitle(primary.marketTitle);
-    const platformCount = new Set(markets.map((market) => market.platform)).size;
-    const themeKey = classifyMarketTheme(primary.marketTitle, [
-      primary.category,
-      primary.description,
-      ...(primary.tags ?? []),
-    ]);
-
-    return {
-      id: `${normalizedTitle}-${primary.marketId}-${index}`,
-      title: primary.marketTitle,
-      normalizedTitle,
-      themeKey,
-      platformCount,
-      markets: markets.sort((a, b) => a.platform.localeCompare(b.platform)),
-    } satisfies MarketCluster;
-  });
+  const clusters = Array.from(clustersByRoot.values()).map((markets, index) =>
+    summarizeCluster(markets, index)
+  );
 
   clusters.sort((a, b) => b.platformCount - a.platformCount || b.markets.length - a.markets.length);
 
-  const themeBuckets = new Map<string, MarketCluster[]>();
-  for (const theme of marketThemes) {
-    themeBuckets.set(theme.key, []);
-  }
-  for (const cluster of clusters) {
-    const bucket = themeBuckets.get(cluster.themeKey) ?? themeBuckets.get("other");
-    if (bucket) {
-      bucket.push(cluster);
-    }
-  }
-
-  const themes: ThemeClusterGroup[] = marketThemes.map((theme) => {
-    const themeClusters = themeBuckets.get(theme.key) ?? [];
-    const totalMarkets = themeClusters.reduce(
-      (sum, cluster) => sum + cluster.markets.length,
-      0
-    );
-    return {
-      themeKey: theme.key,
-      totalClusters: themeClusters.length,
-      totalMarkets,
-      clusters: themeClusters,
-    };
-  });
+  const themes = groupClustersByTheme(clusters);
 
   return { clusters, themes };
 }
@@ -0,0 +1,146 @@
+/**
+ * Incremental market updates for the live stream
+ *
+ * The server diffs consecutive market responses and pushes only changed
+ * snapshots and source status transitions; the client merges them back
+ * into its cached MarketsResponse.
+ */
+
+import type {
+  ClusterMarket,
+  MarketCluster,
+  MarketPriceSnapshot,
+  MarketsDelta,
+  MarketsResponse,
+  PlatformSource,
+  PlatformSourceState,
+} from "./types";
+
+/**
+ * Stable key for a market across responses
+ */
+export function getSnapshotKey(market: { platform: string; marketId: string | number }): string {
+  return `${market.platform}:${market.marketId}`;
+}
+
+function hasSnapshotChanged(previous: MarketPriceSnapshot, next: MarketPriceSnapshot): boolean {
+  return (
+    previous.price !== next.price ||
+    previous.noPrice !== next.noPrice ||
+    previous.marketTitle !== next.marketTitle ||
+    previous.expiresAt !== next.expiresAt ||
+    previous.url !== next.url
+  );
+}
+
+function hasSourceChanged(previous: PlatformSourceState | undefined, next: PlatformSourceState): boolean {
+  return (
+    !previous ||
+    previous.status !== next.status ||
+    previous.error !== next.error ||
+    previous.warning !== next.warning
+  );
+}
+
+/**
+ * Check whether two responses cover the same set of markets
+ *
+ * Additions and removals change cluster membership, so they are sent as a
+ * full snapshot rather than a delta.
+ */
+export function hasSameMarketSet(previous: MarketsResponse, next: MarketsResponse): boolean {
+  if (previous.list.length !== next.list.length) {
+    return false;
+  }
+  const previousKeys = new Set(previous.list.map(getSnapshotKey));
+  return next.list.every((snapshot) => previousKeys.has(getSnapshotKey(snapshot)));
+}
+
+/**
+ * Diff two market responses covering the same market set
+ *
+ * @returns Delta with changed snapshots and sources, or null if nothing changed
+ */
+export function diffMarkets(previous: MarketsResponse, next: MarketsResponse): MarketsDelta | null {
+  const previousByKey = new Map(previous.list.map((snapshot) => [getSnapshotKey(snapshot), snapshot]));
+
+  const changed = next.list.filter((snapshot) => {
+    const before = previousByKey.get(getSnapshotKey(snapshot));
+    return !before || hasSnapshotChanged(before, snapshot);
+  });
+
+  const sources: Partial<Record<PlatformSource, PlatformSourceState>> = {};
+  for (const [platform, state] of Object.entries(next.sources) as [PlatformSource, PlatformSourceState][]) {
+    if (hasSourceChanged(previous.sources[platform], state)) {
+      sources[platform] = state;
+    }
+  }
+
+  if (changed.length === 0 && Object.keys(sources).length === 0) {
+    return null;
+  }
+
+  return {
+    updatedAt: next.updatedAt,
+    changed,
+    sources,
+  };
+}
+
+function applyToClusterMarket(
+  market: ClusterMarket,
+  changedByKey: Map<string, MarketPriceSnapshot>
+): ClusterMarket {
+  const snapshot = changedByKey.get(getSnapshotKey(market));
+  if (!snapshot) {
+    return market;
+  }
+  return {
+    ...market,
+    marketTitle: snapshot.marketTitle,
+    marketUrl: snapshot.url || "",
+    yesPrice: snapshot.price,
+    noPrice: snapshot.noPrice,
+    updatedAt: snapshot.updatedAt,
+    expiresAt: snapshot.expiresAt,
+  };
+}
+
+function applyToCluster(
+  cluster: MarketCluster,
+  changedByKey: Map<string, MarketPriceSnapshot>
+): MarketCluster {
+  if (!cluster.markets.some((market) => changedByKey.has(getSnapshotKey(market)))) {
+    return cluster;
+  }
+  return {
+    ...cluster,
+    markets: cluster.markets.map((market) => applyToClusterMarket(market, changedByKey)),
+  };
+}
+
+/**
+ * Merge a delta into a cached markets response
+ *
+ * Cluster membership is left untouched; only prices and metadata of
+ * markets already present are updated.
+ */
+export function applyMarketsDelta(response: MarketsResponse, delta: MarketsDelta): MarketsResponse {
+  const changedByKey = new Map(delta.changed.map((snapshot) => [getSnapshotKey(snapshot), snapshot]));
+
+  return {
+    ...response,
+    updatedAt: delta.updatedAt,
+    stale: false,
+    list: response.list.map((snapshot) => changedByKey.get(getSnapshotKey(snapshot)) ?? snapshot),
+    clusters: response.clusters?.map((cluster) => applyToCluster(cluster, changedByKey)),
+    themes: response.themes?.map((theme) => ({
+      ...theme,
+      clusters: theme.clusters.map((cluster) => applyToCluster(cluster, changedByKey)),
+    })),
+    sources: {
+      ...response.sources,
+      ...delta.sources,
+    },
+  };
+}
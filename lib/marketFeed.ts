@@ -0,0 +1,276 @@
+/**
+ * Cross-platform market feed (server-side only)
+ *
+ * Fetches every platform in parallel with per-platform caching and
+ * inflight de-duplication, then clusters the combined snapshot list,
+ * applies manual cluster overrides on top and scores each cluster's
+ * resolution criteria. Clustering only reruns when a platform cache
+ * refreshed or failed since the last aggregation, and alert rules are
+ * evaluated in the background once per such rebuild. Routes read the
+ * feed through a short response cache shared across them.
+ */
+
+import "server-only";
+
+import type {
+  ClusterOverride,
+  MarketsResponse,
+  MarketPriceSnapshot,
+  ParseReport,
+  PlatformSource,
+  PlatformSourceState,
+} from "@/lib/types";
+import { sanitizeError } from "@/lib/security";
+import { formatParseReport, getParseReport } from "@/lib/schema";
+import { listMarketSources } from "@/lib/adapters";
+import { buildClusters, groupClustersByTheme } from "@/lib/marketClustering";
+import { applyClusterOverrides } from "@/lib/clusterOverrides";
+import { analyzeClusterResolution } from "@/lib/resolutionCriteria";
+import { dispatchAlerts } from "@/lib/alertDispatcher";
+import { downsamplePriceSnapshots, getClusterOverrides, recordPriceSnapshots } from "@/lib/database/queries";
+
+const CLUSTER_OVERRIDES_TTL_MS = 30_000;
+const RESPONSE_CACHE_TTL_MS = 5_000;
+// A failed refresh serves the last response for this long past its expiry
+const MAX_STALE_AGE_MS = 60_000;
+// Snapshots older than this are thinned to hourly open/high/low/close
+const RAW_HISTORY_RETENTION_MS = 7 * 24 * 60 * 60_000;
+const HISTORY_DOWNSAMPLE_INTERVAL_MS = 60 * 60_000;
+
+const platformInflight = new Map<PlatformSource, Promise<MarketPriceSnapshot[]>>();
+const platformCache = new Map<
+  PlatformSource,
+  { data: MarketPriceSnapshot[]; parse: ParseReport | null; fetchedAt: number; expiresAt: number }
+>();
+let overridesCache: { data: ClusterOverride[]; expiresAt: number } | null = null;
+// Last clustered response and the platform cache state it was built from
+let lastAggregate: { signature: string; response: MarketsResponse } | null = null;
+let lastDownsampleAt = 0;
+// Route responses and their inflight refreshes, by per-platform limit
+const responseCache = new Map<number, { data: MarketsResponse; expiresAt: number }>();
+const responseInflight = new Map<number, Promise<MarketsResponse>>();
+
+/**
+ * Live source state, with a warning when the venue's payload had markets
+ * that failed validation
+ */
+function toLiveState(parse: ParseReport | null): PlatformSourceState {
+  const warning = parse ? formatParseReport(parse) : undefined;
+  return parse && warning ? { status: "live", warning, parse } : { status: "live" };
+}
+
+/**
+ * Persist freshly fetched snapshots to price history without blocking the response
+ */
+function recordHistory(platform: PlatformSource, data: MarketPriceSnapshot[]): void {
+  recordPriceSnapshots(data).catch((error) => {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`[History] Failed to record ${platform} snapshots:`, errorMessage);
+  });
+  downsampleHistory();
+}
+
+/**
+ * Thin out old price history at most once per interval, in the background
+ */
+function downsampleHistory(): void {
+  const now = Date.now();
+  if (now - lastDownsampleAt < HISTORY_DOWNSAMPLE_INTERVAL_MS) {
+    return;
+  }
+  lastDownsampleAt = now;
+  downsamplePriceSnapshots(new Date(now - RAW_HISTORY_RETENTION_MS)).catch((error) => {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn("[History] Failed to downsample snapshots:", errorMessage);
+  });
+}
+
+/**
+ * Evaluate alert rules against a newly clustered response once the
+ * request that built it has been answered
+ */
+function checkAlerts(response: MarketsResponse): void {
+  setTimeout(() => {
+    dispatchAlerts(response).catch((error) => {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn("[Alerts] Failed to evaluate alert rules:", errorMessage);
+    });
+  }, 0);
+}
+
+/**
+ * Load manual cluster overrides, falling back to the last good copy on error
+ */
+async function loadClusterOverrides(): Promise<ClusterOverride[]> {
+  if (overridesCache && Date.now() < overridesCache.expiresAt) {
+    return overridesCache.data;
+  }
+
+  try {
+    const data = await getClusterOverrides();
+    overridesCache = { data, expiresAt: Date.now() + CLUSTER_OVERRIDES_TTL_MS };
+    return data;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn("[Clusters] Failed to load cluster overrides:", errorMessage);
+    return overridesCache?.data ?? [];
+  }
+}
+
+/**
+ * Drop cached overrides so the next aggregation picks up admin edits
+ */
+export function invalidateClusterOverrides(): void {
+  overridesCache = null;
+  lastAggregate = null;
+}
+
+/**
+ * Shortest platform cache TTL; aggregating more often than this finds nothing new
+ */
+export function getFeedRefreshIntervalMs(): number {
+  return Math.min(...listMarketSources().map((adapter) => adapter.cacheTtlMs));
+}
+
+/**
+ * Fetch, merge and cluster markets from every platform
+ *
+ * @param limit - Maximum number of markets to request per platform
+ * @returns Markets response with clusters and per-source status
+ */
+export async function aggregateMarkets(limit: number): Promise<MarketsResponse> {
+  const adapters = listMarketSources();
+  const platforms = adapters.map((adapter) => adapter.id);
+
+  const sources = platforms.reduce<Record<PlatformSource, PlatformSourceState>>(
+    (acc, platform) => {
+      acc[platform] = { status: "error" };
+      return acc;
+    },
+    {} as Record<PlatformSource, PlatformSourceState>
+  );
+
+  const list: MarketPriceSnapshot[] = [];
+
+  const results = await Promise.all(
+    adapters.map(async (adapter) => {
+      const platform = adapter.id;
+      const ttl = adapter.cacheTtlMs;
+      const cached = platformCache.get(platform);
+      if (cached && Date.now() < cached.expiresAt) {
+        return { platform, status: "live", data: cached.data, parse: cached.parse };
+      }
+
+      if (platformInflight.has(platform)) {
+        try {
+          const data = await platformInflight.get(platform)!;
+          return { platform, status: "live", data, parse: getParseReport(platform) };
+        } catch (error) {
+          return { platform, status: "error", error: sanitizeError(error), data: [] };
+        }
+      }
+
+      const inflight = adapter.fetchMarkets(limit);
+      platformInflight.set(platform, inflight);
+
+      try {
+        const data = await inflight;
+        const parse = getParseReport(platform);
+        platformCache.set(platform, { data, parse, fetchedAt: Date.now(), expiresAt: Date.now() + ttl });
+        recordHistory(platform, data);
+        return { platform, status: "live", data, parse };
+      } catch (error) {
+        const fallback = platformCache.get(platform);
+        if (fallback) {
+          return { platform, status: "error", error: sanitizeError(error), data: fallback.data };
+        }
+        return { platform, status: "error", error: sanitizeError(error), data: [] };
+      } finally {
+        platformInflight.delete(platform);
+      }
+    })
+  );
+
+  // Same cache entries and statuses as last time: the clusters would come out the same
+  const signature = results
+    .map((result) => `${result.platform}:${result.error ?? "live"}:${platformCache.get(result.platform)?.fetchedAt ?? 0}`)
+    .join("|");
+  if (lastAggregate && lastAggregate.signature === signature) {
+    return lastAggregate.response;
+  }
+
+  results.forEach((result) => {
+    if (result.status === "live") {
+      sources[result.platform] = toLiveState(result.parse ?? null);
+      list.push(...result.data);
+      return;
+    }
+
+    sources[result.platform] = {
+      status: "error",
+      error: result.error,
+    };
+  });
+
+  const { clusters: heuristic } = buildClusters(list);
+  const clusters = applyClusterOverrides(heuristic, await loadClusterOverrides()).map(
+    analyzeClusterResolution
+  );
+  const themes = groupClustersByTheme(clusters);
+
+  const response: MarketsResponse = {
+    updatedAt: Date.now(),
+    stale: false,
+    list,
+    clusters,
+    themes,
+    sources,
+  };
+
+  if (list.length === 0) {
+    response.error = "No market data returned from sources";
+  }
+
+  lastAggregate = { signature, response };
+  checkAlerts(response);
+
+  return response;
+}
+
+/**
+ * Aggregated markets behind the response cache every route shares
+ *
+ * Concurrent callers with the same limit share one aggregation. When a
+ * refresh fails, the last response is served marked stale for up to a
+ * minute past its expiry before the error is thrown.
+ *
+ * @param limit - Maximum number of markets to request per platform
+ * @returns Markets response and whether it was a cache "HIT", a fresh "MISS" or "STALE"
+ */
+export async function getCachedMarkets(
+  limit: number
+): Promise<{ data: MarketsResponse; cache: "HIT" | "MISS" | "STALE" }> {
+  const cached = responseCache.get(limit);
+  if (cached && Date.now() < cached.expiresAt) {
+    return { data: cached.data, cache: "HIT" };
+  }
+
+  let inflight = responseInflight.get(limit);
+  if (!inflight) {
+    inflight = aggregateMarkets(limit).finally(() => {
+      responseInflight.delete(limit);
+    });
+    responseInflight.set(limit, inflight);
+  }
+
+  try {
+    const data = await inflight;
+    responseCache.set(limit, { data, expiresAt: Date.now() + RESPONSE_CACHE_TTL_MS });
+    return { data, cache: "MISS" };
+  } catch (error) {
+    if (cached && Date.now() - cached.expiresAt < MAX_STALE_AGE_MS) {
+      return { data: { ...cached.data, stale: true, error: sanitizeError(error) }, cache: "STALE" };
+    }
+    throw error;
+  }
+}
@@ -3,10 +3,17 @@
  *
  * Matches equivalent markets across different prediction market platforms
  * using fuzzy string matching, normalization, and similarity scoring.
+ * Markets that state an outcome (candidate, strike, date) are only matched
+ * when those outcomes agree; see marketOutcomes.ts.
  */
 
 import type { Platform } from "./types";
-import type { MarketMatch } from "./types";
+import type { MarketMatch, MarketOutcome } from "./types";
+import {
+  calculateEventSimilarity,
+  compareOutcomes,
+  extractMarketOutcome,
+} from "./marketOutcomes";
 
 // --- Types ---
 
@@ -16,13 +23,14 @@ export interface MarketData {
   marketTitle: string;
   marketUrl: string;
   yesPrice: number;
-  noPrice: number;
+  noPrice?: number;
   volume24h?: number;
   updatedAt?: number;
   expiresAt?: number;
   category?: string;
   tags?: string[];
   description?: string;
+  outcome?: MarketOutcome; // Parsed from the title when not provided
   metadata?: Record<string, any>; // Platform-specific data
 }
 
@@ -42,6 +50,8 @@ const COMMON_WORDS = new Set([
   "get", "come", "made", "may", "part"
 ]);
 
+const parsedOutcomes = new WeakMap<MarketData, MarketOutcome>();
+
 // --- Helper Functions ---
 
 /**
@@ -138,7 +148,8 @@ function parseTimestamp(raw: unknown): number | null {
     if (!trimmed) {
       return null;
     }
-    const numeric = Number.parseFloat(trimmed);
+    // parseFloat would read an ISO date as its year
+    const numeric = Number(trimmed);
     if (Number.isFinite(numeric)) {
       return numeric < 1_000_000_000_000 ? numeric * 1000 : numeric;
     }
@@ -195,6 +206,19 @@ function calculateExpirationSimilarity(
   return 1 - diffDays / maxDiffDays;
 }
 
+function getMarketOutcome(market: MarketData): MarketOutcome {
+  if (market.outcome) {
+    return market.outcome;
+  }
+
+  let outcome = parsedOutcomes.get(market);
+  if (!outcome) {
+    outcome = extractMarketOutcome(market.marketTitle, { expiresAt: market.expiresAt });
+    parsedOutcomes.set(market, outcome);
+  }
+  return outcome;
+}
+
 /**
  * Extract keywords from market title
  */
@@ -209,9 +233,11 @@ export function extractKeywords(title: string): string[] {
 /**
  * Check if two market titles refer to the same event
  * Uses multiple heuristics:
+ * - Conflicting outcomes (candidate, strike, stated date) never match
  * - Exact match (after normalization)
  * - High similarity score
  * - Keyword overlap
+ * - Event overlap when both markets state the same outcome
  */
 export function calculateMarketSimilarity(
   market1: MarketData,
@@ -220,6 +246,13 @@ export function calculateMarketSimilarity(
   const title1 = market1.marketTitle;
   const title2 = market2.marketTitle;
 
+  const outcome1 = getMarketOutcome(market1);
+  const outcome2 = getMarketOutcome(market2);
+  const outcomeComparison = compareOutcomes(outcome1, outcome2);
+  if (outcomeComparison === "different") {
+    return 0;
+  }
+
   // Normalize titles
   const norm1 = normalizeMarketTitle(title1);
   const norm2 = normalizeMarketTitle(title2);
@@ -253,6 +286,11 @@ export function calculateMarketSimilarity(
     titleSimilarity * titleWeight +
     (expirationSimilarity ?? 0) * expirationWeight;
 
+  // Same candidate or strike: titles only need to agree on the event
+  if (outcomeComparison === "same") {
+    return Math.max(combinedSimilarity, calculateEventSimilarity(outcome1, outcome2));
+  }
+
   return combinedSimilarity;
 }
 
@@ -327,6 +365,7 @@ export function matchMarketsAcrossPlatforms(
                   category: market1.category,
                   tags: market1.tags,
                   description: market1.description,
+                  outcome: getMarketOutcome(market1),
                 },
                 {
                   platform: market2.platform,
@@ -341,6 +380,7 @@ export function matchMarketsAcrossPlatforms(
                   category: market2.category,
                   tags: market2.tags,
                   description: market2.description,
+                  outcome: getMarketOutcome(market2),
                 },
               ],
               similarity,
@@ -395,6 +435,7 @@ export function findBestMatch(
             category: targetMarket.category,
             tags: targetMarket.tags,
             description: targetMarket.description,
+            outcome: getMarketOutcome(targetMarket),
           },
           {
             platform: candidate.platform,
@@ -409,6 +450,7 @@ export function findBestMatch(
             category: candidate.category,
             tags: candidate.tags,
             description: candidate.description,
+            outcome: getMarketOutcome(candidate),
           },
         ],
         similarity,
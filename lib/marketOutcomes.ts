@@ -0,0 +1,345 @@
+/**
+ * Outcome-level market model
+ *
+ * Venues list multi-outcome events ("Who wins the election?") and strike
+ * ladders ("BTC above $90k / $100k / $110k") as separate binary markets
+ * whose titles differ only in the candidate or the strike. Titles and venue
+ * metadata are parsed into an event key plus the outcome a YES share pays
+ * on, so markets are matched candidate-by-candidate and strike-by-strike
+ * instead of on title similarity alone.
+ */
+
+import type { MarketOutcome, OutcomeComparator } from "./types";
+
+// --- Types ---
+
+/** Structured fields some venues expose next to the title */
+export interface OutcomeHints {
+  eventTitle?: string; // Parent event title for multi-outcome events
+  outcomeLabel?: string; // Candidate name or strike subtitle
+  comparator?: OutcomeComparator;
+  strike?: number;
+  strikeHigh?: number;
+  expiresAt?: number; // Supplies the year when the title omits it
+}
+
+export type OutcomeComparison = "same" | "different" | "unknown";
+
+interface ParsedStrike {
+  comparator: OutcomeComparator;
+  strike: number;
+  strikeHigh?: number;
+  match: string;
+}
+
+// --- Configuration ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_CANDIDATE_WORDS = 5;
+
+const NUMBER = String.raw`\$?\s?(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)\s?(k|thousand|mm|mn|m|million|bn|b|billion|tn|t|trillion|%)?(?![a-z])`;
+
+const BETWEEN_PATTERNS = [
+  new RegExp(String.raw`\bbetween\s+${NUMBER}\s*(?:and|to|-|–)\s*${NUMBER}`, "i"),
+  new RegExp(String.raw`(?=\$)${NUMBER}\s*(?:to|-|–)\s*${NUMBER}`, "i"),
+];
+const ABOVE_PATTERNS = [
+  new RegExp(
+    String.raw`(?:\babove|\bover|\bgreater than|\bmore than|\bhigher than|\bat least|\bexceeds?|\bexceeding|\breach(?:es)?|\bhits?|\bsurpass(?:es)?|\btops?|≥|>=|>)\s*${NUMBER}`,
+    "i"
+  ),
+  new RegExp(String.raw`${NUMBER}\s*(?:or (?:more|higher|above)|\+)`, "i"),
+];
+const BELOW_PATTERNS = [
+  new RegExp(
+    String.raw`(?:\bbelow|\bunder|\bless than|\blower than|\bat most|\bfalls? (?:to|below)|\bdrops? (?:to|below)|\bdips? (?:to|below)|≤|<=|<)\s*${NUMBER}`,
+    "i"
+  ),
+  new RegExp(String.raw`${NUMBER}\s*or (?:less|lower|below)`, "i"),
+];
+
+const CATEGORICAL_PATTERN =
+  /^will\s+(.+?)\s+(win|be elected|be (?:the )?next|become|be named|be nominated|be chosen)\b(.*)$/i;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH = String.raw`(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)`;
+const MONTH_DAY_PATTERN = new RegExp(
+  String.raw`\b(?:on |by |before )?${MONTH}\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?\b`,
+  "i"
+);
+// A bare month needs a preposition or a year ("in March", "June 2026") to not read as a verb
+const MONTH_PATTERN = new RegExp(
+  String.raw`\b(?:(?:by|in|during|before)\s+(?:the end of\s+)?${MONTH}(?:,?\s+(\d{4}))?|${MONTH},?\s+(\d{4}))\b`,
+  "i"
+);
+const ISO_DATE_PATTERN = /\b(?:on |by |before )?(\d{4})-(\d{2})-(\d{2})\b/;
+const YEAR_PATTERN = /\b(?:by (?:the )?end of|by|in|during|before)\s+(\d{4})\b/i;
+
+const EVENT_STOP_WORDS = new Set([
+  "will", "the", "be", "a", "an", "of", "to", "in", "on", "by", "at", "for", "and", "or",
+  "is", "its", "this", "that", "than", "who", "which", "what", "price", "yes", "no",
+  "win", "wins", "winner",
+]);
+
+// Tickers and synonyms venues use interchangeably
+const EVENT_ALIASES: Record<string, string> = {
+  btc: "bitcoin",
+  eth: "ethereum",
+  sol: "solana",
+  usa: "us",
+  presidency: "president",
+  presidential: "president",
+};
+
+// --- Helper Functions ---
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function normalizeEvent(text: string): string {
+  const tokens = tokenize(text)
+    .filter((token) => !EVENT_STOP_WORDS.has(token))
+    .map((token) => EVENT_ALIASES[token] ?? token);
+  return [...new Set(tokens)].sort().join(" ");
+}
+
+function normalizeLabel(label: string): string {
+  return tokenize(label)
+    .filter((token) => token !== "the")
+    .join(" ");
+}
+
+function parseNumber(raw: string, suffix: string | undefined): number {
+  const value = Number.parseFloat(raw.replace(/,/g, ""));
+  const unit = suffix?.toLowerCase();
+  let multiplier = 1;
+  if (unit === "k" || unit === "thousand") {
+    multiplier = 1e3;
+  } else if (unit === "m" || unit === "mm" || unit === "mn" || unit === "million") {
+    multiplier = 1e6;
+  } else if (unit === "b" || unit === "bn" || unit === "billion") {
+    multiplier = 1e9;
+  } else if (unit === "t" || unit === "tn" || unit === "trillion") {
+    multiplier = 1e12;
+  }
+  return Number((value * multiplier).toPrecision(12));
+}
+
+function parseStrike(text: string): ParsedStrike | null {
+  for (const pattern of BETWEEN_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      const low = parseNumber(match[1], match[2]);
+      const high = parseNumber(match[3], match[4] ?? match[2]);
+      return { comparator: "between", strike: Math.min(low, high), strikeHigh: Math.max(low, high), match: match[0] };
+    }
+  }
+
+  const candidates: [OutcomeComparator, RegExp[]][] = [
+    ["above", ABOVE_PATTERNS],
+    ["below", BELOW_PATTERNS],
+  ];
+  for (const [comparator, patterns] of candidates) {
+    for (const pattern of patterns) {
+      const match = text.match(pattern);
+      if (match) {
+        return { comparator, strike: parseNumber(match[1], match[2]), match: match[0] };
+      }
+    }
+  }
+
+  return null;
+}
+
+function stripStrike(text: string): string {
+  const strike = parseStrike(text);
+  return strike ? text.replace(strike.match, " ") : text;
+}
+
+function parseDate(text: string, fallbackYear: number): { date: number; match: string } | null {
+  const iso = text.match(ISO_DATE_PATTERN);
+  if (iso) {
+    return { date: Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])), match: iso[0] };
+  }
+
+  const monthDay = text.match(MONTH_DAY_PATTERN);
+  if (monthDay) {
+    const month = MONTHS.indexOf(monthDay[1].slice(0, 3).toLowerCase());
+    const year = monthDay[3] ? Number(monthDay[3]) : fallbackYear;
+    return { date: Date.UTC(year, month, Number(monthDay[2])), match: monthDay[0] };
+  }
+
+  const month = text.match(MONTH_PATTERN);
+  if (month) {
+    const name = month[1] ?? month[3];
+    const year = Number(month[2] ?? month[4] ?? fallbackYear);
+    // Last day of the month
+    return { date: Date.UTC(year, MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1, 0), match: month[0] };
+  }
+
+  const year = text.match(YEAR_PATTERN);
+  if (year) {
+    return { date: Date.UTC(Number(year[1]), 11, 31), match: year[0] };
+  }
+
+  return null;
+}
+
+function formatStrikeLabel(comparator: OutcomeComparator, strike: number, strikeHigh?: number): string {
+  return comparator === "between" ? `between ${strike} and ${strikeHigh}` : `${comparator} ${strike}`;
+}
+
+function isSameNumber(a: number | undefined, b: number | undefined): boolean {
+  if (a === undefined || b === undefined) {
+    return a === b;
+  }
+  return Math.abs(a - b) <= Math.max(Math.abs(a), Math.abs(b)) * 1e-6;
+}
+
+function labelsMatch(a: string, b: string): boolean {
+  if (a === b) {
+    return true;
+  }
+  const tokensA = a.split(" ");
+  const tokensB = b.split(" ");
+  const [shorter, longer] =
+    tokensA.length <= tokensB.length ? [tokensA, new Set(tokensB)] : [tokensB, new Set(tokensA)];
+  // "Trump" matches "Donald Trump"
+  return shorter.length > 0 && shorter.every((token) => longer.has(token));
+}
+
+// --- Public API ---
+
+/**
+ * Parse the event and the outcome a market's YES share pays on
+ *
+ * Venue hints win over the title: an outcome label (candidate or strike
+ * subtitle) plus the parent event title describe a categorical or
+ * threshold outcome directly. Otherwise the title is scanned for a strike
+ * ("above $100k", "between 3% and 3.5%") or a "Will <candidate> win ..."
+ * phrasing. Anything else is a plain binary market.
+ *
+ * @param title - Market title as listed by the venue
+ * @param hints - Structured venue metadata, when available
+ */
+export function extractMarketOutcome(title: string, hints: OutcomeHints = {}): MarketOutcome {
+  const fallbackYear = new Date(hints.expiresAt ?? Date.now()).getUTCFullYear();
+  const outcomeLabel = hints.outcomeLabel?.trim().match(/^(yes|no)?$/i) ? undefined : hints.outcomeLabel;
+  let text = outcomeLabel && hints.eventTitle ? hints.eventTitle : title;
+
+  const dated = parseDate(text === title ? title : `${title} ${text}`, fallbackYear);
+  if (dated) {
+    text = text.replace(dated.match, " ");
+  }
+  const date = dated?.date;
+
+  if (hints.strike !== undefined && hints.comparator) {
+    return {
+      kind: "threshold",
+      event: normalizeEvent(stripStrike(text)),
+      label: formatStrikeLabel(hints.comparator, hints.strike, hints.strikeHigh),
+      comparator: hints.comparator,
+      strike: hints.strike,
+      strikeHigh: hints.comparator === "between" ? hints.strikeHigh : undefined,
+      date,
+    };
+  }
+
+  const strike = parseStrike(outcomeLabel ?? text);
+  if (strike) {
+    return {
+      kind: "threshold",
+      event: normalizeEvent(stripStrike(text)),
+      label: formatStrikeLabel(strike.comparator, strike.strike, strike.strikeHigh),
+      comparator: strike.comparator,
+      strike: strike.strike,
+      strikeHigh: strike.strikeHigh,
+      date,
+    };
+  }
+
+  if (outcomeLabel && hints.eventTitle) {
+    return {
+      kind: "categorical",
+      event: normalizeEvent(text),
+      label: normalizeLabel(outcomeLabel),
+      date,
+    };
+  }
+
+  const categorical = text.trim().replace(/\?$/, "").match(CATEGORICAL_PATTERN);
+  if (categorical && categorical[1].split(/\s+/).length <= MAX_CANDIDATE_WORDS) {
+    return {
+      kind: "categorical",
+      event: normalizeEvent(categorical[3]),
+      label: normalizeLabel(categorical[1]),
+      date,
+    };
+  }
+
+  return { kind: "binary", event: normalizeEvent(text), label: "Yes", date };
+}
+
+/**
+ * Decide whether two markets pay out on the same outcome
+ *
+ * "different" when stated dates, strikes, comparators or candidates
+ * disagree; "same" when both are structured and agree; "unknown" when
+ * either side is a plain binary market and titles have to decide.
+ * Events are not compared here; see `calculateEventSimilarity`.
+ */
+export function compareOutcomes(a: MarketOutcome, b: MarketOutcome): OutcomeComparison {
+  if (a.date !== undefined && b.date !== undefined && Math.abs(a.date - b.date) > DAY_MS) {
+    return "different";
+  }
+
+  if (a.kind === "binary" || b.kind === "binary") {
+    return "unknown";
+  }
+
+  if (a.kind !== b.kind) {
+    return "different";
+  }
+
+  if (a.kind === "threshold") {
+    return a.comparator === b.comparator &&
+      isSameNumber(a.strike, b.strike) &&
+      isSameNumber(a.strikeHigh, b.strikeHigh)
+      ? "same"
+      : "different";
+  }
+
+  return labelsMatch(a.label, b.label) ? "same" : "different";
+}
+
+/**
+ * Jaccard overlap of two outcomes' event keys (0-1)
+ */
+export function calculateEventSimilarity(a: MarketOutcome, b: MarketOutcome): number {
+  if (a.event === b.event) {
+    return a.event ? 1 : 0;
+  }
+
+  const tokensA = new Set(a.event.split(" ").filter(Boolean));
+  const tokensB = new Set(b.event.split(" ").filter(Boolean));
+  const intersection = [...tokensA].filter((token) => tokensB.has(token)).length;
+  const union = new Set([...tokensA, ...tokensB]).size;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Key shared by every venue's market for the same structured outcome
+ *
+ * Returns null for plain binary markets.
+ */
+export function getOutcomeKey(outcome: MarketOutcome): string | null {
+  if (outcome.kind === "binary" || !outcome.event) {
+    return null;
+  }
+  return `${outcome.event}|${outcome.label}`;
+}
@@ -0,0 +1,108 @@
+/**
+ * Market resolution helpers
+ *
+ * Venues report outcomes in different shapes ("yes", "YES", a winning
+ * token or outcome index); adapters normalize them to `MarketResolution`.
+ * Resolved markets are clustered the same way as live ones so clusters
+ * whose venues settled on different outcomes can be reviewed, together
+ * with any differences in their stated resolution terms.
+ */
+
+import type { MarketPriceSnapshot, MarketResolution, ResolutionOutcome, ResolutionPostMortem } from "./types";
+import { buildClusters } from "./marketClustering";
+import { analyzeClusterResolution } from "./resolutionCriteria";
+
+// --- Public API ---
+
+/**
+ * Key identifying a venue market, as used by cluster overrides and watchlists
+ */
+export function getResolutionKey(resolution: Pick<MarketResolution, "platform" | "marketId">): string {
+  return `${resolution.platform}:${resolution.marketId}`;
+}
+
+/**
+ * Normalize a venue's reported winner to a binary outcome
+ *
+ * @returns null for anything other than a YES or NO result (unresolved, voided, scalar)
+ */
+export function parseResolutionOutcome(raw: unknown): ResolutionOutcome | null {
+  if (typeof raw === "boolean") {
+    return raw ? "yes" : "no";
+  }
+  if (typeof raw !== "string") {
+    return null;
+  }
+  const value = raw.trim().toLowerCase();
+  if (value === "yes") {
+    return "yes";
+  }
+  if (value === "no") {
+    return "no";
+  }
+  return null;
+}
+
+/**
+ * Merge resolution lists, keeping the first entry seen per market
+ *
+ * @returns Resolutions ordered newest first
+ */
+export function mergeResolutions(...lists: MarketResolution[][]): MarketResolution[] {
+  const merged = new Map<string, MarketResolution>();
+  for (const list of lists) {
+    for (const resolution of list) {
+      const key = getResolutionKey(resolution);
+      if (!merged.has(key)) {
+        merged.set(key, resolution);
+      }
+    }
+  }
+  return Array.from(merged.values()).sort((a, b) => b.resolvedAt - a.resolvedAt);
+}
+
+/**
+ * Find clusters of resolved markets whose venues disagree on the outcome
+ *
+ * @param resolutions - Resolved markets from any venues
+ * @returns One post-mortem per divergent cross-venue cluster, newest first
+ */
+export function buildResolutionPostMortems(resolutions: MarketResolution[]): ResolutionPostMortem[] {
+  const byKey = new Map(resolutions.map((resolution) => [getResolutionKey(resolution), resolution]));
+  const snapshots: MarketPriceSnapshot[] = resolutions.map((resolution) => ({
+    platform: resolution.platform,
+    marketId: resolution.marketId,
+    marketTitle: resolution.marketTitle,
+    price: resolution.outcome === "yes" ? 1 : 0,
+    updatedAt: resolution.resolvedAt,
+    url: resolution.url,
+    expiresAt: resolution.expiresAt,
+    description: resolution.description,
+  }));
+
+  const postMortems: ResolutionPostMortem[] = [];
+
+  for (const cluster of buildClusters(snapshots).clusters) {
+    if (cluster.platformCount < 2) {
+      continue;
+    }
+
+    const members = cluster.markets
+      .map((market) => byKey.get(`${market.platform}:${market.marketId}`))
+      .filter((resolution): resolution is MarketResolution => resolution !== undefined);
+    if (new Set(members.map((resolution) => resolution.outcome)).size < 2) {
+      continue;
+    }
+
+    postMortems.push({
+      clusterId: cluster.id,
+      title: cluster.title,
+      resolutions: members,
+      resolutionMismatches: analyzeClusterResolution(cluster).resolutionMismatches ?? [],
+    });
+  }
+
+  const latest = (postMortem: ResolutionPostMortem) =>
+    Math.max(...postMortem.resolutions.map((resolution) => resolution.resolvedAt));
+  return postMortems.sort((a, b) => latest(b) - latest(a));
+}
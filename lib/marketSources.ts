@@ -1,138 +1,220 @@
 import "server-only";
 
-import { fetchMarkets, fetchTokenPrices } from "@/lib/opinionClient";
+import { fetchMarkets, fetchTokenPrices, type OpinionMarket } from "@/lib/opinionClient";
 import { getOpinionMarketUrl, platformUrls } from "@/lib/links";
-import { fetchPolymarketMarkets } from "@/lib/polymarketClient";
+import {
+  fetchClosedPolymarketMarkets,
+  fetchPolymarketMarkets,
+  POLYMARKET_FIRST_CURSOR,
+} from "@/lib/polymarketClient";
+import { getSyncCursor, saveSyncCursor } from "@/lib/database/queries";
+import { createHttpClient } from "@/lib/http";
+import { extractMarketOutcome, type OutcomeHints } from "@/lib/marketOutcomes";
+import {
+  createParseReport,
+  dropRecord,
+  formatParseReport,
+  parseRecords,
+  recordParseReport,
+  type Schema,
+} from "@/lib/schema";
+import {
+  getPolymarketOutcomeTokens,
+  kalshiMarketSchema,
+  kalshiResolutionSchema,
+  limitlessMarketSchema,
+  limitlessResolutionSchema,
+  opinionEventSchema,
+  opinionMarketSchema,
+  predictFunMarketSchema,
+  predictFunResolutionSchema,
+  pricePolymarketMarket,
+  type OpinionEventPayload,
+  type OpinionMarketPayload,
+  type VenueOutcome,
+  type VenueResolvedOutcome,
+} from "@/lib/venueSchemas";
 import type {
   MarketPriceSnapshot,
+  MarketResolution,
+  ParseReport,
   PlatformSource,
+  ResolutionOutcome,
 } from "@/lib/types";
 
 const DEFAULT_TIMEOUT_MS = 10_000;
 
-function normalizePrice(raw: unknown): number | null {
-  if (raw === null || raw === undefined) {
-    return null;
-  }
-
-  const parsed = typeof raw === "string" ? Number.parseFloat(raw) : Number(raw);
-
-  if (!Number.isFinite(parsed)) {
-    return null;
-  }
-
-  if (parsed < 0) {
-    return null;
-  }
-
-  if (parsed > 1 && parsed <= 100) {
-    return parsed / 100;
-  }
+// Public market feeds are cached upstream, so a failed request is not retried
+const feedHttpOptions = { timeoutMs: DEFAULT_TIMEOUT_MS, maxRetries: 0 };
+const dflowHttp = createHttpClient("kalshi", { ...feedHttpOptions, label: "DFlow API" });
+const limitlessHttp = createHttpClient("limitless", { ...feedHttpOptions, label: "Limitless API" });
+const predictFunHttp = createHttpClient("predictfun", { ...feedHttpOptions, label: "Predict.fun API" });
+
+// Polymarket resolutions are found by sweeping the whole CLOB market list a few pages per poll
+const POLYMARKET_RESOLUTION_CURSOR_KEY = "polymarket:resolutions";
+const POLYMARKET_RESOLUTION_PAGES = 3;
+let polymarketResolutionCursor: string | null = null; // Used when no DB is configured
+
+/**
+ * Validate a venue's market list and keep its parse report for the feed
+ */
+function parseMarkets<T>(source: PlatformSource, markets: unknown[], schema: Schema<T>): T[] {
+  const { values, report } = parseRecords(markets, schema, "market");
+  reportDroppedMarkets(source, report);
+  return values;
+}
 
-  if (parsed > 1) {
-    return null;
+function reportDroppedMarkets(source: PlatformSource, report: ParseReport): void {
+  recordParseReport(source, report);
+  if (report.dropped > 0) {
+    console.warn(`[Markets] ${source}: ${formatParseReport(report)}`);
   }
+}
 
-  return parsed;
+/**
+ * Validate a venue's resolved markets; the ones without a YES or NO winner are dropped
+ */
+function parseResolutions<T>(source: PlatformSource, markets: unknown[], schema: Schema<T>): T[] {
+  const { values, report } = parseRecords(markets, schema, "market");
+  reportDroppedResolutions(source, report);
+  return values;
 }
 
-function normalizeTimestamp(raw: unknown): number {
-  if (raw === null || raw === undefined) {
-    return Date.now();
+// Resolution feeds have no source state, so dropped markets are only logged
+function reportDroppedResolutions(source: PlatformSource, report: ParseReport): void {
+  if (report.dropped > 0) {
+    console.warn(`[Resolutions] ${source}: ${formatParseReport(report, "resolved markets")}`);
   }
+}
 
-  const parsed = typeof raw === "string" ? Number.parseFloat(raw) : Number(raw);
-
-  if (!Number.isFinite(parsed)) {
-    return Date.now();
+/**
+ * Flatten categorical Opinion markets into their per-outcome child markets
+ */
+function expandOpinionMarkets(
+  market: OpinionMarket
+): { market: OpinionMarket; parent?: OpinionMarket }[] {
+  const children: OpinionMarket[] = Array.isArray(market.childMarkets) ? market.childMarkets : [];
+  if (children.length === 0) {
+    return [{ market }];
   }
+  return children.map((child) => ({ market: child, parent: market }));
+}
 
-  if (parsed < 1_000_000_000_000) {
-    return parsed * 1000;
+/**
+ * Validate Opinion listings and their categorical parents
+ *
+ * @returns Parsed markets and a report counting the dropped ones
+ */
+function parseOpinionListings(listings: { market: OpinionMarket; parent?: OpinionMarket }[]) {
+  const report = createParseReport(listings.length);
+  const markets: { market: OpinionMarketPayload; parent?: OpinionEventPayload }[] = [];
+
+  for (const listing of listings) {
+    const parent = listing.parent ? opinionEventSchema(listing.parent, "market") : undefined;
+    if (parent && !parent.ok) {
+      dropRecord(report, parent.issue);
+      continue;
+    }
+    const market = opinionMarketSchema(listing.market, "market");
+    if (!market.ok) {
+      dropRecord(report, market.issue);
+      continue;
+    }
+    markets.push({ market: market.value, parent: parent?.ok ? parent.value : undefined });
   }
 
-  return parsed;
+  return { markets, report };
 }
 
-function parseDateToTimestamp(raw: unknown): number | undefined {
-  if (raw === null || raw === undefined) {
-    return undefined;
+/**
+ * Strike fields Kalshi attaches to laddered markets
+ */
+function getKalshiStrikeHints(market: {
+  strikeType?: string;
+  floorStrike?: number;
+  capStrike?: number;
+}): OutcomeHints {
+  const strikeType = market.strikeType ?? "";
+  const floor = market.floorStrike;
+  const cap = market.capStrike;
+
+  if (strikeType.startsWith("greater") && floor !== undefined) {
+    return { comparator: "above", strike: floor };
   }
-
-  const minValidTimestampMs = Date.UTC(2000, 0, 1);
-
-  if (typeof raw === "number" && Number.isFinite(raw)) {
-    const parsed = raw < 1_000_000_000_000 ? raw * 1000 : raw;
-    return parsed >= minValidTimestampMs ? parsed : undefined;
+  if (strikeType.startsWith("less") && cap !== undefined) {
+    return { comparator: "below", strike: cap };
   }
-
-  if (typeof raw === "string") {
-    const trimmed = raw.trim();
-    if (!trimmed) {
-      return undefined;
-    }
-    const numeric = Number.parseFloat(trimmed);
-    if (Number.isFinite(numeric)) {
-      const parsed = numeric < 1_000_000_000_000 ? numeric * 1000 : numeric;
-      return parsed >= minValidTimestampMs ? parsed : undefined;
-    }
-    const parsed = Date.parse(trimmed);
-    if (!Number.isNaN(parsed) && parsed >= minValidTimestampMs) {
-      return parsed;
-    }
+  if (strikeType === "between" && floor !== undefined && cap !== undefined) {
+    return { comparator: "between", strike: floor, strikeHigh: cap };
   }
-
-  return undefined;
+  return {};
 }
 
-async function fetchJson(url: string, init: RequestInit = {}) {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), DEFAULT_TIMEOUT_MS);
-
-  try {
-    const response = await fetch(url, {
-      ...init,
-      signal: controller.signal,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => "");
-      throw new Error(`Request failed (${response.status}): ${errorText || response.statusText}`);
+/**
+ * Split a venue market that lists more than two named outcomes into one
+ * binary snapshot per outcome, priced independently
+ *
+ * Outcomes without a label or price are left out. Venues quote only the
+ * outcome's YES price, so the snapshots carry no NO price.
+ */
+function expandCategoricalSnapshots(
+  outcomes: VenueOutcome[],
+  snapshot: Omit<MarketPriceSnapshot, "price">
+): MarketPriceSnapshot[] {
+  return outcomes.flatMap(({ label, price }, index) => {
+    if (label === undefined || price === undefined) {
+      return [];
     }
 
-    return response.json();
-  } finally {
-    clearTimeout(timeoutId);
-  }
+    return [
+      {
+        ...snapshot,
+        marketId: `${snapshot.marketId}:${index}`,
+        marketTitle: `${snapshot.marketTitle} - ${label}`,
+        price,
+        outcome: extractMarketOutcome(snapshot.marketTitle, {
+          eventTitle: snapshot.marketTitle,
+          outcomeLabel: label,
+          expiresAt: snapshot.expiresAt,
+        }),
+      },
+    ];
+  });
 }
 
-function extractLimitlessYesPrice(market: any): number | null {
-  const prices = Array.isArray(market?.prices) ? market.prices : [];
-
-  if (prices.length > 0) {
-    for (const entry of prices) {
-      const candidate =
-        typeof entry === "number" || typeof entry === "string"
-          ? entry
-          : entry?.price ??
-            entry?.value ??
-            entry?.probability ??
-            entry?.yesPrice ??
-            entry?.yes_price ??
-            entry?.yes;
-      const normalized = normalizePrice(candidate);
-      if (normalized !== null) {
-        return normalized;
-      }
-    }
-  }
+/**
+ * Market array from the list envelopes venues wrap responses in
+ */
+function extractMarketList(data: unknown): unknown[] {
+  const envelope = data as Record<string, Record<string, unknown> | undefined> | null;
+  const candidates = [data, envelope?.markets, envelope?.data?.data, envelope?.data, envelope?.result, envelope?.items];
+  return candidates.find((candidate): candidate is unknown[] => Array.isArray(candidate)) ?? [];
+}
 
-  return normalizePrice(
-    market?.yesPrice ??
-      market?.yes_price ??
-      market?.price ??
-      market?.probability
-  );
+/**
+ * Resolve each outcome of a categorical market as its own binary market,
+ * matching the ids `expandCategoricalSnapshots` assigns
+ *
+ * Outcomes without a label are left out; only outcomes flagged as the
+ * winner resolve YES.
+ */
+function expandCategoricalResolutions(
+  outcomes: VenueResolvedOutcome[],
+  resolution: Omit<MarketResolution, "outcome">
+): MarketResolution[] {
+  return outcomes.flatMap(({ label, result }, index) => {
+    if (label === undefined) {
+      return [];
+    }
+    return [
+      {
+        ...resolution,
+        marketId: `${resolution.marketId}:${index}`,
+        marketTitle: `${resolution.marketTitle} - ${label}`,
+        outcome: result === "yes" ? ("yes" as const) : ("no" as const),
+      },
+    ];
+  });
 }
 
 export async function fetchOpinionMarketPrices(
@@ -142,32 +224,46 @@ export async function fetchOpinionMarketPrices(
     throw new Error("Opinion API credentials are missing");
   }
 
-  const markets = await fetchMarkets(limit);
-  const tokenIds = markets.map((market) => market.yesTokenId).filter(Boolean);
-  const pricesByToken = await fetchTokenPrices(tokenIds);
+  const { markets, report } = parseOpinionListings((await fetchMarkets(limit)).flatMap(expandOpinionMarkets));
 
+  // Prices come from a separate endpoint; tokens without one are counted with the rest
+  const { prices: pricesByToken, issues: priceIssues } = await fetchTokenPrices(
+    markets.flatMap(({ market }) => (market.noTokenId ? [market.yesTokenId, market.noTokenId] : [market.yesTokenId]))
+  );
   const snapshots: MarketPriceSnapshot[] = [];
 
-  for (const market of markets) {
+  for (const { market, parent } of markets) {
     const priceInfo = pricesByToken[market.yesTokenId];
-    const price = normalizePrice(priceInfo?.price);
-
-    if (price === null) {
+    if (!priceInfo) {
+      const issue = priceIssues[market.yesTokenId] ?? { field: "price", problem: "missing" };
+      dropRecord(report, { ...issue, field: `yes ${issue.field}` });
       continue;
     }
 
-      snapshots.push({
-        platform: "opinion",
-        marketId: String(market.marketId),
-        marketTitle: market.marketTitle,
-        price,
-        updatedAt: normalizeTimestamp(priceInfo?.timestamp),
-        url: getOpinionMarketUrl(market.marketId, market.topicId, market.marketTitle),
-        expiresAt: parseDateToTimestamp(market.cutoffAt ?? market.resolvedAt),
-        description: typeof market.rules === "string" ? market.rules : undefined,
-      });
-    }
+    const listing = parent ?? market;
+    const expiresAt = market.expiresAt ?? parent?.expiresAt;
+    const rules = market.rules ?? parent?.rules;
+
+    snapshots.push({
+      platform: "opinion",
+      marketId: market.marketId,
+      marketTitle: parent ? `${parent.marketTitle} - ${market.marketTitle}` : market.marketTitle,
+      price: priceInfo.price,
+      noPrice: market.noTokenId ? pricesByToken[market.noTokenId]?.price : undefined,
+      updatedAt: priceInfo.timestamp,
+      url: getOpinionMarketUrl(listing.marketId, listing.topicId, listing.marketTitle),
+      expiresAt,
+      description: rules,
+      yesTokenId: market.yesTokenId,
+      noTokenId: market.noTokenId,
+      outcome: extractMarketOutcome(
+        market.marketTitle,
+        parent ? { eventTitle: parent.marketTitle, outcomeLabel: market.marketTitle, expiresAt } : { expiresAt }
+      ),
+    });
+  }
 
+  reportDroppedMarkets("opinion", report);
   return snapshots;
 }
 
@@ -176,80 +272,42 @@ export async function fetchPolymarketPrices(
 ): Promise<MarketPriceSnapshot[]> {
   try {
     // Fetch markets using CLOB REST API
-    const markets = await fetchPolymarketMarkets(limit, 0);
+    const { markets: listings, report } = await fetchPolymarketMarkets(limit, 0);
+    const markets = listings.flatMap((listing) => {
+      const market = pricePolymarketMarket(listing);
+      if (!market.ok) {
+        dropRecord(report, market.issue);
+        return [];
+      }
+      return [market.value];
+    });
+    reportDroppedMarkets("polymarket", report);
 
-    if (!markets || markets.length === 0) {
+    if (markets.length === 0) {
       console.warn("[Polymarket] No markets returned from CLOB API");
       return [];
     }
 
-    const snapshots: MarketPriceSnapshot[] = [];
-
-    for (const market of markets) {
-      // CLOB API includes token prices in the response
-      const marketAny = market as any;
-      const tokens = marketAny.tokens || [];
-      const tags = Array.isArray(marketAny.tags)
-        ? marketAny.tags.map((tag: unknown) => String(tag))
-        : undefined;
-      const category =
-        typeof marketAny.category === "string"
-          ? marketAny.category
-          : typeof marketAny.categoryName === "string"
-            ? marketAny.categoryName
-            : typeof marketAny.series === "string"
-              ? marketAny.series
-              : undefined;
-      
-      // Try to extract price from tokens (YES token is typically first)
-      let price: number | null = null;
-      
-      if (tokens.length > 0) {
-        // Look for YES token price
-        const yesToken = tokens.find((t: any) => t.outcome === "Yes" || t.outcome_index === 0);
-        if (yesToken) {
-          price = normalizePrice(yesToken.price);
-        }
-        // Fallback to first token
-        if (price === null && tokens[0]?.price !== undefined) {
-          price = normalizePrice(tokens[0].price);
-        }
-      }
-      
-      // Also try direct price fields on market
-      if (price === null) {
-        price = normalizePrice(
-          marketAny.outcomePrices?.[0] ??
-          marketAny.yes_price ??
-          marketAny.price ??
-          marketAny.probability
-        );
-      }
-
-      if (price === null) {
-        continue;
-      }
-
-      snapshots.push({
-        platform: "polymarket",
-        marketId: market.id || market.conditionId,
-        marketTitle: market.question,
-        price,
-        updatedAt: Date.now(),
-        url: market.slug ? platformUrls.polymarket(market.slug) : undefined,
-        expiresAt: parseDateToTimestamp(market.endDate),
-        category,
-        tags,
-        description:
-          typeof market.description === "string"
-            ? market.description
-            : typeof market.resolutionSource === "string"
-              ? market.resolutionSource
-              : undefined,
-      });
-    }
-
-    return snapshots;
+    return markets.map((market) => ({
+      platform: "polymarket" as const,
+      marketId: market.id,
+      marketTitle: market.question,
+      price: market.price,
+      noPrice: market.noPrice,
+      updatedAt: Date.now(),
+      url: market.slug ? platformUrls.polymarket(market.slug) : undefined,
+      expiresAt: market.endDate,
+      category: market.category,
+      tags: market.tags,
+      description: market.description,
+      yesTokenId: market.yesToken?.tokenId,
+      noTokenId: market.noToken?.tokenId,
+      outcome: extractMarketOutcome(market.question, {
+        eventTitle: market.eventTitle,
+        outcomeLabel: market.groupItemTitle,
+        expiresAt: market.endDate,
+      }),
+    }));
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error(`[Polymarket] Failed to fetch markets:`, errorMessage);
@@ -274,20 +332,8 @@ export async function fetchKalshiPrices(
     };
 
     // DFlow API is public, no authentication needed
-    const data = await fetchJson(url.toString(), { headers });
-
-    let markets: any[] = [];
-    if (Array.isArray(data)) {
-      markets = data;
-    } else if (Array.isArray(data?.markets)) {
-      markets = data.markets;
-    } else if (Array.isArray(data?.data)) {
-      markets = data.data;
-    } else if (Array.isArray(data?.result)) {
-      markets = data.result;
-    } else if (Array.isArray(data?.items)) {
-      markets = data.items;
-    }
+    const data = await dflowHttp.fetchJson(url.toString(), { headers });
+    const markets = parseMarkets("kalshi", extractMarketList(data), kalshiMarketSchema);
 
     if (markets.length === 0) {
       console.warn("[Kalshi] No markets returned from DFlow API");
@@ -297,52 +343,34 @@ export async function fetchKalshiPrices(
     const snapshots: MarketPriceSnapshot[] = [];
 
     for (const market of markets) {
-      // DFlow market structure - adjust field names based on actual API response
-      const price = normalizePrice(
-        market?.price ??
-          market?.probability ??
-          market?.yes_price ??
-          market?.yesPrice ??
-          market?.outcomes?.[0]?.price ??
-          market?.outcomes?.[0]?.probability ??
-          market?.last_price ??
-          market?.lastPrice
-      );
-
-      if (price === null) {
+      const { marketId, marketTitle, expiresAt } = market;
+      const snapshot = {
+        platform: "kalshi" as const, // Keep "kalshi" for UI branding, but using DFlow backend
+        marketId,
+        marketTitle,
+        updatedAt: market.updatedAt ?? Date.now(),
+        url: platformUrls.kalshi(marketId),
+        expiresAt,
+      };
+
+      if ("outcomes" in market) {
+        snapshots.push(...expandCategoricalSnapshots(market.outcomes, snapshot));
         continue;
       }
 
-      const marketId =
-        market?.market_id ?? market?.marketId ?? market?.id ?? market?.ticker ?? "unknown";
+      // Kalshi titles name the event; the subtitle names the candidate or strike
+      const { subtitle } = market;
 
       snapshots.push({
-        platform: "kalshi", // Keep "kalshi" for UI branding, but using DFlow backend
-        marketId: String(marketId),
-        marketTitle: String(
-          market?.title ??
-            market?.question ??
-            market?.market_title ??
-            market?.name ??
-            market?.ticker ??
-            "Unknown"
-        ),
-        price,
-        updatedAt: normalizeTimestamp(
-          market?.updated_at ??
-            market?.updatedAt ??
-            market?.last_updated ??
-            market?.lastUpdated
-        ),
-        url: marketId !== "unknown" ? platformUrls.kalshi(String(marketId)) : undefined,
-        expiresAt: parseDateToTimestamp(
-          market?.close_time ??
-            market?.closeTime ??
-            market?.end_time ??
-            market?.endTime ??
-            market?.expiration ??
-            market?.expiresAt
-        ),
+        ...snapshot,
+        price: market.price,
+        noPrice: market.noPrice,
+        outcome: extractMarketOutcome(marketTitle, {
+          eventTitle: subtitle ? marketTitle : undefined,
+          outcomeLabel: subtitle,
+          ...getKalshiStrikeHints(market),
+          expiresAt,
+        }),
       });
     }
 
@@ -368,62 +396,24 @@ export async function fetchLimitlessPrices(
       Accept: "application/json",
     };
 
-    const data = await fetchJson(url.toString(), { headers });
-    const markets: any[] = Array.isArray(data?.data?.data)
-      ? data.data.data
-      : Array.isArray(data?.data)
-        ? data.data
-        : Array.isArray(data)
-          ? data
-          : [];
+    const data = await limitlessHttp.fetchJson(url.toString(), { headers });
+    const markets = parseMarkets("limitless", extractMarketList(data), limitlessMarketSchema);
 
     if (markets.length === 0) {
       console.warn("[Limitless] No markets returned from API");
       return [];
     }
 
-    const snapshots: MarketPriceSnapshot[] = [];
-
-    for (const market of markets) {
-      const yesPrice = extractLimitlessYesPrice(market);
-
-      if (yesPrice === null) {
-        continue;
-      }
-
-      const marketId = market?.id ?? market?.address ?? market?.slug ?? "unknown";
-      const marketTitle = market?.title ?? market?.question ?? market?.name ?? "Unknown";
-      const updatedAt = normalizeTimestamp(
-        market?.updatedAt ?? market?.updated_at ?? market?.timestamp ?? Date.now()
-      );
-
-      snapshots.push({
-        platform: "limitless",
-        marketId: String(marketId),
-        marketTitle: String(marketTitle),
-        price: yesPrice,
-        updatedAt,
-        url: market?.slug ? platformUrls.limitless(market.slug) : undefined,
-        expiresAt: parseDateToTimestamp(
-          market?.close_time ??
-            market?.closeTime ??
-            market?.end_time ??
-            market?.endTime ??
-            market?.expiration ??
-            market?.expiresAt ??
-            market?.expiry ??
-            market?.expires
-        ),
-      });
-    }
-
-    if (markets.length > 0 && snapshots.length === 0) {
-      console.warn("[Limitless] Markets returned but none had parsable prices", {
-        sampleKeys: Object.keys(markets[0] ?? {}),
-      });
-    }
-
-    return snapshots;
+    return markets.map((market) => ({
+      platform: "limitless" as const,
+      marketId: market.marketId,
+      marketTitle: market.marketTitle,
+      price: market.price,
+      noPrice: market.noPrice,
+      updatedAt: market.updatedAt ?? Date.now(),
+      url: market.slug ? platformUrls.limitless(market.slug) : undefined,
+      expiresAt: market.expiresAt,
+    }));
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error("[Limitless] Failed to fetch markets:", errorMessage);
@@ -454,28 +444,8 @@ export async function fetchPredictFunPrices(
       Authorization: `Bearer ${apiKey}`,
     };
 
-    const data = await fetchJson(url.toString(), { headers });
-    
-    // Handle various response structures
-    let markets: any[] = [];
-    if (Array.isArray(data)) {
-      markets = data;
-    } else if (data?.data && Array.isArray(data.data)) {
-      markets = data.data;
-    } else if (data?.result && Array.isArray(data.result)) {
-      markets = data.result;
-    } else if (data?.markets && Array.isArray(data.markets)) {
-      markets = data.markets;
-    } else if (data?.items && Array.isArray(data.items)) {
-      markets = data.items;
-    } else {
-      console.warn("[Predict.fun] Unexpected API response structure:", {
-        hasData: !!data,
-        dataKeys: data ? Object.keys(data) : [],
-        dataType: Array.isArray(data) ? "array" : typeof data,
-      });
-      return [];
-    }
+    const data = await predictFunHttp.fetchJson(url.toString(), { headers });
+    const markets = parseMarkets("predictfun", extractMarketList(data), predictFunMarketSchema);
 
     if (markets.length === 0) {
       console.warn("[Predict.fun] No markets returned from API");
@@ -485,57 +455,20 @@ export async function fetchPredictFunPrices(
     const snapshots: MarketPriceSnapshot[] = [];
 
     for (const market of markets) {
-      // Try multiple possible price field names
-      const price = normalizePrice(
-        market?.price ??
-          market?.probability ??
-          market?.yes_price ??
-          market?.yesPrice ??
-          market?.currentPrice ??
-          market?.lastPrice ??
-          market?.outcomes?.[0]?.price ??
-          market?.outcomes?.[0]?.probability ??
-          market?.tokens?.[0]?.price
-      );
-
-      if (price === null) {
-        // Log in development to help debug API structure
-        if (process.env.NODE_ENV === "development") {
-          console.debug("[Predict.fun] Skipping market with no valid price:", {
-            marketId: market?.id ?? market?.marketId,
-            marketTitle: market?.question ?? market?.title,
-            availableFields: Object.keys(market),
-          });
-        }
-        continue;
+      const snapshot = {
+        platform: "predictfun" as const,
+        marketId: market.marketId,
+        marketTitle: market.marketTitle,
+        updatedAt: market.updatedAt ?? Date.now(),
+        url: market.url,
+        expiresAt: market.expiresAt,
+      };
+
+      if ("outcomes" in market) {
+        snapshots.push(...expandCategoricalSnapshots(market.outcomes, snapshot));
+      } else {
+        snapshots.push({ ...snapshot, price: market.price, noPrice: market.noPrice });
       }
-
-      const marketId = market?.id ?? market?.marketId ?? market?.market_id ?? market?.slug ?? "unknown";
-      const marketTitle = market?.question ?? market?.title ?? market?.market_title ?? market?.name ?? "Unknown";
-
-      snapshots.push({
-        platform: "predictfun",
-        marketId: String(marketId),
-        marketTitle: String(marketTitle),
-        price,
-        updatedAt: normalizeTimestamp(
-          market?.updated_at ??
-            market?.updatedAt ??
-            market?.last_updated ??
-            market?.lastUpdated ??
-            market?.timestamp
-        ),
-        url: market?.url ?? market?.link ?? undefined,
-        expiresAt: parseDateToTimestamp(
-          market?.close_time ??
-            market?.closeTime ??
-            market?.end_time ??
-            market?.endTime ??
-            market?.expiration ??
-            market?.expiresAt ??
-            market?.expiry
-        ),
-      });
     }
 
     return snapshots;
@@ -547,10 +480,217 @@ export async function fetchPredictFunPrices(
   }
 }
 
-export const platformFetchers: Record<PlatformSource, (limit: number) => Promise<MarketPriceSnapshot[]>> = {
-  opinion: fetchOpinionMarketPrices,
-  kalshi: fetchKalshiPrices,
-  polymarket: fetchPolymarketPrices,
-  predictfun: fetchPredictFunPrices,
-  limitless: fetchLimitlessPrices,
-};
+
+export async function fetchOpinionResolutions(
+  limit: number
+): Promise<MarketResolution[]> {
+  if (!process.env.OPINION_API_KEY || !process.env.OPINION_OPENAPI_BASE_URL) {
+    throw new Error("Opinion API credentials are missing");
+  }
+
+  const { markets, report } = parseOpinionListings(
+    (await fetchMarkets(limit, 0, "resolved")).flatMap(expandOpinionMarkets)
+  );
+  reportDroppedResolutions("opinion", report);
+  const resolutions: MarketResolution[] = [];
+
+  for (const { market, parent } of markets) {
+    // Opinion reports the winner as the token that pays out
+    const { resultTokenId } = market;
+    let outcome: ResolutionOutcome | null = null;
+    if (resultTokenId && resultTokenId === market.yesTokenId) {
+      outcome = "yes";
+    } else if (resultTokenId && resultTokenId === market.noTokenId) {
+      outcome = "no";
+    }
+
+    if (outcome === null) {
+      continue;
+    }
+
+    const listing = parent ?? market;
+
+    resolutions.push({
+      platform: "opinion",
+      marketId: market.marketId,
+      marketTitle: parent ? `${parent.marketTitle} - ${market.marketTitle}` : market.marketTitle,
+      outcome,
+      resolvedAt: market.resolvedAt ?? parent?.resolvedAt ?? Date.now(),
+      url: getOpinionMarketUrl(listing.marketId, listing.topicId, listing.marketTitle),
+      expiresAt: market.expiresAt ?? parent?.expiresAt,
+      description: market.rules ?? parent?.rules,
+    });
+  }
+
+  return resolutions;
+}
+
+/**
+ * Read the next pages of the Polymarket market list, wrapping to the first
+ * page after the last
+ *
+ * The CLOB lists markets oldest first and only pages by cursor, so a
+ * market resolved today can sit on any page. The sweep position is
+ * persisted, so every poll picks up where the last one stopped.
+ */
+async function sweepClosedPolymarketMarkets() {
+  let cursor =
+    (await getSyncCursor(POLYMARKET_RESOLUTION_CURSOR_KEY).catch(() => null)) ??
+    polymarketResolutionCursor ??
+    POLYMARKET_FIRST_CURSOR;
+  const markets = [];
+
+  for (let page = 0; page < POLYMARKET_RESOLUTION_PAGES; page++) {
+    const result = await fetchClosedPolymarketMarkets(cursor);
+    markets.push(...result.markets);
+    cursor = result.nextCursor ?? POLYMARKET_FIRST_CURSOR;
+
+    polymarketResolutionCursor = cursor;
+    await saveSyncCursor(POLYMARKET_RESOLUTION_CURSOR_KEY, cursor).catch((error) => {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn("[Polymarket] Failed to save resolution cursor:", errorMessage);
+    });
+    if (result.nextCursor === null) {
+      break; // End of the list; the next poll starts over
+    }
+  }
+
+  return markets;
+}
+
+/**
+ * Resolved Polymarket markets on the next pages of the sweep
+ *
+ * CLOB pages have a fixed size, so unlike the other venues this takes no limit.
+ */
+export async function fetchPolymarketResolutions(): Promise<MarketResolution[]> {
+  const markets = await sweepClosedPolymarketMarkets();
+  const resolutions: MarketResolution[] = [];
+
+  for (const market of markets) {
+    const { yesToken, noToken } = getPolymarketOutcomeTokens(market);
+
+    // Closed markets have no winner until the UMA resolution settles
+    let outcome: ResolutionOutcome | null = null;
+    if (yesToken?.winner === true) {
+      outcome = "yes";
+    } else if (noToken?.winner === true) {
+      outcome = "no";
+    }
+
+    if (outcome === null) {
+      continue;
+    }
+
+    resolutions.push({
+      platform: "polymarket",
+      marketId: market.id,
+      marketTitle: market.question,
+      outcome,
+      // Markets without a reported resolution time settle on their end date
+      resolvedAt: market.closedTime ?? market.endDate ?? Date.now(),
+      url: market.slug ? platformUrls.polymarket(market.slug) : undefined,
+      expiresAt: market.endDate,
+      description: market.description,
+    });
+  }
+
+  return resolutions;
+}
+
+export async function fetchKalshiResolutions(
+  limit: number
+): Promise<MarketResolution[]> {
+  const baseUrl = (process.env.KALSHI_API_BASE_URL ||
+    "https://prediction-markets-api.dflow.net/api/v1").replace(/\/$/, "");
+  const url = new URL(`${baseUrl}/markets`);
+  url.searchParams.set("limit", String(limit));
+  url.searchParams.set("status", "finalized");
+
+  const data = await dflowHttp.fetchJson(url.toString(), { headers: { Accept: "application/json" } });
+  const resolutions: MarketResolution[] = [];
+
+  for (const market of parseResolutions("kalshi", extractMarketList(data), kalshiResolutionSchema)) {
+    const resolution = {
+      platform: "kalshi" as const,
+      marketId: market.marketId,
+      marketTitle: market.marketTitle,
+      resolvedAt: market.resolvedAt ?? Date.now(),
+      url: platformUrls.kalshi(market.marketId),
+      expiresAt: market.expiresAt,
+    };
+
+    if ("outcomes" in market) {
+      resolutions.push(...expandCategoricalResolutions(market.outcomes, resolution));
+    } else {
+      resolutions.push({ ...resolution, outcome: market.outcome });
+    }
+  }
+
+  return resolutions;
+}
+
+export async function fetchLimitlessResolutions(
+  limit: number
+): Promise<MarketResolution[]> {
+  const baseUrl = (process.env.LIMITLESS_API_BASE_URL ||
+    "https://api.limitless.exchange").replace(/\/$/, "");
+  const url = new URL(`${baseUrl}/markets/resolved`);
+  url.searchParams.set("limit", String(Math.min(limit, 25)));
+
+  const data = await limitlessHttp.fetchJson(url.toString(), { headers: { Accept: "application/json" } });
+
+  return parseResolutions("limitless", extractMarketList(data), limitlessResolutionSchema).map((market) => ({
+    platform: "limitless" as const,
+    marketId: market.marketId,
+    marketTitle: market.marketTitle,
+    outcome: market.outcome,
+    resolvedAt: market.resolvedAt ?? Date.now(),
+    url: market.slug ? platformUrls.limitless(market.slug) : undefined,
+    expiresAt: market.expiresAt,
+    description: market.description,
+  }));
+}
+
+export async function fetchPredictFunResolutions(
+  limit: number
+): Promise<MarketResolution[]> {
+  const apiKey = process.env.PREDICTFUN_API_KEY;
+  if (!apiKey) {
+    return [];
+  }
+
+  const baseUrl = (process.env.PREDICTFUN_API_BASE_URL || "https://api.predict.fun")
+    .replace(/\/$/, "");
+  const url = new URL(`${baseUrl}/markets`);
+  url.searchParams.set("limit", String(limit));
+  url.searchParams.set("status", "RESOLVED");
+
+  const data = await predictFunHttp.fetchJson(url.toString(), {
+    headers: {
+      Accept: "application/json",
+      Authorization: `Bearer ${apiKey}`,
+    },
+  });
+  const resolutions: MarketResolution[] = [];
+
+  for (const market of parseResolutions("predictfun", extractMarketList(data), predictFunResolutionSchema)) {
+    const resolution = {
+      platform: "predictfun" as const,
+      marketId: market.marketId,
+      marketTitle: market.marketTitle,
+      resolvedAt: market.resolvedAt ?? Date.now(),
+      url: market.url,
+      expiresAt: market.expiresAt,
+      description: market.description,
+    };
+
+    if ("outcomes" in market) {
+      resolutions.push(...expandCategoricalResolutions(market.outcomes, resolution));
+    } else {
+      resolutions.push({ ...resolution, outcome: market.outcome });
+    }
+  }
+
+  return resolutions;
+}
@@ -0,0 +1,147 @@
+/**
+ * Shared market stream broadcaster (server-side only)
+ *
+ * One broadcaster per requested limit refreshes the market feed once per
+ * tick and fans the resulting snapshot or delta out to every subscribed
+ * SSE connection, so the cost of clustering and alert evaluation does not
+ * grow with the number of open streams. Ticks follow the shortest platform
+ * cache TTL, and a tick whose feed is unchanged broadcasts nothing. The
+ * timer only runs while someone is subscribed.
+ */
+
+import "server-only";
+
+import type { MarketsDelta, MarketsResponse } from "@/lib/types";
+import { sanitizeError } from "@/lib/security";
+import { aggregateMarkets, getFeedRefreshIntervalMs } from "@/lib/marketFeed";
+import { diffMarkets, hasSameMarketSet } from "@/lib/marketDelta";
+
+// --- Types ---
+
+export type MarketStreamEvent =
+  | { type: "snapshot"; data: MarketsResponse } // Full response, on subscribe and when markets are added/removed
+  | { type: "delta"; data: MarketsDelta }
+  | { type: "warning"; data: { message: string } }; // A refresh failed; the stream stays open
+
+export type MarketStreamListener = (event: MarketStreamEvent) => void;
+
+interface Subscriber {
+  listener: MarketStreamListener;
+  primed: boolean; // Has received a snapshot to apply deltas to
+}
+
+interface Broadcaster {
+  subscribers: Set<Subscriber>;
+  latest: MarketsResponse | null;
+  timer: ReturnType<typeof setInterval> | null;
+  ticking: boolean;
+}
+
+// --- Configuration ---
+
+const broadcasters = new Map<number, Broadcaster>();
+
+// --- Helper Functions ---
+
+function deliver(subscriber: Subscriber, event: MarketStreamEvent): void {
+  try {
+    subscriber.listener(event);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn("[Stream] Subscriber failed to handle event:", errorMessage);
+  }
+}
+
+async function tick(limit: number, broadcaster: Broadcaster): Promise<void> {
+  if (broadcaster.ticking || broadcaster.subscribers.size === 0) {
+    return;
+  }
+
+  broadcaster.ticking = true;
+  try {
+    const previous = broadcaster.latest;
+    const next = await aggregateMarkets(limit);
+    broadcaster.latest = next;
+
+    let event: MarketStreamEvent | null;
+    if (next === previous) {
+      event = null; // No platform refreshed since the last tick
+    } else if (!previous || !hasSameMarketSet(previous, next)) {
+      event = { type: "snapshot", data: next };
+    } else {
+      const delta = diffMarkets(previous, next);
+      event = delta ? { type: "delta", data: delta } : null;
+    }
+
+    for (const subscriber of broadcaster.subscribers) {
+      if (!subscriber.primed) {
+        subscriber.primed = true;
+        deliver(subscriber, { type: "snapshot", data: next });
+      } else if (event) {
+        deliver(subscriber, event);
+      }
+    }
+  } catch (error) {
+    const warning: MarketStreamEvent = { type: "warning", data: { message: sanitizeError(error) } };
+    broadcaster.subscribers.forEach((subscriber) => deliver(subscriber, warning));
+  } finally {
+    broadcaster.ticking = false;
+  }
+}
+
+// --- Public API ---
+
+/**
+ * Receive market updates for `limit` markets per platform
+ *
+ * New subscribers get the latest snapshot right away when one exists,
+ * otherwise with the next tick.
+ *
+ * @returns Unsubscribe function; the last one out stops the timer
+ */
+export function subscribeMarketStream(limit: number, listener: MarketStreamListener): () => void {
+  let broadcaster = broadcasters.get(limit);
+  if (!broadcaster) {
+    broadcaster = { subscribers: new Set(), latest: null, timer: null, ticking: false };
+    broadcasters.set(limit, broadcaster);
+  }
+
+  const subscriber: Subscriber = { listener, primed: false };
+  broadcaster.subscribers.add(subscriber);
+
+  if (broadcaster.latest) {
+    subscriber.primed = true;
+    deliver(subscriber, { type: "snapshot", data: broadcaster.latest });
+  }
+
+  if (!broadcaster.timer) {
+    const active = broadcaster;
+    active.timer = setInterval(() => void tick(limit, active), getFeedRefreshIntervalMs());
+    void tick(limit, active);
+  }
+
+  return () => {
+    const active = broadcasters.get(limit);
+    if (!active) {
+      return;
+    }
+    active.subscribers.delete(subscriber);
+    if (active.subscribers.size === 0) {
+      if (active.timer) {
+        clearInterval(active.timer);
+      }
+      broadcasters.delete(limit);
+    }
+  };
+}
+
+/**
+ * Number of open subscriptions across every limit
+ */
+export function getMarketStreamSubscriberCount(): number {
+  let count = 0;
+  broadcasters.forEach((broadcaster) => {
+    count += broadcaster.subscribers.size;
+  });
+  return count;
+}
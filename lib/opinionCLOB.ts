@@ -1,54 +1,92 @@
 /**
- * Opinion CLOB SDK Wrapper
- * 
- * This wraps the Python CLOB SDK functionality in TypeScript.
- * 
- * NOTE: Opinion.trade's CLOB SDK is currently Python-only. This wrapper
- * provides a TypeScript interface that can:
- * 1. Call a Python microservice that uses the CLOB SDK
- * 2. Or use a Node.js implementation if/when available
- * 3. Or reverse-engineer the EIP712 signing and API calls
- * 
- * For now, this is a placeholder structure that will be implemented
- * once we have access to the CLOB SDK documentation/API.
+ * Opinion CLOB client (server-side only)
+ *
+ * Submits orders the user signed in the browser (see lib/opinionOrders.ts)
+ * to Opinion's central limit order book and tracks them afterwards. The
+ * CLOB is at OPINION_CLOB_BASE_URL and authenticates the platform with
+ * the same API key as the OpenAPI; users authorize each order with their
+ * EIP-712 signature.
  */
 
 import "server-only";
 
+import type { OpinionOrderState, OpinionOrderStatus } from "@/lib/types";
+import { ORDER_SIDE, type OpinionOrderMessage, type OpinionOrderType } from "@/lib/opinionOrders";
+
+// --- Types ---
+
 export interface OpinionOrder {
   marketId: number;
-  side: "yes" | "no";
-  amount: string; // In wei or token units (18 decimals)
-  price?: string; // For limit orders (optional, market orders don't need this)
+  orderType: OpinionOrderType;
+  order: OpinionOrderMessage;
   signature: string; // EIP712 signature from user wallet
-  nonce?: number; // Order nonce to prevent replay
 }
 
 export interface OpinionOrderResponse {
   success: boolean;
   orderId?: string;
+  status?: OpinionOrderState;
   txHash?: string;
   error?: string;
   message?: string;
 }
 
-export interface OpinionOrderStatus {
-  orderId: string;
-  status: "pending" | "filled" | "cancelled" | "rejected";
-  filledAmount?: string;
-  remainingAmount?: string;
-  txHash?: string;
+// --- Configuration ---
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+const ORDER_STATES: Record<string, OpinionOrderState> = {
+  pending: "pending",
+  open: "pending",
+  live: "pending",
+  partially_filled: "partially_filled",
+  partial: "partially_filled",
+  filled: "filled",
+  matched: "filled",
+  cancelled: "cancelled",
+  canceled: "cancelled",
+  expired: "cancelled",
+  rejected: "rejected",
+  failed: "rejected",
+};
+
+// --- Helper Functions ---
+
+function getClobBaseUrl(): string {
+  const baseUrl = process.env.OPINION_CLOB_BASE_URL;
+  if (!baseUrl) {
+    throw new Error("OPINION_CLOB_BASE_URL not configured");
+  }
+  return baseUrl.replace(/\/+$/, "");
+}
+
+function toOrderState(value: unknown): OpinionOrderState {
+  return ORDER_STATES[String(value ?? "").toLowerCase()] ?? "pending";
+}
+
+function toOrderStatus(data: any): OpinionOrderStatus {
+  const side = String(data.side ?? "").toLowerCase();
+  const marketId = Number(data.market_id);
+  return {
+    orderId: String(data.order_id),
+    status: toOrderState(data.status),
+    marketId: Number.isInteger(marketId) && marketId > 0 ? marketId : undefined,
+    maker: typeof data.maker === "string" ? data.maker.toLowerCase() : undefined,
+    tokenId: data.token_id !== undefined ? String(data.token_id) : undefined,
+    side: side === "buy" || side === "sell" ? side : undefined,
+    price: data.price !== undefined && data.price !== null ? String(data.price) : undefined,
+    filledAmount: data.filled_amount,
+    remainingAmount: data.remaining_amount,
+    txHash: data.tx_hash,
+  };
 }
 
+// --- Public API ---
+
 /**
- * Execute order using Opinion CLOB SDK
- * 
- * This function will need to be implemented based on:
- * 1. CLOB SDK API documentation
- * 2. Python service wrapper (if using microservice approach)
- * 3. Direct API calls (if we reverse-engineer the protocol)
- * 
- * @param order Order details with EIP712 signature
+ * Submit a signed order to the Opinion CLOB
+ *
+ * @param order Market and signed order message
  * @param apiKey Opinion API key
  * @returns Order execution result
  */
@@ -56,15 +94,9 @@ export async function executeOpinionOrder(
   order: OpinionOrder,
   apiKey: string
 ): Promise<OpinionOrderResponse> {
-  const baseUrl = process.env.OPINION_OPENAPI_BASE_URL;
-  if (!baseUrl) {
-    throw new Error("OPINION_OPENAPI_BASE_URL not configured");
-  }
+  const clobApiUrl = getClobBaseUrl();
+  const message = order.order;
 
-  // TODO: This endpoint structure is hypothetical
-  // Need to check CLOB SDK docs for actual endpoint
-  const clobApiUrl = baseUrl.replace("/openapi", "/clob/api/v1"); // Hypothetical
-  
   try {
     const response = await fetch(`${clobApiUrl}/orders`, {
       method: "POST",
@@ -74,28 +106,41 @@ export async function executeOpinionOrder(
       },
       body: JSON.stringify({
         market_id: order.marketId,
-        side: order.side,
-        amount: order.amount,
-        price: order.price,
-        signature: order.signature,
-        nonce: order.nonce || Date.now(),
+        order_type: order.orderType.toUpperCase(),
+        order: {
+          salt: message.salt,
+          maker: message.maker,
+          signer: message.signer,
+          taker: message.taker,
+          token_id: message.tokenId,
+          maker_amount: message.makerAmount,
+          taker_amount: message.takerAmount,
+          expiration: message.expiration,
+          nonce: message.nonce,
+          fee_rate_bps: message.feeRateBps,
+          side: message.side === ORDER_SIDE.buy ? "BUY" : "SELL",
+          signature_type: message.signatureType,
+          signature: order.signature,
+        },
       }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
     });
 
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ 
-        message: `HTTP ${response.status}: ${response.statusText}` 
+      const error = await response.json().catch(() => ({
+        message: `HTTP ${response.status}: ${response.statusText}`,
       }));
       return {
         success: false,
-        error: error.message || "Order execution failed",
+        error: error.message || error.error || "Order execution failed",
       };
     }
 
     const data = await response.json();
     return {
       success: true,
-      orderId: data.order_id,
+      orderId: String(data.order_id),
+      status: toOrderState(data.status),
       txHash: data.tx_hash,
     };
   } catch (error) {
@@ -108,42 +153,31 @@ export async function executeOpinionOrder(
 
 /**
  * Get order status
- * 
+ *
  * @param orderId Order ID from executeOpinionOrder
  * @param apiKey Opinion API key
- * @returns Order status
+ * @returns Order status, or null when the CLOB does not know the order
  */
 export async function getOrderStatus(
   orderId: string,
   apiKey: string
 ): Promise<OpinionOrderStatus | null> {
-  const baseUrl = process.env.OPINION_OPENAPI_BASE_URL;
-  if (!baseUrl) {
-    throw new Error("OPINION_OPENAPI_BASE_URL not configured");
-  }
+  const clobApiUrl = getClobBaseUrl();
 
-  const clobApiUrl = baseUrl.replace("/openapi", "/clob/api/v1"); // Hypothetical
-  
   try {
-    const response = await fetch(`${clobApiUrl}/orders/${orderId}`, {
+    const response = await fetch(`${clobApiUrl}/orders/${encodeURIComponent(orderId)}`, {
       method: "GET",
       headers: {
         apikey: apiKey,
       },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
     });
 
     if (!response.ok) {
       return null;
     }
 
-    const data = await response.json();
-    return {
-      orderId: data.order_id,
-      status: data.status,
-      filledAmount: data.filled_amount,
-      remainingAmount: data.remaining_amount,
-      txHash: data.tx_hash,
-    };
+    return toOrderStatus(await response.json());
   } catch {
     return null;
   }
@@ -151,7 +185,7 @@ export async function getOrderStatus(
 
 /**
  * Cancel an order
- * 
+ *
  * @param orderId Order ID to cancel
  * @param apiKey Opinion API key
  * @returns Success status
@@ -160,19 +194,15 @@ export async function cancelOrder(
   orderId: string,
   apiKey: string
 ): Promise<boolean> {
-  const baseUrl = process.env.OPINION_OPENAPI_BASE_URL;
-  if (!baseUrl) {
-    throw new Error("OPINION_OPENAPI_BASE_URL not configured");
-  }
+  const clobApiUrl = getClobBaseUrl();
 
-  const clobApiUrl = baseUrl.replace("/openapi", "/clob/api/v1"); // Hypothetical
-  
   try {
-    const response = await fetch(`${clobApiUrl}/orders/${orderId}`, {
+    const response = await fetch(`${clobApiUrl}/orders/${encodeURIComponent(orderId)}`, {
       method: "DELETE",
       headers: {
         apikey: apiKey,
       },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
     });
 
     return response.ok;
@@ -183,7 +213,7 @@ export async function cancelOrder(
 
 /**
  * Get user's open orders
- * 
+ *
  * @param userAddress User's wallet address
  * @param apiKey Opinion API key
  * @returns Array of open orders
@@ -192,21 +222,17 @@ export async function getOpenOrders(
   userAddress: string,
   apiKey: string
 ): Promise<OpinionOrderStatus[]> {
-  const baseUrl = process.env.OPINION_OPENAPI_BASE_URL;
-  if (!baseUrl) {
-    throw new Error("OPINION_OPENAPI_BASE_URL not configured");
-  }
+  const clobApiUrl = getClobBaseUrl();
 
-  const clobApiUrl = baseUrl.replace("/openapi", "/clob/api/v1"); // Hypothetical
-  
   try {
     const response = await fetch(
-      `${clobApiUrl}/orders?user=${userAddress}&status=pending`,
+      `${clobApiUrl}/orders?user=${encodeURIComponent(userAddress)}&status=pending`,
       {
         method: "GET",
         headers: {
           apikey: apiKey,
         },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
       }
     );
 
@@ -215,15 +241,8 @@ export async function getOpenOrders(
     }
 
     const data = await response.json();
-    return (data.orders || []).map((order: any) => ({
-      orderId: order.order_id,
-      status: order.status,
-      filledAmount: order.filled_amount,
-      remainingAmount: order.remaining_amount,
-      txHash: order.tx_hash,
-    }));
+    return (data.orders || []).map(toOrderStatus);
   } catch {
     return [];
   }
 }
-
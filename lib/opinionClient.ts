@@ -10,6 +10,19 @@
 
 import "server-only";
 
+import { createHttpClient } from "@/lib/http";
+import { describeIssue, fail, ok, type ParseIssue, type ParseResult } from "@/lib/schema";
+import {
+  opinionEnvelopeSchema,
+  opinionMarketListSchema,
+  opinionMarketSchema,
+  opinionTokenPriceSchema,
+  orderbookSchema,
+  type OpinionEnvelope,
+  type OpinionMarketPayload,
+} from "@/lib/venueSchemas";
+import type { OrderbookLevel } from "@/lib/types";
+
 // --- Types for Opinion API responses ---
 
 export interface OpinionMarket {
@@ -56,13 +69,16 @@ export interface OpinionMarket {
   [key: string]: any;
 }
 
+/** Market list filter accepted by the `/market` endpoint */
+export type OpinionMarketStatus = "activated" | "resolved";
+
 export interface OpinionMarketsResponse {
   data: OpinionMarket[];
 }
 
 export interface OpinionTokenPrice {
   token_id: string;
-  price: string;
+  price: number; // 0-1
   timestamp: number;
 }
 
@@ -70,46 +86,19 @@ export interface OpinionTokenPriceResponse {
   data: OpinionTokenPrice;
 }
 
+export interface OpinionOrderbook {
+  token_id: string;
+  bids: OrderbookLevel[];
+  asks: OrderbookLevel[];
+  timestamp: number;
+}
+
 // --- Configuration ---
 
-const TIMEOUT_MS = 7000;
-const MAX_RETRIES = 2;
 const MAX_CONCURRENT = 10;
-const INITIAL_BACKOFF_MS = 500;
 const API_PAGE_SIZE = 15; // Opinion API actually returns max 15 markets per page (not 16)
 
-// --- Concurrency Limiter ---
-
-class ConcurrencyLimiter {
-  private inflight = 0;
-  private queue: Array<() => void> = [];
-
-  constructor(private maxConcurrent: number) {}
-
-  async acquire(): Promise<void> {
-    if (this.inflight < this.maxConcurrent) {
-      this.inflight++;
-      return;
-    }
-
-    return new Promise<void>((resolve) => {
-      this.queue.push(() => {
-        this.inflight++;
-        resolve();
-      });
-    });
-  }
-
-  release(): void {
-    this.inflight--;
-    const next = this.queue.shift();
-    if (next) {
-      next();
-    }
-  }
-}
-
-const limiter = new ConcurrencyLimiter(MAX_CONCURRENT);
+const http = createHttpClient("opinion", { label: "Opinion API", maxConcurrent: MAX_CONCURRENT });
 
 // --- Helper Functions ---
 
@@ -131,85 +120,11 @@ function getConfig() {
   return { apiKey, baseUrl: cleanBaseUrl };
 }
 
-function isRetryableStatus(status: number): boolean {
-  return status === 429 || (status >= 500 && status < 600);
-}
-
-async function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-async function fetchWithTimeout(
-  url: string,
-  options: RequestInit,
-  timeoutMs: number
-): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-    });
-    return response;
-  } finally {
-    clearTimeout(timeoutId);
-  }
-}
-
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit
-): Promise<Response> {
-  let lastError: Error | null = null;
-  let backoffMs = INITIAL_BACKOFF_MS;
-
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      await limiter.acquire();
-
-      try {
-        const response = await fetchWithTimeout(url, options, TIMEOUT_MS);
-
-        if (response.ok) {
-          return response;
-        }
-
-        if (isRetryableStatus(response.status) && attempt < MAX_RETRIES) {
-          // Wait before retry
-          await sleep(backoffMs);
-          backoffMs *= 2;
-          continue;
-        }
-
-        // Non-retryable error or max retries exceeded
-        throw new Error(
-          `Opinion API error: ${response.status} ${response.statusText}`
-        );
-      } finally {
-        limiter.release();
-      }
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      // Check if it's an abort error (timeout)
-      if (
-        lastError.name === "AbortError" ||
-        lastError.message.includes("aborted")
-      ) {
-        lastError = new Error(`Opinion API request timed out after ${TIMEOUT_MS}ms`);
-      }
-
-      if (attempt < MAX_RETRIES) {
-        await sleep(backoffMs);
-        backoffMs *= 2;
-        continue;
-      }
-    }
-  }
-
-  throw lastError || new Error("Opinion API request failed");
+/**
+ * Read the `errno`/`errmsg`/`result` envelope every endpoint answers with
+ */
+async function readEnvelope(response: Response, label: string): Promise<ParseResult<OpinionEnvelope>> {
+  return opinionEnvelopeSchema(await response.json(), label);
 }
 
 // --- Public API ---
@@ -220,16 +135,18 @@ async function fetchWithRetry(
  * 
  * @param pageLimit - Number of markets to fetch in this page (max API_PAGE_SIZE)
  * @param offset - Offset for pagination
+ * @param status - Market status to list
  * @returns Object with markets array and total count (if available)
  */
 async function fetchMarketsPage(
   pageLimit: number,
-  offset: number
+  offset: number,
+  status: OpinionMarketStatus
 ): Promise<{ markets: OpinionMarket[]; total?: number }> {
   const { apiKey, baseUrl } = getConfig();
 
   const url = new URL(`${baseUrl}/market`);
-  url.searchParams.set("status", "activated");
+  url.searchParams.set("status", status);
   url.searchParams.set("sortBy", "5"); // Sort by volume
   url.searchParams.set("limit", String(pageLimit));
     url.searchParams.set("offset", String(offset));
@@ -237,7 +154,7 @@ async function fetchMarketsPage(
   console.log(`[Opinion API] Fetching markets page: offset=${offset}, limit=${pageLimit}`);
 
   try {
-    const response = await fetchWithRetry(url.toString(), {
+    const response = await http.fetch(url.toString(), {
       method: "GET",
       headers: {
         apikey: apiKey,
@@ -257,90 +174,37 @@ async function fetchMarketsPage(
       throw new Error(`Opinion API error: ${response.status} ${response.statusText}`);
     }
 
-    const data: any = await response.json();
-    
-    // Check for error response structure (errno, errmsg, result)
-    if (data.errno !== undefined && data.errno !== 0) {
-      const errorMsg = data.errmsg || "Unknown API error";
-      const errorNo = data.errno;
-      console.error(`[Opinion API] API returned error:`, {
-        errno: errorNo,
-        errmsg: errorMsg,
-        fullResponse: JSON.stringify(data).substring(0, 1000),
-      });
-      
+    const envelope = await readEnvelope(response, "market response");
+    if (!envelope.ok) {
+      throw new Error(`Opinion API returned an unreadable market page: ${describeIssue(envelope.issue)}`);
+    }
+
+    const { errno, errmsg, total, payload } = envelope.value;
+    if (errno !== undefined && errno !== 0) {
+      const errorMsg = errmsg || "Unknown API error";
+      console.error(`[Opinion API] API returned error:`, { errno, errmsg: errorMsg });
+
       if (errorMsg.includes("United States") || errorMsg.includes("restricted jurisdictions")) {
         throw new Error(`Opinion API geo-blocking: ${errorMsg}. The API is not available from Vercel's server locations. Consider using a proxy or different hosting region.`);
       }
-      
-      throw new Error(`Opinion API error ${errorNo}: ${errorMsg}`);
-    }
-    
-    // Handle different response structures
-    let markets: OpinionMarket[] = [];
-    
-    if (data.result && Array.isArray(data.result.list)) {
-      markets = data.result.list;
-      const pageNum = Math.floor(offset / pageLimit) + 1;
-      console.log(`[Opinion API] Page ${pageNum}: Using result.list format, found ${markets.length} markets`);
-      
-      // IMPORTANT: Extract total BEFORE we check for pagination
-      // The total is in data.result.total when using result.list format
-      if (data.result.total !== undefined && typeof data.result.total === 'number') {
-        // This will be captured in the total extraction below
-      }
-    } else if (Array.isArray(data.data)) {
-      markets = data.data;
-      console.log(`[Opinion API] Page ${offset / pageLimit + 1}: Using data.data format, found ${markets.length} markets`);
-    } else if (Array.isArray(data.result)) {
-      markets = data.result;
-      console.log(`[Opinion API] Page ${offset / pageLimit + 1}: Using result array format, found ${markets.length} markets`);
-    } else if (Array.isArray(data)) {
-      markets = data;
-      console.log(`[Opinion API] Page ${offset / pageLimit + 1}: Using direct array format, found ${markets.length} markets`);
-    }
-    
-    // Extract total count from response if available
-    // The API returns total in data.result.total when using result.list format
-    let total: number | undefined = undefined;
-    if (data.result) {
-      // Check for total in result object (common structure)
-      if (typeof data.result.total === 'number') {
-        total = data.result.total;
-        console.log(`[Opinion API] Total markets available (from result.total): ${total}`);
-      }
-      // Also check for count or other pagination fields
-      if (total === undefined && typeof data.result.count === 'number') {
-        total = data.result.count;
-        console.log(`[Opinion API] Total markets available (from result.count): ${total}`);
-      }
-    }
-    // Check top-level total
-    if (total === undefined && data.total !== undefined && typeof data.total === 'number') {
-      total = data.total;
-      console.log(`[Opinion API] Total markets available (from data.total): ${total}`);
+
+      throw new Error(`Opinion API error ${errno}: ${errorMsg}`);
     }
-    
-    // Log full result structure for debugging if total not found
-    if (total === undefined && data.result) {
-      console.log(`[Opinion API] Total not found in response. Result keys:`, Object.keys(data.result));
+
+    // Listings are validated one by one with the rest of the feed
+    const list = opinionMarketListSchema(payload, "market list");
+    if (!list.ok) {
+      throw new Error(`Opinion API returned an unreadable market page: ${describeIssue(list.issue)}`);
     }
-    
-    // Comprehensive debug logging
+    const markets = list.value as OpinionMarket[];
+
     console.log(`[Opinion API] Page fetch details:`, {
       offset,
       pageLimit,
       marketsReturned: markets.length,
       totalAvailable: total,
-      hasTotal: total !== undefined,
-      responseStructure: {
-        hasResult: !!data.result,
-        hasData: !!data.data,
-        resultKeys: data.result ? Object.keys(data.result) : [],
-        dataKeys: Object.keys(data),
-      },
     });
-    
+
     return { markets, total };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -350,18 +214,20 @@ async function fetchMarketsPage(
 }
 
 /**
- * Fetch activated markets from Opinion API with automatic pagination
+ * Fetch markets from Opinion API with automatic pagination
  * 
  * When the requested limit exceeds the API's page size (16), this function
  * automatically makes multiple requests to fetch all requested markets.
  * 
  * @param limit - Maximum number of markets to fetch
  * @param offset - Optional starting offset (for manual pagination, usually not needed)
+ * @param status - Market status to list (default: activated)
  * @returns Array of OpinionMarket objects
  */
 export async function fetchMarkets(
   limit: number,
-  offset?: number
+  offset?: number,
+  status: OpinionMarketStatus = "activated"
 ): Promise<OpinionMarket[]> {
   const startOffset = offset || 0;
   
@@ -383,7 +249,7 @@ export async function fetchMarkets(
     const pageLimit = Math.min(API_PAGE_SIZE, remaining);
     console.log(`[Opinion API] Pagination loop: page ${pageCount}, requesting ${pageLimit} markets at offset ${currentOffset}, ${remaining} remaining`);
     
-    const pageResult = await fetchMarketsPage(pageLimit, currentOffset);
+    const pageResult = await fetchMarketsPage(pageLimit, currentOffset, status);
     const pageMarkets = pageResult.markets;
     
     // Capture total count from first page if available
@@ -483,10 +349,12 @@ export async function fetchMarkets(
 
 /**
  * Fetch latest price for a single token
+ *
+ * @returns The price, or the issue that kept it out, e.g. "missing price"
  */
 export async function fetchTokenPrice(
   tokenId: string
-): Promise<OpinionTokenPrice | null> {
+): Promise<ParseResult<OpinionTokenPrice>> {
   const { apiKey, baseUrl } = getConfig();
 
   const url = new URL(`${baseUrl}/token/latest-price`);
@@ -495,7 +363,7 @@ export async function fetchTokenPrice(
   console.log(`[PRICES] Fetching price for token: ${tokenId.substring(0, 20)}... from ${url.toString()}`);
 
   try {
-    const response = await fetchWithRetry(url.toString(), {
+    const response = await http.fetch(url.toString(), {
       method: "GET",
       headers: {
         apikey: apiKey,
@@ -512,139 +380,146 @@ export async function fetchTokenPrice(
         statusText: response.statusText,
         body: errorText.substring(0, 200),
       });
-      return null;
+      return fail("price", "missing");
+    }
+
+    const envelope = await readEnvelope(response, "price response");
+    if (!envelope.ok) {
+      console.warn(`[PRICES] Unreadable price response for token ${tokenId.substring(0, 20)}...: ${describeIssue(envelope.issue)}`);
+      return envelope;
     }
 
-    const data: any = await response.json();
-    
-    console.log(`[PRICES] Price API response structure for token ${tokenId.substring(0, 20)}...:`, {
-      hasData: !!data,
-      keys: Object.keys(data),
-      errno: data.errno,
-      errmsg: data.errmsg,
-      hasResult: !!data.result,
-      hasDataField: !!data.data,
-      responsePreview: JSON.stringify(data).substring(0, 300),
-    });
-    
-    // Check for error response structure (errno, errmsg, result)
     // errno: 0 means success, non-zero means error
-    if (data.errno !== undefined && data.errno !== 0) {
-      const errorMsg = data.errmsg || "Unknown API error";
+    const { errno, errmsg, payload } = envelope.value;
+    if (errno !== undefined && errno !== 0) {
       console.warn(`[PRICES] Price API returned error for token ${tokenId.substring(0, 20)}...:`, {
-        errno: data.errno,
-        errmsg: errorMsg,
-        fullResponse: JSON.stringify(data).substring(0, 500),
+        errno,
+        errmsg: errmsg || "Unknown API error",
       });
+      return fail("price response", "invalid");
+    }
+
+    const parsed = opinionTokenPriceSchema(payload, "price payload");
+    if (!parsed.ok) {
+      console.warn(`[PRICES] Could not extract price from response for token ${tokenId.substring(0, 20)}...: ${describeIssue(parsed.issue)}`);
+      return parsed;
+    }
+
+    return ok({
+      token_id: parsed.value.tokenId,
+      price: parsed.value.price,
+      timestamp: parsed.value.timestamp ?? Date.now(),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn(`[PRICES] Exception fetching price for token ${tokenId}:`, errorMessage);
+    // Individual price failures only drop the markets quoting that token
+    return fail("price", "missing");
+  }
+}
+
+/**
+ * Fetch full-depth orderbook for a single token
+ */
+export async function fetchTokenOrderbook(
+  tokenId: string
+): Promise<OpinionOrderbook | null> {
+  const { apiKey, baseUrl } = getConfig();
+
+  const url = new URL(`${baseUrl}/token/orderbook`);
+  url.searchParams.set("token_id", tokenId);
+
+  try {
+    const response = await http.fetch(url.toString(), {
+      method: "GET",
+      headers: {
+        apikey: apiKey,
+        Accept: "application/json",
+      },
+    });
+
+    const envelope = await readEnvelope(response, "orderbook response");
+    if (!envelope.ok) {
+      console.warn(`[ORDERBOOK] Unreadable orderbook response for token ${tokenId.substring(0, 20)}...: ${describeIssue(envelope.issue)}`);
       return null;
     }
-    
-    // Handle different response structures:
-    // - Success with result directly containing price data (errno: 0, result: { tokenId, price, timestamp } })
-    // - Success with result.data (errno: 0, result: { data: {...} })
-    // - Success with data.data (legacy format)
-    // - Direct data object
-    let price: OpinionTokenPrice | null = null;
-    
-    if (data.result && data.result.tokenId && data.result.price !== undefined) {
-      // New format: { errno: 0, errmsg: "", result: { tokenId, price, timestamp, ... } }
-      // Map tokenId to token_id for our interface
-      price = {
-        token_id: data.result.tokenId,
-        price: data.result.price,
-        timestamp: data.result.timestamp || Date.now(),
-      };
-      console.log(`[PRICES] Using result format (direct) for token ${tokenId.substring(0, 20)}...`);
-    } else if (data.result && data.result.data) {
-      // Nested format: { errno: 0, errmsg: "", result: { data: {...} } }
-      price = data.result.data;
-      console.log(`[PRICES] Using result.data format for token ${tokenId.substring(0, 20)}...`);
-    } else if (data.data) {
-      // Legacy format: { data: {...} }
-      price = data.data;
-      console.log(`[PRICES] Using data.data format for token ${tokenId.substring(0, 20)}...`);
-    } else if (data.token_id && data.price !== undefined) {
-      // Direct price object
-      price = data;
-      console.log(`[PRICES] Using direct price object for token ${tokenId.substring(0, 20)}...`);
-    } else {
-      console.warn(`[PRICES] Could not extract price from response for token ${tokenId.substring(0, 20)}...:`, {
-        responseKeys: Object.keys(data),
-        responsePreview: JSON.stringify(data).substring(0, 500),
+
+    const { errno, errmsg, payload } = envelope.value;
+    if (errno !== undefined && errno !== 0) {
+      console.warn(`[ORDERBOOK] Orderbook API returned error for token ${tokenId.substring(0, 20)}...:`, {
+        errno,
+        errmsg: errmsg || "Unknown API error",
       });
+      return null;
     }
-    
-    if (price) {
-      console.log(`[PRICES] Successfully extracted price for token ${tokenId.substring(0, 20)}...:`, {
-        token_id: price.token_id,
-        price: price.price,
-        timestamp: price.timestamp,
-      });
+
+    const book = orderbookSchema(payload, "orderbook payload");
+    if (!book.ok) {
+      console.warn(`[ORDERBOOK] Could not extract orderbook for token ${tokenId.substring(0, 20)}...: ${describeIssue(book.issue)}`);
+      return null;
     }
-    
-    return price;
+
+    return {
+      token_id: book.value.tokenId ?? tokenId,
+      bids: book.value.bids,
+      asks: book.value.asks,
+      timestamp: book.value.timestamp ?? Date.now(),
+    };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.warn(`[PRICES] Exception fetching price for token ${tokenId}:`, errorMessage);
-    // Return null for individual price failures
-    return null;
+    console.warn(`[ORDERBOOK] Exception fetching orderbook for token ${tokenId}:`, errorMessage);
+    throw error;
   }
 }
 
 /**
  * Fetch latest prices for multiple tokens in parallel (with concurrency limit)
+ *
+ * @returns Prices by token, and the issue for each token left without one
  */
 export async function fetchTokenPrices(
   tokenIds: string[]
-): Promise<Record<string, OpinionTokenPrice>> {
+): Promise<{ prices: Record<string, OpinionTokenPrice>; issues: Record<string, ParseIssue> }> {
   if (tokenIds.length === 0) {
     console.warn("[PRICES] No token IDs provided to fetchTokenPrices");
-    return {};
+    return { prices: {}, issues: {} };
   }
 
   const uniqueTokenIds = [...new Set(tokenIds)];
   console.log(`[PRICES] Fetching prices for ${uniqueTokenIds.length} unique tokens (${tokenIds.length} total)`);
 
-  const results = await Promise.allSettled(
+  const results = await Promise.all(
     uniqueTokenIds.map(async (tokenId) => {
       try {
-        const price = await fetchTokenPrice(tokenId);
-        return { tokenId, price, success: true };
+        return { tokenId, price: await fetchTokenPrice(tokenId) };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         console.warn(`[PRICES] Failed to fetch price for token ${tokenId}:`, errorMessage);
-        return { tokenId, price: null, success: false, error: errorMessage };
+        return { tokenId, price: fail("price", "missing") };
       }
     })
   );
 
-  const priceMap: Record<string, OpinionTokenPrice> = {};
-  let successCount = 0;
-  let failureCount = 0;
+  const prices: Record<string, OpinionTokenPrice> = {};
+  const issues: Record<string, ParseIssue> = {};
 
-  for (const result of results) {
-    if (result.status === "fulfilled") {
-      const { tokenId, price } = result.value;
-      if (price) {
-        priceMap[tokenId] = price;
-        successCount++;
-      } else {
-        failureCount++;
-      }
+  for (const { tokenId, price } of results) {
+    if (price.ok) {
+      prices[tokenId] = price.value;
     } else {
-      failureCount++;
-      console.warn(`[PRICES] Promise rejected for token:`, result.reason);
+      issues[tokenId] = price.issue;
     }
   }
 
+  const successCount = Object.keys(prices).length;
   console.log(`[PRICES] Price fetch summary:`, {
     requested: uniqueTokenIds.length,
     successful: successCount,
-    failed: failureCount,
+    failed: uniqueTokenIds.length - successCount,
     successRate: `${((successCount / uniqueTokenIds.length) * 100).toFixed(1)}%`,
   });
 
-  return priceMap;
+  return { prices, issues };
 }
 
 /**
@@ -652,17 +527,17 @@ export async function fetchTokenPrices(
  * This can be used as a fallback to get topicId if it's missing from the list endpoint
  * 
  * @param marketId - Market ID to fetch details for
- * @returns Market details or null if not found
+ * @returns Market details, or null if not found or not a tradable market
  */
 export async function fetchMarketDetails(
   marketId: number
-): Promise<OpinionMarket | null> {
+): Promise<OpinionMarketPayload | null> {
   const { apiKey, baseUrl } = getConfig();
 
   const url = new URL(`${baseUrl}/market/${marketId}`);
 
   try {
-    const response = await fetchWithRetry(url.toString(), {
+    const response = await http.fetch(url.toString(), {
       method: "GET",
       headers: {
         apikey: apiKey,
@@ -675,59 +550,28 @@ export async function fetchMarketDetails(
       return null;
     }
 
-    const data: any = await response.json();
-    
-    // Handle different response structures
-    let market: OpinionMarket | null = null;
-    
-    // Check for error response structure (errno, errmsg, result)
-    if (data.errno !== undefined && data.errno !== 0) {
-      const errorMsg = data.errmsg || "Unknown API error";
+    const envelope = await readEnvelope(response, "market response");
+    if (!envelope.ok) {
+      console.warn(`[MARKET DETAILS] Unreadable response for market ${marketId}: ${describeIssue(envelope.issue)}`);
+      return null;
+    }
+
+    const { errno, errmsg, payload } = envelope.value;
+    if (errno !== undefined && errno !== 0) {
       console.warn(`[MARKET DETAILS] API error for market ${marketId}:`, {
-        errno: data.errno,
-        errmsg: errorMsg,
+        errno,
+        errmsg: errmsg || "Unknown API error",
       });
       return null;
     }
-    
-    // Try different response structures
-    if (data.result && data.result.data) {
-      market = data.result.data;
-    } else if (data.result && (data.result.marketId || data.result.market_id)) {
-      // Result contains market directly
-      market = data.result;
-    } else if (data.data) {
-      market = data.data;
-    } else if (data.marketId || data.market_id) {
-      // Direct market object
-      market = data;
-    }
-    
-    if (market) {
-      // Log full response structure for debugging
-      const allPossibleTopicIds = {
-        topic_id: (market as any).topic_id,
-        topicId: (market as any).topicId,
-        topic_id_number: (market as any).topic_id_number,
-        topicIdNumber: (market as any).topicIdNumber,
-        topic_id_string: (market as any).topic_id_string,
-        topicIdString: (market as any).topicIdString,
-        topic: (market as any).topic,
-        questionId: market.questionId,
-        marketId: market.marketId,
-      };
-      
-      console.log(`[MARKET DETAILS] Fetched market ${marketId}:`, {
-        hasTopicId: !!(market as any).topicId || !!(market as any).topic_id,
-        topicId: (market as any).topicId || (market as any).topic_id,
-        allKeys: Object.keys(market),
-        allPossibleTopicIds,
-        // Log first 500 chars of full response for debugging
-        responsePreview: JSON.stringify(market).substring(0, 500),
-      });
+
+    const market = opinionMarketSchema(payload, "market payload");
+    if (!market.ok) {
+      console.warn(`[MARKET DETAILS] Could not parse market ${marketId}: ${describeIssue(market.issue)}`);
+      return null;
     }
-    
-    return market;
+
+    return market.value;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.warn(`[MARKET DETAILS] Exception fetching market ${marketId}:`, errorMessage);
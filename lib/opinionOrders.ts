@@ -0,0 +1,336 @@
+/**
+ * Opinion CLOB orders (EIP-712)
+ *
+ * Opinion's exchange on BNB Chain matches signed orders in the CTF
+ * exchange format: the maker offers `makerAmount` of one asset for
+ * `takerAmount` of the other. A BUY pays USDT for outcome tokens, a SELL
+ * the reverse, and both assets use 18 decimals. Market orders set
+ * `takerAmount` to the least they accept: the book's quoted worst price
+ * moved against the trader by their slippage tolerance.
+ *
+ * The browser builds the order from the ticket and signs it with the
+ * connected wallet; the server parses it and checks the signer before
+ * forwarding it to the CLOB.
+ */
+
+import { isAddress, parseUnits, verifyTypedData, zeroAddress, type Address, type Hex } from "viem";
+import { bsc } from "viem/chains";
+import type { OrderSide } from "./types";
+
+// --- Types ---
+
+export type OpinionOrderType = "limit" | "market";
+
+/** Order as entered in the order ticket */
+export interface OpinionOrderTicket {
+  tokenId: string; // Outcome token bought or sold
+  side: OrderSide;
+  type: OpinionOrderType;
+  size: number; // Shares; dollars to spend for market buys
+  price?: number; // Limit price per share, required for limit orders
+  worstPrice?: number; // Deepest level the book was quoted to fill at, required for market orders
+  slippageBps?: number; // Tolerance beyond worstPrice for market orders (default: DEFAULT_SLIPPAGE_BPS)
+}
+
+/** EIP-712 `Order` message, with uint256 fields as decimal strings so it survives JSON */
+export interface OpinionOrderMessage {
+  salt: string;
+  maker: Address;
+  signer: Address;
+  taker: Address;
+  tokenId: string;
+  makerAmount: string;
+  takerAmount: string;
+  expiration: string; // Unix seconds, "0" for good-til-cancelled
+  nonce: string;
+  feeRateBps: string;
+  side: number; // 0 = BUY, 1 = SELL
+  signatureType: number; // 0 = EOA
+}
+
+export interface OpinionOrderOptions {
+  maker: Address;
+  expiration?: number; // Unix seconds (default: good-til-cancelled)
+  nonce?: number; // Exchange nonce; bumping it on-chain cancels every older order
+  feeRateBps?: number;
+  salt?: string;
+}
+
+// --- Configuration ---
+
+export const OPINION_CHAIN_ID = bsc.id;
+export const OPINION_EXCHANGE_NAME = "OPINION CTF Exchange";
+export const OPINION_EXCHANGE_VERSION = "1";
+
+export const ORDER_SIDE = { buy: 0, sell: 1 } as const;
+export const SIGNATURE_TYPE_EOA = 0;
+
+export const OPINION_ORDER_TYPES = {
+  Order: [
+    { name: "salt", type: "uint256" },
+    { name: "maker", type: "address" },
+    { name: "signer", type: "address" },
+    { name: "taker", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "makerAmount", type: "uint256" },
+    { name: "takerAmount", type: "uint256" },
+    { name: "expiration", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "feeRateBps", type: "uint256" },
+    { name: "side", type: "uint8" },
+    { name: "signatureType", type: "uint8" },
+  ],
+} as const;
+
+export const DEFAULT_SLIPPAGE_BPS = 100;
+export const MAX_SLIPPAGE_BPS = 5000;
+
+const TOKEN_DECIMALS = 18;
+const BPS_DENOMINATOR = 10_000;
+const AMOUNT_PRECISION = 6; // Decimal places kept from ticket inputs
+const PRICE_SCALE = BigInt(10 ** AMOUNT_PRECISION);
+const UINT_PATTERN = /^\d{1,78}$/;
+const SIGNATURE_PATTERN = /^0x[0-9a-fA-F]{130,}$/;
+
+// --- Helper Functions ---
+
+function toUnits(value: number): bigint {
+  return parseUnits(value.toFixed(AMOUNT_PRECISION), TOKEN_DECIMALS);
+}
+
+function toPriceUnits(price: number): bigint {
+  return BigInt(Math.round(price * 10 ** AMOUNT_PRECISION));
+}
+
+function randomSalt(): string {
+  const [high, low] = Array.from(globalThis.crypto.getRandomValues(new Uint32Array(2)));
+  return ((BigInt(high) << BigInt(32)) | BigInt(low)).toString();
+}
+
+function isUint(value: unknown): value is string {
+  return typeof value === "string" && UINT_PATTERN.test(value);
+}
+
+// --- Public API ---
+
+/**
+ * Worst price per share a market order accepts: the quoted worst price
+ * plus the slippage tolerance for buys, minus it for sells
+ */
+export function getMarketOrderLimit(side: OrderSide, worstPrice: number, slippageBps: number = DEFAULT_SLIPPAGE_BPS): number {
+  const tolerance = slippageBps / BPS_DENOMINATOR;
+  const limit = side === "buy" ? worstPrice * (1 + tolerance) : worstPrice * (1 - tolerance);
+  return Math.min(limit, 1 - 10 ** -AMOUNT_PRECISION);
+}
+
+/**
+ * Check a ticket before building an order from it
+ *
+ * @returns An error message, or null when the ticket is valid
+ */
+export function validateOrderTicket(ticket: OpinionOrderTicket): string | null {
+  if (!isUint(ticket.tokenId)) {
+    return "Market has no tradable outcome token";
+  }
+  if (!Number.isFinite(ticket.size) || ticket.size <= 0) {
+    return "Size must be greater than 0";
+  }
+  if (ticket.type === "limit") {
+    if (ticket.price === undefined || !Number.isFinite(ticket.price) || ticket.price <= 0 || ticket.price >= 1) {
+      return "Limit price must be between 0 and 1";
+    }
+    if (toUnits(ticket.size * ticket.price) === BigInt(0)) {
+      return "Order is too small";
+    }
+  } else {
+    if (ticket.worstPrice === undefined || !Number.isFinite(ticket.worstPrice) || ticket.worstPrice <= 0 || ticket.worstPrice >= 1) {
+      return "Quote the book before placing a market order";
+    }
+    const slippageBps = ticket.slippageBps ?? DEFAULT_SLIPPAGE_BPS;
+    if (!Number.isFinite(slippageBps) || slippageBps < 0 || slippageBps > MAX_SLIPPAGE_BPS) {
+      return `Slippage tolerance must be between 0 and ${MAX_SLIPPAGE_BPS / 100}%`;
+    }
+    const limit = getMarketOrderLimit(ticket.side, ticket.worstPrice, slippageBps);
+    const minimum = ticket.side === "buy" ? ticket.size / limit : ticket.size * limit;
+    if (toPriceUnits(limit) === BigInt(0) || toUnits(minimum) === BigInt(0)) {
+      return "Order is too small";
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the unsigned order message for a ticket
+ *
+ * @throws Error when the ticket is invalid
+ */
+export function buildOpinionOrder(ticket: OpinionOrderTicket, options: OpinionOrderOptions): OpinionOrderMessage {
+  const error = validateOrderTicket(ticket);
+  if (error) {
+    throw new Error(error);
+  }
+
+  let makerAmount: bigint;
+  let takerAmount: bigint;
+  if (ticket.type === "market") {
+    // Least shares (buy) or dollars (sell) the trader accepts for the full size
+    const limit = toPriceUnits(getMarketOrderLimit(ticket.side, ticket.worstPrice!, ticket.slippageBps));
+    makerAmount = toUnits(ticket.size);
+    takerAmount = ticket.side === "buy" ? (makerAmount * PRICE_SCALE) / limit : (makerAmount * limit) / PRICE_SCALE;
+  } else {
+    const shares = toUnits(ticket.size);
+    const collateral = (shares * toPriceUnits(ticket.price!)) / PRICE_SCALE;
+    makerAmount = ticket.side === "buy" ? collateral : shares;
+    takerAmount = ticket.side === "buy" ? shares : collateral;
+  }
+
+  return {
+    salt: options.salt ?? randomSalt(),
+    maker: options.maker,
+    signer: options.maker,
+    taker: zeroAddress,
+    tokenId: ticket.tokenId,
+    makerAmount: makerAmount.toString(),
+    takerAmount: takerAmount.toString(),
+    expiration: String(options.expiration ?? 0),
+    nonce: String(options.nonce ?? 0),
+    feeRateBps: String(options.feeRateBps ?? 0),
+    side: ORDER_SIDE[ticket.side],
+    signatureType: SIGNATURE_TYPE_EOA,
+  };
+}
+
+/**
+ * EIP-712 typed data for an order, ready for `signTypedData`
+ */
+export function getOpinionTypedData(order: OpinionOrderMessage, exchangeAddress: Address) {
+  return {
+    domain: {
+      name: OPINION_EXCHANGE_NAME,
+      version: OPINION_EXCHANGE_VERSION,
+      chainId: OPINION_CHAIN_ID,
+      verifyingContract: exchangeAddress,
+    },
+    types: OPINION_ORDER_TYPES,
+    primaryType: "Order" as const,
+    message: {
+      salt: BigInt(order.salt),
+      maker: order.maker,
+      signer: order.signer,
+      taker: order.taker,
+      tokenId: BigInt(order.tokenId),
+      makerAmount: BigInt(order.makerAmount),
+      takerAmount: BigInt(order.takerAmount),
+      expiration: BigInt(order.expiration),
+      nonce: BigInt(order.nonce),
+      feeRateBps: BigInt(order.feeRateBps),
+      side: order.side,
+      signatureType: order.signatureType,
+    },
+  };
+}
+
+/**
+ * Validate an order message received as JSON
+ *
+ * @param value - Untrusted `order` from a request body
+ * @param now - Current time (ms), for the expiration check
+ */
+export function parseOpinionOrder(
+  value: unknown,
+  now: number = Date.now()
+): { order: OpinionOrderMessage } | { error: string } {
+  if (!value || typeof value !== "object") {
+    return { error: "order is required" };
+  }
+  const order = value as Record<string, unknown>;
+
+  for (const field of ["maker", "signer", "taker"]) {
+    if (typeof order[field] !== "string" || !isAddress(order[field] as string)) {
+      return { error: `order.${field} must be an address` };
+    }
+  }
+  for (const field of ["salt", "tokenId", "makerAmount", "takerAmount", "expiration", "nonce", "feeRateBps"]) {
+    if (!isUint(order[field])) {
+      return { error: `order.${field} must be an unsigned integer string` };
+    }
+  }
+  if (order.side !== ORDER_SIDE.buy && order.side !== ORDER_SIDE.sell) {
+    return { error: "order.side must be 0 (BUY) or 1 (SELL)" };
+  }
+  if (order.signatureType !== SIGNATURE_TYPE_EOA) {
+    return { error: "Only EOA-signed orders are supported" };
+  }
+  if ((order.signer as string).toLowerCase() !== (order.maker as string).toLowerCase()) {
+    return { error: "order.signer must be the maker" };
+  }
+  if (BigInt(order.makerAmount as string) === BigInt(0)) {
+    return { error: "order.makerAmount must be greater than 0" };
+  }
+  if (BigInt(order.takerAmount as string) === BigInt(0)) {
+    return { error: "order.takerAmount must be greater than 0" }; // Unbounded fill price
+  }
+  const expiration = Number(order.expiration);
+  if (expiration !== 0 && expiration * 1000 <= now) {
+    return { error: "Order has expired" };
+  }
+
+  return {
+    order: {
+      salt: order.salt as string,
+      maker: order.maker as Address,
+      signer: order.signer as Address,
+      taker: order.taker as Address,
+      tokenId: order.tokenId as string,
+      makerAmount: order.makerAmount as string,
+      takerAmount: order.takerAmount as string,
+      expiration: order.expiration as string,
+      nonce: order.nonce as string,
+      feeRateBps: order.feeRateBps as string,
+      side: order.side as number,
+      signatureType: order.signatureType as number,
+    },
+  };
+}
+
+/**
+ * USDT (wei) the order pays or receives, or null for market sells, whose
+ * proceeds depend on the fill (`takerAmount` is only their minimum)
+ */
+export function getOrderNotional(order: OpinionOrderMessage, type: OpinionOrderType): bigint | null {
+  if (order.side === ORDER_SIDE.buy) {
+    return BigInt(order.makerAmount);
+  }
+  return type === "market" ? null : BigInt(order.takerAmount);
+}
+
+/**
+ * Check that the order's signer signed it for the given exchange
+ */
+export async function verifyOpinionOrder(
+  order: OpinionOrderMessage,
+  signature: string,
+  exchangeAddress: Address
+): Promise<boolean> {
+  if (!SIGNATURE_PATTERN.test(signature)) {
+    return false;
+  }
+
+  try {
+    return await verifyTypedData({
+      address: order.signer,
+      ...getOpinionTypedData(order, exchangeAddress),
+      signature: signature as Hex,
+    });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Exchange contract orders are signed for, from NEXT_PUBLIC_OPINION_EXCHANGE_ADDRESS
+ */
+export function getOpinionExchangeAddress(): Address | null {
+  const address = process.env.NEXT_PUBLIC_OPINION_EXCHANGE_ADDRESS;
+  return address && isAddress(address) ? address : null;
+}
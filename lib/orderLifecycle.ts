@@ -0,0 +1,171 @@
+/**
+ * Order lifecycle
+ *
+ * Tracked orders move pending → partially_filled → filled, or end
+ * cancelled or rejected from either open state. CLOB reports are applied
+ * with `applyOrderUpdate`, which never moves an order backwards: fills
+ * only grow, "pending" with fills counts as partially filled, and final
+ * states are never left. Each state change is stamped on the order and
+ * appended to its history.
+ */
+
+import type { OpinionOrderState, OpinionOrderStatus, TrackedOrder } from "./types";
+
+// --- Types ---
+
+export interface OrderFilter {
+  maker?: string;
+  marketId?: number;
+  statuses?: OpinionOrderState[];
+}
+
+export type OrderUpdate = Pick<OpinionOrderStatus, "status" | "filledAmount" | "txHash">;
+
+// --- Configuration ---
+
+export const OPEN_ORDER_STATES: OpinionOrderState[] = ["pending", "partially_filled"];
+
+const STATE_RANK: Record<OpinionOrderState, number> = {
+  pending: 0,
+  partially_filled: 1,
+  filled: 2,
+  cancelled: 2,
+  rejected: 2,
+};
+
+const STATE_TIMESTAMPS: Partial<
+  Record<OpinionOrderState, "partiallyFilledAt" | "filledAt" | "cancelledAt" | "rejectedAt">
+> = {
+  partially_filled: "partiallyFilledAt",
+  filled: "filledAt",
+  cancelled: "cancelledAt",
+  rejected: "rejectedAt",
+};
+
+// --- Helper Functions ---
+
+function toBigInt(value: string | undefined): bigint {
+  return value && /^\d+$/.test(value) ? BigInt(value) : BigInt(0);
+}
+
+// --- Public API ---
+
+/**
+ * Whether an order can still fill or be cancelled
+ */
+export function isOrderOpen(status: OpinionOrderState): boolean {
+  return OPEN_ORDER_STATES.includes(status);
+}
+
+/**
+ * Tracked order for an order the CLOB just accepted
+ */
+export function createTrackedOrder(
+  order: Omit<TrackedOrder, "filledAmount" | "createdAt" | "updatedAt" | "history">,
+  now: number = Date.now()
+): TrackedOrder {
+  const timestampField = STATE_TIMESTAMPS[order.status];
+  return {
+    ...order,
+    maker: order.maker.toLowerCase(),
+    filledAmount: "0",
+    createdAt: now,
+    updatedAt: now,
+    ...(timestampField && { [timestampField]: now }),
+    history: [{ from: null, to: order.status, filledAmount: "0", at: now }],
+  };
+}
+
+/**
+ * Tracked order for a resting order the wallet placed on the CLOB outside
+ * /api/trades, with amounts rebuilt from its price and size
+ *
+ * @returns The order, or null when the report lacks its market, token, side or price
+ */
+export function createExternalOrder(
+  status: OpinionOrderStatus,
+  maker: string,
+  now: number = Date.now()
+): TrackedOrder | null {
+  const price = Number(status.price);
+  if (!status.marketId || !status.tokenId || !status.side || !(price > 0 && price < 1)) {
+    return null;
+  }
+
+  const shares = toBigInt(status.filledAmount) + toBigInt(status.remainingAmount);
+  const collateral = (shares * BigInt(Math.round(price * 1e6))) / BigInt(1e6);
+  const order = createTrackedOrder(
+    {
+      id: status.orderId,
+      marketId: status.marketId,
+      tokenId: status.tokenId,
+      maker,
+      side: status.side,
+      orderType: "limit",
+      price,
+      makerAmount: (status.side === "buy" ? collateral : shares).toString(),
+      takerAmount: (status.side === "buy" ? shares : collateral).toString(),
+      status: "pending",
+    },
+    now
+  );
+  return applyOrderUpdate(order, status, now) ?? order;
+}
+
+/**
+ * Apply a CLOB status report to a tracked order
+ *
+ * @returns The updated order, or null when the report changes nothing
+ */
+export function applyOrderUpdate(
+  order: TrackedOrder,
+  update: OrderUpdate,
+  now: number = Date.now()
+): TrackedOrder | null {
+  if (!isOrderOpen(order.status)) {
+    return null;
+  }
+
+  const previousFill = toBigInt(order.filledAmount);
+  const reportedFill = toBigInt(update.filledAmount);
+  const filled = reportedFill > previousFill ? reportedFill : previousFill;
+
+  let status = update.status;
+  if (status === "pending" && filled > BigInt(0)) {
+    status = "partially_filled";
+  }
+  if (STATE_RANK[status] < STATE_RANK[order.status]) {
+    status = order.status;
+  }
+
+  const statusChanged = status !== order.status;
+  const txHash = update.txHash ?? order.txHash;
+  if (!statusChanged && filled === previousFill && txHash === order.txHash) {
+    return null;
+  }
+
+  const filledAmount = filled.toString();
+  const timestampField = STATE_TIMESTAMPS[status];
+  return {
+    ...order,
+    status,
+    filledAmount,
+    txHash,
+    updatedAt: now,
+    ...(statusChanged && timestampField && { [timestampField]: now }),
+    history: statusChanged
+      ? [...order.history, { from: order.status, to: status, filledAmount, at: now }]
+      : order.history,
+  };
+}
+
+/**
+ * Check an order against list filters
+ */
+export function matchesOrderFilter(order: TrackedOrder, filter: OrderFilter): boolean {
+  return (
+    (!filter.maker || order.maker === filter.maker.toLowerCase()) &&
+    (filter.marketId === undefined || order.marketId === filter.marketId) &&
+    (!filter.statuses || filter.statuses.includes(order.status))
+  );
+}
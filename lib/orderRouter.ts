@@ -0,0 +1,183 @@
+/**
+ * Cross-venue smart order routing
+ *
+ * Splits a dollar order for one side of a market cluster across venues.
+ * Every venue's levels are pooled and filled cheapest all-in price first
+ * (taker and settlement fees included), which minimizes total cost.
+ */
+
+import type {
+  ClusterMarket,
+  MarketCluster,
+  OrderbookLevel,
+  Platform,
+  RouteAllocation,
+  RoutePlan,
+  TokenOrderbook,
+} from "./types";
+import { getPlatformFees } from "./platforms";
+import { getOrderDeepLink } from "./links";
+
+// --- Types ---
+
+export interface RouteVenue {
+  market: ClusterMarket;
+  orderbook: TokenOrderbook | null; // Book for the routed side's token, null if unavailable
+}
+
+export interface RoutePlanOptions {
+  unbookedDepthNotional?: number; // Dollars assumed fillable at the quoted price when a venue has no book
+}
+
+interface RouteSlice {
+  venueIndex: number;
+  price: number;
+  allInPrice: number;
+  size: number;
+}
+
+interface VenueFill {
+  notional: number;
+  shares: number;
+  grossCost: number;
+  worstPrice: number;
+}
+
+// --- Configuration ---
+
+export const DEFAULT_UNBOOKED_DEPTH_NOTIONAL = 250;
+
+// Venues we can place orders on through /api/trades; everything else gets a deep link
+const API_EXECUTION_PLATFORMS: ReadonlySet<Platform> = new Set<Platform>(["opinion"]);
+
+const BPS_DENOMINATOR = 10_000;
+
+// --- Helper Functions ---
+
+function isTradablePrice(price: number | undefined): price is number {
+  return price !== undefined && Number.isFinite(price) && price > 0 && price < 1;
+}
+
+function getAllInPrice(platform: Platform, price: number): number {
+  const fees = getPlatformFees(platform);
+  return (
+    price +
+    (price * fees.takerBps) / BPS_DENOMINATOR +
+    ((1 - price) * fees.settlementBps) / BPS_DENOMINATOR
+  );
+}
+
+function getVenueLevels(
+  venue: RouteVenue,
+  side: "yes" | "no",
+  unbookedDepthNotional: number
+): OrderbookLevel[] {
+  if (venue.orderbook) {
+    return venue.orderbook.asks;
+  }
+
+  // Without a book, a venue that quotes no NO price has no NO side to route to
+  const price = side === "yes" ? venue.market.yesPrice : venue.market.noPrice;
+  if (!isTradablePrice(price) || unbookedDepthNotional <= 0) {
+    return [];
+  }
+
+  return [{ price, size: unbookedDepthNotional / getAllInPrice(venue.market.platform, price) }];
+}
+
+function buildAllocation(
+  venue: RouteVenue,
+  side: "yes" | "no",
+  fill: VenueFill
+): RouteAllocation {
+  const { market } = venue;
+  const tokenId = side === "yes" ? market.yesTokenId : market.noTokenId;
+
+  return {
+    platform: market.platform,
+    marketId: market.marketId,
+    marketTitle: market.marketTitle,
+    side,
+    tokenId,
+    execution: API_EXECUTION_PLATFORMS.has(market.platform) && tokenId ? "api" : "deeplink",
+    depthSource: venue.orderbook ? "orderbook" : "price",
+    url: getOrderDeepLink(market.marketUrl, side, fill.notional),
+    notional: fill.notional,
+    shares: fill.shares,
+    averagePrice: fill.grossCost / fill.shares,
+    worstPrice: fill.worstPrice,
+    fees: fill.notional - fill.grossCost,
+  };
+}
+
+// --- Public API ---
+
+/**
+ * Plan the cheapest split of a dollar order across a cluster's venues
+ *
+ * @param cluster - Cluster being traded
+ * @param venues - Cluster markets paired with the routed side's orderbook
+ * @param side - Outcome to buy
+ * @param notional - Dollars to spend, fees included
+ * @returns Per-venue execution plan, largest allocation first
+ */
+export function planRoute(
+  cluster: MarketCluster,
+  venues: RouteVenue[],
+  side: "yes" | "no",
+  notional: number,
+  options: RoutePlanOptions = {}
+): RoutePlan {
+  const unbookedDepthNotional = options.unbookedDepthNotional ?? DEFAULT_UNBOOKED_DEPTH_NOTIONAL;
+
+  const slices: RouteSlice[] = venues.flatMap((venue, venueIndex) =>
+    getVenueLevels(venue, side, unbookedDepthNotional).map((level) => ({
+      venueIndex,
+      price: level.price,
+      allInPrice: getAllInPrice(venue.market.platform, level.price),
+      size: level.size,
+    }))
+  );
+  slices.sort((a, b) => a.allInPrice - b.allInPrice);
+
+  const fills = new Map<number, VenueFill>();
+  let remaining = Math.max(0, notional);
+
+  for (const slice of slices) {
+    if (remaining <= 0) {
+      break;
+    }
+
+    const spend = Math.min(remaining, slice.size * slice.allInPrice);
+    const shares = spend / slice.allInPrice;
+    const fill = fills.get(slice.venueIndex) ?? { notional: 0, shares: 0, grossCost: 0, worstPrice: 0 };
+
+    fill.notional += spend;
+    fill.shares += shares;
+    fill.grossCost += shares * slice.price;
+    fill.worstPrice = Math.max(fill.worstPrice, slice.price);
+    fills.set(slice.venueIndex, fill);
+    remaining -= spend;
+  }
+
+  const allocations = Array.from(fills.entries())
+    .filter(([, fill]) => fill.shares > 0)
+    .map(([venueIndex, fill]) => buildAllocation(venues[venueIndex], side, fill))
+    .sort((a, b) => b.notional - a.notional);
+
+  const filledNotional = allocations.reduce((sum, allocation) => sum + allocation.notional, 0);
+  const totalShares = allocations.reduce((sum, allocation) => sum + allocation.shares, 0);
+
+  return {
+    clusterId: cluster.id,
+    title: cluster.title,
+    side,
+    requestedNotional: notional,
+    filledNotional,
+    unfilledNotional: Math.max(0, notional - filledNotional),
+    totalShares,
+    averagePrice: totalShares > 0 ? filledNotional / totalShares : null,
+    totalFees: allocations.reduce((sum, allocation) => sum + allocation.fees, 0),
+    allocations,
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * Orderbook normalization
+ *
+ * Venue books arrive with string prices, tuple levels, unsorted
+ * levels or duplicate price points. These helpers turn them into a
+ * multi-level TokenOrderbook with best prices first and estimate fill
+ * costs against it.
+ */
+
+import type {
+  ExecutionQuote,
+  OrderbookLevel,
+  OrderbookResponse,
+  OrderSide,
+  TokenOrderbook,
+} from "./types";
+
+// --- Configuration ---
+
+export const DEFAULT_ORDERBOOK_DEPTH = 10;
+export const MAX_ORDERBOOK_DEPTH = 50;
+
+// --- Helper Functions ---
+
+function parseNumber(raw: unknown): number | null {
+  if (raw === null || raw === undefined || raw === "") {
+    return null;
+  }
+  const parsed = typeof raw === "string" ? Number.parseFloat(raw) : Number(raw);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function parsePrice(raw: unknown): number | null {
+  const parsed = parseNumber(raw);
+  // Binary outcome prices must sit strictly between 0 and 1
+  return parsed !== null && parsed > 0 && parsed < 1 ? parsed : null;
+}
+
+/**
+ * Parse a raw level in either { price, size } object or [price, size] tuple form
+ */
+export function parseOrderbookLevel(raw: unknown): OrderbookLevel | null {
+  if (Array.isArray(raw)) {
+    const price = parsePrice(raw[0]);
+    const size = parseNumber(raw[1]);
+    return price !== null && size !== null && size > 0 ? { price, size } : null;
+  }
+
+  if (raw && typeof raw === "object") {
+    const entry = raw as Record<string, unknown>;
+    const price = parsePrice(entry.price ?? entry.p);
+    const size = parseNumber(entry.size ?? entry.quantity ?? entry.amount ?? entry.shares ?? entry.s);
+    return price !== null && size !== null && size > 0 ? { price, size } : null;
+  }
+
+  return null;
+}
+
+function normalizeSide(rawLevels: unknown, side: "bid" | "ask", depth: number): OrderbookLevel[] {
+  const levels = Array.isArray(rawLevels) ? rawLevels : [];
+  const sizeByPrice = new Map<number, number>();
+
+  for (const raw of levels) {
+    const level = parseOrderbookLevel(raw);
+    if (!level) {
+      continue;
+    }
+    sizeByPrice.set(level.price, (sizeByPrice.get(level.price) ?? 0) + level.size);
+  }
+
+  return Array.from(sizeByPrice.entries())
+    .map(([price, size]) => ({ price, size }))
+    .sort((a, b) => (side === "bid" ? b.price - a.price : a.price - b.price))
+    .slice(0, depth);
+}
+
+function roundPrice(value: number): number {
+  return Number.parseFloat(value.toFixed(4));
+}
+
+// --- Public API ---
+
+/**
+ * Build a multi-level orderbook from raw venue levels
+ *
+ * @param tokenId - Token the book belongs to
+ * @param rawBids - Raw bid levels in any supported shape and order
+ * @param rawAsks - Raw ask levels in any supported shape and order
+ * @param depth - Maximum number of levels to keep per side
+ */
+export function normalizeOrderbook(
+  tokenId: string,
+  rawBids: unknown,
+  rawAsks: unknown,
+  depth: number = DEFAULT_ORDERBOOK_DEPTH
+): TokenOrderbook {
+  const bids = normalizeSide(rawBids, "bid", depth);
+  const asks = normalizeSide(rawAsks, "ask", depth);
+  const bestBid = bids[0] ?? null;
+  const bestAsk = asks[0] ?? null;
+
+  return {
+    tokenId,
+    bids,
+    asks,
+    bestBid,
+    bestAsk,
+    spread: bestBid && bestAsk ? roundPrice(bestAsk.price - bestBid.price) : null,
+    midPrice: bestBid && bestAsk ? roundPrice((bestBid.price + bestAsk.price) / 2) : null,
+  };
+}
+
+/**
+ * Generate deterministic mock orderbook data for a token
+ *
+ * Only used when the mock switch is enabled (tests and local development).
+ */
+export function generateMockOrderbook(
+  tokenId: string,
+  depth: number = DEFAULT_ORDERBOOK_DEPTH
+): OrderbookResponse {
+  // Use tokenId hash for deterministic mock data
+  const hash = tokenId.split("").reduce((a, b) => {
+    a = (a << 5) - a + b.charCodeAt(0);
+    return a & a;
+  }, 0);
+
+  const seed = Math.abs(hash) / 2147483647;
+  const basePrice = 0.3 + seed * 0.4; // 0.30 - 0.70 range
+  const bids: OrderbookLevel[] = [];
+  const asks: OrderbookLevel[] = [];
+
+  for (let level = 0; level < depth; level++) {
+    bids.push({
+      price: Number.parseFloat((basePrice - 0.01 - seed * 0.02 - level * 0.01).toFixed(3)),
+      size: Math.floor(100 + seed * 500 + level * 75),
+    });
+    asks.push({
+      price: Number.parseFloat((basePrice + 0.01 + seed * 0.02 + level * 0.01).toFixed(3)),
+      size: Math.floor(100 + seed * 400 + level * 60),
+    });
+  }
+
+  return {
+    tokenId,
+    source: "mock",
+    orderbook: normalizeOrderbook(tokenId, bids, asks, depth),
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Estimate execution cost of an order by walking orderbook levels
+ *
+ * Buys walk the asks and sells walk the bids, best price first.
+ *
+ * @param orderbook - Normalized orderbook
+ * @param side - Buy or sell
+ * @param amount - Order size in shares, or in dollars when unit is "notional"
+ * @param unit - Unit of amount
+ */
+export function quoteOrder(
+  orderbook: TokenOrderbook,
+  side: OrderSide,
+  amount: number,
+  unit: "shares" | "notional" = "shares"
+): ExecutionQuote {
+  const levels = side === "buy" ? orderbook.asks : orderbook.bids;
+  let remaining = Math.max(0, amount);
+  let filledSize = 0;
+  let totalCost = 0;
+  let worstPrice: number | null = null;
+  let levelsConsumed = 0;
+
+  for (const level of levels) {
+    if (remaining <= 0) {
+      break;
+    }
+
+    const available = unit === "shares" ? level.size : level.size * level.price;
+    const take = Math.min(remaining, available);
+    const shares = unit === "shares" ? take : take / level.price;
+
+    filledSize += shares;
+    totalCost += shares * level.price;
+    remaining -= take;
+    worstPrice = level.price;
+    levelsConsumed += 1;
+  }
+
+  const averagePrice = filledSize > 0 ? totalCost / filledSize : null;
+  const midPrice = orderbook.midPrice;
+  const slippage =
+    averagePrice !== null && midPrice !== null
+      ? side === "buy"
+        ? averagePrice - midPrice
+        : midPrice - averagePrice
+      : null;
+
+  // Price the unfillable notional at the worst touched level to express it in shares
+  const unfilledSize =
+    unit === "shares"
+      ? remaining
+      : remaining > 0
+        ? remaining / (worstPrice ?? midPrice ?? 1)
+        : 0;
+
+  return {
+    tokenId: orderbook.tokenId,
+    side,
+    requestedSize: unit === "shares" ? amount : filledSize + unfilledSize,
+    requestedNotional: unit === "notional" ? amount : undefined,
+    filledSize,
+    unfilledSize,
+    totalCost,
+    averagePrice,
+    worstPrice,
+    midPrice,
+    slippage,
+    slippageBps: slippage !== null && midPrice ? (slippage / midPrice) * 10_000 : null,
+    levelsConsumed,
+  };
+}
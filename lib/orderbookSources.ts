@@ -0,0 +1,96 @@
+/**
+ * Venue orderbook fetchers (server-side only)
+ *
+ * Fetches full-depth books through each venue's market source adapter,
+ * which normalizes them into a multi-level TokenOrderbook.
+ */
+
+import "server-only";
+
+import type { MarketCluster, OrderbookResponse, OrderbookSource } from "@/lib/types";
+import { getMarketSource } from "@/lib/adapters";
+import { generateMockOrderbook, MAX_ORDERBOOK_DEPTH } from "@/lib/orderbook";
+import type { RouteVenue } from "@/lib/orderRouter";
+
+export type OrderbookVenue = Exclude<OrderbookSource, "mock">;
+
+/**
+ * Check whether a value is a venue with orderbook support
+ */
+export function isOrderbookVenue(value: unknown): value is OrderbookVenue {
+  return typeof value === "string" && Boolean(getMarketSource(value)?.capabilities.orderbook);
+}
+
+/**
+ * Mock books are served only behind an explicit switch:
+ * ORDERBOOK_MOCK=1 anywhere, or ?mock=1 outside production.
+ */
+export function isMockOrderbookEnabled(mockRequested: boolean): boolean {
+  if (process.env.ORDERBOOK_MOCK === "1") {
+    return true;
+  }
+  return mockRequested && process.env.NODE_ENV !== "production";
+}
+
+/**
+ * Fetch and normalize a token orderbook
+ *
+ * @param venue - Venue to fetch from
+ * @param tokenId - Venue token ID
+ * @param depth - Levels to keep per side
+ * @param useMock - Serve deterministic mock data instead of hitting the venue
+ * @returns Orderbook response, or null if the venue has no book for the token
+ */
+export async function fetchOrderbook(
+  venue: OrderbookVenue,
+  tokenId: string,
+  depth: number,
+  useMock: boolean = false
+): Promise<OrderbookResponse | null> {
+  if (useMock) {
+    return generateMockOrderbook(tokenId, depth);
+  }
+
+  const fetchVenueOrderbook = getMarketSource(venue)?.fetchOrderbook;
+  const orderbook = fetchVenueOrderbook ? await fetchVenueOrderbook(tokenId, depth) : null;
+  if (!orderbook) {
+    return null;
+  }
+
+  return {
+    tokenId,
+    source: venue,
+    orderbook,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Fetch the routed side's book for every market in a cluster
+ *
+ * Markets on venues without orderbook support, without a known token, or
+ * whose book fails to load come back with a null book so the router can
+ * fall back to their quoted price.
+ */
+export async function fetchClusterOrderbooks(
+  cluster: MarketCluster,
+  side: "yes" | "no",
+  useMock: boolean = false
+): Promise<RouteVenue[]> {
+  return Promise.all(
+    cluster.markets.map(async (market) => {
+      const tokenId = side === "yes" ? market.yesTokenId : market.noTokenId;
+      if (!tokenId || !isOrderbookVenue(market.platform)) {
+        return { market, orderbook: null };
+      }
+
+      try {
+        const book = await fetchOrderbook(market.platform, tokenId, MAX_ORDERBOOK_DEPTH, useMock);
+        return { market, orderbook: book?.orderbook ?? null };
+      } catch (error) {
+        console.warn(`[ORDERBOOK] Failed to fetch ${market.platform} book for routing:`, error);
+        return { market, orderbook: null };
+      }
+    })
+  );
+}
@@ -0,0 +1,392 @@
+/**
+ * Order tracking (server-side only)
+ *
+ * Orders the Opinion CLOB accepts through /api/trades are stored with
+ * their status history and reconciled against the CLOB: open orders are
+ * re-checked, least recently checked first, at most every 30 seconds in
+ * the background when orders are listed (or on demand), and
+ * cancellations go through the CLOB before the stored state changes.
+ * Reconciliation also picks up resting orders the same wallets placed
+ * elsewhere, so they can be cancelled here too. Orders seen since startup
+ * are also kept in memory so tracking still works without a database.
+ */
+
+import "server-only";
+
+import type { NextRequest } from "next/server";
+import type { TrackedOrder } from "@/lib/types";
+import { cancelOrder, getOpenOrders, getOrderStatus, type OpinionOrderResponse } from "@/lib/opinionCLOB";
+import { ORDER_SIDE, type OpinionOrderMessage, type OpinionOrderType } from "@/lib/opinionOrders";
+import {
+  OPEN_ORDER_STATES,
+  applyOrderUpdate,
+  createExternalOrder,
+  createTrackedOrder,
+  isOrderOpen,
+  matchesOrderFilter,
+  type OrderFilter,
+  type OrderUpdate,
+} from "@/lib/orderLifecycle";
+import { getAdminActor } from "@/lib/security";
+import { getSession } from "@/lib/session";
+import {
+  createOrder,
+  getOrder,
+  getOrderMakers,
+  getOrders,
+  getOrdersToReconcile,
+  markOrdersChecked,
+  updateOrder,
+} from "@/lib/database/queries";
+
+// --- Types ---
+
+export interface OrderReconciliation {
+  reconciledAt: number;
+  checked: number;
+  updated: number;
+  failed: number; // Orders the CLOB returned no status for
+  imported: number; // Resting orders placed outside /api/trades, newly tracked
+}
+
+export interface MarketCancellation {
+  cancelled: string[];
+  failed: string[];
+}
+
+/** Who is asking: admins see every order, wallets only their own */
+export interface OrderCaller {
+  admin: string | null; // Admin actor from getAdminActor
+  wallet: string | null; // Lowercased wallet address
+}
+
+// --- Configuration ---
+
+const RECONCILE_INTERVAL_MS = 30_000;
+const RECONCILE_BATCH = 50;
+const MAX_IMPORTED_MAKERS = 20; // Wallets checked for outside orders per reconciliation
+const MAX_REMEMBERED = 500;
+
+const recentOrders = new Map<string, TrackedOrder>();
+let lastReconciliation: OrderReconciliation | null = null;
+let inflight: Promise<OrderReconciliation> | null = null;
+
+// --- Helper Functions ---
+
+function getApiKey(): string {
+  const apiKey = process.env.OPINION_API_KEY;
+  if (!apiKey || !process.env.OPINION_CLOB_BASE_URL) {
+    throw new Error("Opinion trading not configured");
+  }
+  return apiKey;
+}
+
+function warn(action: string, error: unknown): void {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.warn(`[Orders] Failed to ${action}:`, errorMessage);
+}
+
+function remember(order: TrackedOrder): void {
+  recentOrders.delete(order.id);
+  recentOrders.set(order.id, order);
+  if (recentOrders.size > MAX_REMEMBERED) {
+    recentOrders.delete(recentOrders.keys().next().value as string);
+  }
+}
+
+/** Newer copy of each order, stored or remembered */
+function mergeOrders(...lists: TrackedOrder[][]): TrackedOrder[] {
+  const byId = new Map<string, TrackedOrder>();
+  for (const order of lists.flat()) {
+    const existing = byId.get(order.id);
+    if (!existing || order.updatedAt > existing.updatedAt) {
+      byId.set(order.id, order);
+    }
+  }
+  return Array.from(byId.values()).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+async function saveUpdate(previous: TrackedOrder, next: TrackedOrder): Promise<TrackedOrder> {
+  remember(next);
+  try {
+    await updateOrder(previous.status, next);
+  } catch (error) {
+    warn(`save order ${next.id}`, error);
+  }
+  return next;
+}
+
+async function isTracked(id: string): Promise<boolean> {
+  if (recentOrders.has(id)) {
+    return true;
+  }
+  try {
+    return (await getOrder(id)) !== null;
+  } catch (error) {
+    warn(`load order ${id}`, error);
+    return true; // Unknown; importing could duplicate it
+  }
+}
+
+/** Newest tracked orders matching a filter, without reconciling */
+async function loadOrders(filter: OrderFilter, limit: number): Promise<TrackedOrder[]> {
+  let stored: TrackedOrder[] = [];
+  try {
+    stored = await getOrders({ ...filter, limit });
+  } catch (error) {
+    warn("load orders", error);
+  }
+  const remembered = Array.from(recentOrders.values()).filter((order) => matchesOrderFilter(order, filter));
+  return mergeOrders(stored, remembered).slice(0, limit);
+}
+
+/**
+ * Track a wallet's resting CLOB orders that were placed outside /api/trades
+ *
+ * @returns Number of orders newly tracked
+ */
+async function importOpenOrders(maker: string, apiKey: string, now: number): Promise<number> {
+  let imported = 0;
+  for (const status of await getOpenOrders(maker, apiKey)) {
+    const order = createExternalOrder(status, maker, now);
+    if (!order || (await isTracked(order.id))) {
+      continue;
+    }
+    remember(order);
+    try {
+      await createOrder(order);
+    } catch (error) {
+      warn(`store order ${order.id}`, error);
+    }
+    imported++;
+  }
+  return imported;
+}
+
+/**
+ * Apply a CLOB status to an order and save it if anything changed
+ */
+async function applyStatus(order: TrackedOrder, status: OrderUpdate, now: number): Promise<TrackedOrder | null> {
+  const next = applyOrderUpdate(order, status, now);
+  return next ? saveUpdate(order, { ...next, lastCheckedAt: now }) : null;
+}
+
+async function reconcile(): Promise<OrderReconciliation> {
+  const apiKey = getApiKey();
+  const now = Date.now();
+
+  let stored: TrackedOrder[] = [];
+  try {
+    stored = await getOrdersToReconcile(RECONCILE_BATCH);
+  } catch (error) {
+    warn("load open orders", error);
+  }
+  const remembered = Array.from(recentOrders.values()).filter((order) => isOrderOpen(order.status));
+  const orders = mergeOrders(stored, remembered)
+    .sort((a, b) => (a.lastCheckedAt ?? 0) - (b.lastCheckedAt ?? 0))
+    .slice(0, RECONCILE_BATCH);
+
+  let updated = 0;
+  let failed = 0;
+  const unchanged: string[] = [];
+
+  // One at a time, to keep the load on the CLOB flat
+  for (const order of orders) {
+    const status = await getOrderStatus(order.id, apiKey);
+    if (!status) {
+      failed++;
+      continue;
+    }
+    if (await applyStatus(order, status, now)) {
+      updated++;
+    } else {
+      unchanged.push(order.id);
+      if (recentOrders.has(order.id)) {
+        remember({ ...order, lastCheckedAt: now });
+      }
+    }
+  }
+
+  try {
+    await markOrdersChecked(unchanged, new Date(now));
+  } catch (error) {
+    warn("mark orders checked", error);
+  }
+
+  let makers: string[] = [];
+  try {
+    makers = await getOrderMakers(MAX_IMPORTED_MAKERS);
+  } catch (error) {
+    warn("load order makers", error);
+  }
+  const wallets = new Set([...makers, ...Array.from(recentOrders.values(), (order) => order.maker)]);
+  let imported = 0;
+  for (const maker of Array.from(wallets).slice(0, MAX_IMPORTED_MAKERS)) {
+    imported += await importOpenOrders(maker, apiKey, now);
+  }
+
+  return { reconciledAt: now, checked: orders.length, updated, failed, imported };
+}
+
+// --- Public API ---
+
+/**
+ * Identify the caller of an orders route from its admin token or SIWE session
+ */
+export function getOrderCaller(request: NextRequest): OrderCaller {
+  const admin = getAdminActor(request);
+  const wallet = getSession(request)?.address ?? null;
+  return { admin, wallet: wallet?.toLowerCase() ?? null };
+}
+
+/**
+ * Whether a caller may see and cancel an order
+ */
+export function canManageOrder(caller: OrderCaller, order: TrackedOrder): boolean {
+  return caller.admin !== null || caller.wallet === order.maker;
+}
+
+/**
+ * Start tracking an order the CLOB accepted
+ */
+export async function trackOrder(
+  marketId: number,
+  orderType: OpinionOrderType,
+  order: OpinionOrderMessage,
+  result: OpinionOrderResponse
+): Promise<TrackedOrder | null> {
+  if (!result.orderId) {
+    return null;
+  }
+
+  const isBuy = order.side === ORDER_SIDE.buy;
+  const shares = BigInt(isBuy ? order.takerAmount : order.makerAmount);
+  const collateral = BigInt(isBuy ? order.makerAmount : order.takerAmount);
+
+  const tracked = createTrackedOrder({
+    id: result.orderId,
+    marketId,
+    tokenId: order.tokenId,
+    maker: order.maker,
+    side: isBuy ? "buy" : "sell",
+    orderType,
+    // Limit price from the signed amounts, to 6 decimals
+    price: orderType === "limit" ? Number((collateral * BigInt(1e6)) / shares) / 1e6 : null,
+    makerAmount: order.makerAmount,
+    takerAmount: order.takerAmount,
+    status: result.status ?? "pending",
+    txHash: result.txHash,
+  });
+
+  remember(tracked);
+  try {
+    await createOrder(tracked);
+  } catch (error) {
+    warn(`store order ${tracked.id}`, error);
+  }
+  return tracked;
+}
+
+/**
+ * Reconcile open orders with the CLOB, at most once per interval unless forced
+ */
+export async function syncOrders(force: boolean = false): Promise<OrderReconciliation> {
+  if (!force && lastReconciliation && Date.now() - lastReconciliation.reconciledAt < RECONCILE_INTERVAL_MS) {
+    return lastReconciliation;
+  }
+
+  if (!inflight) {
+    inflight = reconcile()
+      .then((result) => {
+        lastReconciliation = result;
+        return result;
+      })
+      .finally(() => {
+        inflight = null;
+      });
+  }
+
+  return inflight;
+}
+
+/**
+ * Tracked orders, newest first, as last reconciled
+ *
+ * Starts a throttled reconciliation in the background rather than waiting
+ * on the CLOB; `reconciledAt` is the last one that finished.
+ */
+export async function listOrders(
+  filter: OrderFilter,
+  limit: number
+): Promise<{ orders: TrackedOrder[]; reconciledAt: number | null }> {
+  syncOrders().catch((error) => warn("reconcile orders", error));
+  return { orders: await loadOrders(filter, limit), reconciledAt: lastReconciliation?.reconciledAt ?? null };
+}
+
+/**
+ * A tracked order, re-checked against the CLOB if open and not checked recently
+ */
+export async function getTrackedOrder(id: string): Promise<TrackedOrder | null> {
+  let stored: TrackedOrder | null = null;
+  try {
+    stored = await getOrder(id);
+  } catch (error) {
+    warn(`load order ${id}`, error);
+  }
+  const [order] = mergeOrders(stored ? [stored] : [], recentOrders.has(id) ? [recentOrders.get(id)!] : []);
+  if (!order || !isOrderOpen(order.status)) {
+    return order ?? null;
+  }
+
+  const now = Date.now();
+  if (order.lastCheckedAt && now - order.lastCheckedAt < RECONCILE_INTERVAL_MS) {
+    return order;
+  }
+
+  try {
+    const status = await getOrderStatus(id, getApiKey());
+    return status ? ((await applyStatus(order, status, now)) ?? order) : order;
+  } catch (error) {
+    warn(`refresh order ${id}`, error);
+    return order;
+  }
+}
+
+/**
+ * Cancel an open order on the CLOB and record the cancellation
+ *
+ * @returns The updated order, or null if the CLOB refused
+ */
+export async function cancelTrackedOrder(order: TrackedOrder): Promise<TrackedOrder | null> {
+  const apiKey = getApiKey();
+  if (!(await cancelOrder(order.id, apiKey))) {
+    return null;
+  }
+
+  // Fills that landed before the cancel are kept; the CLOB may report the cancel late
+  const now = Date.now();
+  const status = await getOrderStatus(order.id, apiKey);
+  const reported = status ? ((await applyStatus(order, status, now)) ?? order) : order;
+  if (!isOrderOpen(reported.status)) {
+    return reported;
+  }
+  return (await applyStatus(reported, { status: "cancelled", txHash: status?.txHash }, now)) ?? reported;
+}
+
+/**
+ * Cancel every open order on a market, optionally only one wallet's
+ */
+export async function cancelMarketOrders(marketId: number, maker?: string): Promise<MarketCancellation> {
+  const orders = await loadOrders({ marketId, maker, statuses: OPEN_ORDER_STATES }, MAX_REMEMBERED);
+  const result: MarketCancellation = { cancelled: [], failed: [] };
+
+  for (const order of orders) {
+    const cancelled = await cancelTrackedOrder(order);
+    if (cancelled && !isOrderOpen(cancelled.status)) {
+      result.cancelled.push(order.id);
+    } else {
+      result.failed.push(order.id);
+    }
+  }
+  return result;
+}
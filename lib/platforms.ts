@@ -1,5 +1,15 @@
 import type { Platform } from "./types";
 
+/**
+ * Platform fee schedule
+ *
+ * Rates are expressed in basis points (1 bp = 0.01%).
+ */
+export interface PlatformFeeSchedule {
+  takerBps: number; // Charged on the notional of a taker fill
+  settlementBps: number; // Charged on winnings when a position resolves
+}
+
 /**
  * Platform metadata
  */
@@ -9,6 +19,7 @@ export interface PlatformInfo {
   url: string;
   chainId: number;
   color: string;
+  fees: PlatformFeeSchedule;
 }
 
 /**
@@ -21,6 +32,7 @@ export const platformInfo: Record<Platform, PlatformInfo> = {
     url: "https://app.opinion.trade",
     chainId: 56, // BNB Chain
     color: "terminal-orange",
+    fees: { takerBps: 0, settlementBps: 0 }, // Opinion does not charge trading fees today
   },
   kalshi: {
     name: "kalshi",
@@ -28,6 +40,7 @@ export const platformInfo: Record<Platform, PlatformInfo> = {
     url: "https://kalshi.com",
     chainId: 1, // Ethereum (for now, may change)
     color: "terminal-green",
+    fees: { takerBps: 350, settlementBps: 0 }, // 7% * p * (1 - p) per contract, evaluated at p = 0.5
   },
   polymarket: {
     name: "polymarket",
@@ -35,6 +48,7 @@ export const platformInfo: Record<Platform, PlatformInfo> = {
     url: "https://polymarket.com",
     chainId: 137, // Polygon
     color: "terminal-blue",
+    fees: { takerBps: 0, settlementBps: 0 },
   },
   predictfun: {
     name: "predictfun",
@@ -42,6 +56,7 @@ export const platformInfo: Record<Platform, PlatformInfo> = {
     url: "https://predict.fun",
     chainId: 1, // Ethereum (to be confirmed)
     color: "terminal-purple",
+    fees: { takerBps: 0, settlementBps: 0 }, // To be confirmed
   },
   limitless: {
     name: "limitless",
@@ -49,6 +64,7 @@ export const platformInfo: Record<Platform, PlatformInfo> = {
     url: "https://limitless.exchange",
     chainId: 8453, // Base (market contracts), to be confirmed
     color: "terminal-cyan",
+    fees: { takerBps: 0, settlementBps: 0 },
   },
 };
 
@@ -58,3 +74,10 @@ export const platformInfo: Record<Platform, PlatformInfo> = {
 export function getPlatformInfo(platform: Platform): PlatformInfo {
   return platformInfo[platform];
 }
+
+/**
+ * Get platform fee schedule
+ */
+export function getPlatformFees(platform: Platform): PlatformFeeSchedule {
+  return platformInfo[platform].fees;
+}
@@ -12,28 +12,17 @@
 
 import "server-only";
 
-// --- Types for Polymarket API responses ---
+import { createHttpClient } from "@/lib/http";
+import { describeIssue, formatParseReport, parseRecords } from "@/lib/schema";
+import {
+  orderbookSchema,
+  polymarketMarketPageSchema,
+  polymarketMarketSchema,
+  type PolymarketMarketPayload,
+} from "@/lib/venueSchemas";
+import type { ParseReport } from "@/lib/types";
 
-export interface PolymarketMarket {
-  id: string;
-  slug: string;
-  question: string;
-  description?: string;
-  conditionId: string;
-  endDate: string;
-  resolutionSource?: string;
-  image?: string;
-  active: boolean;
-  archived: boolean;
-  liquidity: string;
-  volume: string;
-  [key: string]: any;
-}
-
-export interface PolymarketMarketsResponse {
-  data: PolymarketMarket[];
-  cursor?: string;
-}
+// --- Types for Polymarket API responses ---
 
 export interface PolymarketTokenPrice {
   conditionId: string;
@@ -50,12 +39,14 @@ export interface PolymarketOrderBook {
 
 // --- Configuration ---
 
-const TIMEOUT_MS = 7000;
-const MAX_RETRIES = 2;
-const INITIAL_BACKOFF_MS = 500;
-const MIN_VALID_ENDDATE_MS = Date.UTC(2000, 0, 1);
+const http = createHttpClient("polymarket", { label: "Polymarket API" });
 const MAX_ENDED_AGE_MS = 24 * 60 * 60 * 1000;
 
+/** CLOB cursor of the first market page (base64 "0") */
+export const POLYMARKET_FIRST_CURSOR = "MA==";
+/** `next_cursor` returned with the last page (base64 "-1") */
+const POLYMARKET_END_CURSOR = "LTE=";
+
 // --- Helper Functions ---
 
 function getConfig() {
@@ -66,96 +57,63 @@ function getConfig() {
   return { apiKey, baseUrl };
 }
 
-async function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-async function fetchWithTimeout(
-  url: string,
-  options: RequestInit,
-  timeoutMs: number
-): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-    });
-    return response;
-  } finally {
-    clearTimeout(timeoutId);
+/**
+ * Validate a CLOB book payload; levels arrive as strings and in no fixed order
+ */
+function parseOrderBook(data: unknown, conditionId: string): PolymarketOrderBook | null {
+  const book = orderbookSchema(data, "orderbook payload");
+  if (!book.ok) {
+    console.warn(`[Polymarket API] Invalid order book for ${conditionId}: ${describeIssue(book.issue)}`);
+    return null;
   }
-}
-
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit
-): Promise<Response> {
-  let lastError: Error | null = null;
-  let backoffMs = INITIAL_BACKOFF_MS;
-
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      const response = await fetchWithTimeout(url, options, TIMEOUT_MS);
 
-      if (response.ok) {
-        return response;
-      }
-
-      if ((response.status === 429 || response.status >= 500) && attempt < MAX_RETRIES) {
-        await sleep(backoffMs);
-        backoffMs *= 2;
-        continue;
-      }
-
-      throw new Error(`Polymarket API error: ${response.status} ${response.statusText}`);
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
+  const bids = [...book.value.bids].sort((a, b) => b.price - a.price);
+  const asks = [...book.value.asks].sort((a, b) => a.price - b.price);
+  return { conditionId, bids, asks };
+}
 
-      if (lastError.name === "AbortError" || lastError.message.includes("aborted")) {
-        lastError = new Error(`Polymarket API request timed out after ${TIMEOUT_MS}ms`);
-      }
+/**
+ * Request one page of CLOB markets and validate them
+ *
+ * @returns Markets, the report of those dropped and the cursor of the next page, null after the last one
+ */
+async function requestMarkets(
+  params: Record<string, string>
+): Promise<{ markets: PolymarketMarketPayload[]; report: ParseReport; nextCursor: string | null }> {
+  const { baseUrl } = getConfig();
 
-      if (attempt < MAX_RETRIES) {
-        await sleep(backoffMs);
-        backoffMs *= 2;
-        continue;
-      }
-    }
+  const url = new URL(`${baseUrl}/markets`);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
   }
 
-  throw lastError || new Error("Polymarket API request failed");
-}
-
-function parseEndDate(raw: unknown): number | null {
-  if (raw === null || raw === undefined) {
-    return null;
+  const response = await http.fetch(url.toString(), {
+    method: "GET",
+    headers: {
+      Accept: "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`[Polymarket API] Error response:`, {
+      status: response.status,
+      statusText: response.statusText,
+      body: errorText.substring(0, 500),
+    });
+    throw new Error(`Polymarket API error: ${response.status} ${response.statusText}`);
   }
 
-  if (typeof raw === "number" && Number.isFinite(raw)) {
-    const parsed = raw < 1_000_000_000_000 ? raw * 1000 : raw;
-    return parsed >= MIN_VALID_ENDDATE_MS ? parsed : null;
+  const page = polymarketMarketPageSchema(await response.json(), "market page");
+  if (!page.ok) {
+    throw new Error(`Polymarket API returned an unreadable market page: ${describeIssue(page.issue)}`);
   }
 
-  if (typeof raw === "string") {
-    const trimmed = raw.trim();
-    if (!trimmed) {
-      return null;
-    }
-    const numeric = Number.parseFloat(trimmed);
-    if (Number.isFinite(numeric)) {
-      const parsed = numeric < 1_000_000_000_000 ? numeric * 1000 : numeric;
-      return parsed >= MIN_VALID_ENDDATE_MS ? parsed : null;
-    }
-    const parsed = Date.parse(trimmed);
-    if (!Number.isNaN(parsed) && parsed >= MIN_VALID_ENDDATE_MS) {
-      return parsed;
-    }
-  }
+  const { markets } = page.value;
+  const nextCursor = page.value.nextCursor !== POLYMARKET_END_CURSOR ? page.value.nextCursor ?? null : null;
 
-  return null;
+  const { values, report } = parseRecords(markets, polymarketMarketSchema, "market");
+  return { markets: values, report, nextCursor };
 }
 
 // --- Public API ---
@@ -165,75 +123,32 @@ function parseEndDate(raw: unknown): number | null {
  * 
  * @param limit - Maximum number of markets to fetch
  * @param skip - Offset for pagination
- * @returns Array of PolymarketMarket objects
+ * @returns Live markets and the report of those that failed validation
  */
 export async function fetchPolymarketMarkets(
   limit: number = 20,
   skip: number = 0
-): Promise<PolymarketMarket[]> {
-  const { baseUrl } = getConfig();
-
+): Promise<{ markets: PolymarketMarketPayload[]; report: ParseReport }> {
   try {
     // Use CLOB REST API instead of deprecated GraphQL subgraph
-    const url = new URL(`${baseUrl}/markets`);
-    url.searchParams.set("limit", String(limit));
-    url.searchParams.set("offset", String(skip));
-    url.searchParams.set("active", "true");
-    url.searchParams.set("closed", "false");
-
-    const response = await fetchWithRetry(url.toString(), {
-      method: "GET",
-      headers: {
-        Accept: "application/json",
-      },
+    const { markets: parsed, report } = await requestMarkets({
+      limit: String(limit),
+      offset: String(skip),
+      active: "true",
+      closed: "false",
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[Polymarket API] Error response:`, {
-        status: response.status,
-        statusText: response.statusText,
-        body: errorText.substring(0, 500),
-      });
-      throw new Error(`Polymarket API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data: any = await response.json();
-
-    // CLOB API returns array directly or wrapped in data/next_cursor structure
-    const markets: any[] = Array.isArray(data) ? data : (data?.data || data?.markets || []);
-
-    // Map CLOB response to PolymarketMarket format
-    const mapped = markets.map((m: any) => ({
-      id: m.condition_id || m.id || "",
-      slug: m.market_slug || m.slug || "",
-      question: m.question || m.title || "",
-      description: m.description || "",
-      conditionId: m.condition_id || m.conditionId || "",
-      endDate: m.end_date_iso || m.endDate || "",
-      resolutionSource: m.resolution_source || "",
-      image: m.image || "",
-      active: m.active ?? true,
-      archived: m.archived ?? false,
-      liquidity: String(m.liquidity || "0"),
-      volume: String(m.volume || m.volume_num_24hr || "0"),
-      // Include token info for price fetching
-      tokens: m.tokens || [],
-    }));
-
     const now = Date.now();
-    return mapped.filter((market) => {
+    const markets = parsed.filter((market) => {
       if (market.archived || market.active === false) {
         return false;
       }
-
-      const endDate = parseEndDate(market.endDate);
-      if (endDate === null) {
-        return true;
-      }
-
-      return endDate >= now - MAX_ENDED_AGE_MS;
+      return market.endDate === undefined || market.endDate >= now - MAX_ENDED_AGE_MS;
     });
+
+    // Archived and ended markets are filtered out, not dropped
+    report.received -= parsed.length - markets.length;
+    return { markets, report };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error(`[Polymarket API] Failed to fetch markets:`, errorMessage);
@@ -241,6 +156,31 @@ export async function fetchPolymarketMarkets(
   }
 }
 
+/**
+ * Fetch the closed markets on one page of the CLOB market list
+ *
+ * The list is ordered oldest first and paged by cursor only. Resolved
+ * markets carry a `winner` flag on their tokens.
+ *
+ * @param cursor - Page to read (default: the first)
+ * @returns Closed markets and the cursor of the next page, null after the last one
+ */
+export async function fetchClosedPolymarketMarkets(
+  cursor: string = POLYMARKET_FIRST_CURSOR
+): Promise<{ markets: PolymarketMarketPayload[]; nextCursor: string | null }> {
+  try {
+    const { markets, report, nextCursor } = await requestMarkets({ next_cursor: cursor });
+    if (report.dropped > 0) {
+      console.warn(`[Polymarket API] Closed markets: ${formatParseReport(report)}`);
+    }
+    return { markets: markets.filter((market) => market.closed), nextCursor };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[Polymarket API] Failed to fetch closed markets:`, errorMessage);
+    throw error;
+  }
+}
+
 /**
  * Fetch price data for a specific market using CLOB API
  */
@@ -254,7 +194,7 @@ export async function fetchPolymarketMarketPrice(
   url.searchParams.set("token_id", conditionId);
 
   try {
-    const response = await fetchWithRetry(url.toString(), {
+    const response = await http.fetch(url.toString(), {
       method: "GET",
       headers: {
         Accept: "application/json",
@@ -265,8 +205,11 @@ export async function fetchPolymarketMarketPrice(
       return null;
     }
 
-    const orderBook: PolymarketOrderBook = await response.json();
-    
+    const orderBook = parseOrderBook(await response.json(), conditionId);
+    if (!orderBook) {
+      return null;
+    }
+
     // Calculate mid price from order book
     const bestBid = orderBook.bids[0]?.price || 0;
     const bestAsk = orderBook.asks[0]?.price || 1;
@@ -296,7 +239,7 @@ export async function fetchPolymarketOrderBook(
   url.searchParams.set("token_id", conditionId);
 
   try {
-    const response = await fetchWithRetry(url.toString(), {
+    const response = await http.fetch(url.toString(), {
       method: "GET",
       headers: {
         Accept: "application/json",
@@ -307,7 +250,7 @@ export async function fetchPolymarketOrderBook(
       return null;
     }
 
-    return await response.json();
+    return parseOrderBook(await response.json(), conditionId);
   } catch (error) {
     console.warn(`[Polymarket API] Failed to fetch order book for ${conditionId}:`, error);
     return null;
@@ -0,0 +1,166 @@
+/**
+ * Portfolio positions and mark-to-market PnL
+ *
+ * Trades are aggregated per (marketId, side). Each trade buys
+ * `(amount - fee) / entryPrice` shares that pay $1 if the side wins.
+ * Open positions are valued at the current price of their side, the
+ * venue's NO quote for NO positions when it has one; resolved positions
+ * realize their payout. PnL is always net of fees.
+ */
+
+import type {
+  PortfolioPosition,
+  PortfolioPositionStatus,
+  PortfolioSummary,
+  PortfolioTrade,
+} from "./types";
+
+// --- Types ---
+
+/** Current quote for a market */
+export interface PortfolioMark {
+  yesPrice: number;
+  noPrice?: number; // Venue NO quote; 1 - yesPrice when absent
+  marketTitle?: string;
+  url?: string;
+}
+
+/** Settled outcome of a market */
+export interface PortfolioResolution {
+  outcome: "yes" | "no";
+  resolvedAt?: number;
+}
+
+// --- Helper Functions ---
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+// --- Public API ---
+
+/**
+ * Price of one side of a quote; NO falls back to the YES complement
+ */
+export function sidePrice(quote: { yesPrice: number; noPrice?: number }, side: "yes" | "no"): number {
+  return side === "yes" ? quote.yesPrice : quote.noPrice ?? 1 - quote.yesPrice;
+}
+
+/**
+ * Convert an 18-decimal on-chain amount to dollars
+ */
+export function weiToUsd(value: string | number): number {
+  const amount = typeof value === "string" ? Number.parseFloat(value) : value;
+  return Number.isFinite(amount) ? amount / 1e18 : 0;
+}
+
+/**
+ * Aggregate trades into positions and value them
+ *
+ * @param trades - The wallet's trades
+ * @param marks - Current quotes by marketId
+ * @param resolutions - Settled outcomes by marketId
+ * @returns Positions (open first, then by market value) and portfolio totals
+ */
+export function buildPortfolio(
+  trades: PortfolioTrade[],
+  marks: Record<string, PortfolioMark>,
+  resolutions: Record<string, PortfolioResolution>
+): { positions: PortfolioPosition[]; summary: PortfolioSummary } {
+  const groups = new Map<string, PortfolioTrade[]>();
+  for (const trade of trades) {
+    const key = `${trade.marketId}:${trade.side}`;
+    groups.set(key, [...(groups.get(key) ?? []), trade]);
+  }
+
+  const positions: PortfolioPosition[] = [];
+
+  for (const group of groups.values()) {
+    const { marketId, side } = group[0];
+    const mark = marks[String(marketId)];
+    const resolution = resolutions[String(marketId)];
+
+    let shares = 0;
+    let costBasis = 0;
+    let pricedCost = 0;
+    let fees = 0;
+    let unpricedTrades = 0;
+
+    for (const trade of group) {
+      const cost = trade.amount - trade.fee;
+      costBasis += cost;
+      fees += trade.fee;
+      if (trade.entryPrice !== null && trade.entryPrice > 0) {
+        shares += cost / trade.entryPrice;
+        pricedCost += cost;
+      } else {
+        unpricedTrades++;
+      }
+    }
+
+    let status: PortfolioPositionStatus = "open";
+    let markPrice: number | null = null;
+    let marketValue = 0;
+    let unrealizedPnl = 0;
+    let realizedPnl = 0;
+
+    if (resolution) {
+      status = resolution.outcome === side ? "won" : "lost";
+      const payout = status === "won" ? shares : 0;
+      realizedPnl = payout - costBasis - fees;
+    } else {
+      markPrice = mark ? sidePrice(mark, side) : null;
+      // Unpriced trades have no share count, so they are carried at cost
+      marketValue =
+        markPrice === null ? costBasis : shares * markPrice + (costBasis - pricedCost);
+      unrealizedPnl = marketValue - costBasis - fees;
+    }
+
+    positions.push({
+      marketId,
+      marketTitle: mark?.marketTitle,
+      url: mark?.url,
+      side,
+      status,
+      tradeCount: group.length,
+      unpricedTrades,
+      shares: roundUsd(shares),
+      costBasis: roundUsd(costBasis),
+      fees: roundUsd(fees),
+      avgEntryPrice: shares > 0 ? roundUsd(pricedCost / shares) : null,
+      markPrice: markPrice === null ? null : roundUsd(markPrice),
+      marketValue: roundUsd(marketValue),
+      unrealizedPnl: roundUsd(unrealizedPnl),
+      realizedPnl: roundUsd(realizedPnl),
+      resolvedAt: resolution?.resolvedAt,
+      lastTradeAt: Math.max(...group.map((trade) => trade.timestamp)),
+    });
+  }
+
+  positions.sort((a, b) => {
+    if ((a.status === "open") !== (b.status === "open")) {
+      return a.status === "open" ? -1 : 1;
+    }
+    return b.marketValue - a.marketValue || b.lastTradeAt - a.lastTradeAt;
+  });
+
+  const open = positions.filter((position) => position.status === "open");
+  const sum = (values: number[]) => roundUsd(values.reduce((total, value) => total + value, 0));
+  const unrealizedPnl = sum(open.map((position) => position.unrealizedPnl));
+  const realizedPnl = sum(positions.map((position) => position.realizedPnl));
+
+  return {
+    positions,
+    summary: {
+      portfolioValue: sum(open.map((position) => position.marketValue)),
+      costBasis: sum(open.map((position) => position.costBasis)),
+      totalFees: sum(positions.map((position) => position.fees)),
+      unrealizedPnl,
+      realizedPnl,
+      totalPnl: roundUsd(unrealizedPnl + realizedPnl),
+      openPositions: open.length,
+      winningPositions: positions.filter((position) => position.status === "won").length,
+      losingPositions: positions.filter((position) => position.status === "lost").length,
+    },
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Portfolio valuation (server-side only)
+ *
+ * Loads what `buildPortfolio` needs for a wallet's TradeRouter trades:
+ * entry prices (the trade's own price, else the last recorded snapshot
+ * before the fill), outcomes stored by resolution tracking, live Opinion
+ * quotes from `platformFetchers`, and for held markets outside the live
+ * list, their details to find resolved outcomes or quote them by token.
+ */
+
+import "server-only";
+
+import type { MarketPriceSnapshot, PortfolioResponse, PortfolioTrade } from "@/lib/types";
+import { getMarketSource, platformFetchers } from "@/lib/adapters";
+import { fetchMarketDetails } from "@/lib/opinionClient";
+import {
+  getMarketResolutions,
+  getPricesAt,
+  getUserTrades,
+  type TradeRecord,
+} from "@/lib/database/queries";
+import {
+  buildPortfolio,
+  sidePrice,
+  weiToUsd,
+  type PortfolioMark,
+  type PortfolioResolution,
+} from "@/lib/portfolio";
+
+// --- Configuration ---
+
+const MAX_PORTFOLIO_TRADES = 1000;
+const RECENT_TRADES = 100;
+const MARKS_LIMIT = 200;
+const MARKS_TTL_MS = 30_000;
+const MAX_DETAIL_LOOKUPS = 25;
+const ENTRY_PRICE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+let marksCache: { data: MarketPriceSnapshot[]; expiresAt: number } | null = null;
+
+/** Resolved markets never change, so their outcomes are kept for the process lifetime */
+const resolvedMarkets = new Map<string, PortfolioResolution>();
+
+// --- Helper Functions ---
+
+/**
+ * Live Opinion quotes, falling back to the last good copy on error
+ */
+async function loadLiveMarkets(): Promise<MarketPriceSnapshot[]> {
+  if (marksCache && Date.now() < marksCache.expiresAt) {
+    return marksCache.data;
+  }
+
+  try {
+    const data = await platformFetchers.opinion(MARKS_LIMIT);
+    marksCache = { data, expiresAt: Date.now() + MARKS_TTL_MS };
+    return data;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn("[Portfolio] Failed to load live prices:", errorMessage);
+    return marksCache?.data ?? [];
+  }
+}
+
+/**
+ * Quote or resolve held markets that are not in the live list
+ */
+async function loadMissingMarkets(
+  marketIds: string[],
+  marks: Record<string, PortfolioMark>,
+  resolutions: Record<string, PortfolioResolution>
+): Promise<void> {
+  const yesTokens = new Map<string, { marketId: string; marketTitle: string; noTokenId?: string }>();
+
+  for (const marketId of marketIds.slice(0, MAX_DETAIL_LOOKUPS)) {
+    const details = await fetchMarketDetails(Number(marketId));
+    if (!details) {
+      continue;
+    }
+
+    const resultTokenId = details.resultTokenId;
+    if (resultTokenId && (resultTokenId === details.yesTokenId || resultTokenId === details.noTokenId)) {
+      const resolution: PortfolioResolution = {
+        outcome: resultTokenId === details.yesTokenId ? "yes" : "no",
+        resolvedAt: details.resolvedAt,
+      };
+      resolvedMarkets.set(marketId, resolution);
+      resolutions[marketId] = resolution;
+    } else if (details.yesTokenId) {
+      yesTokens.set(details.yesTokenId, { marketId, marketTitle: details.marketTitle, noTokenId: details.noTokenId });
+    }
+  }
+
+  const fetchPrices = getMarketSource("opinion")?.fetchPrices;
+  if (yesTokens.size === 0 || !fetchPrices) {
+    return;
+  }
+
+  try {
+    const tokenIds = Array.from(yesTokens, ([tokenId, { noTokenId }]) => (noTokenId ? [tokenId, noTokenId] : [tokenId]));
+    const prices = await fetchPrices(tokenIds.flat());
+    for (const [tokenId, { marketId, marketTitle, noTokenId }] of yesTokens) {
+      if (prices[tokenId] !== undefined) {
+        marks[marketId] = { yesPrice: prices[tokenId], noPrice: noTokenId ? prices[noTokenId] : undefined, marketTitle };
+      }
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn("[Portfolio] Failed to quote held markets:", errorMessage);
+  }
+}
+
+/**
+ * Entry price of each trade's side: the stored fill price, else the last
+ * recorded snapshot before the trade, looked up in one query
+ */
+async function resolveEntryPrices(rows: TradeRecord[]): Promise<Array<number | null>> {
+  const unpriced = rows.filter((row) => row.price === null);
+  const snapshots = await getPricesAt(
+    "opinion",
+    unpriced.map((row) => ({ marketId: String(row.marketId), at: row.timestamp })),
+    ENTRY_PRICE_MAX_AGE_MS
+  );
+  const snapshotByRow = new Map(unpriced.map((row, index) => [row, snapshots[index]]));
+
+  return rows.map((row) => {
+    if (row.price !== null) {
+      return Number(row.price);
+    }
+    const snapshot = snapshotByRow.get(row);
+    return snapshot ? sidePrice({ yesPrice: snapshot.price, noPrice: snapshot.noPrice }, row.side) : null;
+  });
+}
+
+// --- Public API ---
+
+/**
+ * Positions, mark-to-market PnL and recent trades for a wallet
+ */
+export async function getPortfolio(userAddress: string): Promise<PortfolioResponse> {
+  const rows = await getUserTrades(userAddress, MAX_PORTFOLIO_TRADES);
+
+  const entryPrices = await resolveEntryPrices(rows);
+
+  const trades: PortfolioTrade[] = rows.map((row, index) => ({
+    id: row.id,
+    tradeId: row.tradeId.toString(),
+    marketId: row.marketId,
+    side: row.side,
+    amount: weiToUsd(row.amount.toString()),
+    fee: weiToUsd(row.fee.toString()),
+    entryPrice: entryPrices[index],
+    txHash: row.txHash ?? undefined,
+    timestamp: row.timestamp.getTime(),
+  }));
+
+  const heldMarketIds = Array.from(new Set(trades.map((trade) => String(trade.marketId))));
+  const marks: Record<string, PortfolioMark> = {};
+  const resolutions: Record<string, PortfolioResolution> = {};
+
+  if (heldMarketIds.length > 0) {
+    const stored = await getMarketResolutions({ platform: "opinion", marketIds: heldMarketIds });
+    for (const resolution of stored) {
+      resolvedMarkets.set(resolution.marketId, {
+        outcome: resolution.outcome,
+        resolvedAt: resolution.resolvedAt,
+      });
+    }
+
+    const live = await loadLiveMarkets();
+    const liveById = new Map(live.map((snapshot) => [snapshot.marketId, snapshot]));
+    const missing: string[] = [];
+
+    for (const marketId of heldMarketIds) {
+      const snapshot = liveById.get(marketId);
+      const resolved = resolvedMarkets.get(marketId);
+      if (resolved) {
+        resolutions[marketId] = resolved;
+      } else if (snapshot) {
+        marks[marketId] = {
+          yesPrice: snapshot.price,
+          noPrice: snapshot.noPrice,
+          marketTitle: snapshot.marketTitle,
+          url: snapshot.url,
+        };
+      } else {
+        missing.push(marketId);
+      }
+    }
+
+    await loadMissingMarkets(missing, marks, resolutions);
+  }
+
+  const { positions, summary } = buildPortfolio(trades, marks, resolutions);
+
+  return {
+    address: userAddress.toLowerCase(),
+    positions,
+    summary,
+    trades: trades.slice(0, RECENT_TRADES),
+    updatedAt: Date.now(),
+  };
+}
@@ -13,6 +13,8 @@
 
 import "server-only";
 
+import { createHttpClient } from "@/lib/http";
+
 // --- Types for Predict.fun API responses (placeholder) ---
 
 export interface PredictFunMarket {
@@ -40,9 +42,7 @@ export interface PredictFunTokenPrice {
 
 // --- Configuration ---
 
-const TIMEOUT_MS = 7000;
-const MAX_RETRIES = 2;
-const INITIAL_BACKOFF_MS = 500;
+const http = createHttpClient("predictfun", { label: "Predict.fun API" });
 
 // --- Helper Functions ---
 
@@ -58,69 +58,6 @@ function getConfig() {
   return { apiKey, baseUrl };
 }
 
-async function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-async function fetchWithTimeout(
-  url: string,
-  options: RequestInit,
-  timeoutMs: number
-): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-    });
-    return response;
-  } finally {
-    clearTimeout(timeoutId);
-  }
-}
-
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit
-): Promise<Response> {
-  let lastError: Error | null = null;
-  let backoffMs = INITIAL_BACKOFF_MS;
-
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      const response = await fetchWithTimeout(url, options, TIMEOUT_MS);
-
-      if (response.ok) {
-        return response;
-      }
-
-      if ((response.status === 429 || response.status >= 500) && attempt < MAX_RETRIES) {
-        await sleep(backoffMs);
-        backoffMs *= 2;
-        continue;
-      }
-
-      throw new Error(`Predict.fun API error: ${response.status} ${response.statusText}`);
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      if (lastError.name === "AbortError" || lastError.message.includes("aborted")) {
-        lastError = new Error(`Predict.fun API request timed out after ${TIMEOUT_MS}ms`);
-      }
-
-      if (attempt < MAX_RETRIES) {
-        await sleep(backoffMs);
-        backoffMs *= 2;
-        continue;
-      }
-    }
-  }
-
-  throw lastError || new Error("Predict.fun API request failed");
-}
-
 // --- Public API (Placeholder) ---
 
 /**
@@ -160,7 +97,7 @@ export async function fetchPredictFunMarkets(
       headers["Authorization"] = `Bearer ${apiKey}`;
     }
 
-    const response = await fetchWithRetry(url.toString(), {
+    const response = await http.fetch(url.toString(), {
       method: "GET",
       headers,
     });
@@ -211,7 +148,7 @@ export async function fetchPredictFunMarketPrice(
       headers["Authorization"] = `Bearer ${apiKey}`;
     }
 
-    const response = await fetchWithRetry(url.toString(), {
+    const response = await http.fetch(url.toString(), {
       method: "GET",
       headers,
     });
@@ -0,0 +1,83 @@
+/**
+ * Price history downsampling
+ *
+ * Turns recorded price snapshots into OHLC candles for charting,
+ * backtesting and spread audits.
+ */
+
+import type { CandleInterval, PriceCandle } from "./types";
+
+// --- Types ---
+
+export interface PricePoint {
+  price: number;
+  timestamp: number;
+}
+
+// --- Configuration ---
+
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  "1m": 60_000,
+  "1h": 60 * 60_000,
+  "1d": 24 * 60 * 60_000,
+};
+
+/** Default lookback when no range is requested */
+export const DEFAULT_LOOKBACK_MS: Record<CandleInterval, number> = {
+  "1m": 6 * 60 * 60_000, // 6 hours
+  "1h": 7 * 24 * 60 * 60_000, // 7 days
+  "1d": 180 * 24 * 60 * 60_000, // 180 days
+};
+
+// --- Public API ---
+
+/**
+ * Check whether a value is a supported candle interval
+ */
+export function isCandleInterval(value: unknown): value is CandleInterval {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(CANDLE_INTERVAL_MS, value);
+}
+
+/**
+ * Downsample price points into OHLC candles
+ *
+ * Points may arrive unsorted. Intervals without any points are omitted
+ * rather than forward-filled.
+ *
+ * @param points - Recorded price points
+ * @param interval - Candle interval
+ * @returns Candles sorted by open time
+ */
+export function buildCandles(points: PricePoint[], interval: CandleInterval): PriceCandle[] {
+  const intervalMs = CANDLE_INTERVAL_MS[interval];
+  const sorted = points
+    .filter((point) => Number.isFinite(point.price) && Number.isFinite(point.timestamp))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const candles: PriceCandle[] = [];
+  let current: PriceCandle | null = null;
+
+  for (const point of sorted) {
+    const openTime = Math.floor(point.timestamp / intervalMs) * intervalMs;
+
+    if (!current || current.openTime !== openTime) {
+      current = {
+        openTime,
+        open: point.price,
+        high: point.price,
+        low: point.price,
+        close: point.price,
+        samples: 1,
+      };
+      candles.push(current);
+      continue;
+    }
+
+    current.high = Math.max(current.high, point.price);
+    current.low = Math.min(current.low, point.price);
+    current.close = point.price;
+    current.samples += 1;
+  }
+
+  return candles;
+}
@@ -0,0 +1,272 @@
+/**
+ * Resolution-criteria comparison
+ *
+ * Markets clustered by title can still resolve differently: one venue
+ * settles on Coinbase at 12:00 ET, another on Binance at midnight UTC.
+ * Rules text is parsed into resolution source, deadline and timezone, and
+ * clusters whose markets disagree carry the mismatches plus a lowered
+ * confidence score so apparent arbitrage can be discounted.
+ */
+
+import type {
+  ClusterMarket,
+  MarketCluster,
+  ResolutionCriteria,
+  ResolutionField,
+  ResolutionMismatch,
+} from "./types";
+
+// --- Configuration ---
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAJOR_DEADLINE_GAP_MS = 24 * HOUR_MS;
+const MINOR_DEADLINE_GAP_MS = HOUR_MS; // Tolerates daylight-saving drift between fixed offsets
+
+// Multiplied into cluster confidence per mismatch
+const CONFIDENCE_PENALTIES: Record<ResolutionField, Record<ResolutionMismatch["severity"], number>> = {
+  source: { major: 0.5, minor: 0.8 },
+  deadline: { major: 0.6, minor: 0.85 },
+  timezone: { major: 0.9, minor: 0.9 },
+};
+
+// Canonical keys for sources venues name in different ways
+const KNOWN_SOURCES: [string, RegExp][] = [
+  ["coinbase", /\bcoinbase\b/i],
+  ["binance", /\bbinance\b/i],
+  ["kraken", /\bkraken\b/i],
+  ["coingecko", /\bcoingecko\b/i],
+  ["coinmarketcap", /\bcoinmarketcap\b/i],
+  ["chainlink", /\bchainlink\b/i],
+  ["pyth", /\bpyth\b/i],
+  ["cme", /\bcme\b/i],
+  ["bls", /\b(?:bls|bureau of labor statistics)\b/i],
+  ["bea", /\b(?:bea|bureau of economic analysis)\b/i],
+  ["federal-reserve", /\b(?:federal reserve|fomc)\b/i],
+  ["associated-press", /\b(?:[Aa]ssociated [Pp]ress|AP)\b/],
+  ["reuters", /\breuters\b/i],
+  ["espn", /\bespn\b/i],
+  ["official", /\bofficial (?:results?|sources?|announcement)\b/i],
+];
+
+// Phrases run to the end of the sentence; dots inside URLs don't end it
+const EXPLICIT_SOURCE_PATTERNS = [
+  /resolution source(?: for this market)?(?: is| will be|:)\s*(?:the )?((?:[^.\n;,]|\.(?=\S))+)/i,
+  /resolve[sd]?(?: to "?yes"?)? (?:according to|based on|using|per|by reference to) (?:the )?((?:[^.\n;,]|\.(?=\S))+)/i,
+  /(?:according to|as reported by|as published by|data from) (?:the )?((?:[^.\n;,]|\.(?=\S))+)/i,
+];
+const SOURCE_PHRASE_END = /\s+(?:at|on|as of|by|for|before|after|when|if)\s+/i;
+
+const URL_PATTERN = /https?:\/\/(?:www\.)?([a-z0-9.-]+\.[a-z]{2,})/i;
+
+const TIMEZONES: Record<string, { zone: string; offsetHours: number }> = {
+  et: { zone: "ET", offsetHours: -5 },
+  est: { zone: "ET", offsetHours: -5 },
+  edt: { zone: "ET", offsetHours: -4 },
+  ct: { zone: "CT", offsetHours: -6 },
+  cst: { zone: "CT", offsetHours: -6 },
+  cdt: { zone: "CT", offsetHours: -5 },
+  pt: { zone: "PT", offsetHours: -8 },
+  pst: { zone: "PT", offsetHours: -8 },
+  pdt: { zone: "PT", offsetHours: -7 },
+  utc: { zone: "UTC", offsetHours: 0 },
+  gmt: { zone: "UTC", offsetHours: 0 },
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DATE_PATTERN =
+  /\b(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/i;
+const TIME_PATTERN =
+  /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?\s*\(?\b(et|est|edt|ct|cst|cdt|pt|pst|pdt|utc|gmt)\b\)?/i;
+const NAMED_TIME_PATTERN = /\b(noon|midnight)\s*\(?\b(et|est|edt|ct|cst|cdt|pt|pst|pdt|utc|gmt)\b\)?/i;
+
+// --- Helper Functions ---
+
+function canonicalizeSource(text: string): string | undefined {
+  for (const [key, pattern] of KNOWN_SOURCES) {
+    if (pattern.test(text)) {
+      return key;
+    }
+  }
+  return undefined;
+}
+
+function extractSource(text: string): string | undefined {
+  for (const pattern of EXPLICIT_SOURCE_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      const phrase = match[1].split(SOURCE_PHRASE_END)[0].trim();
+      const url = phrase.match(URL_PATTERN);
+      return (
+        canonicalizeSource(phrase) ??
+        url?.[1].toLowerCase() ??
+        phrase.toLowerCase().split(/\s+/).slice(0, 4).join(" ")
+      );
+    }
+  }
+
+  return canonicalizeSource(text) ?? text.match(URL_PATTERN)?.[1].toLowerCase();
+}
+
+function extractTime(text: string): { hours: number; minutes: number; zone: string; offsetHours: number } | null {
+  const named = text.match(NAMED_TIME_PATTERN);
+  if (named) {
+    const timezone = TIMEZONES[named[2].toLowerCase()];
+    const isNoon = named[1].toLowerCase() === "noon";
+    return { hours: isNoon ? 12 : 0, minutes: 0, ...timezone };
+  }
+
+  const match = text.match(TIME_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  let hours = Number(match[1]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, "");
+  if (hours > 23 || minutes > 59 || (!match[2] && !meridiem)) {
+    return null;
+  }
+  if (meridiem === "pm" && hours < 12) {
+    hours += 12;
+  } else if (meridiem === "am" && hours === 12) {
+    hours = 0;
+  }
+
+  return { hours, minutes, ...TIMEZONES[match[4].toLowerCase()] };
+}
+
+function formatDeadline(deadline: number): string {
+  return new Date(deadline).toISOString().replace(".000Z", "Z");
+}
+
+function buildMismatch(
+  field: ResolutionField,
+  markets: ClusterMarket[],
+  format: (criteria: ResolutionCriteria) => string | undefined,
+  severity: ResolutionMismatch["severity"]
+): ResolutionMismatch {
+  return {
+    field,
+    severity,
+    values: markets.flatMap((market) => {
+      const value = market.resolution ? format(market.resolution) : undefined;
+      return value ? [{ platform: market.platform, marketId: market.marketId, value }] : [];
+    }),
+  };
+}
+
+// --- Public API ---
+
+/**
+ * Parse resolution source, deadline and timezone from a market's rules
+ *
+ * The deadline falls back to the venue's close time when the rules don't
+ * state one.
+ *
+ * @param rules - Description/rules text as listed by the venue
+ * @param expiresAt - Venue close time (ms), if known
+ */
+export function extractResolutionCriteria(rules: string | undefined, expiresAt?: number): ResolutionCriteria {
+  const text = rules?.replace(/\s+/g, " ").trim() ?? "";
+  const criteria: ResolutionCriteria = {};
+
+  const source = text ? extractSource(text) : undefined;
+  if (source) {
+    criteria.source = source;
+  }
+
+  const time = text ? extractTime(text) : null;
+  if (time) {
+    criteria.timezone = time.zone;
+  }
+
+  const date = text.match(DATE_PATTERN);
+  if (date) {
+    const month = MONTHS.indexOf(date[1].slice(0, 3).toLowerCase());
+    // A date without a time means the end of that day
+    const hours = time ? time.hours - time.offsetHours : 23;
+    const minutes = time ? time.minutes : 59;
+    criteria.deadline = Date.UTC(Number(date[3]), month, Number(date[2]), hours, minutes);
+  } else if (expiresAt !== undefined) {
+    criteria.deadline = expiresAt;
+  }
+
+  return criteria;
+}
+
+/**
+ * Compare resolution terms across a cluster's markets
+ *
+ * Only markets whose rules state a value take part in each comparison, so
+ * a venue that says nothing about its source never causes a mismatch.
+ */
+export function findResolutionMismatches(markets: ClusterMarket[]): ResolutionMismatch[] {
+  const mismatches: ResolutionMismatch[] = [];
+
+  const sources = new Set(markets.map((market) => market.resolution?.source).filter(Boolean));
+  if (sources.size > 1) {
+    mismatches.push(buildMismatch("source", markets, (criteria) => criteria.source, "major"));
+  }
+
+  const deadlines = markets
+    .map((market) => market.resolution?.deadline)
+    .filter((deadline): deadline is number => deadline !== undefined);
+  if (deadlines.length > 1) {
+    const gap = Math.max(...deadlines) - Math.min(...deadlines);
+    if (gap > MINOR_DEADLINE_GAP_MS) {
+      const severity = gap > MAJOR_DEADLINE_GAP_MS ? "major" : "minor";
+      mismatches.push(
+        buildMismatch(
+          "deadline",
+          markets,
+          (criteria) => (criteria.deadline !== undefined ? formatDeadline(criteria.deadline) : undefined),
+          severity
+        )
+      );
+    }
+  }
+
+  const timezones = new Set(markets.map((market) => market.resolution?.timezone).filter(Boolean));
+  if (timezones.size > 1) {
+    mismatches.push(buildMismatch("timezone", markets, (criteria) => criteria.timezone, "minor"));
+  }
+
+  return mismatches;
+}
+
+/**
+ * Confidence (0-1) that markets with these mismatches settle the same way
+ */
+export function scoreResolutionConfidence(mismatches: ResolutionMismatch[]): number {
+  const confidence = mismatches.reduce(
+    (score, mismatch) => score * CONFIDENCE_PENALTIES[mismatch.field][mismatch.severity],
+    1
+  );
+  return Number(confidence.toFixed(4));
+}
+
+/**
+ * Attach parsed resolution terms, mismatches and a confidence score to a cluster
+ *
+ * Confidence starts at 1 and is multiplied down per mismatch; single-venue
+ * clusters are returned with their markets annotated only.
+ */
+export function analyzeClusterResolution(cluster: MarketCluster): MarketCluster {
+  const markets = cluster.markets.map((market) => ({
+    ...market,
+    resolution: market.resolution ?? extractResolutionCriteria(market.description, market.expiresAt),
+  }));
+
+  if (cluster.platformCount < 2) {
+    return { ...cluster, markets };
+  }
+
+  const resolutionMismatches = findResolutionMismatches(markets);
+
+  return {
+    ...cluster,
+    markets,
+    confidence: scoreResolutionConfidence(resolutionMismatches),
+    resolutionMismatches,
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Market resolution tracking (server-side only)
+ *
+ * Polls every venue that lists resolved markets, stores new outcomes and
+ * settles indexed TradeRouter trades on them (won/lost per trade, counted
+ * in `UserMetrics`). Polls are throttled and shared between concurrent
+ * requests; resolutions seen since startup are kept in memory so the API
+ * still works without a database.
+ */
+
+import "server-only";
+
+import type {
+  MarketResolution,
+  PlatformSource,
+  PlatformSourceState,
+  ResolutionPostMortem,
+  ResolvedMarketsResponse,
+} from "@/lib/types";
+import { sanitizeError } from "@/lib/security";
+import { listMarketSources } from "@/lib/adapters";
+import { buildResolutionPostMortems, mergeResolutions } from "@/lib/marketResolutions";
+import { getMarketResolutions, recordMarketResolutions, settleResolvedTrades } from "@/lib/database/queries";
+
+// --- Types ---
+
+export interface ResolutionPoll {
+  polledAt: number;
+  resolutions: MarketResolution[]; // Every resolution seen since startup, newest first
+  sources: Partial<Record<PlatformSource, PlatformSourceState>>;
+  newResolutions: number; // Stored by this poll
+  settledTrades: number;
+}
+
+interface ResolvedMarkets {
+  polledAt: number; // Poll the entry was built from
+  resolutions: MarketResolution[];
+  postMortems: ResolutionPostMortem[];
+}
+
+// --- Configuration ---
+
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+const POLL_LIMIT = 100; // Most recent resolutions requested per venue
+const MAX_REMEMBERED = 2000;
+const MAX_STORED_LOOKUP = 1000;
+const MAX_CACHED_QUERIES = 20;
+
+let lastPoll: ResolutionPoll | null = null;
+let inflight: Promise<ResolutionPoll> | null = null;
+
+// Merged resolutions and post-mortems per `since`, rebuilt after each poll
+const resolvedCache = new Map<string, ResolvedMarkets>();
+
+// --- Helper Functions ---
+
+async function pollVenues(): Promise<ResolutionPoll> {
+  const sources: Partial<Record<PlatformSource, PlatformSourceState>> = {};
+
+  const results = await Promise.all(
+    listMarketSources().map(async (adapter) => {
+      if (!adapter.fetchResolutions) {
+        return [];
+      }
+      try {
+        const data = await adapter.fetchResolutions(POLL_LIMIT);
+        sources[adapter.id] = { status: "live" };
+        return data;
+      } catch (error) {
+        sources[adapter.id] = { status: "error", error: sanitizeError(error) };
+        return [];
+      }
+    })
+  );
+
+  // Earlier sightings win, so first-seen resolution times stay stable
+  const resolutions = mergeResolutions(lastPoll?.resolutions ?? [], ...results).slice(0, MAX_REMEMBERED);
+
+  let newResolutions = 0;
+  let settledTrades = 0;
+  try {
+    newResolutions = await recordMarketResolutions(results.flat());
+    settledTrades = await settleResolvedTrades();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn("[Resolutions] Failed to store resolutions or settle trades:", errorMessage);
+  }
+
+  return { polledAt: Date.now(), resolutions, sources, newResolutions, settledTrades };
+}
+
+/**
+ * Stored and polled resolutions with their post-mortems
+ *
+ * Clustering a few thousand resolutions is too slow to repeat on every
+ * request, and the inputs only change when venues are polled, so results
+ * are cached until the next poll.
+ */
+async function loadResolvedMarkets(poll: ResolutionPoll, since?: number): Promise<ResolvedMarkets> {
+  const key = since === undefined ? "all" : String(since);
+  const cached = resolvedCache.get(key);
+  if (cached && cached.polledAt === poll.polledAt) {
+    return cached;
+  }
+
+  let stored: MarketResolution[] = [];
+  try {
+    stored = await getMarketResolutions({
+      since: since === undefined ? undefined : new Date(since),
+      limit: MAX_STORED_LOOKUP,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn("[Resolutions] Failed to load stored resolutions:", errorMessage);
+  }
+
+  const resolutions = mergeResolutions(
+    stored,
+    poll.resolutions.filter((resolution) => since === undefined || resolution.resolvedAt >= since)
+  );
+  const entry = { polledAt: poll.polledAt, resolutions, postMortems: buildResolutionPostMortems(resolutions) };
+
+  resolvedCache.delete(key);
+  if (resolvedCache.size >= MAX_CACHED_QUERIES) {
+    resolvedCache.delete(resolvedCache.keys().next().value!); // Oldest entry
+  }
+  resolvedCache.set(key, entry);
+  return entry;
+}
+
+// --- Public API ---
+
+/**
+ * Poll venues for resolved markets, at most once per poll interval unless forced
+ */
+export async function syncResolutions(force: boolean = false): Promise<ResolutionPoll> {
+  if (!force && lastPoll && Date.now() - lastPoll.polledAt < POLL_INTERVAL_MS) {
+    return lastPoll;
+  }
+
+  if (!inflight) {
+    inflight = pollVenues()
+      .then((poll) => {
+        lastPoll = poll;
+        return poll;
+      })
+      .finally(() => {
+        inflight = null;
+      });
+  }
+
+  return inflight;
+}
+
+/**
+ * Resolved markets (stored and recently polled) with cross-venue post-mortems
+ *
+ * @param options.platform - Only this venue's resolutions, and post-mortems it is part of
+ * @param options.since - Only markets resolved at or after this time (ms)
+ * @param options.limit - Maximum resolutions to return
+ */
+export async function getResolvedMarkets(
+  options: { platform?: PlatformSource; since?: number; limit: number }
+): Promise<ResolvedMarketsResponse> {
+  const poll = await syncResolutions();
+  const all = await loadResolvedMarkets(poll, options.since);
+
+  const postMortems = all.postMortems.filter(
+    (postMortem) =>
+      !options.platform || postMortem.resolutions.some((resolution) => resolution.platform === options.platform)
+  );
+  const resolutions = all.resolutions
+    .filter((resolution) => !options.platform || resolution.platform === options.platform)
+    .slice(0, options.limit);
+
+  return {
+    updatedAt: poll.polledAt,
+    resolutions,
+    postMortems,
+    sources: poll.sources,
+  };
+}
@@ -0,0 +1,369 @@
+/**
+ * Runtime schemas for upstream payloads
+ *
+ * Venue responses are untyped JSON whose field names and types drift
+ * without notice. Schemas built from these combinators turn one record
+ * into a typed value, or into a single issue naming the field that failed
+ * ("missing yes price"). Parse reports count those issues per field, so a
+ * source can say why it dropped records instead of skipping them silently.
+ */
+
+import type { ParseReport } from "./types";
+
+// --- Types ---
+
+export type ParseProblem = "missing" | "invalid";
+
+export interface ParseIssue {
+  field: string; // Field label, e.g. "yes price"
+  problem: ParseProblem;
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; issue: ParseIssue };
+
+/**
+ * Parses one value; `field` labels the issue when it fails
+ */
+export type Schema<T> = (value: unknown, field: string) => ParseResult<T>;
+
+export interface Field<T, Required extends boolean = boolean> {
+  keys: string[]; // Alternative names, first present wins; dots descend, e.g. "outcomes.0.price"
+  schema: Schema<T>;
+  label: string;
+  required: Required;
+}
+
+export type Shape = Record<string, Field<any>>;
+
+export type Infer<S extends Shape> = {
+  [K in keyof S]: S[K] extends Field<infer T, true> ? T : S[K] extends Field<infer T, false> ? T | undefined : never;
+};
+
+export type Output<S> = S extends Schema<infer T> ? T : never;
+
+// --- Configuration ---
+
+const MIN_VALID_TIMESTAMP_MS = Date.UTC(2000, 0, 1);
+
+// Latest market payload report per source
+const reports = new Map<string, ParseReport>();
+
+// --- Helper Functions ---
+
+/**
+ * Null, undefined and blank strings all count as absent
+ */
+function isAbsent(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function getPath(record: Record<string, unknown>, key: string): unknown {
+  let value: unknown = record;
+  for (const part of key.split(".")) {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+function toNumber(value: unknown): number | null {
+  const parsed = typeof value === "string" ? Number(value.trim()) : typeof value === "number" ? value : NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// --- Primitives ---
+
+/**
+ * Results for hand-written schemas and `refine` checks
+ */
+export function ok<T>(value: T): ParseResult<T> {
+  return { ok: true, value };
+}
+
+export function fail(field: string, problem: ParseProblem): ParseResult<never> {
+  return { ok: false, issue: { field, problem } };
+}
+
+/**
+ * Non-blank string
+ */
+export const text: Schema<string> = (value, field) => {
+  if (isAbsent(value)) {
+    return fail(field, "missing");
+  }
+  return typeof value === "string" ? ok(value) : fail(field, "invalid");
+};
+
+/**
+ * Identifier sent as a string or a number
+ */
+export const id: Schema<string> = (value, field) => {
+  if (isAbsent(value)) {
+    return fail(field, "missing");
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return ok(String(value));
+  }
+  return typeof value === "string" ? ok(value) : fail(field, "invalid");
+};
+
+/**
+ * Finite number, or a string holding one
+ */
+export const numeric: Schema<number> = (value, field) => {
+  if (isAbsent(value)) {
+    return fail(field, "missing");
+  }
+  const parsed = toNumber(value);
+  return parsed === null ? fail(field, "invalid") : ok(parsed);
+};
+
+/**
+ * Probability between 0 and 1; values up to 100 are read as cents
+ */
+export const price: Schema<number> = (value, field) => {
+  const parsed = numeric(value, field);
+  if (!parsed.ok) {
+    return parsed;
+  }
+  if (parsed.value < 0 || parsed.value > 100) {
+    return fail(field, "invalid");
+  }
+  return ok(parsed.value > 1 ? parsed.value / 100 : parsed.value);
+};
+
+/**
+ * Epoch seconds or milliseconds, or a date string, as milliseconds after 2000
+ */
+export const timestamp: Schema<number> = (value, field) => {
+  if (isAbsent(value)) {
+    return fail(field, "missing");
+  }
+
+  const numberValue = toNumber(value);
+  let parsed: number;
+  if (numberValue !== null) {
+    parsed = numberValue < 1_000_000_000_000 ? numberValue * 1000 : numberValue;
+  } else if (typeof value === "string") {
+    parsed = Date.parse(value.trim());
+  } else {
+    return fail(field, "invalid");
+  }
+
+  return Number.isFinite(parsed) && parsed >= MIN_VALID_TIMESTAMP_MS ? ok(parsed) : fail(field, "invalid");
+};
+
+/**
+ * Boolean, or the strings "true" and "false"
+ */
+export const boolean: Schema<boolean> = (value, field) => {
+  if (isAbsent(value)) {
+    return fail(field, "missing");
+  }
+  if (typeof value === "boolean") {
+    return ok(value);
+  }
+  return value === "true" || value === "false" ? ok(value === "true") : fail(field, "invalid");
+};
+
+// --- Combinators ---
+
+/**
+ * Schema from a parser that returns null for values it rejects
+ */
+export function fromParser<T>(parse: (value: unknown) => T | null): Schema<T> {
+  return (value, field) => {
+    if (isAbsent(value)) {
+      return fail(field, "missing");
+    }
+    const parsed = parse(value);
+    return parsed === null ? fail(field, "invalid") : ok(parsed);
+  };
+}
+
+/**
+ * Check or derive from an already parsed value, e.g. pick the yes price
+ * among several candidates
+ */
+export function refine<T, U>(schema: Schema<T>, check: (value: T, field: string) => ParseResult<U>): Schema<U> {
+  return (value, field) => {
+    const parsed = schema(value, field);
+    return parsed.ok ? check(parsed.value, field) : parsed;
+  };
+}
+
+/**
+ * Array whose items are parsed one by one; items that fail are left out
+ */
+export function arrayOf<T>(item: Schema<T>): Schema<T[]> {
+  return (value, field) => {
+    if (isAbsent(value)) {
+      return fail(field, "missing");
+    }
+    if (!Array.isArray(value)) {
+      return fail(field, "invalid");
+    }
+    const items: T[] = [];
+    for (const entry of value) {
+      const parsed = item(entry, field);
+      if (parsed.ok) {
+        items.push(parsed.value);
+      }
+    }
+    return ok(items);
+  };
+}
+
+/**
+ * First schema that accepts the value; otherwise the last one's issue
+ */
+export function oneOf<A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> {
+  return (value, field) => {
+    const parsed = first(value, field);
+    return parsed.ok ? parsed : second(value, field);
+  };
+}
+
+/**
+ * Required field; a record without it fails with "missing <label>"
+ */
+export function field<T>(keys: string | string[], schema: Schema<T>, label: string): Field<T, true> {
+  return { keys: Array.isArray(keys) ? keys : [keys], schema, label, required: true };
+}
+
+/**
+ * Optional field; absent or invalid values parse as undefined
+ */
+export function optional<T>(keys: string | string[], schema: Schema<T>): Field<T, false> {
+  const list = Array.isArray(keys) ? keys : [keys];
+  return { keys: list, schema, label: list[0], required: false };
+}
+
+/**
+ * Object with the given fields
+ *
+ * Each field reads the first of its keys that is present, so a present
+ * but invalid value is not replaced by a later alias.
+ */
+export function object<S extends Shape>(shape: S): Schema<Infer<S>> {
+  return (value, label) => {
+    if (!isRecord(value)) {
+      return fail(label, isAbsent(value) ? "missing" : "invalid");
+    }
+
+    const parsed: Record<string, unknown> = {};
+    for (const [name, spec] of Object.entries(shape)) {
+      const raw = spec.keys.map((key) => getPath(value, key)).find((candidate) => !isAbsent(candidate));
+      if (raw === undefined) {
+        if (spec.required) {
+          return fail(spec.label, "missing");
+        }
+        parsed[name] = undefined;
+        continue;
+      }
+
+      const result = spec.schema(raw, spec.label);
+      if (!result.ok && spec.required) {
+        return result;
+      }
+      parsed[name] = result.ok ? result.value : undefined;
+    }
+
+    return ok(parsed as Infer<S>);
+  };
+}
+
+// --- Public API ---
+
+/**
+ * Parse a single value, or null when it fails
+ */
+export function parseValue<T>(schema: Schema<T>, value: unknown, label: string = "value"): T | null {
+  const parsed = schema(value, label);
+  return parsed.ok ? parsed.value : null;
+}
+
+/**
+ * Human-readable issue, e.g. "missing yes price"
+ */
+export function describeIssue(issue: ParseIssue): string {
+  return `${issue.problem} ${issue.field}`;
+}
+
+/**
+ * Empty report for a payload of `received` records
+ */
+export function createParseReport(received: number = 0): ParseReport {
+  return { received, dropped: 0, issues: {} };
+}
+
+/**
+ * Count a record dropped for `issue`
+ */
+export function dropRecord(report: ParseReport, issue: ParseIssue): void {
+  const key = describeIssue(issue);
+  report.dropped++;
+  report.issues[key] = (report.issues[key] ?? 0) + 1;
+}
+
+/**
+ * Parse every record of a payload, keeping the ones that pass
+ *
+ * @returns Parsed records and a report counting the dropped ones per issue
+ */
+export function parseRecords<T>(
+  records: unknown[],
+  schema: Schema<T>,
+  label: string = "record"
+): { values: T[]; report: ParseReport } {
+  const report = createParseReport(records.length);
+  const values: T[] = [];
+
+  for (const record of records) {
+    const parsed = schema(record, label);
+    if (parsed.ok) {
+      values.push(parsed.value);
+    } else {
+      dropRecord(report, parsed.issue);
+    }
+  }
+
+  return { values, report };
+}
+
+/**
+ * Summarize a report, e.g. "42 of 50 markets dropped: missing yes price"
+ *
+ * Several issues are listed most frequent first with their counts.
+ * Returns undefined when nothing was dropped.
+ */
+export function formatParseReport(report: ParseReport, noun: string = "markets"): string | undefined {
+  if (report.dropped === 0) {
+    return undefined;
+  }
+
+  const issues = Object.entries(report.issues).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  const reasons =
+    issues.length === 1 ? issues[0][0] : issues.map(([issue, count]) => `${issue} (${count})`).join(", ");
+  return `${report.dropped} of ${report.received} ${noun} dropped: ${reasons}`;
+}
+
+/**
+ * Keep the report for a source's latest market payload
+ */
+export function recordParseReport(source: string, report: ParseReport): void {
+  reports.set(source, report);
+}
+
+/**
+ * Report for a source's latest market payload, or null if it has parsed none yet
+ */
+export function getParseReport(source: string): ParseReport | null {
+  return reports.get(source) ?? null;
+}
@@ -2,7 +2,9 @@
  * Security utilities: CORS, error handling, etc.
  */
 
-import type { NextResponse } from "next/server";
+import { timingSafeEqual } from "node:crypto";
+import type { NextRequest, NextResponse } from "next/server";
+import { getSession } from "./session";
 
 /**
  * Get CORS headers
@@ -53,3 +55,35 @@ export function addSecurityHeaders<T>(response: NextResponse<T>): NextResponse<T
 
   return response;
 }
+
+/**
+ * Identify the admin behind a request
+ *
+ * Admins are wallets in ADMIN_ADDRESSES with a SIWE session, or scripts
+ * sending `Authorization: Bearer <ADMIN_API_TOKEN>`.
+ *
+ * @returns The admin wallet address, "api-token", or null for non-admins
+ */
+export function getAdminActor(request: NextRequest): string | null {
+  const session = getSession(request);
+  if (session?.role === "admin") {
+    return session.address;
+  }
+
+  const token = process.env.ADMIN_API_TOKEN;
+  const header = request.headers.get("authorization");
+  if (!token || !header?.startsWith("Bearer ")) {
+    return null;
+  }
+
+  const expected = Buffer.from(token);
+  const provided = Buffer.from(header.slice("Bearer ".length).trim());
+  return expected.length === provided.length && timingSafeEqual(expected, provided) ? "api-token" : null;
+}
+
+/**
+ * Check the request comes from an admin (see getAdminActor)
+ */
+export function isAdminRequest(request: NextRequest): boolean {
+  return getAdminActor(request) !== null;
+}
@@ -0,0 +1,256 @@
+/**
+ * Sign-In-With-Ethereum sessions
+ *
+ * Login is a two-step EIP-4361 flow: the client fetches a nonce (kept in a
+ * short-lived HTTP-only cookie), signs a SIWE message containing it, and
+ * posts the message back. A verified login gets an HMAC-signed session
+ * cookie holding the address and role, so routes can check it without a
+ * database round trip.
+ *
+ * Wallets listed in ADMIN_ADDRESSES get the "admin" role; everyone else is
+ * a "user". Sessions are disabled while SESSION_SECRET is unset.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { NextResponse, type NextRequest } from "next/server";
+import { verifyMessage } from "viem";
+import { parseSiweMessage, validateSiweMessage } from "viem/siwe";
+import type { Session, SessionRole } from "./types";
+import { getCorsHeaders } from "./security";
+
+// --- Configuration ---
+
+export const SESSION_COOKIE = "pmag_session";
+export const NONCE_COOKIE = "pmag_siwe_nonce";
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+export const NONCE_TTL_MS = 10 * 60 * 1000;
+
+const MIN_SECRET_LENGTH = 32;
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_TOKEN_LENGTH = 1024;
+
+// --- Helper Functions ---
+
+function getSessionSecret(): string | null {
+  const secret = process.env.SESSION_SECRET;
+  return secret && secret.length >= MIN_SECRET_LENGTH ? secret : null;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+function getAdminAddresses(): Set<string> {
+  return new Set(
+    (process.env.ADMIN_ADDRESSES ?? "")
+      .split(",")
+      .map((address) => address.trim().toLowerCase())
+      .filter(Boolean)
+  );
+}
+
+function readCookie(request: NextRequest, name: string): string | undefined {
+  return request.cookies.get(name)?.value;
+}
+
+// --- Public API ---
+
+/**
+ * Whether session auth is configured
+ */
+export function isSessionAuthEnabled(): boolean {
+  return getSessionSecret() !== null;
+}
+
+/**
+ * Random alphanumeric nonce for a SIWE message
+ */
+export function generateNonce(): string {
+  return randomBytes(16).toString("hex");
+}
+
+/**
+ * Role for a wallet, from the ADMIN_ADDRESSES allowlist
+ */
+export function getSessionRole(address: string): SessionRole {
+  return getAdminAddresses().has(address.toLowerCase()) ? "admin" : "user";
+}
+
+/**
+ * Serialize and sign a session for the session cookie
+ */
+export function createSessionToken(session: Session, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(session)).toString("base64url");
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Verify a session token's signature and expiry
+ *
+ * @returns The session, or null if tampered with, malformed or expired
+ */
+export function readSessionToken(token: string, secret: string, now: number = Date.now()): Session | null {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0 || token.length > MAX_TOKEN_LENGTH) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload, secret));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return null;
+  }
+
+  try {
+    const session: Session = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    return typeof session.address === "string" && session.expiresAt > now ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify a signed SIWE login
+ *
+ * The message must be for this domain, carry the nonce issued to this
+ * client and be signed by the address it names.
+ *
+ * @param params.message - EIP-4361 message text the wallet signed
+ * @param params.signature - personal_sign signature over the message
+ * @param params.nonce - Nonce from the client's nonce cookie
+ * @param params.domain - Host the login was served from
+ * @returns The signer and chain, or a message describing why login failed
+ */
+export async function verifySiweLogin(params: {
+  message: string;
+  signature: string;
+  nonce: string | undefined;
+  domain: string;
+  now?: number;
+}): Promise<{ address: string; chainId: number } | { error: string }> {
+  const { message, signature, nonce, domain } = params;
+
+  if (!nonce) {
+    return { error: "Login nonce missing or expired; request a new one" };
+  }
+  if (message.length > MAX_MESSAGE_LENGTH || !/^0x[0-9a-fA-F]+$/.test(signature)) {
+    return { error: "Malformed SIWE message or signature" };
+  }
+
+  const fields = parseSiweMessage(message);
+  if (
+    !fields.address ||
+    !fields.chainId ||
+    !validateSiweMessage({ message: fields, domain, nonce, time: new Date(params.now ?? Date.now()) })
+  ) {
+    return { error: "SIWE message does not match this domain, nonce or time" };
+  }
+
+  try {
+    const valid = await verifyMessage({
+      address: fields.address,
+      message,
+      signature: signature as `0x${string}`,
+    });
+    if (!valid) {
+      return { error: "Signature does not match the message address" };
+    }
+  } catch {
+    return { error: "Signature does not match the message address" };
+  }
+
+  return { address: fields.address.toLowerCase(), chainId: fields.chainId };
+}
+
+/**
+ * Read the session from a request's cookie
+ *
+ * The role is re-derived from the current ADMIN_ADDRESSES on every
+ * request, so removing a wallet from the allowlist takes effect before
+ * its session cookie expires.
+ */
+export function getSession(request: NextRequest): Session | null {
+  const secret = getSessionSecret();
+  const token = readCookie(request, SESSION_COOKIE);
+  if (!secret || !token) {
+    return null;
+  }
+  const session = readSessionToken(token, secret);
+  return session ? { ...session, role: getSessionRole(session.address) } : null;
+}
+
+/**
+ * Build a session for a verified wallet
+ */
+export function createSession(login: { address: string; chainId: number }, now: number = Date.now()): Session {
+  return {
+    address: login.address,
+    role: getSessionRole(login.address),
+    chainId: login.chainId,
+    issuedAt: now,
+    expiresAt: now + SESSION_TTL_MS,
+  };
+}
+
+/**
+ * Set the session cookie and drop the spent login nonce
+ */
+export function setSessionCookie<T>(response: NextResponse<T>, session: Session): void {
+  const secret = getSessionSecret();
+  if (!secret) {
+    throw new Error("SESSION_SECRET is not configured");
+  }
+
+  response.cookies.set(SESSION_COOKIE, createSessionToken(session, secret), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: Math.floor((session.expiresAt - Date.now()) / 1000),
+  });
+  response.cookies.delete(NONCE_COOKIE);
+}
+
+/**
+ * Clear the session cookie
+ */
+export function endSession<T>(response: NextResponse<T>): void {
+  response.cookies.delete(SESSION_COOKIE);
+}
+
+/**
+ * Require a signed-in wallet, optionally with a role
+ *
+ * Routes send `result.response` when it is set:
+ *
+ *   const auth = requireSession(request, "admin");
+ *   if ("response" in auth) return addSecurityHeaders(auth.response);
+ *
+ * @returns The session, or a 401/403 response to send instead
+ */
+export function requireSession(
+  request: NextRequest,
+  role?: SessionRole
+): { session: Session } | { response: NextResponse } {
+  const session = getSession(request);
+
+  if (!session) {
+    return {
+      response: NextResponse.json(
+        { error: "UNAUTHORIZED", message: "Sign in with your wallet to continue" },
+        { status: 401, headers: getCorsHeaders() }
+      ),
+    };
+  }
+
+  if (role === "admin" && session.role !== "admin") {
+    return {
+      response: NextResponse.json(
+        { error: "FORBIDDEN", message: "Admin role required" },
+        { status: 403, headers: getCorsHeaders() }
+      ),
+    };
+  }
+
+  return { session };
+}
@@ -38,9 +38,14 @@ export interface OrderbookLevel {
   size: number;
 }
 
+/** Orderbook data source */
+export type OrderbookSource = "opinion" | "polymarket" | "mock";
+
 /** Orderbook data for a token */
 export interface TokenOrderbook {
   tokenId: string;
+  bids: OrderbookLevel[]; // Best (highest) price first
+  asks: OrderbookLevel[]; // Best (lowest) price first
   bestBid: OrderbookLevel | null;
   bestAsk: OrderbookLevel | null;
   spread: number | null;
@@ -50,10 +55,93 @@ export interface TokenOrderbook {
 /** Orderbook API response */
 export interface OrderbookResponse {
   tokenId: string;
+  source: OrderbookSource;
   orderbook: TokenOrderbook;
   timestamp: number;
 }
 
+/** Order direction for execution quotes */
+export type OrderSide = "buy" | "sell";
+
+/** Depth-aware execution estimate for an order against a token orderbook */
+export interface ExecutionQuote {
+  tokenId: string;
+  side: OrderSide;
+  requestedSize: number; // Shares requested (derived from notional for notional quotes)
+  requestedNotional?: number; // Set when the order was sized in dollars
+  filledSize: number;
+  unfilledSize: number; // Shares the visible book cannot fill
+  totalCost: number; // Notional paid (buy) or received (sell) for the filled size
+  averagePrice: number | null; // Volume-weighted average fill price
+  worstPrice: number | null; // Deepest level touched
+  midPrice: number | null;
+  slippage: number | null; // Average price vs mid, positive = worse for the trader
+  slippageBps: number | null;
+  levelsConsumed: number;
+}
+
+/** Execution quote API response */
+export interface QuoteResponse {
+  source: OrderbookSource;
+  quote: ExecutionQuote;
+  timestamp: number;
+}
+
+/** Lifecycle state of an order on the Opinion CLOB */
+export type OpinionOrderState = "pending" | "partially_filled" | "filled" | "cancelled" | "rejected";
+
+/** Opinion CLOB order status */
+export interface OpinionOrderStatus {
+  orderId: string;
+  status: OpinionOrderState;
+  marketId?: number;
+  maker?: string;
+  tokenId?: string;
+  side?: OrderSide;
+  price?: string;
+  filledAmount?: string; // Shares, wei
+  remainingAmount?: string;
+  txHash?: string;
+}
+
+/** Status change recorded for a tracked order */
+export interface OrderStatusChange {
+  from: OpinionOrderState | null; // null when the order was placed
+  to: OpinionOrderState;
+  filledAmount: string; // Shares filled at the change (wei)
+  at: number;
+}
+
+/** Order placed through /api/trades, reconciled against the Opinion CLOB */
+export interface TrackedOrder {
+  id: string; // CLOB order id
+  marketId: number;
+  tokenId: string;
+  maker: string; // Lowercased wallet address
+  side: OrderSide;
+  orderType: "limit" | "market";
+  price: number | null; // Limit price; null for market orders
+  makerAmount: string; // wei
+  takerAmount: string;
+  filledAmount: string; // Shares filled (wei)
+  status: OpinionOrderState;
+  txHash?: string;
+  createdAt: number;
+  updatedAt: number;
+  lastCheckedAt?: number; // Last reconciliation against the CLOB
+  partiallyFilledAt?: number;
+  filledAt?: number;
+  cancelledAt?: number;
+  rejectedAt?: number;
+  history: OrderStatusChange[]; // Oldest first
+}
+
+/** Orders API response */
+export interface OrdersResponse {
+  orders: TrackedOrder[];
+  reconciledAt: number | null;
+}
+
 /** Platform types */
 export type Platform = "opinion" | "kalshi" | "polymarket" | "predictfun" | "limitless";
 
@@ -65,6 +153,23 @@ export interface OrderPlacement {
   url: string;
 }
 
+/** How a market's YES outcome is defined */
+export type MarketOutcomeKind = "binary" | "categorical" | "threshold";
+
+/** Strike comparison for threshold outcomes */
+export type OutcomeComparator = "above" | "below" | "between";
+
+/** Structured outcome a YES share pays out on */
+export interface MarketOutcome {
+  kind: MarketOutcomeKind;
+  event: string; // Normalized event key shared by every outcome of the event
+  label: string; // "Yes", a candidate name, or e.g. "above 100000"
+  comparator?: OutcomeComparator;
+  strike?: number;
+  strikeHigh?: number; // Upper bound for "between"
+  date?: number; // Resolution day stated by the market (UTC midnight, ms)
+}
+
 /** Market match across platforms */
 export interface MarketMatch {
   markets: {
@@ -73,13 +178,14 @@ export interface MarketMatch {
     marketTitle: string;
     marketUrl: string;
     yesPrice: number;
-    noPrice: number;
+    noPrice?: number; // Undefined when the venue quotes no NO price
     volume24h?: number;
     updatedAt?: number;
     expiresAt?: number;
     category?: string;
     tags?: string[];
     description?: string;
+    outcome?: MarketOutcome;
   }[];
   similarity: number; // 0-1 confidence score
   normalizedTitle: string; // Normalized title for matching
@@ -92,13 +198,34 @@ export interface ClusterMarket {
   marketTitle: string;
   marketUrl: string;
   yesPrice: number;
-  noPrice: number;
+  noPrice?: number; // Undefined when the venue quotes no NO price
   volume24h?: number;
   updatedAt?: number;
   expiresAt?: number;
   category?: string;
   tags?: string[];
   description?: string;
+  yesTokenId?: string; // Venue outcome tokens, when the venue exposes orderbooks
+  noTokenId?: string;
+  outcome?: MarketOutcome;
+  resolution?: ResolutionCriteria; // Parsed from description/rules
+}
+
+/** Resolution term compared across a cluster's markets */
+export type ResolutionField = "source" | "deadline" | "timezone";
+
+/** Resolution terms parsed from a market's rules text */
+export interface ResolutionCriteria {
+  source?: string; // Canonical source key, e.g. "coinbase", "associated-press"
+  deadline?: number; // Resolution deadline (ms); the venue close time when the rules state none
+  timezone?: string; // Timezone the rules state times in, e.g. "ET", "UTC"
+}
+
+/** Resolution term that differs between markets in the same cluster */
+export interface ResolutionMismatch {
+  field: ResolutionField;
+  severity: "minor" | "major";
+  values: { platform: Platform; marketId: string | number; value: string }[];
 }
 
 /** Cluster of similar markets across platforms */
@@ -109,6 +236,294 @@ export interface MarketCluster {
   themeKey: string;
   platformCount: number;
   markets: ClusterMarket[];
+  curated?: boolean; // Membership was changed by a manual cluster override
+  confidence?: number; // 0-1 for multi-venue clusters, lowered when resolution terms differ
+  resolutionMismatches?: ResolutionMismatch[];
+}
+
+/** Manual clustering rule: merge clusters, split a market out, or pin it to a target's cluster */
+export type ClusterOverrideAction = "merge" | "split" | "pin";
+
+/** Curated clustering rule, markets keyed as `platform:marketId` */
+export interface ClusterOverride {
+  id: string;
+  action: ClusterOverrideAction;
+  marketKey: string;
+  targetKey: string;
+  note?: string;
+  createdAt: number;
+}
+
+/** Cluster overrides API response */
+export interface ClusterOverridesResponse {
+  overrides: ClusterOverride[];
+}
+
+/** Condition an alert rule watches for */
+export type AlertRuleType = "price_cross" | "spread" | "source_error" | "expiry";
+
+/** User-defined alert, evaluated on every markets refresh */
+export interface AlertRule {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  webhookUrl: string; // Generic, Slack or Discord incoming webhook
+  marketKey?: string; // "platform:marketId"; price_cross, spread and expiry
+  platform?: PlatformSource; // source_error; any source when omitted
+  direction?: "above" | "below"; // price_cross
+  threshold?: number; // YES price for price_cross, price gap for spread (0-1)
+  windowMinutes?: number; // expiry: fire when the market closes within this window
+  cooldownMinutes: number; // Minimum gap between deliveries
+  enabled: boolean;
+  lastTriggeredAt?: number;
+  createdAt: number;
+}
+
+/** Rule condition that became true on a refresh */
+export interface AlertTrigger {
+  ruleId: string;
+  ruleName: string;
+  type: AlertRuleType;
+  message: string;
+  marketKey?: string;
+  platform?: PlatformSource;
+  value?: number; // Price, spread or minutes to expiry that fired the rule
+  triggeredAt: number;
+}
+
+/** Persisted alert delivery */
+export interface AlertEvent extends AlertTrigger {
+  id: string;
+  delivered: boolean;
+  statusCode?: number; // Webhook response status
+  error?: string;
+}
+
+/** Alert rules API response */
+export interface AlertRulesResponse {
+  rules: AlertRule[];
+}
+
+/** Alert history API response */
+export interface AlertHistoryResponse {
+  events: AlertEvent[];
+}
+
+/** What a watchlist entry follows: one market, or whichever cluster contains it */
+export type WatchlistItemKind = "market" | "cluster";
+
+/** Watchlist entry; clusters are tracked through a member market since cluster ids change between refreshes */
+export interface WatchlistItem {
+  kind: WatchlistItemKind;
+  marketKey: string; // "platform:marketId"
+}
+
+/** Saved set of markets and clusters owned by a wallet */
+export interface Watchlist {
+  id: string;
+  ownerAddress: string; // Lowercased wallet address
+  name: string;
+  items: WatchlistItem[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Watchlists API response */
+export interface WatchlistsResponse {
+  watchlists: Watchlist[];
+}
+
+/** Role granted to a signed-in wallet */
+export type SessionRole = "admin" | "user";
+
+/** Persisted record of an admin action */
+export interface AdminAuditEntry {
+  id: string;
+  actor: string; // Admin wallet address, or "api-token"
+  action: string; // e.g. "indexer.run", "cluster-override.create"
+  method: string;
+  path: string;
+  target?: string; // Id or key the action applied to
+  details?: Record<string, unknown>;
+  status: number; // HTTP status returned to the admin
+  ipAddress?: string;
+  createdAt: number;
+}
+
+/** Admin audit log API response */
+export interface AdminAuditLogResponse {
+  entries: AdminAuditEntry[];
+}
+
+/** Lifecycle of a portfolio position */
+export type PortfolioPositionStatus = "open" | "won" | "lost";
+
+/** Trade indexed from the TradeRouter, in dollars */
+export interface PortfolioTrade {
+  id: string;
+  tradeId: string;
+  marketId: number;
+  side: "yes" | "no";
+  amount: number; // Paid, fee included
+  fee: number;
+  entryPrice: number | null; // Price of the traded side when filled
+  txHash?: string;
+  timestamp: number;
+}
+
+/** Aggregated holding in one side of one market */
+export interface PortfolioPosition {
+  marketId: number;
+  marketTitle?: string;
+  url?: string;
+  side: "yes" | "no";
+  status: PortfolioPositionStatus;
+  tradeCount: number;
+  unpricedTrades: number; // Trades without a known entry price (no shares counted)
+  shares: number; // Payout in dollars if the side wins
+  costBasis: number; // Spent on shares, fees excluded
+  fees: number;
+  avgEntryPrice: number | null;
+  markPrice: number | null; // Current price of the side; null when resolved or unquoted
+  marketValue: number; // Open: shares at mark (cost basis when unquoted); resolved: 0
+  unrealizedPnl: number; // Open only: marketValue - costBasis - fees
+  realizedPnl: number; // Resolved only: payout - costBasis - fees
+  resolvedAt?: number;
+  lastTradeAt: number;
+}
+
+/** Portfolio totals across positions */
+export interface PortfolioSummary {
+  portfolioValue: number; // Market value of open positions
+  costBasis: number; // Open positions
+  totalFees: number; // All trades
+  unrealizedPnl: number;
+  realizedPnl: number;
+  totalPnl: number;
+  openPositions: number;
+  winningPositions: number;
+  losingPositions: number;
+}
+
+/** Portfolio API response */
+export interface PortfolioResponse {
+  address: string;
+  positions: PortfolioPosition[];
+  summary: PortfolioSummary;
+  trades: PortfolioTrade[]; // Newest first
+  updatedAt: number;
+}
+
+/** Fee setting changed on TradeRouter (wallet, basis points) or FeeTracker (router) */
+export type FeeConfigKind = "fee_wallet" | "fee_basis_points" | "trade_router";
+
+/** Indexed fee configuration change */
+export interface FeeConfigChange {
+  id: string;
+  contractAddress: string;
+  kind: FeeConfigKind;
+  oldValue: string; // Address, or basis points for "fee_basis_points"
+  newValue: string;
+  txHash: string;
+  logIndex: number;
+  blockNumber: string; // BigInt as string
+  timestamp: number;
+}
+
+/** Fees collected while one basis-points setting was in force */
+export interface FeeRevenuePeriod {
+  basisPoints: number | null; // null when no FeeBasisPointsUpdated has been indexed
+  from: number | null; // Change timestamp (ms); null = since deployment
+  to: number | null; // null = still in force
+  totalFees: string; // wei
+  feeCount: number;
+}
+
+/** Fee revenue API response */
+export interface FeeRevenueResponse {
+  contractAddress: string;
+  totalFees: string; // wei
+  periods: FeeRevenuePeriod[];
+  changes: FeeConfigChange[];
+}
+
+/** Sign-In-With-Ethereum session carried in the session cookie */
+export interface Session {
+  address: string; // Lowercased wallet address
+  role: SessionRole;
+  chainId: number; // Chain the SIWE message was signed for
+  issuedAt: number;
+  expiresAt: number;
+}
+
+/** Single leg of a cross-platform arbitrage */
+export interface ArbitrageLeg {
+  platform: Platform;
+  marketId: string | number;
+  marketTitle: string;
+  marketUrl: string;
+  side: "yes" | "no";
+  price: number;
+  takerFee: number; // Fee paid per $1 payout when buying this leg
+  settlementFee: number; // Fee paid per $1 payout if this leg wins
+}
+
+/** Cross-platform arbitrage opportunity within a market cluster */
+export interface ArbitrageOpportunity {
+  clusterId: string;
+  title: string;
+  themeKey: string;
+  yesLeg: ArbitrageLeg;
+  noLeg: ArbitrageLeg;
+  totalCost: number; // YES + NO price per $1 payout, before fees
+  grossEdge: number; // 1 - totalCost
+  netEdge: number; // Gross edge minus taker fees and worst-case settlement fee
+  impliedReturn: number; // Net edge relative to capital deployed
+  expiresAt?: number;
+  timeToExpiryMs?: number;
+  annualizedReturn?: number;
+  confidence?: number; // Cluster confidence; below 1 when the legs may resolve differently
+  resolutionMismatches?: ResolutionMismatch[];
+}
+
+/** How a routed allocation gets executed */
+export type RouteExecution = "api" | "deeplink";
+
+/** Single venue allocation in a cross-venue execution plan */
+export interface RouteAllocation {
+  platform: Platform;
+  marketId: string | number;
+  marketTitle: string;
+  side: "yes" | "no";
+  tokenId?: string;
+  execution: RouteExecution;
+  depthSource: "orderbook" | "price"; // "price" = no book, depth is a capped estimate
+  url: string; // Deep link with pre-filled side and amount
+  notional: number; // Dollars spent at this venue, fees included
+  shares: number;
+  averagePrice: number; // Before fees
+  worstPrice: number;
+  fees: number;
+}
+
+/** Cross-venue execution plan for an order on a market cluster */
+export interface RoutePlan {
+  clusterId: string;
+  title: string;
+  side: "yes" | "no";
+  requestedNotional: number;
+  filledNotional: number;
+  unfilledNotional: number;
+  totalShares: number;
+  averagePrice: number | null; // All-in cost per share, fees included
+  totalFees: number;
+  allocations: RouteAllocation[];
+}
+
+/** Smart order router API response */
+export interface RoutePlanResponse {
+  plan: RoutePlan;
+  timestamp: number;
 }
 
 /** Theme grouping for clustered markets */
@@ -130,19 +545,63 @@ export interface MarketPriceSnapshot {
   platform: PlatformSource;
   marketId: string;
   marketTitle: string;
-  price: number;
+  price: number; // YES price
+  noPrice?: number; // NO price as quoted by the venue; never derived from the YES price
   updatedAt: number;
   url?: string;
   expiresAt?: number;
   category?: string;
   tags?: string[];
   description?: string;
+  yesTokenId?: string;
+  noTokenId?: string;
+  outcome?: MarketOutcome; // Event/outcome/strike parsed from the title and venue metadata
+}
+
+/** Winning side of a resolved binary market */
+export type ResolutionOutcome = "yes" | "no";
+
+/** Market a venue reports as resolved */
+export interface MarketResolution {
+  platform: PlatformSource;
+  marketId: string;
+  marketTitle: string;
+  outcome: ResolutionOutcome;
+  resolvedAt: number; // Venue resolution time (ms); first seen when the venue reports none
+  url?: string;
+  expiresAt?: number;
+  description?: string; // Rules text, compared in post-mortems
+}
+
+/** Cluster of resolved markets whose venues settled on different outcomes */
+export interface ResolutionPostMortem {
+  clusterId: string;
+  title: string;
+  resolutions: MarketResolution[];
+  resolutionMismatches: ResolutionMismatch[]; // Differences in stated resolution terms, if any explain the split
+}
+
+/** Resolved markets API response */
+export interface ResolvedMarketsResponse {
+  updatedAt: number;
+  resolutions: MarketResolution[]; // Newest first
+  postMortems: ResolutionPostMortem[];
+  sources: Partial<Record<PlatformSource, PlatformSourceState>>; // Venues polled on this request
+}
+
+/** Records dropped while validating one venue payload against its schema */
+export interface ParseReport {
+  received: number; // Records in the payload
+  dropped: number; // Records that failed validation
+  issues: Record<string, number>; // Dropped records per failing field, e.g. { "missing yes price": 42 }
 }
 
 /** Market sources metadata */
 export interface PlatformSourceState {
   status: PlatformSourceStatus;
   error?: string;
+  warning?: string; // Set when markets were dropped, e.g. "42 of 50 markets dropped: missing yes price"
+  parse?: ParseReport; // Set alongside `warning`
 }
 
 /** Cross-platform markets response */
@@ -155,3 +614,40 @@ export interface MarketsResponse {
   sources: Record<PlatformSource, PlatformSourceState>;
   error?: string;
 }
+
+/** Arbitrage scan response */
+export interface ArbitrageResponse {
+  updatedAt: number;
+  opportunities: ArbitrageOpportunity[];
+  sources: Record<PlatformSource, PlatformSourceState>;
+}
+
+/** Price history candle interval */
+export type CandleInterval = "1m" | "1h" | "1d";
+
+/** OHLC candle built from recorded price snapshots */
+export interface PriceCandle {
+  openTime: number; // Interval start (ms)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  samples: number; // Snapshots aggregated into this candle
+}
+
+/** Price history API response */
+export interface PriceHistoryResponse {
+  platform: PlatformSource;
+  marketId: string;
+  interval: CandleInterval;
+  from: number;
+  to: number;
+  candles: PriceCandle[];
+}
+
+/** Incremental markets update pushed over the live stream */
+export interface MarketsDelta {
+  updatedAt: number;
+  changed: MarketPriceSnapshot[];
+  sources: Partial<Record<PlatformSource, PlatformSourceState>>;
+}
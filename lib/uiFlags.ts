@@ -1,2 +1,3 @@
 export const showPortfolio = false;
 export const showConnectWallet = false;
+export const showWatchlists = true;
@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { MarketsDelta, MarketsResponse } from "@/lib/types";
+import { applyMarketsDelta } from "@/lib/marketDelta";
+
+export type MarketStreamStatus = "idle" | "connecting" | "open" | "error";
+
+/**
+ * Subscribe to /api/markets/stream and merge updates into the
+ * ["markets", limit] react-query cache entry.
+ *
+ * @param limit - Market limit, must match the polling query key
+ * @param enabled - Open the stream only while live updates are wanted
+ * @returns Connection status, so callers can fall back to polling
+ */
+export function useMarketStream(limit: number, enabled: boolean): MarketStreamStatus {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<MarketStreamStatus>("idle");
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === "undefined") {
+      setStatus("idle");
+      return;
+    }
+
+    const queryKey = ["markets", limit];
+    const source = new EventSource(`/api/markets/stream?limit=${limit}`);
+    setStatus("connecting");
+
+    source.addEventListener("open", () => setStatus("open"));
+
+    source.addEventListener("snapshot", (event) => {
+      const data: MarketsResponse = JSON.parse((event as MessageEvent<string>).data);
+      queryClient.setQueryData<MarketsResponse>(queryKey, data);
+      setStatus("open");
+    });
+
+    source.addEventListener("delta", (event) => {
+      const delta: MarketsDelta = JSON.parse((event as MessageEvent<string>).data);
+      queryClient.setQueryData<MarketsResponse>(queryKey, (previous) =>
+        previous ? applyMarketsDelta(previous, delta) : previous
+      );
+    });
+
+    // EventSource reconnects on its own; surface the outage so polling can take over
+    source.addEventListener("error", () => setStatus("error"));
+
+    return () => {
+      source.close();
+    };
+  }, [enabled, limit, queryClient]);
+
+  return status;
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAccount, useSignMessage } from "wagmi";
+import { createSiweMessage } from "viem/siwe";
+import type { Session } from "@/lib/types";
+
+const SIWE_STATEMENT = "Sign in to pm.ag.";
+
+async function fetchSession(): Promise<Session | null> {
+  const res = await fetch("/api/auth/session", { cache: "no-store" });
+  if (res.status === 401) {
+    return null;
+  }
+  if (!res.ok) {
+    throw new Error("Failed to load session");
+  }
+  return res.json();
+}
+
+async function postJson<T>(path: string, body?: unknown): Promise<T> {
+  const res = await fetch(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ message: "Request failed" }));
+    throw new Error(error.message || "Request failed");
+  }
+  return res.json();
+}
+
+/**
+ * Sign-In-With-Ethereum session for the connected wallet
+ *
+ * A session for a different address than the connected one is treated as
+ * signed out, so switching wallets requires signing in again.
+ */
+export function useSession() {
+  const { address, chainId } = useAccount();
+  const { signMessageAsync, isPending: isSigning } = useSignMessage();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ["session"],
+    queryFn: fetchSession,
+    staleTime: 60_000,
+  });
+
+  const session =
+    query.data && address && query.data.address === address.toLowerCase() ? query.data : null;
+
+  const signIn = useCallback(async () => {
+    if (!address) {
+      throw new Error("Connect a wallet first");
+    }
+
+    const res = await fetch("/api/auth/nonce", { cache: "no-store" });
+    if (!res.ok) {
+      const error = await res.json().catch(() => ({ message: "Request failed" }));
+      throw new Error(error.message || "Failed to start sign-in");
+    }
+    const { nonce } = await res.json();
+
+    const message = createSiweMessage({
+      address,
+      chainId: chainId ?? 1,
+      domain: window.location.host,
+      uri: window.location.origin,
+      nonce,
+      statement: SIWE_STATEMENT,
+      version: "1",
+      issuedAt: new Date(),
+    });
+    const signature = await signMessageAsync({ message });
+
+    const next = await postJson<Session>("/api/auth/verify", { message, signature });
+    queryClient.setQueryData(["session"], next);
+    return next;
+  }, [address, chainId, queryClient, signMessageAsync]);
+
+  const signOut = useCallback(async () => {
+    await postJson("/api/auth/logout");
+    queryClient.setQueryData(["session"], null);
+  }, [queryClient]);
+
+  return {
+    session,
+    isLoading: query.isLoading,
+    isSigning,
+    signIn,
+    signOut,
+  };
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAccount } from "wagmi";
+import type { Watchlist, WatchlistItem, WatchlistsResponse } from "@/lib/types";
+import { useSession } from "@/lib/useSession";
+
+const DEFAULT_WATCHLIST_NAME = "My markets";
+
+async function requestWatchlists<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(path, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ message: "Request failed" }));
+    throw new Error(error.message || "Watchlist request failed");
+  }
+  return res.json();
+}
+
+/**
+ * Watchlists of the connected wallet
+ *
+ * Reads and writes go through the wallet's SIWE session cookie, so the
+ * watchlists load once the connected wallet has signed in.
+ */
+export function useWatchlists() {
+  const { address, isConnected } = useAccount();
+  const { session, isSigning, signIn } = useSession();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ["watchlists", session?.address],
+    queryFn: () => requestWatchlists<WatchlistsResponse>("/api/watchlists"),
+    enabled: session !== null,
+  });
+
+  const watchlists = query.data?.watchlists ?? [];
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["watchlists"] });
+
+  const createWatchlist = async (name: string, items: WatchlistItem[] = []): Promise<Watchlist> => {
+    const watchlist = await requestWatchlists<Watchlist>("/api/watchlists", {
+      method: "POST",
+      body: JSON.stringify({ name, items }),
+    });
+    await refresh();
+    return watchlist;
+  };
+
+  const updateWatchlist = async (id: string, input: { name?: string; items?: WatchlistItem[] }) => {
+    await requestWatchlists<Watchlist>(`/api/watchlists/${encodeURIComponent(id)}`, {
+      method: "PUT",
+      body: JSON.stringify(input),
+    });
+    await refresh();
+  };
+
+  const deleteWatchlist = async (id: string) => {
+    await requestWatchlists(`/api/watchlists/${encodeURIComponent(id)}`, { method: "DELETE" });
+    await refresh();
+  };
+
+  const isWatched = (item: WatchlistItem) =>
+    watchlists.some((watchlist) =>
+      watchlist.items.some((entry) => entry.kind === item.kind && entry.marketKey === item.marketKey)
+    );
+
+  /**
+   * Add an item to the first watchlist, or remove it from every watchlist holding it
+   */
+  const toggleItem = async (item: WatchlistItem) => {
+    if (isWatched(item)) {
+      await Promise.all(
+        watchlists
+          .filter((watchlist) =>
+            watchlist.items.some((entry) => entry.kind === item.kind && entry.marketKey === item.marketKey)
+          )
+          .map((watchlist) =>
+            updateWatchlist(watchlist.id, {
+              items: watchlist.items.filter(
+                (entry) => !(entry.kind === item.kind && entry.marketKey === item.marketKey)
+              ),
+            })
+          )
+      );
+      return;
+    }
+
+    const [first] = watchlists;
+    if (first) {
+      await updateWatchlist(first.id, { items: [...first.items, item] });
+    } else {
+      await createWatchlist(DEFAULT_WATCHLIST_NAME, [item]);
+    }
+  };
+
+  return {
+    address,
+    isConnected,
+    isSignedIn: session !== null,
+    isSigning,
+    signIn,
+    watchlists,
+    isLoading: query.isLoading,
+    error: query.error,
+    createWatchlist,
+    updateWatchlist,
+    deleteWatchlist,
+    isWatched,
+    toggleItem,
+  };
+}
@@ -0,0 +1,407 @@
+/**
+ * Schemas for venue market, resolution, price and orderbook payloads
+ *
+ * Field lists name every alias a venue has been seen using, in the order
+ * they are tried. Market schemas require what a price snapshot cannot do
+ * without (id, title and a yes price, or the outcome list of a categorical
+ * market); everything else, the no price included, is optional and parses
+ * as undefined when absent or malformed. Resolution schemas require a
+ * YES or NO winner instead of a price.
+ */
+
+import { parseResolutionOutcome } from "./marketResolutions";
+import { parseOrderbookLevel } from "./orderbook";
+import {
+  arrayOf,
+  boolean,
+  fail,
+  field,
+  fromParser,
+  id,
+  numeric,
+  object,
+  ok,
+  oneOf,
+  optional,
+  price,
+  refine,
+  text,
+  timestamp,
+  type Output,
+  type Schema,
+} from "./schema";
+
+// --- Shared Fields ---
+
+const EXPIRY_KEYS = ["close_time", "closeTime", "end_time", "endTime", "expiration", "expiresAt"];
+const UPDATED_KEYS = ["updated_at", "updatedAt", "last_updated", "lastUpdated"];
+
+const outcomeSchema = object({
+  label: optional(["name", "title", "label", "outcome"], text),
+  price: optional(["price", "probability"], price),
+});
+
+export type VenueOutcome = Output<typeof outcomeSchema>;
+
+/**
+ * Outcome list of a categorical market; two or fewer outcomes is a YES/NO pair
+ */
+const categoricalOutcomes = refine(arrayOf(outcomeSchema), (outcomes, label) =>
+  outcomes.length > 2 ? ok(outcomes) : fail(label, "invalid")
+);
+
+/**
+ * Reported winner of a resolved market; anything but YES or NO is invalid
+ */
+const resolutionOutcome = fromParser(parseResolutionOutcome);
+
+const resolvedOutcomeSchema = object({
+  label: optional(["name", "title", "label", "outcome"], text),
+  result: optional(["winner", "isWinner", "is_winner", "result"], resolutionOutcome),
+});
+
+export type VenueResolvedOutcome = Output<typeof resolvedOutcomeSchema>;
+
+/**
+ * Outcome list of a resolved categorical market with at least one winner
+ */
+const resolvedCategoricalOutcomes = refine(arrayOf(resolvedOutcomeSchema), (outcomes, label) =>
+  outcomes.length > 2 && outcomes.some((outcome) => outcome.result === "yes") ? ok(outcomes) : fail(label, "invalid")
+);
+
+export const orderbookLevelSchema = fromParser(parseOrderbookLevel);
+
+/**
+ * Any present value, left for a more specific schema to parse
+ */
+const payloadValue = fromParser((value: unknown) => value);
+
+// --- Opinion ---
+
+export interface OpinionEnvelope {
+  errno?: number; // 0 or absent on success
+  errmsg?: string;
+  total?: number; // Market count across all pages of a list
+  payload: unknown;
+}
+
+const opinionEnvelopeFields = object({
+  errno: optional("errno", numeric),
+  errmsg: optional("errmsg", text),
+  total: optional(["result.total", "result.count", "total"], numeric),
+  payload: optional(["result.data", "result", "data"], payloadValue),
+});
+
+/**
+ * Opinion response envelope; the payload sits in result.data, result, data
+ * or at the top level, and a bare array is a payload without envelope
+ */
+export const opinionEnvelopeSchema: Schema<OpinionEnvelope> = (value, label) => {
+  if (Array.isArray(value)) {
+    return ok({ payload: value });
+  }
+  const envelope = opinionEnvelopeFields(value, label);
+  return envelope.ok ? ok({ ...envelope.value, payload: envelope.value.payload ?? value }) : envelope;
+};
+
+/**
+ * Markets of one list page, a bare array or under `list`; each listing is
+ * validated on its own later
+ */
+export const opinionMarketListSchema = oneOf(
+  arrayOf(payloadValue),
+  refine(object({ list: field("list", arrayOf(payloadValue), "market list") }), ({ list }) => ok(list))
+);
+
+const opinionListingShape = {
+  marketId: field("marketId", id, "market id"),
+  marketTitle: field("marketTitle", text, "title"),
+  topicId: optional(
+    [
+      "topicId",
+      "topic_id",
+      "topicIdNumber",
+      "topic_id_number",
+      "topicIdString",
+      "topic_id_string",
+      "topic.id",
+      "topic.topic_id",
+    ],
+    id
+  ),
+  expiresAt: optional(["cutoffAt", "resolvedAt"], timestamp),
+  resolvedAt: optional("resolvedAt", timestamp),
+  rules: optional("rules", text),
+};
+
+/**
+ * Parent of a categorical Opinion market; its children carry the tokens
+ */
+export const opinionEventSchema = object(opinionListingShape);
+
+/**
+ * Tradable Opinion market, standalone or a categorical child
+ */
+export const opinionMarketSchema = object({
+  ...opinionListingShape,
+  yesTokenId: field("yesTokenId", id, "yes token id"),
+  noTokenId: optional("noTokenId", id),
+  resultTokenId: optional("resultTokenId", id), // Winning token once resolved
+});
+
+export type OpinionEventPayload = Output<typeof opinionEventSchema>;
+export type OpinionMarketPayload = Output<typeof opinionMarketSchema>;
+
+/**
+ * Latest token price, once unwrapped from its response envelope
+ */
+export const opinionTokenPriceSchema = object({
+  tokenId: field(["tokenId", "token_id"], id, "token id"),
+  price: field("price", price, "price"),
+  timestamp: optional("timestamp", timestamp),
+});
+
+/**
+ * Token orderbook, once unwrapped from its response envelope; needs at least one side
+ */
+export const orderbookSchema = refine(
+  object({
+    tokenId: optional(["tokenId", "token_id", "asset_id"], id),
+    bids: optional("bids", arrayOf(orderbookLevelSchema)),
+    asks: optional("asks", arrayOf(orderbookLevelSchema)),
+    timestamp: optional("timestamp", timestamp),
+  }),
+  (book) =>
+    book.bids || book.asks ? ok({ ...book, bids: book.bids ?? [], asks: book.asks ?? [] }) : fail("levels", "missing")
+);
+
+// --- Polymarket ---
+
+/**
+ * One page of the CLOB market list, a bare array or under `data` with the
+ * next page's cursor; each market is validated on its own later
+ */
+export const polymarketMarketPageSchema = oneOf(
+  refine(arrayOf(payloadValue), (markets) => ok({ markets, nextCursor: undefined as string | undefined })),
+  object({
+    markets: field(["data", "markets"], arrayOf(payloadValue), "market list"),
+    nextCursor: optional("next_cursor", text),
+  })
+);
+
+const polymarketTokenSchema = object({
+  tokenId: optional("token_id", id),
+  outcome: optional("outcome", text),
+  outcomeIndex: optional("outcome_index", numeric),
+  price: optional("price", price),
+  winner: optional("winner", boolean), // Set on the winning token once resolved
+});
+
+/**
+ * Polymarket CLOB market, live or closed
+ */
+export const polymarketMarketSchema = object({
+  id: field(["condition_id", "id", "conditionId"], id, "market id"),
+  question: field(["question", "title"], text, "title"),
+  slug: optional(["market_slug", "slug"], text),
+  description: optional(["description", "resolution_source", "resolutionSource"], text),
+  endDate: optional(["end_date_iso", "endDate"], timestamp),
+  closedTime: optional(["closed_time", "closedTime", "uma_end_date", "umaEndDate"], timestamp),
+  active: optional("active", boolean),
+  archived: optional("archived", boolean),
+  closed: optional("closed", boolean),
+  tags: optional("tags", arrayOf(text)),
+  category: optional(["category", "categoryName", "series"], text),
+  eventTitle: optional(["events.0.title", "eventTitle"], text),
+  groupItemTitle: optional(["groupItemTitle", "group_item_title"], text),
+  tokens: optional("tokens", arrayOf(polymarketTokenSchema)),
+  price: optional(["outcomePrices.0", "yes_price", "price", "probability"], price),
+});
+
+export type PolymarketMarketPayload = Output<typeof polymarketMarketSchema>;
+
+/**
+ * YES and NO tokens of a Polymarket market, by outcome name or index
+ */
+export function getPolymarketOutcomeTokens(market: PolymarketMarketPayload) {
+  const tokens = market.tokens ?? [];
+  return {
+    yesToken: tokens.find((token) => token.outcome === "Yes" || token.outcomeIndex === 0),
+    noToken: tokens.find((token) => token.outcome === "No" || token.outcomeIndex === 1),
+  };
+}
+
+/**
+ * Yes price from the YES token, then the first token, then price fields
+ * on the market itself; the no price only from the NO token
+ */
+export function pricePolymarketMarket(market: PolymarketMarketPayload) {
+  const { yesToken, noToken } = getPolymarketOutcomeTokens(market);
+  const yesPrice = yesToken?.price ?? market.tokens?.[0]?.price ?? market.price;
+
+  return yesPrice === undefined
+    ? fail("yes price", "missing")
+    : ok({ ...market, yesToken, noToken, price: yesPrice, noPrice: noToken?.price });
+}
+
+// --- Kalshi (DFlow) ---
+
+const kalshiListingShape = {
+  marketId: field(["market_id", "marketId", "id", "ticker"], id, "market id"),
+  marketTitle: field(["title", "question", "market_title", "name", "ticker"], text, "title"),
+  updatedAt: optional(UPDATED_KEYS, timestamp),
+  expiresAt: optional(EXPIRY_KEYS, timestamp),
+  subtitle: optional(["yes_sub_title", "yesSubTitle", "subtitle"], text),
+  strikeType: optional(["strike_type", "strikeType"], text),
+  floorStrike: optional(["floor_strike", "floorStrike"], numeric),
+  capStrike: optional(["cap_strike", "capStrike"], numeric),
+};
+
+/**
+ * DFlow market: categorical with its outcome list, or binary with a yes price
+ */
+export const kalshiMarketSchema = oneOf(
+  object({ ...kalshiListingShape, outcomes: field("outcomes", categoricalOutcomes, "outcomes") }),
+  object({
+    ...kalshiListingShape,
+    price: field(
+      [
+        "price",
+        "probability",
+        "yes_price",
+        "yesPrice",
+        "outcomes.0.price",
+        "outcomes.0.probability",
+        "last_price",
+        "lastPrice",
+      ],
+      price,
+      "yes price"
+    ),
+    noPrice: optional(["no_price", "noPrice", "outcomes.1.price", "outcomes.1.probability"], price),
+  })
+);
+
+const kalshiResolutionShape = {
+  marketId: kalshiListingShape.marketId,
+  marketTitle: kalshiListingShape.marketTitle,
+  resolvedAt: optional(
+    ["settlement_ts", "settled_time", "settledTime", "determination_ts", "close_time", "closeTime"],
+    timestamp
+  ),
+  expiresAt: optional(["close_time", "closeTime", "expiration"], timestamp),
+};
+
+/**
+ * Finalized DFlow market: categorical with a winning outcome, or binary with its result
+ */
+export const kalshiResolutionSchema = oneOf(
+  object({ ...kalshiResolutionShape, outcomes: field("outcomes", resolvedCategoricalOutcomes, "outcomes") }),
+  object({ ...kalshiResolutionShape, outcome: field(["result", "settlement_result"], resolutionOutcome, "outcome") })
+);
+
+// --- Limitless ---
+
+const limitlessPriceEntry = oneOf(
+  price,
+  object({ price: field(["price", "value", "probability", "yesPrice", "yes_price", "yes"], price, "price") })
+);
+
+/**
+ * Limitless market; the yes price is the first valid entry of `prices`,
+ * then a price field on the market, and the no price the second entry
+ */
+export const limitlessMarketSchema = refine(
+  object({
+    marketId: field(["id", "address", "slug"], id, "market id"),
+    marketTitle: field(["title", "question", "name"], text, "title"),
+    slug: optional("slug", text),
+    updatedAt: optional(["updatedAt", "updated_at", "timestamp"], timestamp),
+    expiresAt: optional([...EXPIRY_KEYS, "expiry", "expires"], timestamp),
+    prices: optional("prices", arrayOf(limitlessPriceEntry)),
+    price: optional(["yesPrice", "yes_price", "price", "probability"], price),
+  }),
+  (market) => {
+    const [yesEntry, noEntry] = market.prices ?? [];
+    const yesPrice = typeof yesEntry === "number" ? yesEntry : yesEntry?.price ?? market.price;
+    const noPrice = typeof noEntry === "number" ? noEntry : noEntry?.price;
+    return yesPrice === undefined ? fail("yes price", "missing") : ok({ ...market, price: yesPrice, noPrice });
+  }
+);
+
+/**
+ * Resolved Limitless market; the winner is an outcome index (0 = YES,
+ * 1 = NO), then a named outcome
+ */
+export const limitlessResolutionSchema = refine(
+  object({
+    marketId: field(["id", "address", "slug"], id, "market id"),
+    marketTitle: field(["title", "question", "name"], text, "title"),
+    slug: optional("slug", text),
+    description: optional("description", text),
+    resolvedAt: optional(["resolvedAt", "resolved_at", "resolutionDate"], timestamp),
+    expiresAt: optional(["expirationTimestamp", "expirationDate", "expiresAt", "deadline"], timestamp),
+    winningIndex: optional(["winningOutcomeIndex", "winning_outcome_index"], numeric),
+    winner: optional(["winningOutcome", "result"], resolutionOutcome),
+  }),
+  ({ winningIndex, winner, ...market }) => {
+    const outcome = winningIndex === 0 ? "yes" : winningIndex === 1 ? "no" : winner;
+    return outcome === undefined ? fail("outcome", "missing") : ok({ ...market, outcome });
+  }
+);
+
+// --- Predict.fun ---
+
+const predictFunListingShape = {
+  marketId: field(["id", "marketId", "market_id", "slug"], id, "market id"),
+  marketTitle: field(["question", "title", "market_title", "name"], text, "title"),
+  updatedAt: optional([...UPDATED_KEYS, "timestamp"], timestamp),
+  url: optional(["url", "link"], text),
+  expiresAt: optional([...EXPIRY_KEYS, "expiry"], timestamp),
+};
+
+/**
+ * Predict.fun market: categorical with its outcome list, or binary with a yes price
+ */
+export const predictFunMarketSchema = oneOf(
+  object({ ...predictFunListingShape, outcomes: field("outcomes", categoricalOutcomes, "outcomes") }),
+  object({
+    ...predictFunListingShape,
+    price: field(
+      [
+        "price",
+        "probability",
+        "yes_price",
+        "yesPrice",
+        "currentPrice",
+        "lastPrice",
+        "outcomes.0.price",
+        "outcomes.0.probability",
+        "tokens.0.price",
+      ],
+      price,
+      "yes price"
+    ),
+    noPrice: optional(["no_price", "noPrice", "outcomes.1.price", "outcomes.1.probability", "tokens.1.price"], price),
+  })
+);
+
+const predictFunResolutionShape = {
+  marketId: predictFunListingShape.marketId,
+  marketTitle: predictFunListingShape.marketTitle,
+  url: predictFunListingShape.url,
+  description: optional("description", text),
+  resolvedAt: optional(["resolvedAt", "resolved_at", "resolution_time"], timestamp),
+  expiresAt: optional(["close_time", "closeTime", "end_time", "endTime"], timestamp),
+};
+
+/**
+ * Resolved Predict.fun market: categorical with a winning outcome, or binary with its result
+ */
+export const predictFunResolutionSchema = oneOf(
+  object({ ...predictFunResolutionShape, outcomes: field("outcomes", resolvedCategoricalOutcomes, "outcomes") }),
+  object({
+    ...predictFunResolutionShape,
+    outcome: field(["resolution", "result", "winningOutcome", "winning_outcome"], resolutionOutcome, "outcome"),
+  })
+);
@@ -0,0 +1,136 @@
+/**
+ * Wallet watchlists
+ *
+ * Validation for watchlist writes and resolution of saved items against
+ * the current markets response. Cluster items point at a member market,
+ * so they keep following the cluster as its id and membership change.
+ */
+
+import type {
+  ClusterMarket,
+  MarketCluster,
+  WatchlistItem,
+  WatchlistItemKind,
+} from "./types";
+import { getSnapshotKey } from "./marketDelta";
+import { isValidMarketKey } from "./clusterOverrides";
+
+// --- Types ---
+
+export interface WatchlistInput {
+  name?: string;
+  items?: WatchlistItem[];
+}
+
+export interface WatchlistEntry {
+  item: WatchlistItem;
+  title: string;
+  markets: ClusterMarket[]; // Empty when the market is not in the current snapshot
+}
+
+// --- Configuration ---
+
+export const WATCHLIST_ITEM_KINDS: readonly WatchlistItemKind[] = ["market", "cluster"];
+export const MAX_WATCHLIST_ITEMS = 200;
+export const MAX_WATCHLISTS_PER_WALLET = 20;
+const MAX_NAME_LENGTH = 80;
+
+// --- Helper Functions ---
+
+function isWatchlistItem(value: unknown): value is WatchlistItem {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const { kind, marketKey } = value as Record<string, unknown>;
+  return (
+    typeof kind === "string" &&
+    (WATCHLIST_ITEM_KINDS as readonly string[]).includes(kind) &&
+    isValidMarketKey(marketKey)
+  );
+}
+
+// --- Public API ---
+
+/**
+ * Validate a watchlist create/update body
+ *
+ * Duplicate items are dropped, keeping the first occurrence.
+ *
+ * @param body - Parsed JSON request body
+ * @param requireName - Creates need a name; updates may send items only
+ */
+export function parseWatchlistInput(
+  body: unknown,
+  requireName: boolean
+): { input: WatchlistInput } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be a JSON object" };
+  }
+
+  const { name, items } = body as Record<string, unknown>;
+  const input: WatchlistInput = {};
+
+  if (name !== undefined || requireName) {
+    if (typeof name !== "string" || name.trim().length === 0 || name.length > MAX_NAME_LENGTH) {
+      return { error: `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters` };
+    }
+    input.name = name.trim();
+  }
+
+  if (items !== undefined) {
+    if (!Array.isArray(items) || items.length > MAX_WATCHLIST_ITEMS) {
+      return { error: `items must be an array of at most ${MAX_WATCHLIST_ITEMS} entries` };
+    }
+    if (!items.every(isWatchlistItem)) {
+      return { error: "each item must be { kind: 'market' | 'cluster', marketKey: 'platform:marketId' }" };
+    }
+
+    const seen = new Set<string>();
+    input.items = items
+      .map(({ kind, marketKey }) => ({ kind, marketKey }))
+      .filter((item) => {
+        const key = `${item.kind}:${item.marketKey}`;
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+  }
+
+  if (input.name === undefined && input.items === undefined) {
+    return { error: "Nothing to update: send name and/or items" };
+  }
+
+  return { input };
+}
+
+/**
+ * Resolve watchlist items against the current clusters
+ *
+ * @param items - Saved watchlist items
+ * @param clusters - Clusters from the latest markets response
+ */
+export function resolveWatchlistEntries(
+  items: WatchlistItem[],
+  clusters: MarketCluster[]
+): WatchlistEntry[] {
+  const clusterByKey = new Map<string, MarketCluster>();
+  for (const cluster of clusters) {
+    for (const market of cluster.markets) {
+      clusterByKey.set(getSnapshotKey(market), cluster);
+    }
+  }
+
+  return items.map((item) => {
+    const cluster = clusterByKey.get(item.marketKey);
+    if (!cluster) {
+      return { item, title: item.marketKey, markets: [] };
+    }
+    if (item.kind === "cluster") {
+      return { item, title: cluster.title, markets: cluster.markets };
+    }
+    const market = cluster.markets.find((candidate) => getSnapshotKey(candidate) === item.marketKey)!;
+    return { item, title: market.marketTitle, markets: [market] };
+  });
+}
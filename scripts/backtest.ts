@@ -0,0 +1,170 @@
+/**
+ * Backtest the cross-venue spread strategy against recorded price history
+ *
+ * Reads PriceSnapshot, MarketListing and MarketResolution rows from the
+ * database in DATABASE_URL and prints a summary; `--out` also writes the
+ * full report (fills and PnL curve) as JSON.
+ *
+ * Usage:
+ *   npm run backtest -- --from 2025-01-01 --to 2025-02-01 --entry 0.04 --exit 0.01
+ *
+ * Options:
+ *   --from, --to        Time range, unix seconds/ms or ISO date (default: last 30 days)
+ *   --platforms         Comma-separated venues (default: all)
+ *   --step              Replay step in minutes, greater than 0 (default: 60)
+ *   --entry, --exit     Spread to enter and exit at, in dollars (default: 0.04, 0.01)
+ *   --notional          Dollars per entry (default: 100)
+ *   --max-open          Maximum open round trips (default: 10)
+ *   --slippage-bps      Fixed slippage (default: 50)
+ *   --impact-bps        Extra slippage per $1,000 of notional (default: 25)
+ *   --out               Write the JSON report to this path
+ */
+
+import "dotenv/config";
+import * as fs from "fs";
+import { createSpreadConvergenceStrategy, runBacktest } from "../lib/backtest";
+import { getMarketListings, getMarketResolutions, getPriceSnapshotsPage } from "../lib/database/queries";
+import type { MarketPriceSnapshot, PlatformSource } from "../lib/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (!arg.startsWith("--")) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+    const value = argv[index + 1];
+    if (value === undefined || value.startsWith("--")) {
+      throw new Error(`Missing value for ${arg}`);
+    }
+    args[arg.slice(2)] = value;
+    index++;
+  }
+  return args;
+}
+
+function parseTime(value: string | undefined, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const numeric = Number(value);
+  const parsed = Number.isFinite(numeric) ? (numeric < 1_000_000_000_000 ? numeric * 1000 : numeric) : Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid time: ${value}`);
+  }
+  return parsed;
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`Invalid number: ${value}`);
+  }
+  return parsed;
+}
+
+async function loadSnapshots(from: Date, to: Date, stepMs: number, platforms?: string[]): Promise<MarketPriceSnapshot[]> {
+  const listings = new Map(
+    (await getMarketListings(platforms)).map((listing) => [`${listing.platform}:${listing.marketId}`, listing])
+  );
+
+  const snapshots: MarketPriceSnapshot[] = [];
+  let skipped = 0;
+  let after: string | undefined;
+
+  do {
+    const page = await getPriceSnapshotsPage({ from, to, stepMs, platforms, after });
+    for (const snapshot of page.snapshots) {
+      const listing = listings.get(`${snapshot.platform}:${snapshot.marketId}`);
+      if (!listing) {
+        skipped++; // Recorded before listings were stored; no title to cluster on
+        continue;
+      }
+      snapshots.push({
+        platform: snapshot.platform as PlatformSource,
+        marketId: snapshot.marketId,
+        marketTitle: listing.marketTitle,
+        price: snapshot.price,
+        noPrice: snapshot.noPrice,
+        updatedAt: snapshot.timestamp,
+        url: listing.url,
+        expiresAt: listing.expiresAt,
+        description: listing.description,
+      });
+    }
+    after = page.next ?? undefined;
+  } while (after);
+
+  if (skipped > 0) {
+    console.warn(`Skipped ${skipped} snapshots of markets with no stored listing`);
+  }
+  return snapshots;
+}
+
+function formatUsd(value: number): string {
+  return `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const to = parseTime(args.to, Date.now());
+  const from = parseTime(args.from, to - 30 * DAY_MS);
+  const platforms = args.platforms ? args.platforms.split(",").map((platform) => platform.trim()) : undefined;
+
+  const stepMs = parseNumber(args.step, 60) * 60 * 1000;
+
+  if (from >= to) {
+    throw new Error("--from must be before --to");
+  }
+  if (stepMs <= 0) {
+    throw new Error("--step must be greater than 0");
+  }
+
+  const snapshots = await loadSnapshots(new Date(from), new Date(to), stepMs, platforms);
+  if (snapshots.length === 0) {
+    console.log("No recorded snapshots in range. Is DATABASE_URL set and the market feed recording history?");
+    return;
+  }
+
+  const strategy = createSpreadConvergenceStrategy({
+    entrySpread: parseNumber(args.entry, 0.04),
+    exitSpread: parseNumber(args.exit, 0.01),
+    notional: parseNumber(args.notional, 100),
+    maxOpen: parseNumber(args["max-open"], 10),
+  });
+  const report = runBacktest(snapshots, strategy, {
+    stepMs,
+    slippageBps: parseNumber(args["slippage-bps"], 50),
+    impactBpsPer1k: parseNumber(args["impact-bps"], 25),
+    resolutions: await getMarketResolutions({ since: new Date(from) }),
+  });
+
+  console.log(`Strategy:      ${report.strategy}`);
+  console.log(`Range:         ${new Date(report.from).toISOString()} -> ${new Date(report.to).toISOString()}`);
+  console.log(`Snapshots:     ${snapshots.length} after downsampling (${report.steps} steps)`);
+  console.log(`Total PnL:     ${formatUsd(report.totalPnl)} (realized ${formatUsd(report.realizedPnl)}, open ${formatUsd(report.unrealizedPnl)})`);
+  console.log(`Fees:          ${formatUsd(report.fees)}`);
+  console.log(`Max drawdown:  ${formatUsd(report.maxDrawdown)}`);
+  console.log(
+    `Round trips:   ${report.trades} closed, hit rate ${report.hitRate === null ? "n/a" : `${(report.hitRate * 100).toFixed(1)}%`}`
+  );
+  console.log(`Peak capital:  ${formatUsd(report.peakCapital)}`);
+  console.log(`Capacity:      ${report.capacity === null ? "n/a" : `${formatUsd(report.capacity)} per round trip`}`);
+
+  if (args.out) {
+    fs.writeFileSync(args.out, JSON.stringify(report, null, 2));
+    console.log(`Report written to ${args.out}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,69 @@
+/**
+ * Run the mock exchange from test/mockExchange.ts as a local server
+ *
+ * Prints the environment variables that point every venue client at it;
+ * put them in .env.local and run `npm run dev` to develop against fixtures.
+ *
+ * Usage:
+ *   npm run mock-exchange -- --port 4010 --latency 200
+ *
+ * Options:
+ *   --port        Port to listen on (default: 4010)
+ *   --latency     Delay every response by this many milliseconds (default: 0)
+ *   --fixtures    Directory with one <venue>.json per venue (default: test/fixtures/venues)
+ */
+
+import { startMockExchange } from "../test/mockExchange";
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (!arg.startsWith("--")) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+    const value = argv[index + 1];
+    if (value === undefined || value.startsWith("--")) {
+      throw new Error(`Missing value for ${arg}`);
+    }
+    args[arg.slice(2)] = value;
+    index++;
+  }
+  return args;
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid number: ${value}`);
+  }
+  return parsed;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const exchange = await startMockExchange({
+    port: parseNumber(args.port, 4010),
+    latencyMs: parseNumber(args.latency, 0),
+    fixturesDir: args.fixtures,
+  });
+
+  console.log(`Mock exchange listening on ${exchange.url}`);
+  for (const [key, value] of Object.entries(exchange.env)) {
+    console.log(`${key}=${value}`);
+  }
+
+  const shutdown = () => {
+    exchange.close().then(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
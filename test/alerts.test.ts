@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { buildAlertWebhookPayload, evaluateAlertRules, parseAlertRuleInput, updateAlertBaseline } from "../lib/alerts";
+import type { AlertRule, MarketCluster, MarketPriceSnapshot, MarketsResponse } from "../lib/types";
+
+const NOW = 1_750_000_000_000;
+
+const makeSnapshot = (
+  platform: MarketPriceSnapshot["platform"],
+  price: number,
+  expiresAt?: number
+): MarketPriceSnapshot => ({
+  platform,
+  marketId: "btc",
+  marketTitle: "Bitcoin above $100k?",
+  price,
+  updatedAt: NOW,
+  expiresAt,
+});
+
+const makeResponse = (
+  list: MarketPriceSnapshot[],
+  options: { updatedAt?: number; kalshiError?: boolean } = {}
+): MarketsResponse => {
+  const cluster: MarketCluster = {
+    id: "btc",
+    title: "Bitcoin above $100k?",
+    normalizedTitle: "bitcoin above 100k",
+    themeKey: "crypto",
+    platformCount: new Set(list.map((snapshot) => snapshot.platform)).size,
+    markets: list.map((snapshot) => ({
+      platform: snapshot.platform,
+      marketId: snapshot.marketId,
+      marketTitle: snapshot.marketTitle,
+      marketUrl: "https://example.com",
+      yesPrice: snapshot.price,
+      noPrice: 1 - snapshot.price,
+    })),
+  };
+
+  return {
+    updatedAt: options.updatedAt ?? NOW,
+    stale: false,
+    list,
+    clusters: [cluster],
+    sources: {
+      opinion: { status: "live" },
+      kalshi: options.kalshiError ? { status: "error", error: "Kalshi API error: 503" } : { status: "live" },
+      polymarket: { status: "live" },
+      predictfun: { status: "live" },
+      limitless: { status: "live" },
+    },
+  };
+};
+
+const makeRule = (rule: Partial<AlertRule> & Pick<AlertRule, "id" | "type">): AlertRule => ({
+  name: rule.id,
+  webhookUrl: "https://hooks.example.com/alerts",
+  cooldownMinutes: 60,
+  enabled: true,
+  createdAt: NOW,
+  ...rule,
+});
+
+describe("alert rules", () => {
+  it("fires each rule once, on the refresh where its condition becomes true", () => {
+    const rules = [
+      makeRule({ id: "cross", type: "price_cross", marketKey: "polymarket:btc", direction: "above", threshold: 0.5 }),
+      makeRule({ id: "spread", type: "spread", marketKey: "polymarket:btc", threshold: 0.1 }),
+      makeRule({ id: "source", type: "source_error" }),
+      makeRule({ id: "expiry", type: "expiry", marketKey: "kalshi:btc", windowMinutes: 60 }),
+    ];
+
+    const previous = makeResponse(
+      [makeSnapshot("polymarket", 0.45), makeSnapshot("kalshi", 0.4, NOW + 30 * 60_000)],
+      { updatedAt: NOW - 60 * 60_000 }
+    );
+    const next = makeResponse(
+      [makeSnapshot("polymarket", 0.55), makeSnapshot("kalshi", 0.42, NOW + 30 * 60_000)],
+      { kalshiError: true }
+    );
+
+    const baseline = updateAlertBaseline(null, previous);
+    const triggers = evaluateAlertRules(rules, baseline, next, NOW);
+    expect(triggers.map((trigger) => [trigger.ruleId, trigger.value ?? trigger.platform])).toEqual([
+      ["cross", 0.55],
+      ["spread", 0.13],
+      ["source", "kalshi"],
+      ["expiry", 30],
+    ]);
+
+    // Still true on the following refresh, but nothing changed
+    const following = { ...next, updatedAt: NOW + 5_000 };
+    expect(evaluateAlertRules(rules, updateAlertBaseline(baseline, next), following, NOW + 5_000)).toEqual([]);
+  });
+
+  it("compares each market with its own last seen price across responses with different market sets", () => {
+    const rule = makeRule({ id: "cross", type: "price_cross", marketKey: "polymarket:btc", direction: "above", threshold: 0.5 });
+    const other = { ...makeSnapshot("kalshi", 0.7), marketId: "eth" };
+
+    let baseline = updateAlertBaseline(null, makeResponse([makeSnapshot("polymarket", 0.45)]));
+    const without = makeResponse([other], { updatedAt: NOW + 1_000 });
+    expect(evaluateAlertRules([rule], baseline, without, NOW + 1_000)).toEqual([]);
+    baseline = updateAlertBaseline(baseline, without);
+
+    const crossed = makeResponse([makeSnapshot("polymarket", 0.55)], { updatedAt: NOW + 2_000 });
+    expect(evaluateAlertRules([rule], baseline, crossed, NOW + 2_000).map((trigger) => trigger.value)).toEqual([0.55]);
+    baseline = updateAlertBaseline(baseline, crossed);
+
+    // The market dropping out and coming back does not fire again
+    baseline = updateAlertBaseline(baseline, makeResponse([other], { updatedAt: NOW + 3_000 }));
+    expect(evaluateAlertRules([rule], baseline, crossed, NOW + 4_000)).toEqual([]);
+  });
+
+  it("skips disabled rules and rules in cooldown", () => {
+    const previous = updateAlertBaseline(null, makeResponse([makeSnapshot("polymarket", 0.6)]));
+    const next = makeResponse([makeSnapshot("polymarket", 0.4)]);
+    const rule = makeRule({ id: "drop", type: "price_cross", marketKey: "polymarket:btc", direction: "below", threshold: 0.5 });
+
+    expect(evaluateAlertRules([rule], previous, next, NOW)).toHaveLength(1);
+    expect(evaluateAlertRules([{ ...rule, enabled: false }], previous, next, NOW)).toEqual([]);
+    expect(evaluateAlertRules([{ ...rule, lastTriggeredAt: NOW - 10 * 60_000 }], previous, next, NOW)).toEqual([]);
+    expect(evaluateAlertRules([{ ...rule, lastTriggeredAt: NOW - 61 * 60_000 }], previous, next, NOW)).toHaveLength(1);
+  });
+
+  it("validates rule input and builds Slack/Discord payloads", () => {
+    expect(
+      parseAlertRuleInput({
+        name: " BTC spread ",
+        type: "spread",
+        webhookUrl: "https://hooks.slack.com/services/T/B/X",
+        marketKey: "polymarket:btc",
+        threshold: 0.05,
+      })
+    ).toEqual({
+      input: {
+        name: "BTC spread",
+        type: "spread",
+        webhookUrl: "https://hooks.slack.com/services/T/B/X",
+        marketKey: "polymarket:btc",
+        threshold: 0.05,
+        cooldownMinutes: 60,
+      },
+    });
+    expect(parseAlertRuleInput({ name: "x", type: "spread", webhookUrl: "http://insecure.example.com" })).toEqual({
+      error: "webhookUrl must be an https URL",
+    });
+    expect(
+      parseAlertRuleInput({ name: "x", type: "price_cross", webhookUrl: "https://a.example.com", marketKey: "kalshi:btc", threshold: 0.5 })
+    ).toEqual({ error: "direction must be 'above' or 'below'" });
+
+    const payload = buildAlertWebhookPayload({
+      ruleId: "r1",
+      ruleName: "Kalshi down",
+      type: "source_error",
+      message: "kalshi source is failing",
+      triggeredAt: NOW,
+    });
+    expect(payload.text).toBe("[pm.ag] Kalshi down: kalshi source is failing");
+    expect(payload.content).toBe(payload.text);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { findArbitrageOpportunities, findBestArbitrage } from "../lib/arbitrage";
+import type { ClusterMarket, MarketCluster } from "../lib/types";
+
+const makeMarket = (
+  platform: ClusterMarket["platform"],
+  marketId: string,
+  yesPrice: number,
+  expiresAt?: number
+): ClusterMarket => ({
+  platform,
+  marketId,
+  marketTitle: `Market ${marketId}`,
+  marketUrl: `https://example.com/${platform}/${marketId}`,
+  yesPrice,
+  noPrice: 1 - yesPrice,
+  expiresAt,
+});
+
+const makeCluster = (id: string, markets: ClusterMarket[]): MarketCluster => ({
+  id,
+  title: `Cluster ${id}`,
+  normalizedTitle: `cluster ${id}`,
+  themeKey: "other",
+  platformCount: new Set(markets.map((market) => market.platform)).size,
+  markets,
+});
+
+describe("arbitrage detection", () => {
+  it("pairs the cheapest YES with the cheapest NO across platforms", () => {
+    const cluster = makeCluster("a", [
+      makeMarket("opinion", "1", 0.4),
+      makeMarket("polymarket", "2", 0.5),
+      makeMarket("limitless", "3", 0.47),
+    ]);
+
+    const best = findBestArbitrage(cluster, 0);
+    expect(best?.yesLeg.platform).toBe("opinion");
+    expect(best?.noLeg.platform).toBe("polymarket");
+    expect(best?.totalCost).toBeCloseTo(0.9);
+    expect(best?.grossEdge).toBeCloseTo(0.1);
+    expect(best?.netEdge).toBeCloseTo(0.1);
+    expect(best?.impliedReturn).toBeCloseTo(0.1 / 0.9);
+  });
+
+  it("deducts platform taker fees from the net edge", () => {
+    const cluster = makeCluster("b", [
+      makeMarket("kalshi", "1", 0.45),
+      makeMarket("polymarket", "2", 0.5),
+    ]);
+
+    const best = findBestArbitrage(cluster, 0);
+    expect(best?.yesLeg.platform).toBe("kalshi");
+    expect(best?.yesLeg.takerFee).toBeCloseTo(0.45 * 0.035);
+    expect(best?.netEdge).toBeLessThan(best!.grossEdge);
+  });
+
+  it("never pairs two markets from the same platform", () => {
+    const cluster = makeCluster("c", [
+      makeMarket("opinion", "1", 0.3),
+      makeMarket("opinion", "2", 0.6),
+    ]);
+
+    expect(findBestArbitrage(cluster, 0)).toBeNull();
+  });
+
+  it("skips NO legs on markets whose venue quotes no NO price", () => {
+    const cluster = makeCluster("d", [
+      makeMarket("opinion", "1", 0.4),
+      { ...makeMarket("kalshi", "2:0", 0.5), noPrice: undefined },
+      makeMarket("polymarket", "3", 0.55),
+    ]);
+
+    const best = findBestArbitrage(cluster, 0);
+    expect(best?.noLeg.platform).toBe("polymarket");
+    expect(best?.noLeg.price).toBeCloseTo(0.45);
+  });
+
+  it("ranks opportunities by net edge and drops ones below the threshold", () => {
+    const now = Date.UTC(2025, 0, 1);
+    const clusters = [
+      makeCluster("small", [makeMarket("opinion", "1", 0.48), makeMarket("polymarket", "2", 0.5)]),
+      makeCluster("large", [
+        makeMarket("opinion", "3", 0.3, now + 30 * 24 * 60 * 60 * 1000),
+        makeMarket("polymarket", "4", 0.5),
+      ]),
+      makeCluster("none", [makeMarket("opinion", "5", 0.5), makeMarket("polymarket", "6", 0.5)]),
+    ];
+
+    const opportunities = findArbitrageOpportunities(clusters, { now, minNetEdge: 0.01 });
+    expect(opportunities.map((item) => item.clusterId)).toEqual(["large", "small"]);
+    expect(opportunities[0].timeToExpiryMs).toBe(30 * 24 * 60 * 60 * 1000);
+    expect(opportunities[0].annualizedReturn).toBeGreaterThan(opportunities[0].impliedReturn);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { createSpreadConvergenceStrategy, runBacktest } from "../lib/backtest";
+import type { MarketPriceSnapshot } from "../lib/types";
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2025, 0, 1);
+
+function snapshot(platform: MarketPriceSnapshot["platform"], hour: number, price: number): MarketPriceSnapshot {
+  return {
+    platform,
+    marketId: `${platform}-fed`,
+    marketTitle: "Will the Fed cut rates in March 2025?",
+    price,
+    updatedAt: START + hour * HOUR,
+  };
+}
+
+// Kalshi (3.5% taker fee) stays at 0.50 while Polymarket (no fees) starts cheap and converges
+const history = [0, 1, 2, 3].flatMap((hour) => [
+  snapshot("kalshi", hour, 0.5),
+  snapshot("polymarket", hour, [0.4, 0.45, 0.495, 0.5][hour]),
+]);
+
+describe("backtest", () => {
+  it("enters on a wide cluster spread and exits on convergence", () => {
+    const report = runBacktest(history, createSpreadConvergenceStrategy({ notional: 100 }), {
+      slippageBps: 0,
+      impactBpsPer1k: 0,
+    });
+
+    expect(report.fills.map((fill) => [fill.action, fill.platform, fill.timestamp])).toEqual([
+      ["buy", "polymarket", START],
+      ["sell", "polymarket", START + 2 * HOUR],
+    ]);
+    // 250 shares bought at 0.40, sold at 0.495
+    expect(report.realizedPnl).toBeCloseTo(23.75, 6);
+    expect(report.trades).toBe(1);
+    expect(report.hitRate).toBe(1);
+    expect(report.peakCapital).toBe(100);
+    expect(report.capacity).toBeNull();
+    expect(report.equityCurve.map((point) => point.pnl)).toEqual([0, 12.5, 23.75, 23.75, 23.75]);
+  });
+
+  it("charges slippage and reports drawdown and capacity", () => {
+    const report = runBacktest(
+      [...history, snapshot("polymarket", 1.5, 0.3)],
+      createSpreadConvergenceStrategy({ notional: 100 }),
+      { slippageBps: 100, impactBpsPer1k: 100, stepMs: HOUR / 2 }
+    );
+
+    expect(report.fills[0].price).toBeCloseTo(0.4 * 1.011, 9);
+    expect(report.maxDrawdown).toBeGreaterThan(0);
+    expect(report.capacity).toBeGreaterThan(100);
+  });
+
+  it("settles positions still open on known resolutions", () => {
+    const report = runBacktest(
+      history.filter((entry) => entry.updatedAt === START),
+      createSpreadConvergenceStrategy({ notional: 100 }),
+      {
+        slippageBps: 0,
+        impactBpsPer1k: 0,
+        resolutions: [
+          {
+            platform: "polymarket",
+            marketId: "polymarket-fed",
+            marketTitle: "Will the Fed cut rates in March 2025?",
+            outcome: "yes",
+            resolvedAt: START + 24 * HOUR,
+          },
+        ],
+      }
+    );
+
+    expect(report.fills.map((fill) => fill.action)).toEqual(["buy", "settle"]);
+    expect(report.realizedPnl).toBeCloseTo(150, 6);
+    expect(report.unrealizedPnl).toBe(0);
+    expect(report.hitRate).toBe(1);
+  });
+
+  it("rejects a step that would never advance", () => {
+    const strategy = createSpreadConvergenceStrategy({ notional: 100 });
+    expect(() => runBacktest(history, strategy, { stepMs: 0 })).toThrow("step must be positive");
+    expect(() => runBacktest(history, strategy, { stepMs: Number.NaN })).toThrow("step must be positive");
+  });
+});
@@ -0,0 +1,213 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { config } from "dotenv";
+import { listMarketSources } from "../lib/adapters";
+import { setHttpInterceptor } from "../lib/http";
+import {
+  CASSETTE_VERSION,
+  createCassettePlayer,
+  createCassetteRecorder,
+  loadCassette,
+  saveCassette,
+  type Cassette,
+} from "./cassettes";
+import { diffCassettes, formatSchemaDrift } from "./schemaDrift";
+
+/**
+ * "replay" (default) runs the parsers against stored cassettes, "record"
+ * re-records them from the venues configured in .env.local and "check"
+ * records without saving and fails on schema drift
+ */
+const MODE = process.env.CASSETTES ?? "replay";
+const LIMIT = 20;
+
+const REPLAY_ENV = {
+  OPINION_API_KEY: "replay",
+  OPINION_OPENAPI_BASE_URL: "https://opinion.replay.invalid",
+  POLYMARKET_API_BASE_URL: "https://polymarket.replay.invalid",
+  KALSHI_API_BASE_URL: "https://kalshi.replay.invalid",
+  LIMITLESS_API_BASE_URL: "https://limitless.replay.invalid",
+  PREDICTFUN_API_KEY: "replay",
+  PREDICTFUN_API_BASE_URL: "https://predictfun.replay.invalid",
+};
+
+const cassette = (interactions: Array<[string, unknown, number?]>): Cassette => ({
+  version: CASSETTE_VERSION,
+  source: "limitless",
+  recordedAt: "2026-10-18T00:00:00.000Z",
+  interactions: interactions.map(([url, json, status = 200]) => ({
+    request: { method: "GET", url },
+    response: { status, statusText: "", json },
+  })),
+});
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setHttpInterceptor(null);
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe.runIf(MODE === "replay")("venue cassettes", () => {
+  for (const adapter of listMarketSources()) {
+    const stored = loadCassette(adapter.id);
+
+    it.runIf(stored !== null)(`replays ${stored?.synthetic ? "synthetic" : "recorded"} ${adapter.id} payloads through the parsers`, async () => {
+      for (const [key, value] of Object.entries(REPLAY_ENV)) {
+        vi.stubEnv(key, value);
+      }
+      // Markets past their end date at replay time would be filtered out
+      vi.useFakeTimers({ now: new Date(stored!.recordedAt), toFake: ["Date"] });
+
+      const player = createCassettePlayer([stored!]);
+      setHttpInterceptor(player.interceptor);
+
+      const markets = await adapter.fetchMarkets(LIMIT);
+      await adapter.fetchResolutions?.(LIMIT);
+
+      expect(player.misses).toEqual([]);
+      expect(markets.length).toBeGreaterThan(0);
+      for (const market of markets) {
+        expect(market.platform).toBe(adapter.id);
+        expect(market.price).toBeGreaterThanOrEqual(0);
+        expect(market.price).toBeLessThanOrEqual(1);
+      }
+    });
+  }
+});
+
+describe.runIf(MODE === "record" || MODE === "check")("recording venue cassettes", () => {
+  it("records every venue and reports schema drift against the stored cassettes", { timeout: 120_000 }, async () => {
+    config({ path: ".env.local" });
+    config();
+
+    const baseUrls = Object.entries(process.env)
+      .filter(([key, value]) => key.endsWith("_BASE_URL") && value)
+      .map(([, value]) => value!);
+    const recorder = createCassetteRecorder(baseUrls);
+    setHttpInterceptor(recorder.interceptor);
+    for (const adapter of listMarketSources()) {
+      await adapter.fetchMarkets(LIMIT);
+      await adapter.fetchResolutions?.(LIMIT);
+    }
+    setHttpInterceptor(null);
+
+    // Synthetic cassettes only mirror the fixtures, so drift against them says nothing about the venue
+    const recorded = recorder.cassettes();
+    const compared = recorded.map((cassette) => ({ cassette, baseline: loadCassette(cassette.source) }));
+    const drifts = compared
+      .filter(({ baseline }) => !baseline?.synthetic)
+      .map(({ cassette, baseline }) => diffCassettes(baseline, cassette));
+    const unchecked = compared.filter(({ baseline }) => baseline?.synthetic).map(({ cassette }) => cassette.source);
+    process.stdout.write(`\nSchema drift:\n${formatSchemaDrift(drifts)}\n`);
+    if (unchecked.length > 0) {
+      process.stdout.write(`Not compared (stored cassette is synthetic): ${unchecked.join(", ")}\n`);
+    }
+
+    if (MODE === "record") {
+      recorded.forEach((cassette) => saveCassette(cassette));
+    } else {
+      expect(drifts.flatMap((drift) => drift.endpoints)).toEqual([]);
+    }
+  });
+});
+
+describe("cassettes", () => {
+  it("records responses relative to the base URL without request headers and replays them elsewhere", async () => {
+    const recorder = createCassetteRecorder(["https://api.limitless.exchange/v1/"]);
+    await recorder.interceptor(
+      {
+        source: "limitless",
+        url: "https://api.limitless.exchange/v1/markets/active?page=1&limit=25",
+        init: { headers: { Authorization: "Bearer secret" } },
+      },
+      async () => new Response(JSON.stringify({ data: [{ id: 1 }] }), { status: 200 })
+    );
+    const [recorded] = recorder.cassettes();
+    expect(recorded.interactions).toEqual([
+      {
+        request: { method: "GET", url: "/markets/active?limit=25&page=1" },
+        response: { status: 200, statusText: "", json: { data: [{ id: 1 }] } },
+      },
+    ]);
+    expect(JSON.stringify(recorded)).not.toContain("secret");
+
+    const player = createCassettePlayer([recorded]);
+    const send = vi.fn();
+    const replayed = await player.interceptor(
+      { source: "limitless", url: "http://localhost/api/markets/active?limit=25&page=1", init: {} },
+      send
+    );
+    expect(await replayed.json()).toEqual({ data: [{ id: 1 }] });
+    expect(send).not.toHaveBeenCalled();
+
+    const missing = await player.interceptor(
+      { source: "limitless", url: "http://localhost/markets/active?limit=5&page=1", init: {} },
+      send
+    );
+    expect(missing.status).toBe(404);
+    expect(player.misses).toEqual(["limitless GET /markets/active?limit=5&page=1"]);
+  });
+
+  it("replays retried requests in recorded order", async () => {
+    const player = createCassettePlayer([
+      cassette([
+        ["/markets/active", { message: "slow down" }, 429],
+        ["/markets/active", { data: [] }],
+      ]),
+    ]);
+    const request = { source: "limitless", url: "https://api.limitless.exchange/markets/active", init: {} };
+
+    expect((await player.interceptor(request, vi.fn())).status).toBe(429);
+    expect((await player.interceptor(request, vi.fn())).status).toBe(200);
+    expect((await player.interceptor(request, vi.fn())).status).toBe(200);
+  });
+});
+
+describe("schema drift", () => {
+  it("lists added, removed and retyped fields per endpoint", () => {
+    const stored = cassette([
+      ["/markets/active?limit=25", { data: [{ id: 1, closeTime: "2027-01-01", prices: [46, 54] }] }],
+      ["/markets/closed", { data: [] }],
+      ["/markets/active?limit=25", { message: "rate limited" }, 429],
+    ]);
+    const recorded = cassette([
+      ["/markets/active?limit=25", { data: [{ id: "1", expirationDate: "2027-01-01", prices: [0.46, null] }] }],
+      ["/markets/settled", { data: [] }],
+    ]);
+
+    const drift = diffCassettes(stored, recorded);
+    expect(drift.endpoints).toEqual([
+      {
+        endpoint: "GET /markets/active",
+        status: "changed",
+        added: ["data[].expirationDate"],
+        removed: ["data[].closeTime"],
+        changed: [
+          { path: "data[].id", from: "number", to: "string" },
+          { path: "data[].prices[]", from: "number", to: "null|number" },
+        ],
+      },
+      { endpoint: "GET /markets/closed", status: "missing", added: [], removed: [], changed: [] },
+      { endpoint: "GET /markets/settled", status: "new", added: [], removed: [], changed: [] },
+    ]);
+
+    expect(formatSchemaDrift([drift])).toBe(
+      [
+        "limitless",
+        "  GET /markets/active",
+        "    + data[].expirationDate",
+        "    - data[].closeTime",
+        "    ~ data[].id: number -> string",
+        "    ~ data[].prices[]: number -> null|number",
+        "  GET /markets/closed (missing endpoint)",
+        "  GET /markets/settled (new endpoint)",
+      ].join("\n")
+    );
+    expect(formatSchemaDrift([diffCassettes(stored, stored)])).toBe("No schema drift");
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Record-and-replay HTTP cassettes for venue payloads
+ *
+ * A recorder captures what each venue client receives through the shared
+ * HTTP layer (lib/http.ts) into one JSON cassette per source; a player
+ * feeds the cassettes back so tests run the real parsers against recorded
+ * payloads. Request headers are never stored, so API keys stay out of
+ * cassettes, and recorded URLs keep only their path and query below the
+ * venue's base URL so replays work against any base URL. Cassettes built
+ * by hand or from fixtures are marked `synthetic`.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { HttpInterceptor } from "../lib/http";
+
+// --- Types ---
+
+export interface CassetteInteraction {
+  request: { method: string; url: string }; // Path below the base URL and sorted query
+  response: { status: number; statusText: string; json?: unknown; text?: string }; // `text` when not JSON
+}
+
+export interface Cassette {
+  version: number;
+  source: string;
+  recordedAt: string; // ISO timestamp
+  synthetic?: boolean; // Not recorded from the venue, so not a schema-drift baseline
+  note?: string; // Where a synthetic cassette came from
+  interactions: CassetteInteraction[];
+}
+
+export interface CassetteRecorder {
+  interceptor: HttpInterceptor;
+  cassettes: () => Cassette[]; // One per source that made requests
+}
+
+export interface CassettePlayer {
+  interceptor: HttpInterceptor;
+  misses: string[]; // Requests with no recorded response, e.g. "opinion GET /market?limit=15"
+}
+
+// --- Configuration ---
+
+export const CASSETTE_VERSION = 1;
+export const DEFAULT_CASSETTE_DIR = join(__dirname, "cassettes");
+
+// --- Helper Functions ---
+
+/**
+ * Path and sorted query of a URL, relative to the first base URL it falls under
+ */
+function toRecordedUrl(url: string, baseUrls: string[] = []): string {
+  const parsed = new URL(url);
+  parsed.searchParams.sort();
+  const base = baseUrls
+    .map((baseUrl) => new URL(baseUrl.trim().replace(/\/$/, "")))
+    .find((baseUrl) => baseUrl.origin === parsed.origin && parsed.pathname.startsWith(`${baseUrl.pathname}/`));
+  const path = base && base.pathname !== "/" ? parsed.pathname.slice(base.pathname.length) : parsed.pathname;
+  return `${path}${parsed.search}`;
+}
+
+function splitUrl(url: string): { path: string; query: string } {
+  const index = url.indexOf("?");
+  return index === -1 ? { path: url, query: "" } : { path: url.slice(0, index), query: url.slice(index) };
+}
+
+/**
+ * Whether a recorded URL answers a request, ignoring a base path only one
+ * side has (e.g. `/openapi/market` answers `/market`)
+ */
+function matchesUrl(recorded: string, requested: string): boolean {
+  const a = splitUrl(recorded);
+  const b = splitUrl(requested);
+  if (a.query !== b.query) {
+    return false;
+  }
+  const [longer, shorter] = a.path.length >= b.path.length ? [a.path, b.path] : [b.path, a.path];
+  return longer === shorter || longer.endsWith(shorter.startsWith("/") ? shorter : `/${shorter}`);
+}
+
+async function toInteraction(
+  method: string,
+  url: string,
+  response: Response,
+  baseUrls: string[]
+): Promise<CassetteInteraction> {
+  const text = await response.clone().text();
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = undefined;
+  }
+
+  return {
+    request: { method, url: toRecordedUrl(url, baseUrls) },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      ...(json === undefined ? { text } : { json }),
+    },
+  };
+}
+
+function toResponse(interaction: CassetteInteraction): Response {
+  const { status, statusText, json, text } = interaction.response;
+  const body = text ?? JSON.stringify(json);
+  return new Response(status === 204 ? null : body, {
+    status,
+    statusText,
+    headers: { "Content-Type": text === undefined ? "application/json" : "text/plain" },
+  });
+}
+
+// --- Public API ---
+
+/**
+ * Record every response clients receive while the recorder's interceptor is installed
+ *
+ * @param baseUrls - Venue base URLs to strip from recorded URLs, so
+ *   recordings from different hosts or base paths compare endpoint by endpoint
+ */
+export function createCassetteRecorder(baseUrls: string[] = []): CassetteRecorder {
+  const recordedAt = new Date().toISOString();
+  const interactions = new Map<string, CassetteInteraction[]>();
+
+  return {
+    interceptor: async ({ source, url, init }, send) => {
+      const response = await send();
+      const interaction = await toInteraction(init.method ?? "GET", url, response, baseUrls);
+      interactions.set(source, [...(interactions.get(source) ?? []), interaction]);
+      return response;
+    },
+    cassettes: () =>
+      Array.from(interactions.entries()).map(([source, recorded]) => ({
+        version: CASSETTE_VERSION,
+        source,
+        recordedAt,
+        interactions: recorded,
+      })),
+  };
+}
+
+/**
+ * Answer requests from cassettes instead of the network
+ *
+ * Matching interactions are replayed in recorded order, so retried requests
+ * see the same statuses again; once used up, the last one keeps answering.
+ * Unrecorded requests get a 404 and are listed in `misses`.
+ */
+export function createCassettePlayer(cassettes: Cassette[]): CassettePlayer {
+  const used = new Set<CassetteInteraction>();
+  const misses: string[] = [];
+
+  return {
+    misses,
+    interceptor: async ({ source, url, init }) => {
+      const method = init.method ?? "GET";
+      const requested = toRecordedUrl(url);
+      const candidates = cassettes
+        .filter((cassette) => cassette.source === source)
+        .flatMap((cassette) => cassette.interactions)
+        .filter(
+          (interaction) => interaction.request.method === method && matchesUrl(interaction.request.url, requested)
+        );
+
+      const interaction = candidates.find((candidate) => !used.has(candidate)) ?? candidates[candidates.length - 1];
+      if (!interaction) {
+        misses.push(`${source} ${method} ${requested}`);
+        return new Response(JSON.stringify({ message: "No recorded response" }), {
+          status: 404,
+          statusText: "Not Recorded",
+        });
+      }
+
+      used.add(interaction);
+      return toResponse(interaction);
+    },
+  };
+}
+
+/**
+ * Read a stored cassette, or null if the source has none
+ */
+export function loadCassette(source: string, dir: string = DEFAULT_CASSETTE_DIR): Cassette | null {
+  const file = join(dir, `${source}.json`);
+  if (!existsSync(file)) {
+    return null;
+  }
+
+  const cassette: Cassette = JSON.parse(readFileSync(file, "utf8"));
+  if (cassette.version !== CASSETTE_VERSION) {
+    throw new Error(
+      `Cassette ${file} has version ${cassette.version}, expected ${CASSETTE_VERSION}; record it again`
+    );
+  }
+  return cassette;
+}
+
+/**
+ * Write a cassette as `<source>.json`, replacing the stored one
+ */
+export function saveCassette(cassette: Cassette, dir: string = DEFAULT_CASSETTE_DIR): void {
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, `${cassette.source}.json`), `${JSON.stringify(cassette, null, 2)}\n`);
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { applyClusterOverrides, isValidMarketKey } from "../lib/clusterOverrides";
+import { summarizeCluster } from "../lib/marketClustering";
+import type { ClusterMarket, ClusterOverride, ClusterOverrideAction, Platform } from "../lib/types";
+
+const makeMarket = (platform: Platform, marketId: string, marketTitle: string): ClusterMarket => ({
+  platform,
+  marketId,
+  marketTitle,
+  marketUrl: `https://${platform}.example.com/${marketId}`,
+  yesPrice: 0.5,
+  noPrice: 0.5,
+});
+
+const makeOverride = (action: ClusterOverrideAction, marketKey: string, targetKey: string): ClusterOverride => ({
+  id: `${action}-${marketKey}`,
+  action,
+  marketKey,
+  targetKey,
+  createdAt: 0,
+});
+
+const fedMarch = makeMarket("polymarket", "fed-mar", "Fed cuts rates in March 2026?");
+const fedJune = makeMarket("kalshi", "FED-JUN", "Fed cuts rates in June 2026?");
+const fedMarchOpinion = makeMarket("opinion", "101", "Will the Fed cut rates in March?");
+const rain = makeMarket("limitless", "rain", "Will it rain in London tomorrow?");
+
+const clusterKeys = (clusters: ReturnType<typeof applyClusterOverrides>) =>
+  clusters.map((cluster) => cluster.markets.map((market) => `${market.platform}:${market.marketId}`).sort());
+
+describe("manual cluster overrides", () => {
+  it("splits a wrongly merged market into its own curated cluster", () => {
+    const clusters = [summarizeCluster([fedMarch, fedJune], 0), summarizeCluster([rain], 1)];
+
+    const result = applyClusterOverrides(clusters, [
+      makeOverride("split", "kalshi:FED-JUN", "polymarket:fed-mar"),
+    ]);
+
+    expect(clusterKeys(result)).toEqual([["polymarket:fed-mar"], ["limitless:rain"], ["kalshi:FED-JUN"]]);
+    expect(result[0].curated).toBe(true);
+    expect(result[0].id).toMatch(/-curated$/);
+    expect(result[1]).toBe(clusters[1]);
+  });
+
+  it("pins a single market and merges whole clusters", () => {
+    const clusters = [
+      summarizeCluster([fedMarch, fedJune], 0),
+      summarizeCluster([fedMarchOpinion], 1),
+      summarizeCluster([rain], 2),
+    ];
+
+    const pinned = applyClusterOverrides(clusters, [
+      makeOverride("pin", "opinion:101", "polymarket:fed-mar"),
+    ]);
+    expect(clusterKeys(pinned)).toEqual([
+      ["kalshi:FED-JUN", "opinion:101", "polymarket:fed-mar"],
+      ["limitless:rain"],
+    ]);
+    expect(pinned[0].platformCount).toBe(3);
+
+    const merged = applyClusterOverrides(clusters, [
+      makeOverride("merge", "limitless:rain", "polymarket:fed-mar"),
+    ]);
+    expect(clusterKeys(merged)).toEqual([
+      ["kalshi:FED-JUN", "limitless:rain", "polymarket:fed-mar"],
+      ["opinion:101"],
+    ]);
+  });
+
+  it("ignores rules for markets missing from the snapshot and validates keys", () => {
+    const clusters = [summarizeCluster([fedMarch, fedJune], 0)];
+
+    expect(applyClusterOverrides(clusters, [makeOverride("split", "kalshi:GONE", "polymarket:fed-mar")])).toEqual(clusters);
+    expect(isValidMarketKey("kalshi:FED-JUN")).toBe(true);
+    expect(isValidMarketKey("0x12ab:1")).toBe(false);
+    expect(isValidMarketKey("polymarket")).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { attributeFeesToBasisPoints } from "../lib/feeRevenue";
+import type { FeeConfigChange } from "../lib/types";
+
+const change = (
+  kind: FeeConfigChange["kind"],
+  oldValue: string,
+  newValue: string,
+  blockNumber: number,
+  timestamp: number
+): FeeConfigChange => ({
+  id: `${kind}-${blockNumber}`,
+  contractAddress: "0x1111111111111111111111111111111111111111",
+  kind,
+  oldValue,
+  newValue,
+  txHash: `0x${blockNumber}`,
+  logIndex: 5,
+  blockNumber: String(blockNumber),
+  timestamp,
+});
+
+describe("fee revenue attribution", () => {
+  it("splits fees by the basis points in force when they were charged", () => {
+    const changes = [
+      change("fee_basis_points", "50", "25", 300, 3000),
+      change("fee_wallet", "0xaaa", "0xbbb", 150, 1500),
+      change("fee_basis_points", "100", "50", 200, 2000),
+    ];
+    const fees = [
+      { amount: "10", blockNumber: "100", logIndex: 0 },
+      { amount: "7", blockNumber: "200", logIndex: 2 }, // Same block, before the change
+      { amount: "5", blockNumber: "200", logIndex: 9 }, // Same block, after the change
+      { amount: "1000000000000000000000", blockNumber: "400", logIndex: 0 },
+    ];
+
+    expect(attributeFeesToBasisPoints(fees, changes)).toEqual([
+      { basisPoints: 100, from: null, to: 2000, totalFees: "17", feeCount: 2 },
+      { basisPoints: 50, from: 2000, to: 3000, totalFees: "5", feeCount: 1 },
+      { basisPoints: 25, from: 3000, to: null, totalFees: "1000000000000000000000", feeCount: 1 },
+    ]);
+  });
+
+  it("reports an unknown rate when no basis-points change is indexed", () => {
+    expect(attributeFeesToBasisPoints([{ amount: "3", blockNumber: "1", logIndex: 0 }], [])).toEqual([
+      { basisPoints: null, from: null, to: null, totalFees: "3", feeCount: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createHttpClient, getHttpMetrics } from "../lib/http";
+import { buildSourceHealth, getMarketSource, registerMarketSource } from "../lib/adapters/registry";
+
+const respond = (status: number) => new Response(JSON.stringify({ ok: status < 400 }), { status });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("shared HTTP layer", () => {
+  it("retries 5xx responses and records metrics", async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(respond(503)).mockResolvedValueOnce(respond(200));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const http = createHttpClient("test-retry", { label: "Test API", initialBackoffMs: 1 });
+    await expect(http.fetchJson("https://example.com/a")).resolves.toEqual({ ok: true });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(getHttpMetrics("test-retry")).toMatchObject({
+      requests: 2,
+      successes: 1,
+      failures: 0,
+      retries: 1,
+      lastStatus: 200,
+      inflight: 0,
+    });
+  });
+
+  it("fails fast on non-retryable statuses", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(respond(404));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const http = createHttpClient("polymarket", { label: "Test API", initialBackoffMs: 1 });
+    await expect(http.fetch("https://example.com/missing")).rejects.toThrow("Test API error: 404");
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(getHttpMetrics("polymarket")?.failures).toBe(1);
+    expect(buildSourceHealth("polymarket", true).status).toBe("down");
+  });
+
+  it("limits concurrent requests per source", async () => {
+    let active = 0;
+    let peak = 0;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+        return respond(200);
+      })
+    );
+
+    const http = createHttpClient("test-concurrency", { maxConcurrent: 2 });
+    await Promise.all(Array.from({ length: 6 }, (_, index) => http.fetch(`https://example.com/${index}`)));
+
+    expect(peak).toBe(2);
+    expect(getHttpMetrics("test-concurrency")?.successes).toBe(6);
+  });
+});
+
+describe("market source registry", () => {
+  it("registers adapters and rejects mismatched capabilities", () => {
+    const adapter = {
+      id: "limitless" as const,
+      cacheTtlMs: 1000,
+      capabilities: { prices: false, orderbook: false, trading: false, resolutions: false },
+      fetchMarkets: async () => [],
+      health: () => buildSourceHealth("limitless", false),
+    };
+
+    registerMarketSource(adapter);
+    expect(getMarketSource("limitless")).toBe(adapter);
+    expect(getMarketSource("limitless")?.health().status).toBe("unconfigured");
+
+    expect(() =>
+      registerMarketSource({ ...adapter, capabilities: { ...adapter.capabilities, orderbook: true } })
+    ).toThrow(/orderbook capability/);
+  });
+});
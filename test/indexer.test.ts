@@ -0,0 +1,248 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../lib/database/queries", () => ({
+  deleteIndexedRowsInBlocks: vi.fn(async (blocks: unknown[]) => blocks.length),
+  getIndexedBlocks: vi.fn(async () => [
+    { blockNumber: BigInt(90), blockHash: "0xaa" },
+    { blockNumber: BigInt(95), blockHash: "0xcc" },
+  ]),
+  getIndexerCheckpoint: vi.fn(async () => BigInt(100)),
+  saveIndexerCheckpoint: vi.fn(async () => undefined),
+  upsertFeeConfigChange: vi.fn(async () => true),
+  upsertIndexedFee: vi.fn(async () => true),
+  upsertIndexedFeeRecord: vi.fn(async () => true),
+  upsertIndexedTrade: vi.fn(async () => true),
+}));
+
+import { getBlockRanges, getLogsInRange, runIndexer } from "../lib/indexer";
+import * as queries from "../lib/database/queries";
+
+const USER = "0x000000000000000000000000000000000000dEaD";
+const CONTRACT = "0x1111111111111111111111111111111111111111";
+
+/** Integer digits a Decimal column of a Prisma model can hold */
+function getIntegerDigits(model: string, column: string): number {
+  const schema = readFileSync(join(__dirname, "../lib/database/schema.prisma"), "utf8");
+  const body = schema.split(`model ${model} {`)[1].split("\n}")[0];
+  const match = body.match(new RegExp(`\\n\\s*${column}\\s+Decimal\\??\\s.*@db\\.Decimal\\((\\d+), (\\d+)\\)`));
+  return match ? Number(match[1]) - Number(match[2]) : 0;
+}
+
+afterEach(() => {
+  delete process.env.INDEXER_BLOCK_RANGE;
+  vi.clearAllMocks();
+});
+
+describe("indexer", () => {
+  it("splits block ranges into inclusive chunks", () => {
+    expect(getBlockRanges(BigInt(10), BigInt(24), BigInt(5))).toEqual([
+      { fromBlock: BigInt(10), toBlock: BigInt(14) },
+      { fromBlock: BigInt(15), toBlock: BigInt(19) },
+      { fromBlock: BigInt(20), toBlock: BigInt(24) },
+    ]);
+    expect(getBlockRanges(BigInt(10), BigInt(12), BigInt(5000))).toEqual([
+      { fromBlock: BigInt(10), toBlock: BigInt(12) },
+    ]);
+    expect(getBlockRanges(BigInt(13), BigInt(12), BigInt(5))).toEqual([]);
+  });
+
+  it("halves getLogs ranges the RPC rejects", async () => {
+    const getLogs = vi.fn(async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) => {
+      if (toBlock - fromBlock + BigInt(1) > BigInt(2)) {
+        throw new Error("block range too large");
+      }
+      return [fromBlock];
+    });
+
+    await expect(getLogsInRange(getLogs, { fromBlock: BigInt(0), toBlock: BigInt(7) })).resolves.toEqual(
+      [0, 2, 4, 6].map(BigInt)
+    );
+
+    const failing = vi.fn(async () => {
+      throw new Error("rpc down");
+    });
+    await expect(getLogsInRange(failing, { fromBlock: BigInt(0), toBlock: BigInt(1) })).rejects.toThrow("rpc down");
+  });
+
+  it("rolls back orphaned blocks and re-scans the unconfirmed window idempotently", async () => {
+    process.env.INDEXER_BLOCK_RANGE = "10";
+    const getLogs = vi.fn(async ({ fromBlock }: { fromBlock: bigint }) =>
+      fromBlock === BigInt(86)
+        ? [
+            {
+              eventName: "TradeExecuted",
+              args: {
+                tradeId: BigInt(7),
+                user: USER,
+                marketId: BigInt(0),
+                side: true,
+                amount: BigInt(10),
+                fee: BigInt(1),
+              },
+              blockNumber: BigInt(90),
+              blockHash: "0xbb",
+              transactionHash: "0xtx",
+              logIndex: 3,
+            },
+          ]
+        : []
+    );
+    const client = {
+      getBlockNumber: vi.fn(async () => BigInt(105)),
+      getBlock: vi.fn(async ({ blockNumber }: { blockNumber: bigint }) => ({
+        hash: blockNumber === BigInt(90) ? "0xbb" : "0xcc",
+        timestamp: BigInt(1_750_000_000),
+      })),
+      getLogs,
+    };
+
+    const result = await runIndexer(CONTRACT, client as never);
+
+    // Checkpoint 100 with 15 confirmations re-scans from block 86
+    expect(result).toEqual({
+      fromBlock: BigInt(86),
+      lastBlock: BigInt(105),
+      newTrades: 1,
+      newEvents: 1,
+      removedRows: 1,
+    });
+    expect(queries.deleteIndexedRowsInBlocks).toHaveBeenCalledWith([{ blockNumber: BigInt(90), blockHash: "0xaa" }]);
+    expect(queries.upsertIndexedTrade).toHaveBeenCalledWith(
+      expect.objectContaining({ txHash: "0xtx", logIndex: 3, blockHash: "0xbb", marketId: 0 })
+    );
+    expect(vi.mocked(queries.saveIndexerCheckpoint).mock.calls).toEqual([
+      [CONTRACT, BigInt(95)],
+      [CONTRACT, BigInt(105)],
+    ]);
+
+    // The same log seen again is not counted twice
+    vi.mocked(queries.upsertIndexedTrade).mockResolvedValueOnce(false);
+    await expect(runIndexer(CONTRACT, client as never)).resolves.toMatchObject({ newTrades: 0 });
+  });
+
+  it("stops at a log that fails to store and keeps the checkpoint before its block", async () => {
+    process.env.INDEXER_BLOCK_RANGE = "10";
+    const feeLog = (blockNumber: number, logIndex: number) => ({
+      eventName: "FeeRecorded",
+      args: { user: USER, amount: BigInt(1), timestamp: BigInt(0) },
+      blockNumber: BigInt(blockNumber),
+      blockHash: `0xb${blockNumber}`,
+      transactionHash: `0xtx${blockNumber}`,
+      logIndex,
+    });
+    const logs = [feeLog(12, 0), feeLog(15, 0), feeLog(15, 1), feeLog(18, 0)];
+    const client = {
+      getBlockNumber: vi.fn(async () => BigInt(30)),
+      getBlock: vi.fn(async () => ({ hash: "0xb", timestamp: BigInt(1_750_000_000) })),
+      getLogs: vi.fn(async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) =>
+        logs.filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+      ),
+    };
+    vi.mocked(queries.getIndexerCheckpoint).mockResolvedValueOnce(null);
+    vi.mocked(queries.upsertIndexedFeeRecord)
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(true)
+      .mockRejectedValueOnce(new Error("connection reset"));
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    await expect(runIndexer(CONTRACT, client as never)).rejects.toThrow("connection reset");
+    expect(queries.upsertIndexedFeeRecord).toHaveBeenCalledTimes(3);
+    // Block 15 is retried next run; nothing after it is indexed
+    expect(vi.mocked(queries.saveIndexerCheckpoint).mock.calls).toEqual([
+      [CONTRACT, BigInt(9)],
+      [CONTRACT, BigInt(14)],
+    ]);
+  });
+
+  it("stores fee and fee config events and links fees to their trade", async () => {
+    const position = (logIndex: number) => ({
+      blockNumber: BigInt(20),
+      blockHash: "0xb20",
+      transactionHash: logIndex < 3 ? "0xtrade" : "0xadmin",
+      logIndex,
+    });
+    const client = {
+      getBlockNumber: vi.fn(async () => BigInt(20)),
+      getBlock: vi.fn(async () => ({ hash: "0xb20", timestamp: BigInt(1_750_000_000) })),
+      getLogs: vi.fn(async () => [
+        {
+          eventName: "TradeExecuted",
+          args: {
+            tradeId: BigInt(8),
+            user: USER,
+            marketId: BigInt(5),
+            side: false,
+            amount: BigInt(100),
+            fee: BigInt(1),
+          },
+          ...position(1),
+        },
+        { eventName: "FeeCollected", args: { user: USER, amount: BigInt(1), timestamp: BigInt(0) }, ...position(2) },
+        {
+          eventName: "FeeBasisPointsUpdated",
+          args: { oldBasisPoints: BigInt(100), newBasisPoints: BigInt(50) },
+          ...position(3),
+        },
+        { eventName: "FeeRecorded", args: { user: USER, amount: BigInt(1), timestamp: BigInt(0) }, ...position(4) },
+      ]),
+    };
+
+    vi.mocked(queries.getIndexerCheckpoint).mockResolvedValueOnce(null);
+    await expect(runIndexer(CONTRACT, client as never)).resolves.toMatchObject({ newTrades: 1, newEvents: 4 });
+    expect(queries.upsertIndexedFee).toHaveBeenCalledWith(
+      expect.objectContaining({ contractAddress: CONTRACT, tradeId: BigInt(8), amount: "1", logIndex: 2 })
+    );
+    expect(queries.upsertFeeConfigChange).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: "fee_basis_points", oldValue: "100", newValue: "50" })
+    );
+    expect(queries.upsertIndexedFeeRecord).toHaveBeenCalledWith(expect.objectContaining({ amount: "1", logIndex: 4 }));
+  });
+
+  it("stores wei fee amounts exactly in columns wide enough for them", async () => {
+    const fee = BigInt("25000000000000000"); // 0.025 BNB
+    const position = (logIndex: number) => ({
+      blockNumber: BigInt(40),
+      blockHash: "0xb40",
+      transactionHash: "0xfee",
+      logIndex,
+    });
+    const client = {
+      getBlockNumber: vi.fn(async () => BigInt(40)),
+      getBlock: vi.fn(async () => ({ hash: "0xb40", timestamp: BigInt(1_750_000_000) })),
+      getLogs: vi.fn(async () => [
+        {
+          eventName: "TradeExecuted",
+          args: { tradeId: BigInt(9), user: USER, marketId: BigInt(5), side: true, amount: fee * BigInt(100), fee },
+          ...position(0),
+        },
+        { eventName: "FeeCollected", args: { user: USER, amount: fee, timestamp: BigInt(0) }, ...position(1) },
+        { eventName: "FeeRecorded", args: { user: USER, amount: fee, timestamp: BigInt(0) }, ...position(2) },
+      ]),
+    };
+
+    vi.mocked(queries.getIndexerCheckpoint).mockResolvedValueOnce(null);
+    await runIndexer(CONTRACT, client as never);
+
+    expect(queries.upsertIndexedTrade).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: "2500000000000000000", fee: "25000000000000000" })
+    );
+    expect(queries.upsertIndexedFee).toHaveBeenCalledWith(expect.objectContaining({ amount: "25000000000000000" }));
+    expect(queries.upsertIndexedFeeRecord).toHaveBeenCalledWith(expect.objectContaining({ amount: "25000000000000000" }));
+
+    const columns: [string, string][] = [
+      ["Trade", "amount"],
+      ["Trade", "fee"],
+      ["Fee", "amount"],
+      ["FeeRecord", "amount"],
+      ["UserMetrics", "totalVolume"],
+      ["UserMetrics", "totalFees"],
+      ["SystemMetrics", "totalVolume"],
+      ["SystemMetrics", "totalFees"],
+    ];
+    for (const [model, column] of columns) {
+      expect(getIntegerDigits(model, column), `${model}.${column}`).toBeGreaterThanOrEqual(String(fee * BigInt(100)).length);
+    }
+  });
+});
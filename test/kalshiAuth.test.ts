@@ -0,0 +1,61 @@
+import { constants, generateKeyPairSync, verify } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  buildKalshiAuthHeaders,
+  loadKalshiPrivateKey,
+  signKalshiRequest,
+  verifyKalshiSignature,
+} from "../lib/kalshiAuth";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: "spki", format: "pem" },
+  privateKeyEncoding: { type: "pkcs8", format: "pem" },
+});
+
+describe("kalshi request signing", () => {
+  it("signs timestamp + method + path with RSA-PSS SHA-256", () => {
+    const timestamp = "1703123456789";
+    const signature = signKalshiRequest(privateKey, timestamp, "get", "/trade-api/v2/portfolio/balance");
+
+    const valid = verify(
+      "sha256",
+      Buffer.from(`${timestamp}GET/trade-api/v2/portfolio/balance`),
+      {
+        key: publicKey,
+        padding: constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+      },
+      Buffer.from(signature, "base64")
+    );
+
+    expect(valid).toBe(true);
+  });
+
+  it("excludes the query string and rejects tampered requests", () => {
+    const headers = buildKalshiAuthHeaders(
+      "key-id",
+      privateKey,
+      "GET",
+      "https://api.elections.kalshi.com/trade-api/v2/portfolio/fills?limit=100",
+      1703123456789
+    );
+
+    expect(headers["KALSHI-ACCESS-KEY"]).toBe("key-id");
+    expect(headers["KALSHI-ACCESS-TIMESTAMP"]).toBe("1703123456789");
+
+    const signature = headers["KALSHI-ACCESS-SIGNATURE"];
+    expect(verifyKalshiSignature(publicKey, signature, "1703123456789", "GET", "/trade-api/v2/portfolio/fills")).toBe(true);
+    expect(verifyKalshiSignature(publicKey, signature, "1703123456789", "GET", "/trade-api/v2/portfolio/positions")).toBe(false);
+    expect(verifyKalshiSignature(publicKey, signature, "1703123456790", "GET", "/trade-api/v2/portfolio/fills")).toBe(false);
+  });
+
+  it("loads PKCS#1 keys and keys with escaped newlines", () => {
+    const pkcs1 = loadKalshiPrivateKey(privateKey).export({ type: "pkcs1", format: "pem" }).toString();
+    const escaped = pkcs1.replace(/\n/g, "\\n");
+
+    const signature = signKalshiRequest(escaped, "1", "POST", "/trade-api/v2/portfolio/orders");
+    expect(verifyKalshiSignature(publicKey, signature, "1", "POST", "/trade-api/v2/portfolio/orders")).toBe(true);
+    expect(() => loadKalshiPrivateKey("not a key")).toThrow(/Invalid Kalshi private key/);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { applyMarketsDelta, diffMarkets, hasSameMarketSet } from "../lib/marketDelta";
+import type { MarketPriceSnapshot, MarketsResponse, PlatformSource, PlatformSourceState } from "../lib/types";
+
+const liveSources = (): Record<PlatformSource, PlatformSourceState> => ({
+  opinion: { status: "live" },
+  kalshi: { status: "live" },
+  polymarket: { status: "live" },
+  predictfun: { status: "live" },
+  limitless: { status: "live" },
+});
+
+const makeSnapshot = (
+  platform: PlatformSource,
+  marketId: string,
+  price: number,
+  updatedAt = 1
+): MarketPriceSnapshot => ({
+  platform,
+  marketId,
+  marketTitle: `Market ${marketId}`,
+  price,
+  updatedAt,
+  url: `https://example.com/${marketId}`,
+});
+
+const makeResponse = (list: MarketPriceSnapshot[], sources = liveSources()): MarketsResponse => {
+  const cluster = {
+    id: "cluster-1",
+    title: "Cluster",
+    normalizedTitle: "cluster",
+    themeKey: "other",
+    platformCount: 2,
+    markets: list.map((snapshot) => ({
+      platform: snapshot.platform,
+      marketId: snapshot.marketId,
+      marketTitle: snapshot.marketTitle,
+      marketUrl: snapshot.url || "",
+      yesPrice: snapshot.price,
+      noPrice: 1 - snapshot.price,
+      updatedAt: snapshot.updatedAt,
+    })),
+  };
+  return {
+    updatedAt: 1,
+    stale: false,
+    list,
+    clusters: [cluster],
+    themes: [{ themeKey: "other", totalClusters: 1, totalMarkets: list.length, clusters: [cluster] }],
+    sources,
+  };
+};
+
+describe("market stream deltas", () => {
+  it("reports only changed prices and source transitions", () => {
+    const previous = makeResponse([makeSnapshot("opinion", "1", 0.4), makeSnapshot("polymarket", "2", 0.5)]);
+    const next = makeResponse(
+      [makeSnapshot("opinion", "1", 0.42, 2), makeSnapshot("polymarket", "2", 0.5, 2)],
+      { ...liveSources(), kalshi: { status: "error", error: "timeout" } }
+    );
+
+    const delta = diffMarkets(previous, next);
+    expect(delta?.changed.map((snapshot) => snapshot.marketId)).toEqual(["1"]);
+    expect(delta?.sources).toEqual({ kalshi: { status: "error", error: "timeout" } });
+  });
+
+  it("returns null when nothing but timestamps moved", () => {
+    const previous = makeResponse([makeSnapshot("opinion", "1", 0.4, 1)]);
+    const next = makeResponse([makeSnapshot("opinion", "1", 0.4, 5)]);
+    expect(diffMarkets(previous, next)).toBeNull();
+  });
+
+  it("detects market set changes that need a full snapshot", () => {
+    const previous = makeResponse([makeSnapshot("opinion", "1", 0.4)]);
+    const next = makeResponse([makeSnapshot("opinion", "2", 0.4)]);
+    expect(hasSameMarketSet(previous, next)).toBe(false);
+    expect(hasSameMarketSet(previous, previous)).toBe(true);
+  });
+
+  it("merges deltas into the list, clusters and themes", () => {
+    const previous = makeResponse([makeSnapshot("opinion", "1", 0.4), makeSnapshot("polymarket", "2", 0.5)]);
+    const merged = applyMarketsDelta(previous, {
+      updatedAt: 10,
+      changed: [{ ...makeSnapshot("opinion", "1", 0.6, 10), noPrice: 0.41 }],
+      sources: { limitless: { status: "error" } },
+    });
+
+    expect(merged.updatedAt).toBe(10);
+    expect(merged.list[0].price).toBe(0.6);
+    expect(merged.clusters?.[0].markets[0].yesPrice).toBe(0.6);
+    expect(merged.clusters?.[0].markets[0].noPrice).toBe(0.41);
+    expect(merged.themes?.[0].clusters[0].markets[0].yesPrice).toBe(0.6);
+    expect(merged.clusters?.[0].markets[1].yesPrice).toBe(0.5);
+    expect(merged.sources.limitless.status).toBe("error");
+    expect(merged.sources.opinion.status).toBe("live");
+  });
+});
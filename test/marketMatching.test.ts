@@ -32,6 +32,15 @@ describe("market matching", () => {
     expect(calculateMarketSimilarity(marketA, marketB)).toBeGreaterThan(0.7);
   });
 
+  it("compares ISO expiry dates as dates, not as their leading year", () => {
+    const withEndDate = (market: MarketData, endDate: string): MarketData => ({ ...market, metadata: { endDate } });
+    const marketA = withEndDate(makeMarket("opinion", "1", "Will the Fed cut rates?"), "2025-12-31T23:59:59Z");
+    const sameDay = withEndDate(makeMarket("polymarket", "2", "Will the Federal Reserve cut rates?"), "2025-12-31T12:00:00Z");
+    const monthsEarlier = withEndDate(makeMarket("polymarket", "3", "Will the Federal Reserve cut rates?"), "2025-03-31T00:00:00Z");
+
+    expect(calculateMarketSimilarity(marketA, sameDay)).toBeGreaterThan(calculateMarketSimilarity(marketA, monthsEarlier));
+  });
+
   it("matches markets across platforms above the similarity threshold", () => {
     const markets: MarketData[] = [
       makeMarket("opinion", "1", "Will BTC hit $100K by 2025?", 0.52),
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { compareOutcomes, extractMarketOutcome } from "../lib/marketOutcomes";
+import { buildClusters } from "../lib/marketClustering";
+import type { MarketPriceSnapshot, PlatformSource } from "../lib/types";
+
+const makeSnapshot = (
+  platform: PlatformSource,
+  marketId: string,
+  marketTitle: string,
+  price: number,
+  outcome?: MarketPriceSnapshot["outcome"]
+): MarketPriceSnapshot => ({
+  platform,
+  marketId,
+  marketTitle,
+  price,
+  updatedAt: 0,
+  outcome,
+});
+
+describe("market outcomes", () => {
+  it("parses strikes, comparators and dates from differently worded titles", () => {
+    const polymarket = extractMarketOutcome("Will BTC hit $100K by December 31, 2025?");
+    const kalshi = extractMarketOutcome("Bitcoin price on Dec 31, 2025?", {
+      outcomeLabel: "$100,000 or above",
+      comparator: "above",
+      strike: 100000,
+    });
+
+    expect(polymarket).toMatchObject({
+      kind: "threshold",
+      event: "bitcoin",
+      comparator: "above",
+      strike: 100000,
+      date: Date.UTC(2025, 11, 31),
+    });
+    expect(compareOutcomes(polymarket, kalshi)).toBe("same");
+    expect(compareOutcomes(polymarket, extractMarketOutcome("Will BTC hit $110K by December 31, 2025?"))).toBe(
+      "different"
+    );
+    expect(extractMarketOutcome("Will Bitcoin be between $95k and $100k on Dec 31, 2025?")).toMatchObject({
+      comparator: "between",
+      strike: 95000,
+      strikeHigh: 100000,
+    });
+  });
+
+  it("matches candidates across title phrasing and venue event metadata", () => {
+    const fromTitle = extractMarketOutcome("Will Gavin Newsom win the 2028 US Presidential Election?");
+    const fromVenue = extractMarketOutcome("Newsom", {
+      eventTitle: "2028 US Presidential Election Winner",
+      outcomeLabel: "Newsom",
+    });
+
+    expect(fromTitle).toMatchObject({ kind: "categorical", label: "gavin newsom" });
+    expect(fromVenue.event).toBe(fromTitle.event);
+    expect(compareOutcomes(fromTitle, fromVenue)).toBe("same");
+    expect(compareOutcomes(fromTitle, extractMarketOutcome("Will JD Vance win the 2028 US Presidential Election?"))).toBe(
+      "different"
+    );
+    expect(
+      compareOutcomes(
+        extractMarketOutcome("Will the Fed cut rates in March 2026?"),
+        extractMarketOutcome("Will the Fed cut rates in June 2026?")
+      )
+    ).toBe("different");
+  });
+
+  it("clusters strike ladders and candidate lists outcome by outcome", () => {
+    const { clusters } = buildClusters([
+      makeSnapshot("polymarket", "pm-100", "Will Bitcoin reach $100,000 by December 31, 2025?", 0.4),
+      makeSnapshot("polymarket", "pm-110", "Will Bitcoin reach $110,000 by December 31, 2025?", 0.2),
+      makeSnapshot("kalshi", "KXBTC-100", "Bitcoin above $100k on Dec 31, 2025?", 0.42),
+      makeSnapshot("kalshi", "KXBTC-110", "Bitcoin above $110k on Dec 31, 2025?", 0.22),
+      makeSnapshot("polymarket", "pm-newsom", "Will Gavin Newsom win the 2028 US Presidential Election?", 0.3),
+      makeSnapshot("polymarket", "pm-vance", "Will JD Vance win the 2028 US Presidential Election?", 0.25),
+      makeSnapshot(
+        "opinion",
+        "op-newsom",
+        "2028 US Presidential Election Winner - Gavin Newsom",
+        0.28,
+        extractMarketOutcome("Gavin Newsom", {
+          eventTitle: "2028 US Presidential Election Winner",
+          outcomeLabel: "Gavin Newsom",
+        })
+      ),
+    ]);
+
+    const membership = clusters.map((cluster) => cluster.markets.map((market) => market.marketId).sort());
+    expect(membership).toEqual(
+      expect.arrayContaining([
+        ["KXBTC-100", "pm-100"],
+        ["KXBTC-110", "pm-110"],
+        ["op-newsom", "pm-newsom"],
+        ["pm-vance"],
+      ])
+    );
+    expect(membership).toHaveLength(4);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildResolutionPostMortems,
+  mergeResolutions,
+  parseResolutionOutcome,
+} from "../lib/marketResolutions";
+import type { MarketResolution } from "../lib/types";
+
+const DEADLINE = Date.UTC(2025, 11, 31);
+
+const resolved = (
+  platform: MarketResolution["platform"],
+  outcome: MarketResolution["outcome"],
+  overrides: Partial<MarketResolution> = {}
+): MarketResolution => ({
+  platform,
+  marketId: `${platform}-btc`,
+  marketTitle: "Bitcoin above $100k on Dec 31?",
+  outcome,
+  resolvedAt: DEADLINE + 60_000,
+  expiresAt: DEADLINE,
+  ...overrides,
+});
+
+describe("market resolutions", () => {
+  it("normalizes venue outcomes to yes or no", () => {
+    expect(parseResolutionOutcome(" YES ")).toBe("yes");
+    expect(parseResolutionOutcome("no")).toBe("no");
+    expect(parseResolutionOutcome(true)).toBe("yes");
+    expect(parseResolutionOutcome("void")).toBeNull();
+    expect(parseResolutionOutcome("")).toBeNull();
+    expect(parseResolutionOutcome(undefined)).toBeNull();
+  });
+
+  it("keeps the first resolution seen per market, newest first", () => {
+    const first = resolved("kalshi", "yes", { resolvedAt: 1000 });
+    const later = resolved("kalshi", "yes", { resolvedAt: 5000 });
+    const other = resolved("opinion", "no", { resolvedAt: 2000 });
+
+    expect(mergeResolutions([first], [later, other])).toEqual([other, first]);
+  });
+
+  it("reports clusters whose venues resolved differently, with mismatched terms", () => {
+    const postMortems = buildResolutionPostMortems([
+      resolved("kalshi", "yes", {
+        description: "Resolves on the Coinbase BTC-USD price at 12:00 PM ET on December 31, 2025.",
+      }),
+      resolved("polymarket", "no", {
+        description: "Resolves on the Binance BTC/USDT price at 12:00 PM ET on December 31, 2025.",
+      }),
+      resolved("opinion", "yes", { marketTitle: "Will the Fed cut rates in March?", marketId: "fed" }),
+    ]);
+
+    expect(postMortems).toHaveLength(1);
+    expect(postMortems[0].resolutions.map((resolution) => [resolution.platform, resolution.outcome])).toEqual([
+      ["kalshi", "yes"],
+      ["polymarket", "no"],
+    ]);
+    expect(postMortems[0].resolutionMismatches.map((mismatch) => mismatch.field)).toContain("source");
+  });
+
+  it("ignores clusters where every venue agreed", () => {
+    expect(buildResolutionPostMortems([resolved("kalshi", "no"), resolved("limitless", "no")])).toEqual([]);
+  });
+});
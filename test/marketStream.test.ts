@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { MarketsResponse } from "../lib/types";
+
+const aggregateMarkets = vi.fn();
+const TICK_INTERVAL_MS = 10_000;
+
+vi.mock("../lib/marketFeed", () => ({
+  aggregateMarkets: (limit: number) => aggregateMarkets(limit),
+  getFeedRefreshIntervalMs: () => TICK_INTERVAL_MS,
+}));
+
+import { getMarketStreamSubscriberCount, subscribeMarketStream } from "../lib/marketStream";
+
+const makeResponse = (price: number): MarketsResponse => ({
+  updatedAt: 1,
+  stale: false,
+  list: [{ platform: "opinion", marketId: "1", marketTitle: "Market 1", price, updatedAt: 1 }],
+  clusters: [],
+  themes: [],
+  sources: {
+    opinion: { status: "live" },
+    kalshi: { status: "live" },
+    polymarket: { status: "live" },
+    predictfun: { status: "live" },
+    limitless: { status: "live" },
+  },
+});
+
+describe("market stream broadcaster", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    aggregateMarkets.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("refreshes once per tick for every subscriber and stops with the last one", async () => {
+    aggregateMarkets.mockResolvedValueOnce(makeResponse(0.4)).mockResolvedValue(makeResponse(0.45));
+
+    const first: string[] = [];
+    const second: string[] = [];
+    const unsubscribeFirst = subscribeMarketStream(50, (event) => first.push(event.type));
+    const unsubscribeSecond = subscribeMarketStream(50, (event) => second.push(event.type));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(aggregateMarkets).toHaveBeenCalledTimes(1);
+    expect(first).toEqual(["snapshot"]);
+    expect(second).toEqual(["snapshot"]);
+
+    await vi.advanceTimersByTimeAsync(TICK_INTERVAL_MS);
+    expect(aggregateMarkets).toHaveBeenCalledTimes(2);
+    expect(first).toEqual(["snapshot", "delta"]);
+    expect(second).toEqual(["snapshot", "delta"]);
+
+    // The feed returns the same response until a platform refreshes
+    await vi.advanceTimersByTimeAsync(TICK_INTERVAL_MS);
+    expect(aggregateMarkets).toHaveBeenCalledTimes(3);
+    expect(first).toEqual(["snapshot", "delta"]);
+
+    // A late subscriber starts from the latest snapshot, not a delta
+    const late: string[] = [];
+    const unsubscribeLate = subscribeMarketStream(50, (event) => late.push(event.type));
+    expect(late).toEqual(["snapshot"]);
+
+    unsubscribeFirst();
+    unsubscribeSecond();
+    unsubscribeLate();
+    expect(getMarketStreamSubscriberCount()).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(TICK_INTERVAL_MS * 3);
+    expect(aggregateMarkets).toHaveBeenCalledTimes(3);
+  });
+
+  it("sends refresh failures as warnings", async () => {
+    aggregateMarkets.mockRejectedValue(new Error("upstream down"));
+
+    const events: string[] = [];
+    const unsubscribe = subscribeMarketStream(20, (event) => events.push(event.type));
+    await vi.advanceTimersByTimeAsync(0);
+    unsubscribe();
+
+    expect(events).toEqual(["warning"]);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Local mock exchange for end-to-end tests of the venue clients
+ *
+ * One HTTP server stands in for all five venues, each under its own path
+ * prefix (`/opinion`, `/polymarket`, `/kalshi`, `/limitless`,
+ * `/predictfun`). Responses come from the JSON fixtures in
+ * test/fixtures/venues, and faults (latency, 429/5xx statuses, malformed
+ * payloads) can be injected per venue.
+ *
+ * Point the clients at it by applying `exchange.env` to process.env, or
+ * run `npm run mock-exchange` to develop against it locally.
+ */
+
+import { readFileSync } from "node:fs";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { join } from "node:path";
+
+// --- Types ---
+
+export type MockVenue = "opinion" | "polymarket" | "kalshi" | "limitless" | "predictfun";
+
+/**
+ * Fixture routes for one venue, keyed by path. A key may pin one query
+ * parameter (`/token/latest-price?token_id=abc`); it wins over the bare path.
+ */
+export type MockFixtures = Record<string, unknown>;
+
+export interface MockFault {
+  latencyMs?: number; // Delay before responding
+  status?: number; // Respond with this status instead of the fixture, e.g. 429 or 503
+  malformed?: boolean; // Respond 200 with a truncated JSON body
+  times?: number; // Clear the fault after this many requests (default: never)
+}
+
+export interface MockRequest {
+  venue: MockVenue;
+  path: string;
+  query: Record<string, string>;
+  status: number;
+}
+
+export interface MockExchangeOptions {
+  port?: number; // Default: any free port
+  fixturesDir?: string; // Default: test/fixtures/venues
+  latencyMs?: number; // Delay every response by this much
+}
+
+export interface MockExchange {
+  url: string;
+  env: Record<string, string>; // Base URLs and API keys for every venue client
+  requests: MockRequest[];
+  setFault: (venue: MockVenue, fault: MockFault | null) => void;
+  setFixture: (venue: MockVenue, route: string, body: unknown) => void;
+  reset: () => void; // Reload fixtures, clear faults and the request log
+  close: () => Promise<void>;
+}
+
+// --- Configuration ---
+
+export const MOCK_VENUES: MockVenue[] = ["opinion", "polymarket", "kalshi", "limitless", "predictfun"];
+export const MOCK_API_KEY = "mock-exchange-key";
+
+const DEFAULT_FIXTURES_DIR = join(__dirname, "fixtures", "venues");
+
+const STATUS_TEXT: Record<number, string> = {
+  401: "Unauthorized",
+  404: "Not Found",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+};
+
+// --- Helper Functions ---
+
+function loadFixtures(dir: string): Record<MockVenue, MockFixtures> {
+  return Object.fromEntries(
+    MOCK_VENUES.map((venue) => [venue, JSON.parse(readFileSync(join(dir, `${venue}.json`), "utf8"))])
+  ) as Record<MockVenue, MockFixtures>;
+}
+
+/** Opinion takes an `apikey` header and Predict.fun a bearer token; the public feeds take neither */
+function isAuthorized(venue: MockVenue, req: IncomingMessage): boolean {
+  if (venue === "opinion") {
+    return req.headers.apikey === MOCK_API_KEY;
+  }
+  if (venue === "predictfun") {
+    return req.headers.authorization === `Bearer ${MOCK_API_KEY}`;
+  }
+  return true;
+}
+
+function findFixture(fixtures: MockFixtures, path: string, query: Record<string, string>): unknown {
+  for (const [key, value] of Object.entries(query)) {
+    const route = `${path}?${key}=${value}`;
+    if (route in fixtures) {
+      return fixtures[route];
+    }
+  }
+  return fixtures[path];
+}
+
+function send(res: ServerResponse, status: number, body: string, headers: Record<string, string> = {}) {
+  res.writeHead(status, STATUS_TEXT[status] ?? "", { "Content-Type": "application/json", ...headers });
+  res.end(body);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// --- Public API ---
+
+/**
+ * Start the mock exchange
+ */
+export async function startMockExchange(options: MockExchangeOptions = {}): Promise<MockExchange> {
+  const fixturesDir = options.fixturesDir ?? DEFAULT_FIXTURES_DIR;
+  let fixtures = loadFixtures(fixturesDir);
+  const faults = new Map<MockVenue, MockFault>();
+  const requests: MockRequest[] = [];
+
+  /** Consume one use of a venue's fault, clearing it once `times` runs out */
+  const takeFault = (venue: MockVenue): MockFault | undefined => {
+    const fault = faults.get(venue);
+    if (fault?.times !== undefined) {
+      const remaining = fault.times - 1;
+      if (remaining <= 0) {
+        faults.delete(venue);
+      } else {
+        faults.set(venue, { ...fault, times: remaining });
+      }
+    }
+    return fault;
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const [, prefix, ...rest] = url.pathname.split("/");
+    const venue = MOCK_VENUES.find((candidate) => candidate === prefix);
+    const path = `/${rest.join("/")}`;
+    const query = Object.fromEntries(url.searchParams);
+
+    const respond = (status: number, body: string, headers?: Record<string, string>) => {
+      if (venue) {
+        requests.push({ venue, path, query, status });
+      }
+      send(res, status, body, headers);
+    };
+
+    if (!venue) {
+      return respond(404, JSON.stringify({ message: `Unknown venue: ${prefix}` }));
+    }
+
+    const fault = takeFault(venue);
+    const latencyMs = (options.latencyMs ?? 0) + (fault?.latencyMs ?? 0);
+    if (latencyMs > 0) {
+      await sleep(latencyMs);
+    }
+
+    if (!isAuthorized(venue, req)) {
+      return respond(401, JSON.stringify({ message: "invalid api key" }));
+    }
+    if (fault?.status) {
+      const headers: Record<string, string> = fault.status === 429 ? { "Retry-After": "1" } : {};
+      return respond(fault.status, JSON.stringify({ message: `Injected ${fault.status}` }), headers);
+    }
+
+    const body = findFixture(fixtures[venue], path, query);
+    if (body === undefined) {
+      return respond(404, JSON.stringify({ message: `No fixture for ${venue} ${path}` }));
+    }
+
+    const json = JSON.stringify(body);
+    respond(200, fault?.malformed ? json.slice(0, Math.ceil(json.length / 2)) : json);
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    env: {
+      OPINION_API_KEY: MOCK_API_KEY,
+      OPINION_OPENAPI_BASE_URL: `${url}/opinion`,
+      POLYMARKET_API_BASE_URL: `${url}/polymarket`,
+      KALSHI_API_BASE_URL: `${url}/kalshi`,
+      LIMITLESS_API_BASE_URL: `${url}/limitless`,
+      PREDICTFUN_API_KEY: MOCK_API_KEY,
+      PREDICTFUN_API_BASE_URL: `${url}/predictfun`,
+    },
+    requests,
+    setFault: (venue, fault) => {
+      if (fault) {
+        faults.set(venue, fault);
+      } else {
+        faults.delete(venue);
+      }
+    },
+    setFixture: (venue, route, body) => {
+      fixtures[venue][route] = body;
+    },
+    reset: () => {
+      fixtures = loadFixtures(fixturesDir);
+      faults.clear();
+      requests.length = 0;
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
@@ -0,0 +1,207 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  buildOpinionOrder,
+  getOpinionTypedData,
+  getOrderNotional,
+  parseOpinionOrder,
+  verifyOpinionOrder,
+  type OpinionOrderMessage,
+} from "../lib/opinionOrders";
+import { cancelOrder, executeOpinionOrder, getOrderStatus } from "../lib/opinionCLOB";
+
+const API_KEY = "test-api-key";
+const EXCHANGE = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const account = privateKeyToAccount("0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80");
+const WEI = BigInt("1000000000000000000");
+
+/** Stand-in for the Opinion CLOB: checks the API key and order signature, keeps orders in memory */
+function startStandInClob(): Promise<Server> {
+  const orders = new Map<string, Record<string, unknown>>();
+  let nextId = 1;
+
+  const send = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  };
+
+  const readBody = async (req: IncomingMessage): Promise<any> => {
+    let raw = "";
+    for await (const chunk of req) {
+      raw += chunk;
+    }
+    return JSON.parse(raw);
+  };
+
+  const server = createServer(async (req, res) => {
+    if (req.headers.apikey !== API_KEY) {
+      return send(res, 401, { message: "invalid apikey" });
+    }
+
+    const match = req.url?.match(/^\/orders(?:\/([^/?]+))?/);
+    const orderId = match?.[1];
+
+    if (req.method === "POST" && match && !orderId) {
+      const { order, order_type } = await readBody(req);
+      const message: OpinionOrderMessage = {
+        salt: order.salt,
+        maker: order.maker,
+        signer: order.signer,
+        taker: order.taker,
+        tokenId: order.token_id,
+        makerAmount: order.maker_amount,
+        takerAmount: order.taker_amount,
+        expiration: order.expiration,
+        nonce: order.nonce,
+        feeRateBps: order.fee_rate_bps,
+        side: order.side === "BUY" ? 0 : 1,
+        signatureType: order.signature_type,
+      };
+      if (!(await verifyOpinionOrder(message, order.signature, EXCHANGE))) {
+        return send(res, 400, { message: "invalid order signature" });
+      }
+
+      const id = String(nextId++);
+      orders.set(id, {
+        order_id: id,
+        status: order_type === "MARKET" ? "matched" : "open",
+        maker: order.maker,
+        token_id: order.token_id,
+        side: order.side,
+        filled_amount: "0",
+        remaining_amount: order.side === "BUY" ? order.taker_amount : order.maker_amount,
+      });
+      return send(res, 200, { order_id: id, status: orders.get(id)!.status });
+    }
+
+    const stored = orderId ? orders.get(orderId) : undefined;
+    if (!stored) {
+      return send(res, 404, { message: "order not found" });
+    }
+    if (req.method === "GET") {
+      return send(res, 200, stored);
+    }
+    if (req.method === "DELETE") {
+      stored.status = "canceled";
+      return send(res, 200, { order_id: orderId });
+    }
+    send(res, 405, { message: "method not allowed" });
+  });
+
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+async function signOrder(order: OpinionOrderMessage): Promise<string> {
+  return account.signTypedData(getOpinionTypedData(order, EXCHANGE));
+}
+
+describe("Opinion order signing", () => {
+  it("builds maker/taker amounts for limit and market orders", () => {
+    const ticket = { tokenId: "123", type: "limit" as const, size: 10, price: 0.42 };
+
+    const buy = buildOpinionOrder({ ...ticket, side: "buy" }, { maker: account.address, salt: "1" });
+    expect(buy).toMatchObject({ side: 0, makerAmount: String((WEI * BigInt(42)) / BigInt(10)), takerAmount: String(WEI * BigInt(10)) });
+    expect(getOrderNotional(buy, "limit")).toBe((WEI * BigInt(42)) / BigInt(10));
+
+    const sell = buildOpinionOrder({ ...ticket, side: "sell" }, { maker: account.address, salt: "1" });
+    expect(sell).toMatchObject({ side: 1, makerAmount: String(WEI * BigInt(10)), takerAmount: buy.makerAmount });
+
+    expect(() =>
+      buildOpinionOrder({ tokenId: "123", side: "sell", type: "market", size: 10 }, { maker: account.address })
+    ).toThrow("Quote the book before placing a market order");
+
+    // Market orders accept no less than the quoted worst price minus slippage (sells) or plus it (buys)
+    const marketSell = buildOpinionOrder(
+      { tokenId: "123", side: "sell", type: "market", size: 10, worstPrice: 0.4, slippageBps: 100 },
+      { maker: account.address }
+    );
+    expect(marketSell.takerAmount).toBe(String((WEI * BigInt(396)) / BigInt(100)));
+    expect(getOrderNotional(marketSell, "market")).toBeNull();
+
+    const marketBuy = buildOpinionOrder(
+      { tokenId: "123", side: "buy", type: "market", size: 25, worstPrice: 0.5, slippageBps: 100 },
+      { maker: account.address }
+    );
+    expect(marketBuy.takerAmount).toBe(String((WEI * BigInt(25) * BigInt(1000)) / BigInt(505)));
+    expect(parseOpinionOrder(JSON.parse(JSON.stringify({ ...marketBuy, takerAmount: "0" })))).toEqual({
+      error: "order.takerAmount must be greater than 0",
+    });
+
+    expect(() => buildOpinionOrder({ ...ticket, side: "buy", price: 1 }, { maker: account.address })).toThrow(
+      "Limit price must be between 0 and 1"
+    );
+  });
+
+  it("verifies the signer and rejects tampered or malformed orders", async () => {
+    const order = buildOpinionOrder(
+      { tokenId: "123", side: "buy", type: "limit", size: 20, price: 0.5 },
+      { maker: account.address }
+    );
+    const signature = await signOrder(order);
+
+    const parsed = parseOpinionOrder(JSON.parse(JSON.stringify(order)));
+    expect(parsed).toEqual({ order });
+    expect(await verifyOpinionOrder(order, signature, EXCHANGE)).toBe(true);
+    expect(await verifyOpinionOrder({ ...order, makerAmount: "1" }, signature, EXCHANGE)).toBe(false);
+
+    expect(parseOpinionOrder({ ...order, signer: "0x0000000000000000000000000000000000000001" })).toEqual({
+      error: "order.signer must be the maker",
+    });
+    expect(parseOpinionOrder({ ...order, expiration: "1" })).toEqual({ error: "Order has expired" });
+  });
+});
+
+describe("Opinion CLOB client", () => {
+  let server: Server;
+
+  beforeAll(async () => {
+    server = await startStandInClob();
+    process.env.OPINION_CLOB_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(async () => {
+    delete process.env.OPINION_CLOB_BASE_URL;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("submits a signed limit order, tracks it and cancels it", async () => {
+    const order = buildOpinionOrder(
+      { tokenId: "123", side: "buy", type: "limit", size: 20, price: 0.5 },
+      { maker: account.address }
+    );
+    const result = await executeOpinionOrder({ marketId: 7, orderType: "limit", order, signature: await signOrder(order) }, API_KEY);
+
+    expect(result).toMatchObject({ success: true, orderId: "1", status: "pending" });
+    expect(await getOrderStatus("1", API_KEY)).toMatchObject({
+      orderId: "1",
+      status: "pending",
+      maker: account.address.toLowerCase(),
+      side: "buy",
+      remainingAmount: order.takerAmount,
+    });
+
+    expect(await cancelOrder("1", API_KEY)).toBe(true);
+    expect((await getOrderStatus("1", API_KEY))?.status).toBe("cancelled");
+  });
+
+  it("surfaces CLOB rejections and unknown orders", async () => {
+    const order = buildOpinionOrder(
+      { tokenId: "123", side: "buy", type: "market", size: 25, worstPrice: 0.5 },
+      { maker: account.address }
+    );
+    const forged = await signOrder({ ...order, makerAmount: "1" });
+
+    await expect(executeOpinionOrder({ marketId: 7, orderType: "market", order, signature: forged }, API_KEY)).resolves.toEqual({
+      success: false,
+      error: "invalid order signature",
+    });
+    await expect(executeOpinionOrder({ marketId: 7, orderType: "market", order, signature: forged }, "wrong-key")).resolves.toMatchObject({
+      success: false,
+      error: "invalid apikey",
+    });
+    expect(await getOrderStatus("999", API_KEY)).toBeNull();
+    expect(await cancelOrder("999", API_KEY)).toBe(false);
+  });
+});
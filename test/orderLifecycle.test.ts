@@ -0,0 +1,211 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+
+vi.mock("../lib/database/queries", () => ({
+  createOrder: vi.fn(),
+  getOrder: vi.fn().mockResolvedValue(null),
+  getOrderMakers: vi.fn().mockResolvedValue([]),
+  getOrders: vi.fn().mockResolvedValue([]),
+  getOrdersToReconcile: vi.fn().mockResolvedValue([]),
+  markOrdersChecked: vi.fn(),
+  updateOrder: vi.fn().mockResolvedValue(true),
+}));
+
+vi.mock("../lib/opinionCLOB", () => ({
+  cancelOrder: vi.fn().mockResolvedValue(true),
+  getOpenOrders: vi.fn().mockResolvedValue([]),
+  getOrderStatus: vi.fn(),
+}));
+
+import * as clob from "../lib/opinionCLOB";
+import * as queries from "../lib/database/queries";
+import { applyOrderUpdate, createExternalOrder, createTrackedOrder, matchesOrderFilter } from "../lib/orderLifecycle";
+import { cancelMarketOrders, getOrderCaller, listOrders, syncOrders, trackOrder } from "../lib/orders";
+import { SESSION_COOKIE, createSession, createSessionToken } from "../lib/session";
+import type { OpinionOrderMessage } from "../lib/opinionOrders";
+
+const MAKER = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+
+const placed = () =>
+  createTrackedOrder(
+    {
+      id: "ord-1",
+      marketId: 7,
+      tokenId: "123",
+      maker: MAKER,
+      side: "buy",
+      orderType: "limit",
+      price: 0.5,
+      makerAmount: "10000000000000000000",
+      takerAmount: "20000000000000000000",
+      status: "pending",
+    },
+    1000
+  );
+
+describe("order lifecycle", () => {
+  it("moves pending through partial fills to filled, stamping each transition", () => {
+    const order = placed();
+    expect(order.maker).toBe(MAKER.toLowerCase());
+
+    const partial = applyOrderUpdate(order, { status: "pending", filledAmount: "5000000000000000000" }, 2000)!;
+    expect(partial).toMatchObject({ status: "partially_filled", partiallyFilledAt: 2000 });
+
+    // More fills without a state change update the amount but add no history
+    const more = applyOrderUpdate(partial, { status: "partially_filled", filledAmount: "8000000000000000000" }, 3000)!;
+    expect(more.filledAmount).toBe("8000000000000000000");
+    expect(more.history).toHaveLength(2);
+
+    const filled = applyOrderUpdate(more, { status: "filled", filledAmount: "20000000000000000000", txHash: "0xabc" }, 4000)!;
+    expect(filled).toMatchObject({ status: "filled", filledAt: 4000, partiallyFilledAt: 2000, txHash: "0xabc" });
+    expect(filled.history.map((change) => [change.from, change.to, change.at])).toEqual([
+      [null, "pending", 1000],
+      ["pending", "partially_filled", 2000],
+      ["partially_filled", "filled", 4000],
+    ]);
+  });
+
+  it("never moves backwards or leaves a final state", () => {
+    const partial = applyOrderUpdate(placed(), { status: "partially_filled", filledAmount: "5" }, 2000)!;
+
+    // Stale reports keep the later state and the larger fill
+    expect(applyOrderUpdate(partial, { status: "pending", filledAmount: "1" }, 3000)).toBeNull();
+
+    const cancelled = applyOrderUpdate(partial, { status: "cancelled" }, 3000)!;
+    expect(cancelled).toMatchObject({ status: "cancelled", cancelledAt: 3000, filledAmount: "5" });
+    expect(applyOrderUpdate(cancelled, { status: "filled", filledAmount: "9" }, 4000)).toBeNull();
+  });
+
+  it("rebuilds resting orders placed outside the terminal", () => {
+    const order = createExternalOrder(
+      {
+        orderId: "ext-1",
+        status: "pending",
+        marketId: 9,
+        tokenId: "456",
+        side: "sell",
+        price: "0.25",
+        filledAmount: "1000000000000000000",
+        remainingAmount: "3000000000000000000",
+      },
+      MAKER.toLowerCase(),
+      1000
+    );
+    expect(order).toMatchObject({
+      status: "partially_filled",
+      orderType: "limit",
+      price: 0.25,
+      makerAmount: "4000000000000000000",
+      takerAmount: "1000000000000000000",
+      filledAmount: "1000000000000000000",
+    });
+    expect(createExternalOrder({ orderId: "ext-2", status: "pending", tokenId: "456", side: "buy", price: "0.5" }, MAKER)).toBeNull();
+  });
+
+  it("filters by maker, market and state", () => {
+    const order = placed();
+    expect(matchesOrderFilter(order, { maker: MAKER, marketId: 7, statuses: ["pending"] })).toBe(true);
+    expect(matchesOrderFilter(order, { marketId: 8 })).toBe(false);
+    expect(matchesOrderFilter(order, { statuses: ["filled"] })).toBe(false);
+  });
+});
+
+describe("order reconciliation", () => {
+  const message: OpinionOrderMessage = {
+    salt: "1",
+    maker: MAKER,
+    signer: MAKER,
+    taker: "0x0000000000000000000000000000000000000000",
+    tokenId: "123",
+    makerAmount: "10000000000000000000",
+    takerAmount: "25000000000000000000",
+    expiration: "0",
+    nonce: "0",
+    feeRateBps: "0",
+    side: 0,
+    signatureType: 0,
+  };
+
+  beforeEach(() => {
+    process.env.OPINION_API_KEY = "test-api-key";
+    process.env.OPINION_CLOB_BASE_URL = "http://127.0.0.1:1";
+    vi.mocked(queries.updateOrder).mockClear();
+  });
+
+  it("tracks accepted orders and records CLOB fills and cancellations", async () => {
+    const tracked = await trackOrder(7, "limit", message, { success: true, orderId: "ord-2", status: "pending" });
+    expect(tracked).toMatchObject({ price: 0.4, side: "buy", orderType: "limit", status: "pending" });
+    expect(queries.createOrder).toHaveBeenCalledWith(tracked);
+
+    vi.mocked(clob.getOrderStatus).mockResolvedValueOnce({
+      orderId: "ord-2",
+      status: "pending",
+      filledAmount: "3000000000000000000",
+    });
+    const result = await syncOrders(true);
+    expect(result).toMatchObject({ checked: 1, updated: 1, failed: 0 });
+    expect(vi.mocked(queries.updateOrder).mock.calls[0]).toEqual([
+      "pending",
+      expect.objectContaining({ id: "ord-2", status: "partially_filled", filledAmount: "3000000000000000000" }),
+    ]);
+
+    // The CLOB may still report the order open right after accepting the cancel
+    vi.mocked(clob.getOrderStatus).mockResolvedValueOnce({ orderId: "ord-2", status: "pending" });
+    await expect(cancelMarketOrders(7, MAKER)).resolves.toEqual({ cancelled: ["ord-2"], failed: [] });
+    expect(clob.cancelOrder).toHaveBeenCalledWith("ord-2", "test-api-key");
+
+    const { orders } = await listOrders({ marketId: 7, statuses: ["cancelled"] }, 10);
+    expect(orders).toHaveLength(1);
+    expect(orders[0]).toMatchObject({ status: "cancelled", filledAmount: "3000000000000000000" });
+  });
+
+  it("tracks resting orders known wallets placed elsewhere", async () => {
+    vi.mocked(clob.getOpenOrders).mockResolvedValueOnce([
+      { orderId: "ord-2", status: "pending", marketId: 7, tokenId: "123", side: "buy", price: "0.4" },
+      { orderId: "ext-3", status: "pending", marketId: 8, tokenId: "789", side: "buy", price: "0.5", remainingAmount: "6000000000000000000" },
+    ]);
+
+    const result = await syncOrders(true);
+    expect(result.imported).toBe(1);
+    expect(clob.getOpenOrders).toHaveBeenCalledWith(MAKER.toLowerCase(), "test-api-key");
+    expect(queries.createOrder).toHaveBeenCalledWith(expect.objectContaining({ id: "ext-3", makerAmount: "3000000000000000000" }));
+
+    const { orders } = await listOrders({ marketId: 8 }, 10);
+    expect(orders.map((order) => order.id)).toEqual(["ext-3"]);
+  });
+
+  it("lists stored orders without waiting on the CLOB", async () => {
+    let release: (value: null) => void = () => {};
+    vi.mocked(clob.getOrderStatus).mockImplementationOnce(() => new Promise((resolve) => (release = resolve)));
+    const reconciledAt = (await syncOrders()).reconciledAt;
+    const now = vi.spyOn(Date, "now").mockReturnValue(reconciledAt + 60_000);
+
+    try {
+      const listed = await listOrders({ marketId: 8 }, 10);
+      expect(listed).toMatchObject({ reconciledAt, orders: [{ id: "ext-3" }] });
+    } finally {
+      release(null);
+      await syncOrders();
+      now.mockRestore();
+    }
+  });
+
+  it("identifies wallets by their SIWE session only", () => {
+    const secret = "test-session-secret-at-least-32-characters";
+    vi.stubEnv("SESSION_SECRET", secret);
+    try {
+      const token = createSessionToken(createSession({ address: MAKER.toLowerCase(), chainId: 56 }), secret);
+      const withSession = new NextRequest("http://localhost/api/orders", {
+        headers: { cookie: `${SESSION_COOKIE}=${token}` },
+      });
+      const withWalletHeaders = new NextRequest("http://localhost/api/orders", {
+        headers: { "x-wallet-address": MAKER, "x-wallet-issued-at": String(Date.now()), "x-wallet-signature": "0x00" },
+      });
+
+      expect(getOrderCaller(withSession)).toEqual({ admin: null, wallet: MAKER.toLowerCase() });
+      expect(getOrderCaller(withWalletHeaders)).toEqual({ admin: null, wallet: null });
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { planRoute } from "../lib/orderRouter";
+import { normalizeOrderbook } from "../lib/orderbook";
+import type { ClusterMarket, MarketCluster, Platform } from "../lib/types";
+
+const makeMarket = (platform: Platform, yesPrice: number, tokenId?: string): ClusterMarket => ({
+  platform,
+  marketId: `${platform}-1`,
+  marketTitle: "Will it rain tomorrow?",
+  marketUrl: `https://${platform}.example.com/markets/rain`,
+  yesPrice,
+  noPrice: 1 - yesPrice,
+  yesTokenId: tokenId,
+});
+
+const makeCluster = (markets: ClusterMarket[]): MarketCluster => ({
+  id: "rain-cluster",
+  title: "Will it rain tomorrow?",
+  normalizedTitle: "rain tomorrow",
+  themeKey: "other",
+  platformCount: markets.length,
+  markets,
+});
+
+describe("smart order router", () => {
+  it("fills the cheapest levels across venues first", () => {
+    const opinion = makeMarket("opinion", 0.5, "op-yes");
+    const polymarket = makeMarket("polymarket", 0.5, "pm-yes");
+    const cluster = makeCluster([opinion, polymarket]);
+
+    const plan = planRoute(
+      cluster,
+      [
+        { market: opinion, orderbook: normalizeOrderbook("op-yes", [], [{ price: 0.5, size: 100 }, { price: 0.6, size: 100 }]) },
+        { market: polymarket, orderbook: normalizeOrderbook("pm-yes", [], [{ price: 0.52, size: 100 }]) },
+      ],
+      "yes",
+      110
+    );
+
+    expect(plan.filledNotional).toBeCloseTo(110);
+    expect(plan.unfilledNotional).toBe(0);
+    expect(plan.allocations.map((allocation) => allocation.platform)).toEqual(["opinion", "polymarket"]);
+    expect(plan.allocations[0].notional).toBeCloseTo(58);
+    expect(plan.allocations[0].worstPrice).toBe(0.6);
+    expect(plan.allocations[0].execution).toBe("api");
+    expect(plan.allocations[1].notional).toBeCloseTo(52);
+    expect(plan.allocations[1].execution).toBe("deeplink");
+    expect(plan.allocations[1].url).toBe("https://polymarket.example.com/markets/rain?side=yes&amount=52.00");
+    expect(plan.totalShares).toBeCloseTo(200 + 8 / 0.6);
+  });
+
+  it("includes taker fees when ranking venues", () => {
+    const kalshi = makeMarket("kalshi", 0.5);
+    const polymarket = makeMarket("polymarket", 0.51, "pm-yes");
+    const cluster = makeCluster([kalshi, polymarket]);
+
+    const plan = planRoute(
+      cluster,
+      [
+        { market: kalshi, orderbook: null },
+        { market: polymarket, orderbook: normalizeOrderbook("pm-yes", [], [{ price: 0.51, size: 1000 }]) },
+      ],
+      "yes",
+      100
+    );
+
+    expect(plan.allocations).toHaveLength(1);
+    expect(plan.allocations[0].platform).toBe("polymarket");
+    expect(plan.totalFees).toBe(0);
+  });
+
+  it("caps venues without a book and reports the unfilled remainder", () => {
+    const limitless = makeMarket("limitless", 0.4);
+    const cluster = makeCluster([limitless]);
+
+    const plan = planRoute(cluster, [{ market: limitless, orderbook: null }], "no", 500, {
+      unbookedDepthNotional: 200,
+    });
+
+    expect(plan.allocations[0].depthSource).toBe("price");
+    expect(plan.allocations[0].averagePrice).toBeCloseTo(0.6);
+    expect(plan.filledNotional).toBeCloseTo(200);
+    expect(plan.unfilledNotional).toBeCloseTo(300);
+  });
+
+  it("leaves out NO sides of bookless venues that quote no NO price", () => {
+    const kalshi = { ...makeMarket("kalshi", 0.4), noPrice: undefined };
+    const plan = planRoute(makeCluster([kalshi]), [{ market: kalshi, orderbook: null }], "no", 100);
+
+    expect(plan.allocations).toEqual([]);
+    expect(plan.unfilledNotional).toBe(100);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { generateMockOrderbook, normalizeOrderbook, parseOrderbookLevel, quoteOrder } from "../lib/orderbook";
+
+describe("orderbook normalization", () => {
+  it("sorts levels best-first and merges duplicate prices", () => {
+    const book = normalizeOrderbook(
+      "token-1",
+      [
+        { price: "0.40", size: "100" },
+        { price: "0.45", size: "50" },
+        { price: "0.45", size: "25" },
+      ],
+      [
+        ["0.52", "30"],
+        ["0.48", "10"],
+      ]
+    );
+
+    expect(book.bids).toEqual([
+      { price: 0.45, size: 75 },
+      { price: 0.4, size: 100 },
+    ]);
+    expect(book.asks).toEqual([
+      { price: 0.48, size: 10 },
+      { price: 0.52, size: 30 },
+    ]);
+    expect(book.bestBid).toEqual({ price: 0.45, size: 75 });
+    expect(book.bestAsk).toEqual({ price: 0.48, size: 10 });
+    expect(book.spread).toBe(0.03);
+    expect(book.midPrice).toBe(0.465);
+  });
+
+  it("drops malformed levels and truncates to the requested depth", () => {
+    const book = normalizeOrderbook(
+      "token-2",
+      [{ price: "abc", size: "1" }, { price: 0.3, size: 0 }, { price: 0.2, size: 5 }, { price: 0.1, size: 5 }],
+      [],
+      1
+    );
+
+    expect(book.bids).toEqual([{ price: 0.2, size: 5 }]);
+    expect(book.bestAsk).toBeNull();
+    expect(book.spread).toBeNull();
+    expect(parseOrderbookLevel({ price: 1.5, size: 3 })).toBeNull();
+  });
+
+  it("generates deterministic multi-level mock books", () => {
+    const first = generateMockOrderbook("token-3", 5);
+    const second = generateMockOrderbook("token-3", 5);
+
+    expect(first.source).toBe("mock");
+    expect(first.orderbook.bids).toHaveLength(5);
+    expect(first.orderbook.asks).toHaveLength(5);
+    expect(first.orderbook).toEqual(second.orderbook);
+    expect(first.orderbook.bestBid!.price).toBeLessThan(first.orderbook.bestAsk!.price);
+  });
+});
+
+describe("execution quotes", () => {
+  const book = normalizeOrderbook(
+    "token-q",
+    [
+      { price: 0.48, size: 100 },
+      { price: 0.46, size: 100 },
+    ],
+    [
+      { price: 0.52, size: 100 },
+      { price: 0.55, size: 100 },
+    ]
+  );
+
+  it("walks ask levels for buys and reports slippage vs mid", () => {
+    const quote = quoteOrder(book, "buy", 150);
+
+    expect(quote.filledSize).toBe(150);
+    expect(quote.unfilledSize).toBe(0);
+    expect(quote.totalCost).toBeCloseTo(52 + 27.5);
+    expect(quote.averagePrice).toBeCloseTo(79.5 / 150);
+    expect(quote.worstPrice).toBe(0.55);
+    expect(quote.levelsConsumed).toBe(2);
+    expect(quote.slippage).toBeCloseTo(79.5 / 150 - 0.5);
+    expect(quote.slippageBps).toBeCloseTo(((79.5 / 150 - 0.5) / 0.5) * 10_000);
+  });
+
+  it("reports the unfillable remainder when the book runs out", () => {
+    const quote = quoteOrder(book, "sell", 250);
+
+    expect(quote.filledSize).toBe(200);
+    expect(quote.unfilledSize).toBe(50);
+    expect(quote.totalCost).toBeCloseTo(94);
+    expect(quote.slippage).toBeCloseTo(0.5 - 0.47);
+  });
+
+  it("sizes orders by notional", () => {
+    const quote = quoteOrder(book, "buy", 26, "notional");
+
+    expect(quote.requestedNotional).toBe(26);
+    expect(quote.filledSize).toBeCloseTo(50);
+    expect(quote.averagePrice).toBeCloseTo(0.52);
+    expect(quote.levelsConsumed).toBe(1);
+  });
+});
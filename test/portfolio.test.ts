@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { buildPortfolio, weiToUsd } from "../lib/portfolio";
+import type { PortfolioTrade } from "../lib/types";
+
+function trade(overrides: Partial<PortfolioTrade>): PortfolioTrade {
+  return {
+    id: "t",
+    tradeId: "1",
+    marketId: 1,
+    side: "yes",
+    amount: 101,
+    fee: 1,
+    entryPrice: 0.5,
+    timestamp: 1_750_000_000_000,
+    ...overrides,
+  };
+}
+
+describe("buildPortfolio", () => {
+  it("marks open positions to the current price of their side", () => {
+    const { positions, summary } = buildPortfolio(
+      [
+        trade({ id: "a" }),
+        trade({ id: "b", amount: 51, entryPrice: 0.25, timestamp: 1_750_000_001_000 }),
+        trade({ id: "c", side: "no", amount: 41, entryPrice: 0.4 }),
+      ],
+      { "1": { yesPrice: 0.6, marketTitle: "Rate cut?" } },
+      {}
+    );
+
+    const yes = positions.find((position) => position.side === "yes")!;
+    expect(yes).toMatchObject({
+      status: "open",
+      shares: 400,
+      costBasis: 150,
+      fees: 2,
+      avgEntryPrice: 0.375,
+      markPrice: 0.6,
+      marketValue: 240,
+      unrealizedPnl: 88,
+      marketTitle: "Rate cut?",
+    });
+
+    const no = positions.find((position) => position.side === "no")!;
+    expect(no).toMatchObject({ shares: 100, markPrice: 0.4, marketValue: 40, unrealizedPnl: -1 });
+
+    expect(summary).toMatchObject({
+      portfolioValue: 280,
+      costBasis: 190,
+      totalFees: 3,
+      unrealizedPnl: 87,
+      realizedPnl: 0,
+      openPositions: 2,
+    });
+  });
+
+  it("marks NO positions to the venue's NO quote when it has one", () => {
+    const { positions } = buildPortfolio(
+      [trade({ side: "no", amount: 41, entryPrice: 0.4 })],
+      { "1": { yesPrice: 0.6, noPrice: 0.45 } },
+      {}
+    );
+
+    expect(positions[0]).toMatchObject({ shares: 100, markPrice: 0.45, marketValue: 45, unrealizedPnl: 4 });
+  });
+
+  it("realizes payouts on resolved markets", () => {
+    const { positions, summary } = buildPortfolio(
+      [trade({ marketId: 2 }), trade({ marketId: 2, side: "no", amount: 11, entryPrice: 0.5 })],
+      {},
+      { "2": { outcome: "yes", resolvedAt: 1_760_000_000_000 } }
+    );
+
+    expect(positions.map((position) => [position.side, position.status, position.realizedPnl])).toEqual([
+      ["yes", "won", 99],
+      ["no", "lost", -11],
+    ]);
+    expect(summary).toMatchObject({
+      portfolioValue: 0,
+      realizedPnl: 88,
+      openPositions: 0,
+      winningPositions: 1,
+      losingPositions: 1,
+    });
+  });
+
+  it("carries trades without an entry price at cost", () => {
+    const { positions } = buildPortfolio(
+      [trade({ entryPrice: null }), trade({ id: "b", entryPrice: 0.5 })],
+      { "1": { yesPrice: 0.75 } },
+      {}
+    );
+
+    expect(positions[0]).toMatchObject({
+      unpricedTrades: 1,
+      shares: 200,
+      marketValue: 250,
+      unrealizedPnl: 48,
+    });
+  });
+
+  it("converts 18-decimal amounts to dollars", () => {
+    expect(weiToUsd("2500000000000000000")).toBe(2.5);
+    expect(weiToUsd("not a number")).toBe(0);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { buildCandles, isCandleInterval } from "../lib/priceHistory";
+
+const MINUTE = 60_000;
+
+describe("price history candles", () => {
+  it("aggregates unsorted points into OHLC candles per interval", () => {
+    const base = Date.UTC(2025, 0, 1, 12, 0, 0);
+    const candles = buildCandles(
+      [
+        { price: 0.52, timestamp: base + 30_000 },
+        { price: 0.5, timestamp: base },
+        { price: 0.55, timestamp: base + 10_000 },
+        { price: 0.48, timestamp: base + 50_000 },
+        { price: 0.6, timestamp: base + MINUTE + 5_000 },
+      ],
+      "1m"
+    );
+
+    expect(candles).toEqual([
+      { openTime: base, open: 0.5, high: 0.55, low: 0.48, close: 0.48, samples: 4 },
+      { openTime: base + MINUTE, open: 0.6, high: 0.6, low: 0.6, close: 0.6, samples: 1 },
+    ]);
+  });
+
+  it("skips empty intervals instead of forward-filling", () => {
+    const base = Date.UTC(2025, 0, 1);
+    const candles = buildCandles(
+      [
+        { price: 0.4, timestamp: base },
+        { price: 0.45, timestamp: base + 3 * 60 * MINUTE },
+      ],
+      "1h"
+    );
+
+    expect(candles.map((candle) => candle.openTime)).toEqual([base, base + 3 * 60 * MINUTE]);
+  });
+
+  it("only accepts supported intervals", () => {
+    expect(isCandleInterval("1d")).toBe(true);
+    expect(isCandleInterval("5m")).toBe(false);
+    expect(isCandleInterval("toString")).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { analyzeClusterResolution, extractResolutionCriteria } from "../lib/resolutionCriteria";
+import { findBestArbitrage } from "../lib/arbitrage";
+import type { ClusterMarket, MarketCluster } from "../lib/types";
+
+const makeMarket = (
+  platform: ClusterMarket["platform"],
+  yesPrice: number,
+  description?: string,
+  expiresAt?: number
+): ClusterMarket => ({
+  platform,
+  marketId: `${platform}-btc`,
+  marketTitle: "Bitcoin above $100k on Dec 31?",
+  marketUrl: `https://example.com/${platform}`,
+  yesPrice,
+  noPrice: 1 - yesPrice,
+  description,
+  expiresAt,
+});
+
+const makeCluster = (markets: ClusterMarket[]): MarketCluster => ({
+  id: "btc-100k",
+  title: "Bitcoin above $100k on Dec 31?",
+  normalizedTitle: "bitcoin above 100k on dec 31",
+  themeKey: "crypto",
+  platformCount: new Set(markets.map((market) => market.platform)).size,
+  markets,
+});
+
+describe("resolution criteria", () => {
+  it("extracts source, deadline and timezone from rules text", () => {
+    expect(
+      extractResolutionCriteria(
+        "This market resolves according to the Coinbase BTC-USD spot price at 12:00 PM ET on December 31, 2025."
+      )
+    ).toEqual({
+      source: "coinbase",
+      timezone: "ET",
+      deadline: Date.UTC(2025, 11, 31, 17, 0),
+    });
+
+    expect(
+      extractResolutionCriteria(
+        "The resolution source for this market is https://www.binance.com/en/trade/BTC_USDT, as of midnight UTC."
+      )
+    ).toEqual({ source: "binance", timezone: "UTC" });
+
+    expect(extractResolutionCriteria(undefined, 1_700_000_000_000)).toEqual({ deadline: 1_700_000_000_000 });
+  });
+
+  it("flags mismatched terms and downgrades cluster confidence", () => {
+    const cluster = analyzeClusterResolution(
+      makeCluster([
+        makeMarket("polymarket", 0.4, "Resolves based on Binance BTC/USDT at 23:59 UTC on December 31, 2025."),
+        makeMarket("kalshi", 0.45, "Resolves according to CF Benchmarks at 12:00 PM ET on December 31, 2025."),
+        makeMarket("limitless", 0.42),
+      ])
+    );
+
+    expect(cluster.resolutionMismatches?.map((mismatch) => [mismatch.field, mismatch.severity])).toEqual([
+      ["source", "major"],
+      ["deadline", "minor"],
+      ["timezone", "minor"],
+    ]);
+    expect(cluster.resolutionMismatches?.[0].values).toEqual([
+      { platform: "polymarket", marketId: "polymarket-btc", value: "binance" },
+      { platform: "kalshi", marketId: "kalshi-btc", value: "cf benchmarks" },
+    ]);
+    expect(cluster.confidence).toBeCloseTo(0.5 * 0.85 * 0.9);
+
+    const consistent = analyzeClusterResolution(
+      makeCluster([
+        makeMarket("polymarket", 0.4, "Resolution source: Coinbase. Closes 11:59 PM ET on December 31, 2025."),
+        makeMarket("opinion", 0.45, "Settles on the Coinbase price at 11:59 PM EST, December 31, 2025"),
+      ])
+    );
+    expect(consistent.resolutionMismatches).toEqual([]);
+    expect(consistent.confidence).toBe(1);
+  });
+
+  it("scores arbitrage legs on their own resolution terms", () => {
+    const cluster = analyzeClusterResolution(
+      makeCluster([
+        makeMarket("polymarket", 0.4, "Resolution source: Coinbase.", Date.UTC(2025, 11, 31)),
+        makeMarket("kalshi", 0.5, "Resolution source: Binance.", Date.UTC(2025, 11, 31)),
+      ])
+    );
+
+    const best = findBestArbitrage(cluster, 0);
+    expect(best?.confidence).toBe(0.5);
+    expect(best?.resolutionMismatches?.map((mismatch) => mismatch.field)).toEqual(["source"]);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { field, formatParseReport, object, optional, parseRecords, price, text, timestamp } from "../lib/schema";
+import {
+  kalshiMarketSchema,
+  kalshiResolutionSchema,
+  limitlessMarketSchema,
+  limitlessResolutionSchema,
+  orderbookSchema,
+} from "../lib/venueSchemas";
+
+describe("schemas", () => {
+  const schema = object({
+    id: field(["market_id", "ticker"], text, "market id"),
+    price: field(["yes_price", "outcomes.0.price"], price, "yes price"),
+    closesAt: optional("close_time", timestamp),
+  });
+
+  it("reads the first present alias, nested paths included, and normalizes values", () => {
+    expect(schema({ ticker: "KX-A", outcomes: [{ price: "44" }], close_time: "2027-12-31T23:59:59Z" }, "market")).toEqual({
+      ok: true,
+      value: { id: "KX-A", price: 0.44, closesAt: Date.UTC(2027, 11, 31, 23, 59, 59) },
+    });
+    // Blank strings count as absent; a present but malformed alias is not skipped
+    expect(schema({ market_id: "", ticker: "KX-A", yes_price: 0.5, close_time: 1_830_297_599 }, "market")).toEqual({
+      ok: true,
+      value: { id: "KX-A", price: 0.5, closesAt: 1_830_297_599_000 },
+    });
+    expect(schema({ ticker: "KX-A", yes_price: "n/a", outcomes: [{ price: 0.5 }] }, "market")).toEqual({
+      ok: false,
+      issue: { field: "yes price", problem: "invalid" },
+    });
+  });
+
+  it("drops malformed optional fields instead of the record", () => {
+    const parsed = schema({ ticker: "KX-A", yes_price: 0.5, close_time: "someday" }, "market");
+    expect(parsed).toEqual({ ok: true, value: { id: "KX-A", price: 0.5, closesAt: undefined } });
+  });
+
+  it("counts dropped records per issue and summarizes them", () => {
+    const { values, report } = parseRecords(
+      [{ ticker: "A", yes_price: 0.4 }, { ticker: "B" }, { ticker: "C" }, { yes_price: 0.3 }, "oops"],
+      schema,
+      "market"
+    );
+
+    expect(values.map((value) => value.id)).toEqual(["A"]);
+    expect(report).toEqual({
+      received: 5,
+      dropped: 4,
+      issues: { "missing yes price": 2, "missing market id": 1, "invalid market": 1 },
+    });
+    expect(formatParseReport(report)).toBe(
+      "4 of 5 markets dropped: missing yes price (2), invalid market (1), missing market id (1)"
+    );
+    expect(formatParseReport({ received: 50, dropped: 42, issues: { "missing yes price": 42 } })).toBe(
+      "42 of 50 markets dropped: missing yes price"
+    );
+    expect(formatParseReport({ received: 3, dropped: 0, issues: {} })).toBeUndefined();
+  });
+});
+
+describe("venue schemas", () => {
+  it("parses categorical DFlow markets by outcome and binary ones by yes price", () => {
+    const categorical = kalshiMarketSchema(
+      {
+        ticker: "KXPRES-28",
+        title: "Presidential Election Winner 2028",
+        outcomes: [
+          { name: "Newsom", price: 32 },
+          { name: "Vance", price: 28 },
+          { title: "Other" },
+        ],
+      },
+      "market"
+    );
+    expect(categorical.ok && "outcomes" in categorical.value && categorical.value.outcomes).toEqual([
+      { label: "Newsom", price: 0.32 },
+      { label: "Vance", price: 0.28 },
+      { label: "Other", price: undefined },
+    ]);
+
+    const binary = kalshiMarketSchema(
+      { ticker: "KX-A", title: "Market A", outcomes: [{ name: "Yes", price: 0.4 }, { name: "No", price: 0.6 }] },
+      "market"
+    );
+    expect(binary.ok && "price" in binary.value && binary.value.price).toBe(0.4);
+
+    expect(kalshiMarketSchema({ ticker: "KX-B", title: "Market B" }, "market")).toEqual({
+      ok: false,
+      issue: { field: "yes price", problem: "missing" },
+    });
+  });
+
+  it("takes the first valid Limitless price entry before market price fields", () => {
+    const parse = (prices: unknown) => limitlessMarketSchema({ id: 9001, title: "BTC", prices, yesPrice: 0.6 }, "market");
+
+    expect(parse([null, { value: "46.5" }, 53.5])).toMatchObject({ ok: true, value: { marketId: "9001", price: 0.465 } });
+    expect(parse([])).toMatchObject({ ok: true, value: { price: 0.6 } });
+  });
+
+  it("requires a YES or NO winner on resolved markets", () => {
+    const categorical = kalshiResolutionSchema(
+      {
+        ticker: "KXPRES-24",
+        title: "Presidential Election Winner 2024",
+        outcomes: [{ name: "Trump", winner: true }, { name: "Harris", result: "no" }, { name: "Other" }],
+      },
+      "market"
+    );
+    expect(categorical.ok && "outcomes" in categorical.value && categorical.value.outcomes).toEqual([
+      { label: "Trump", result: "yes" },
+      { label: "Harris", result: "no" },
+      { label: "Other", result: undefined },
+    ]);
+
+    expect(kalshiResolutionSchema({ ticker: "KX-A", title: "Market A", result: "YES" }, "market")).toMatchObject({
+      ok: true,
+      value: { marketId: "KX-A", outcome: "yes" },
+    });
+    expect(kalshiResolutionSchema({ ticker: "KX-B", title: "Market B", result: "void" }, "market")).toEqual({
+      ok: false,
+      issue: { field: "outcome", problem: "invalid" },
+    });
+
+    const limitless = (market: Record<string, unknown>) =>
+      limitlessResolutionSchema({ id: 9001, title: "BTC", ...market }, "market");
+    expect(limitless({ winningOutcomeIndex: "1", winningOutcome: "Yes" })).toMatchObject({ value: { outcome: "no" } });
+    expect(limitless({ winningOutcomeIndex: 2, result: "yes" })).toMatchObject({ value: { outcome: "yes" } });
+    expect(limitless({})).toEqual({ ok: false, issue: { field: "outcome", problem: "missing" } });
+  });
+
+  it("keeps valid orderbook levels and requires at least one side", () => {
+    expect(
+      orderbookSchema({ asset_id: "71", bids: [{ price: "0.44", size: "100" }, { price: "2", size: "5" }] }, "book")
+    ).toEqual({
+      ok: true,
+      value: { tokenId: "71", bids: [{ price: 0.44, size: 100 }], asks: [], timestamp: undefined },
+    });
+    expect(orderbookSchema({ errno: 0 }, "book")).toEqual({ ok: false, issue: { field: "levels", problem: "missing" } });
+  });
+});
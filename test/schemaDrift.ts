@@ -0,0 +1,140 @@
+/**
+ * Schema drift between two recordings of a venue
+ *
+ * Flattens every JSON response body in a cassette into field paths
+ * (`result.list[].marketId`) with the value types seen at each path, per
+ * endpoint, then lists fields a new recording added or removed and fields
+ * whose types changed. Error responses are ignored.
+ */
+
+import type { Cassette } from "./cassettes";
+
+// --- Types ---
+
+export interface FieldTypeChange {
+  path: string;
+  from: string; // e.g. "string" or "null|number"
+  to: string;
+}
+
+export interface EndpointDrift {
+  endpoint: string; // Method and path without query, e.g. "GET /markets"
+  status: "new" | "missing" | "changed"; // New and missing endpoints list no fields
+  added: string[];
+  removed: string[];
+  changed: FieldTypeChange[];
+}
+
+export interface SchemaDrift {
+  source: string;
+  endpoints: EndpointDrift[];
+}
+
+type FieldTypes = Map<string, Set<string>>;
+
+// --- Helper Functions ---
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function collectFields(value: unknown, path: string, fields: FieldTypes): void {
+  if (path) {
+    const types = fields.get(path) ?? new Set<string>();
+    types.add(typeOf(value));
+    fields.set(path, types);
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectFields(item, `${path}[]`, fields));
+  } else if (value !== null && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      collectFields(child, path ? `${path}.${key}` : key, fields);
+    }
+  }
+}
+
+/**
+ * Field types per endpoint across every successful JSON response
+ */
+function collectEndpoints(cassette: Cassette | null): Map<string, FieldTypes> {
+  const endpoints = new Map<string, FieldTypes>();
+
+  for (const { request, response } of cassette?.interactions ?? []) {
+    if (response.status < 200 || response.status >= 300 || response.json === undefined) {
+      continue;
+    }
+    const endpoint = `${request.method} ${request.url.split("?")[0]}`;
+    const fields = endpoints.get(endpoint) ?? new Map<string, Set<string>>();
+    collectFields(response.json, "", fields);
+    endpoints.set(endpoint, fields);
+  }
+
+  return endpoints;
+}
+
+function formatTypes(types: Set<string>): string {
+  return Array.from(types).sort().join("|");
+}
+
+// --- Public API ---
+
+/**
+ * Compare a new recording of a source against the stored one
+ *
+ * A missing stored cassette counts every endpoint as new.
+ */
+export function diffCassettes(stored: Cassette | null, recorded: Cassette): SchemaDrift {
+  const before = collectEndpoints(stored);
+  const after = collectEndpoints(recorded);
+  const endpoints: EndpointDrift[] = [];
+
+  for (const endpoint of Array.from(new Set([...before.keys(), ...after.keys()])).sort()) {
+    const oldFields = before.get(endpoint);
+    const newFields = after.get(endpoint);
+
+    if (!oldFields || !newFields) {
+      endpoints.push({ endpoint, status: oldFields ? "missing" : "new", added: [], removed: [], changed: [] });
+      continue;
+    }
+
+    const added = Array.from(newFields.keys()).filter((path) => !oldFields.has(path)).sort();
+    const removed = Array.from(oldFields.keys()).filter((path) => !newFields.has(path)).sort();
+    const changed = Array.from(newFields.entries())
+      .filter(([path]) => oldFields.has(path))
+      .map(([path, types]) => ({ path, from: formatTypes(oldFields.get(path)!), to: formatTypes(types) }))
+      .filter((change) => change.from !== change.to)
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    if (added.length > 0 || removed.length > 0 || changed.length > 0) {
+      endpoints.push({ endpoint, status: "changed", added, removed, changed });
+    }
+  }
+
+  return { source: recorded.source, endpoints };
+}
+
+/**
+ * Human-readable drift report, one block per source with drift
+ */
+export function formatSchemaDrift(drifts: SchemaDrift[]): string {
+  const lines: string[] = [];
+
+  for (const { source, endpoints } of drifts) {
+    if (endpoints.length === 0) {
+      continue;
+    }
+    lines.push(source);
+    for (const drift of endpoints) {
+      lines.push(drift.status === "changed" ? `  ${drift.endpoint}` : `  ${drift.endpoint} (${drift.status} endpoint)`);
+      drift.added.forEach((path) => lines.push(`    + ${path}`));
+      drift.removed.forEach((path) => lines.push(`    - ${path}`));
+      drift.changed.forEach((change) => lines.push(`    ~ ${change.path}: ${change.from} -> ${change.to}`));
+    }
+  }
+
+  return lines.length > 0 ? lines.join("\n") : "No schema drift";
+}
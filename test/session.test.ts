@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { NextRequest } from "next/server";
+import { privateKeyToAccount } from "viem/accounts";
+import { createSiweMessage } from "viem/siwe";
+import {
+  SESSION_COOKIE,
+  createSession,
+  createSessionToken,
+  readSessionToken,
+  requireSession,
+  verifySiweLogin,
+} from "../lib/session";
+import { getAdminActor, isAdminRequest } from "../lib/security";
+
+const SECRET = "test-session-secret-at-least-32-characters";
+const NOW = 1_750_000_000_000;
+
+const account = privateKeyToAccount("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+
+const requestWithSession = (address: string) => {
+  const token = createSessionToken(createSession({ address, chainId: 56 }), SECRET);
+  return new NextRequest("https://pm.ag/api/portfolio", {
+    headers: { cookie: `${SESSION_COOKIE}=${token}` },
+  });
+};
+
+beforeEach(() => {
+  process.env.SESSION_SECRET = SECRET;
+  process.env.ADMIN_ADDRESSES = account.address;
+});
+
+afterEach(() => {
+  delete process.env.SESSION_SECRET;
+  delete process.env.ADMIN_ADDRESSES;
+  delete process.env.ADMIN_API_TOKEN;
+});
+
+describe("SIWE sessions", () => {
+  it("verifies SIWE logins against domain, nonce and signer", async () => {
+    const message = createSiweMessage({
+      address: account.address,
+      chainId: 56,
+      domain: "pm.ag",
+      uri: "https://pm.ag",
+      nonce: "a1b2c3d4e5f6a7b8",
+      version: "1",
+      issuedAt: new Date(NOW),
+    });
+    const signature = await account.signMessage({ message });
+
+    await expect(
+      verifySiweLogin({ message, signature, nonce: "a1b2c3d4e5f6a7b8", domain: "pm.ag", now: NOW })
+    ).resolves.toEqual({ address: account.address.toLowerCase(), chainId: 56 });
+
+    await expect(
+      verifySiweLogin({ message, signature, nonce: "ffffffffffffffff", domain: "pm.ag", now: NOW })
+    ).resolves.toHaveProperty("error");
+    await expect(
+      verifySiweLogin({ message, signature, nonce: "a1b2c3d4e5f6a7b8", domain: "evil.example", now: NOW })
+    ).resolves.toHaveProperty("error");
+    await expect(
+      verifySiweLogin({ message, signature: `0x${"11".repeat(65)}`, nonce: "a1b2c3d4e5f6a7b8", domain: "pm.ag", now: NOW })
+    ).resolves.toHaveProperty("error");
+  });
+
+  it("rejects tampered and expired session tokens", () => {
+    const session = createSession({ address: account.address.toLowerCase(), chainId: 56 }, NOW);
+    const token = createSessionToken(session, SECRET);
+
+    expect(readSessionToken(token, SECRET, NOW + 1000)).toEqual(session);
+    expect(session.role).toBe("admin");
+
+    const [payload, signature] = token.split(".");
+    const forged = Buffer.from(JSON.stringify({ ...session, role: "admin", address: "0xabc" })).toString("base64url");
+    expect(readSessionToken(`${forged}.${signature}`, SECRET, NOW)).toBeNull();
+    expect(readSessionToken(`${payload}.${signature}`, "another-secret-that-is-32-characters-long", NOW)).toBeNull();
+    expect(readSessionToken(token, SECRET, session.expiresAt + 1)).toBeNull();
+  });
+
+  it("gates routes by session and role", async () => {
+    const admin = requestWithSession(account.address.toLowerCase());
+    const user = requestWithSession("0x000000000000000000000000000000000000dead");
+    const anonymous = new NextRequest("https://pm.ag/api/portfolio");
+
+    expect(requireSession(admin, "admin")).toHaveProperty("session.role", "admin");
+    expect(isAdminRequest(admin)).toBe(true);
+
+    const forbidden = requireSession(user, "admin");
+    expect("response" in forbidden && forbidden.response.status).toBe(403);
+    expect(isAdminRequest(user)).toBe(false);
+
+    const unauthorized = requireSession(anonymous);
+    expect("response" in unauthorized && unauthorized.response.status).toBe(401);
+
+    delete process.env.SESSION_SECRET;
+    expect(requireSession(admin)).toHaveProperty("response");
+  });
+
+  it("identifies admin actors by allowlisted session or API token", () => {
+    const admin = requestWithSession(account.address.toLowerCase());
+    expect(getAdminActor(admin)).toBe(account.address.toLowerCase());
+
+    // Dropping the wallet from the allowlist revokes its existing session's admin role
+    process.env.ADMIN_ADDRESSES = "";
+    expect(getAdminActor(admin)).toBeNull();
+
+    process.env.ADMIN_API_TOKEN = "admin-token";
+    const bearer = (token: string) =>
+      new NextRequest("https://pm.ag/api/admin/audit-log", { headers: { authorization: `Bearer ${token}` } });
+    expect(getAdminActor(bearer("admin-token"))).toBe("api-token");
+    expect(getAdminActor(bearer("admin-tokem"))).toBeNull();
+  });
+});
@@ -0,0 +1,222 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { startMockExchange, type MockExchange } from "./mockExchange";
+
+vi.mock("../lib/database/queries", () => ({
+  getAlertRules: vi.fn().mockResolvedValue([]),
+  getClusterOverrides: vi.fn().mockResolvedValue([]),
+  recordAlertEvent: vi.fn(),
+  recordPriceSnapshots: vi.fn().mockResolvedValue(undefined),
+  downsamplePriceSnapshots: vi.fn().mockResolvedValue(0),
+}));
+
+const BTC_TITLE = "Will Bitcoin reach $150,000 by December 31, 2027?";
+const BTC_EXPIRY = Date.UTC(2027, 11, 31, 23, 59, 59);
+
+let exchange: MockExchange;
+
+/** Fresh copies of the clients, so caches and HTTP metrics start empty in every test */
+async function loadModules() {
+  const [{ platformFetchers }, { getHttpMetrics }, route] = await Promise.all([
+    import("../lib/adapters"),
+    import("../lib/http"),
+    import("../app/api/markets/route"),
+  ]);
+  return { platformFetchers, getHttpMetrics, GET: route.GET };
+}
+
+const marketsRequest = () => new NextRequest("http://localhost/api/markets?limit=50");
+
+beforeAll(async () => {
+  exchange = await startMockExchange();
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await exchange.close();
+});
+
+beforeEach(() => {
+  exchange.reset();
+  for (const [key, value] of Object.entries(exchange.env)) {
+    vi.stubEnv(key, value);
+  }
+  vi.resetModules();
+
+  // Injected faults are logged on purpose
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("venue clients against the mock exchange", () => {
+  it("parses every venue's fixtures through platformFetchers", async () => {
+    const { platformFetchers } = await loadModules();
+    const [opinion, polymarket, kalshi, limitless, predictfun] = await Promise.all([
+      platformFetchers.opinion(50),
+      platformFetchers.polymarket(50),
+      platformFetchers.kalshi(50),
+      platformFetchers.limitless(50),
+      platformFetchers.predictfun(50),
+    ]);
+
+    // Categorical Opinion markets expand into their children; unpriced markets are skipped
+    expect(opinion.map((market) => [market.marketId, market.price])).toEqual([
+      ["101", 0.42],
+      ["1021", 0.31],
+      ["1022", 0.27],
+    ]);
+    expect(opinion[0]).toMatchObject({ yesTokenId: "op-yes-101", noPrice: 0.59, expiresAt: BTC_EXPIRY });
+    // NO prices come from the venue only; tokens without a quote leave them unset
+    expect(opinion[1].noPrice).toBeUndefined();
+    expect(opinion[1].marketTitle).toBe("Presidential Election Winner 2028 - Gavin Newsom");
+
+    // Archived and unpriced markets are dropped; ISO end dates are kept
+    expect(polymarket).toHaveLength(2);
+    expect(polymarket[0]).toMatchObject({ marketTitle: BTC_TITLE, price: 0.45, noPrice: 0.55, expiresAt: BTC_EXPIRY });
+    expect(polymarket[0].yesTokenId).toMatch(/^7132/);
+
+    // Cent prices are normalized and outcome lists become one binary market each
+    expect(kalshi.map((market) => [market.marketId, market.price])).toEqual([
+      ["KXBTCMAX-27DEC31-150000", 0.44],
+      ["KXPRES-28:0", 0.32],
+      ["KXPRES-28:1", 0.28],
+      ["KXPRES-28:2", 0.09],
+    ]);
+    expect(kalshi[0].expiresAt).toBe(BTC_EXPIRY);
+    expect(kalshi.slice(1).every((market) => market.noPrice === undefined)).toBe(true);
+
+    expect(limitless).toEqual([
+      expect.objectContaining({ marketId: "9001", price: 0.465, expiresAt: BTC_EXPIRY }),
+    ]);
+    expect(predictfun.map((market) => [market.marketId, market.price])).toEqual([
+      ["pf-btc-150k-2027", 0.43],
+      ["pf-fed-cut-mar-2027", 0.61],
+    ]);
+  });
+
+  it("serves /api/markets with one cluster spanning all five venues, then from cache", async () => {
+    const { GET } = await loadModules();
+
+    const response = await GET(marketsRequest());
+    expect(response.status).toBe(200);
+    expect(response.headers.get("X-Cache")).toBe("MISS");
+
+    // Every venue's fixtures include a market without a price on purpose
+    const body = await response.json();
+    expect(body.sources.predictfun).toEqual({ status: "live" });
+    expect(body.sources.opinion).toEqual({
+      status: "live",
+      warning: "1 of 4 markets dropped: missing yes price",
+      parse: { received: 4, dropped: 1, issues: { "missing yes price": 1 } },
+    });
+    expect(
+      [body.sources.polymarket, body.sources.kalshi, body.sources.limitless].map((state: any) => state.warning)
+    ).toEqual([
+      "1 of 3 markets dropped: missing yes price",
+      "1 of 3 markets dropped: missing yes price",
+      "1 of 2 markets dropped: missing yes price",
+    ]);
+
+    const btc = body.clusters.find((cluster: any) =>
+      cluster.markets.some((market: any) => market.marketTitle === BTC_TITLE)
+    );
+    expect(btc.markets.map((market: any) => market.platform).sort()).toEqual([
+      "kalshi",
+      "limitless",
+      "opinion",
+      "polymarket",
+      "predictfun",
+    ]);
+
+    const requestCount = exchange.requests.length;
+    const cached = await GET(marketsRequest());
+    expect(cached.headers.get("X-Cache")).toBe("HIT");
+    expect(exchange.requests).toHaveLength(requestCount);
+  });
+
+  it("retries rate-limited requests", async () => {
+    const { platformFetchers, getHttpMetrics } = await loadModules();
+    exchange.setFault("opinion", { status: 429, times: 1 });
+
+    await expect(platformFetchers.opinion(50)).resolves.toHaveLength(3);
+
+    const listings = exchange.requests.filter((request) => request.path === "/market");
+    expect(listings.map((request) => request.status)).toEqual([429, 200]);
+    expect(getHttpMetrics("opinion")?.retries).toBe(1);
+  });
+
+  it("reports a venue failing with 5xx as an error without holding back the others", async () => {
+    const { GET } = await loadModules();
+    exchange.setFault("opinion", { status: 503 });
+
+    const body = await (await GET(marketsRequest())).json();
+
+    expect(body.sources.opinion).toEqual({ status: "error", error: "Opinion API error: 503 Service Unavailable" });
+    expect(body.sources.kalshi.status).toBe("live");
+    expect(body.list.some((market: any) => market.platform === "opinion")).toBe(false);
+    expect(body.list.length).toBeGreaterThan(0);
+  });
+
+  it("drops truncated and unexpectedly shaped payloads", async () => {
+    const { platformFetchers } = await loadModules();
+    exchange.setFault("limitless", { malformed: true });
+    exchange.setFixture("kalshi", "/markets", { error: { code: "maintenance" } });
+
+    await expect(platformFetchers.limitless(50)).resolves.toEqual([]);
+    await expect(platformFetchers.kalshi(50)).resolves.toEqual([]);
+    await expect(platformFetchers.predictfun(50)).resolves.toHaveLength(2);
+  });
+
+  it("counts markets that fail validation per field in the source state", async () => {
+    const { GET } = await loadModules();
+    exchange.setFixture("kalshi", "/markets", {
+      markets: [
+        { ticker: "KX-A", title: "Market A", yes_price: 44 },
+        { title: "No ticker", yes_price: 30 },
+        { ticker: "KX-C", title: "Market C" },
+        { ticker: "KX-D", title: "Market D", yes_price: "n/a" },
+        { ticker: "KX-E", title: "Market E", last_price: null },
+      ],
+    });
+
+    const body = await (await GET(marketsRequest())).json();
+
+    expect(body.sources.kalshi).toEqual({
+      status: "live",
+      warning: "4 of 5 markets dropped: missing yes price (2), invalid yes price (1), missing market id (1)",
+      parse: {
+        received: 5,
+        dropped: 4,
+        issues: { "missing market id": 1, "missing yes price": 2, "invalid yes price": 1 },
+      },
+    });
+    expect(
+      body.list.filter((market: any) => market.platform === "kalshi").map((market: any) => [market.marketId, market.price])
+    ).toEqual([["KX-A", 0.44]]);
+  });
+
+  it("counts Opinion price responses that fail their envelope or schema in the source state", async () => {
+    const { GET } = await loadModules();
+    exchange.setFixture("opinion", "/token/latest-price?token_id=op-yes-1021", { errno: 10403, errmsg: "Token not found" });
+    exchange.setFixture("opinion", "/token/latest-price?token_id=op-yes-1022", { errno: 0, result: { tokenId: "op-yes-1022" } });
+
+    const body = await (await GET(marketsRequest())).json();
+
+    expect(body.sources.opinion).toMatchObject({
+      status: "live",
+      parse: { dropped: 3, issues: { "invalid yes price response": 1, "missing yes price": 2 } },
+    });
+    expect(body.list.filter((market: any) => market.platform === "opinion").map((market: any) => market.marketId)).toEqual([
+      "101",
+    ]);
+  });
+
+  it("records injected latency in the HTTP metrics", async () => {
+    const { platformFetchers, getHttpMetrics } = await loadModules();
+    exchange.setFault("polymarket", { latencyMs: 150 });
+
+    await expect(platformFetchers.polymarket(50)).resolves.toHaveLength(2);
+    expect(getHttpMetrics("polymarket")?.averageLatencyMs).toBeGreaterThanOrEqual(140);
+  });
+});
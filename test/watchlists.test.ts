@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "../app/api/watchlists/route";
+import { SESSION_COOKIE, createSession, createSessionToken } from "../lib/session";
+import { parseWatchlistInput, resolveWatchlistEntries } from "../lib/watchlists";
+import type { ClusterMarket, MarketCluster } from "../lib/types";
+
+vi.mock("../lib/database/queries", () => ({
+  createWatchlist: vi.fn(),
+  getWatchlists: vi.fn().mockResolvedValue([]),
+}));
+
+const WALLET = "0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266";
+
+const makeMarket = (platform: ClusterMarket["platform"], marketId: string, title: string): ClusterMarket => ({
+  platform,
+  marketId,
+  marketTitle: title,
+  marketUrl: `https://example.com/${platform}/${marketId}`,
+  yesPrice: 0.4,
+  noPrice: 0.6,
+});
+
+describe("watchlists", () => {
+  it("validates input and drops duplicate items", () => {
+    expect(
+      parseWatchlistInput(
+        {
+          name: " Daily ",
+          items: [
+            { kind: "market", marketKey: "kalshi:BTC-25DEC31" },
+            { kind: "cluster", marketKey: "kalshi:BTC-25DEC31" },
+            { kind: "market", marketKey: "kalshi:BTC-25DEC31" },
+          ],
+        },
+        true
+      )
+    ).toEqual({
+      input: {
+        name: "Daily",
+        items: [
+          { kind: "market", marketKey: "kalshi:BTC-25DEC31" },
+          { kind: "cluster", marketKey: "kalshi:BTC-25DEC31" },
+        ],
+      },
+    });
+
+    expect(parseWatchlistInput({ items: [] }, true)).toHaveProperty("error");
+    expect(parseWatchlistInput({ items: [{ kind: "market", marketKey: "no-platform" }] }, false)).toHaveProperty(
+      "error"
+    );
+    expect(parseWatchlistInput({}, false)).toEqual({ error: "Nothing to update: send name and/or items" });
+  });
+
+  it("resolves market and cluster items against current clusters", () => {
+    const cluster: MarketCluster = {
+      id: "btc-0",
+      title: "Bitcoin above $100k on Dec 31?",
+      normalizedTitle: "bitcoin above 100k dec 31",
+      themeKey: "crypto",
+      platformCount: 2,
+      markets: [
+        makeMarket("kalshi", "BTC-25DEC31", "BTC above 100k Dec 31"),
+        makeMarket("polymarket", "123", "Bitcoin above $100k on Dec 31?"),
+      ],
+    };
+
+    const entries = resolveWatchlistEntries(
+      [
+        { kind: "market", marketKey: "kalshi:BTC-25DEC31" },
+        { kind: "cluster", marketKey: "kalshi:BTC-25DEC31" },
+        { kind: "market", marketKey: "opinion:404" },
+      ],
+      [cluster]
+    );
+
+    expect(entries.map((entry) => [entry.title, entry.markets.length])).toEqual([
+      ["BTC above 100k Dec 31", 1],
+      ["Bitcoin above $100k on Dec 31?", 2],
+      ["opinion:404", 0],
+    ]);
+  });
+
+  it("serves watchlists to a SIWE session and not to bare wallet headers", async () => {
+    const secret = "test-session-secret-at-least-32-characters";
+    vi.stubEnv("SESSION_SECRET", secret);
+    try {
+      const token = createSessionToken(createSession({ address: WALLET, chainId: 56 }), secret);
+      const withSession = await GET(
+        new NextRequest("http://localhost/api/watchlists", { headers: { cookie: `${SESSION_COOKIE}=${token}` } })
+      );
+      const withWalletHeaders = await GET(
+        new NextRequest("http://localhost/api/watchlists", {
+          headers: { "x-wallet-address": WALLET, "x-wallet-issued-at": String(Date.now()), "x-wallet-signature": "0x00" },
+        })
+      );
+
+      expect(withSession.status).toBe(200);
+      await expect(withSession.json()).resolves.toEqual({ watchlists: [] });
+      expect(withWalletHeaders.status).toBe(401);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
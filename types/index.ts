@@ -11,4 +11,5 @@ export type {
   MarketsResponse,
   PlatformSource,
   PlatformSourceState,
+  ParseReport,
 } from "@/lib/types";
@@ -1,6 +1,17 @@
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
 import { defineConfig } from "vitest/config";
 
+const root = dirname(fileURLToPath(import.meta.url));
+
 export default defineConfig({
+  resolve: {
+    alias: {
+      "@": root,
+      // Server modules are tested directly, outside a React Server Components build
+      "server-only": join(root, "node_modules/server-only/empty.js"),
+    },
+  },
   test: {
     environment: "node",
     include: ["test/**/*.test.ts"],